@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `exam_invitations` ADD COLUMN `revoked_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `exam_invitations_revoked_at_idx` ON `exam_invitations`(`revoked_at`);
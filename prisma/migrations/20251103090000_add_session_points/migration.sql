@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE `exam_sessions` ADD COLUMN `points_earned` DOUBLE NULL,
+    ADD COLUMN `total_points` DOUBLE NULL;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE `questions` ADD COLUMN `marking_rubric` TEXT NULL;
+
+-- AlterTable
+ALTER TABLE `exam_sessions` ADD COLUMN `grading_status` VARCHAR(191) NOT NULL DEFAULT 'graded';
+
+-- AlterTable
+ALTER TABLE `exam_answers` ADD COLUMN `feedback` TEXT NULL,
+    ADD COLUMN `marked_at` DATETIME(3) NULL,
+    ADD COLUMN `marked_by` VARCHAR(191) NULL,
+    ADD COLUMN `points_awarded` DOUBLE NULL;
+
+-- CreateIndex
+CREATE INDEX `exam_sessions_grading_status_idx` ON `exam_sessions`(`grading_status`);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `exams` ADD COLUMN `allow_answer_changes` BOOLEAN NULL;
+
+-- AlterTable
+ALTER TABLE `exam_sessions` ADD COLUMN `allow_answer_changes` BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `exam_sessions` ADD COLUMN `flagged_questions` TEXT NULL;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `exam_sessions` ADD COLUMN `completion_reason` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `exam_sessions_status_started_at_idx` ON `exam_sessions`(`status`, `started_at`);
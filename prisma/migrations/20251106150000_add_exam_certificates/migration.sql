@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `exam_certificates` (
+    `id` VARCHAR(191) NOT NULL,
+    `session_id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `exam_id` VARCHAR(191) NOT NULL,
+    `verification_code` VARCHAR(191) NOT NULL,
+    `candidate_name` VARCHAR(191) NOT NULL,
+    `exam_title` VARCHAR(191) NOT NULL,
+    `score` DOUBLE NOT NULL,
+    `issued_at` DATETIME(3) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `exam_certificates_session_id_key`(`session_id`),
+    UNIQUE INDEX `exam_certificates_verification_code_key`(`verification_code`),
+    INDEX `exam_certificates_user_id_idx`(`user_id`),
+    INDEX `exam_certificates_exam_id_idx`(`exam_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `exam_certificates` ADD CONSTRAINT `exam_certificates_session_id_fkey` FOREIGN KEY (`session_id`) REFERENCES `exam_sessions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
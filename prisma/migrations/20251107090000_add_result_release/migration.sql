@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE `exams` ADD COLUMN `result_release_mode` VARCHAR(191) NOT NULL DEFAULT 'immediate',
+    ADD COLUMN `results_release_at` DATETIME(3) NULL,
+    ADD COLUMN `results_released_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `exams_result_release_mode_results_release_at_idx` ON `exams`(`result_release_mode`, `results_release_at`);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `exams` ADD COLUMN `is_adaptive` BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX `exams_is_adaptive_subject_idx` ON `exams`(`is_adaptive`, `subject`);
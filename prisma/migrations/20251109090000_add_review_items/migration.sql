@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE `review_items` (
+    `id` VARCHAR(191) NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `question_id` VARCHAR(191) NOT NULL,
+    `ease_factor` DOUBLE NOT NULL DEFAULT 2.5,
+    `interval` INTEGER NOT NULL DEFAULT 0,
+    `repetitions` INTEGER NOT NULL DEFAULT 0,
+    `lapses` INTEGER NOT NULL DEFAULT 0,
+    `due_at` DATETIME(3) NOT NULL,
+    `last_quality` INTEGER NULL,
+    `last_reviewed_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `review_items_user_id_question_id_key`(`user_id`, `question_id`),
+    INDEX `review_items_user_id_due_at_idx`(`user_id`, `due_at`),
+    INDEX `review_items_question_id_idx`(`question_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `review_items` ADD CONSTRAINT `review_items_user_id_fkey` FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `review_items` ADD CONSTRAINT `review_items_question_id_fkey` FOREIGN KEY (`question_id`) REFERENCES `questions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
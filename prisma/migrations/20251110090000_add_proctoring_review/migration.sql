@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE `exam_sessions` ADD COLUMN `proctoring_status` VARCHAR(191) NOT NULL DEFAULT 'unreviewed',
+    ADD COLUMN `proctoring_note` TEXT NULL,
+    ADD COLUMN `reviewed_by` VARCHAR(191) NULL,
+    ADD COLUMN `reviewed_at` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `exam_sessions_violation_count_idx` ON `exam_sessions`(`violation_count`);
+
+-- CreateIndex
+CREATE INDEX `exam_sessions_proctoring_status_idx` ON `exam_sessions`(`proctoring_status`);
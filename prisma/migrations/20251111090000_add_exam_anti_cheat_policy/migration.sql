@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `exams` ADD COLUMN `anti_cheat_policy` TEXT NULL;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE `exam_session_events` (
+    `id` VARCHAR(191) NOT NULL,
+    `session_id` VARCHAR(191) NOT NULL,
+    `type` VARCHAR(191) NOT NULL,
+    `ip_address` VARCHAR(191) NULL,
+    `user_agent` TEXT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `exam_session_events_session_id_idx`(`session_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `exam_session_events` ADD CONSTRAINT `exam_session_events_session_id_fkey` FOREIGN KEY (`session_id`) REFERENCES `exam_sessions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE `exam_sections` (
+    `id` VARCHAR(191) NOT NULL,
+    `exam_id` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `instructions` TEXT NULL,
+    `order_index` INTEGER NOT NULL,
+    `time_limit` INTEGER NULL,
+    `allow_return` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `exam_sections_exam_id_order_index_idx`(`exam_id`, `order_index`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `exam_questions` ADD COLUMN `section_id` VARCHAR(191) NULL;
+
+-- AlterTable
+ALTER TABLE `exam_sessions` ADD COLUMN `sections` TEXT NULL;
+
+-- CreateIndex
+CREATE INDEX `exam_questions_section_id_idx` ON `exam_questions`(`section_id`);
+
+-- AddForeignKey
+ALTER TABLE `exam_sections` ADD CONSTRAINT `exam_sections_exam_id_fkey` FOREIGN KEY (`exam_id`) REFERENCES `exams`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `exam_questions` ADD CONSTRAINT `exam_questions_section_id_fkey` FOREIGN KEY (`section_id`) REFERENCES `exam_sections`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE `questions` MODIFY `question_text` MEDIUMTEXT NOT NULL,
+    MODIFY `answer_explanation` MEDIUMTEXT NULL;
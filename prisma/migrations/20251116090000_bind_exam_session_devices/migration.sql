@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `exam_sessions` ADD COLUMN `device_token_hash` CHAR(64) NULL;
+
+-- AlterTable
+ALTER TABLE `exam_session_events` ADD COLUMN `device_token_hash` CHAR(64) NULL;
@@ -0,0 +1,25 @@
+import { Metadata } from "next";
+import { ExamAnalytics } from "@/components/admin/exams/exam-analytics";
+
+// ============================================
+// METADATA
+// ============================================
+
+export const metadata: Metadata = {
+  title: "Exam Analytics | Admin Dashboard",
+  description: "Attempts, scores, violations and hardest questions for an exam",
+};
+
+// ============================================
+// PAGE COMPONENT
+// ============================================
+
+export default async function ExamAnalyticsPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return <ExamAnalytics examId={id} />;
+}
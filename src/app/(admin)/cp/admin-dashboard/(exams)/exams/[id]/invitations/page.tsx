@@ -0,0 +1,26 @@
+import { Metadata } from "next";
+import { ExamInvitationsManager } from "@/components/admin/exams/exam-invitations-manager";
+
+// ============================================
+// METADATA
+// ============================================
+
+export const metadata: Metadata = {
+  title: "Exam Invitations | Admin Dashboard",
+  description:
+    "Invite candidates to recruitment, competition and challenge exams",
+};
+
+// ============================================
+// PAGE COMPONENT
+// ============================================
+
+export default async function ExamInvitationsPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return <ExamInvitationsManager examId={id} />;
+}
@@ -0,0 +1,25 @@
+import { Metadata } from "next";
+import { SessionMarking } from "@/components/admin/exams/session-marking";
+
+// ============================================
+// METADATA
+// ============================================
+
+export const metadata: Metadata = {
+  title: "Mark Session | Admin Dashboard",
+  description: "Award points and feedback for essay answers",
+};
+
+// ============================================
+// PAGE COMPONENT
+// ============================================
+
+export default async function SessionMarkingPage({
+  params,
+}: {
+  params: Promise<{ sessionId: string }>;
+}) {
+  const { sessionId } = await params;
+
+  return <SessionMarking sessionId={sessionId} />;
+}
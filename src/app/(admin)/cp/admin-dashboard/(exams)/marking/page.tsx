@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import { MarkingQueue } from "@/components/admin/exams/marking-queue";
+
+// ============================================
+// METADATA
+// ============================================
+
+export const metadata: Metadata = {
+  title: "Marking Queue | Admin Dashboard",
+  description: "Mark essay answers from completed exam sessions",
+};
+
+// ============================================
+// PAGE COMPONENT
+// ============================================
+
+export default function MarkingQueuePage() {
+  return <MarkingQueue />;
+}
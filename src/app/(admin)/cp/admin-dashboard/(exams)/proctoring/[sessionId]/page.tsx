@@ -0,0 +1,25 @@
+import { Metadata } from "next";
+import { SessionProctoring } from "@/components/admin/exams/session-proctoring";
+
+// ============================================
+// METADATA
+// ============================================
+
+export const metadata: Metadata = {
+  title: "Review Session | Admin Dashboard",
+  description: "Review a session's violations and record a decision",
+};
+
+// ============================================
+// PAGE COMPONENT
+// ============================================
+
+export default async function SessionProctoringPage({
+  params,
+}: {
+  params: Promise<{ sessionId: string }>;
+}) {
+  const { sessionId } = await params;
+
+  return <SessionProctoring sessionId={sessionId} />;
+}
@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import { ProctoringQueue } from "@/components/admin/exams/proctoring-queue";
+
+// ============================================
+// METADATA
+// ============================================
+
+export const metadata: Metadata = {
+  title: "Proctoring Review | Admin Dashboard",
+  description: "Review exam sessions with recorded violations",
+};
+
+// ============================================
+// PAGE COMPONENT
+// ============================================
+
+export default function ProctoringQueuePage() {
+  return <ProctoringQueue />;
+}
@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import { ItemAnalysisReport } from "@/components/admin/exams/item-analysis-report";
+
+// ============================================
+// METADATA
+// ============================================
+
+export const metadata: Metadata = {
+  title: "Item Analysis | Admin Dashboard",
+  description: "Question difficulty, discrimination and distractor analysis",
+};
+
+// ============================================
+// PAGE COMPONENT
+// ============================================
+
+export default function ItemAnalysisPage() {
+  return <ItemAnalysisReport />;
+}
@@ -1,21 +1,11 @@
-import { ChartAreaInteractive } from "@/components/chart-area-interactive";
-import { DataTable } from "@/components/data-table";
-import { SectionCards } from "@/components/section-cards";
+import { StudentDashboard } from "@/components/dashboard/overview/student-dashboard";
+import type { Metadata } from "next";
 
-import data from "./data.json";
+export const metadata: Metadata = {
+  title: "Dashboard",
+  description: "Your exam history, scores and progress",
+};
 
-export default function Page() {
-  return (
-    <div className="flex flex-1 flex-col">
-      <div className="@container/main flex flex-1 flex-col gap-2">
-        <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
-          <SectionCards />
-          <div className="px-4 lg:px-6">
-            <ChartAreaInteractive />
-          </div>
-          <DataTable data={data} />
-        </div>
-      </div>
-    </div>
-  );
+export default function DashboardPage() {
+  return <StudentDashboard />;
 }
@@ -0,0 +1,11 @@
+import { ReviewQueue } from "@/components/dashboard/review/review-queue";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Review",
+  description: "Revisit questions you missed in practice on a spaced schedule",
+};
+
+export default function ReviewPage() {
+  return <ReviewQueue />;
+}
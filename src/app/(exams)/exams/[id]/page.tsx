@@ -0,0 +1,23 @@
+import ExamInstructions from "@/components/exams/exam-instructions";
+import React from "react";
+
+interface ExamInstructionsPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ invitation?: string }>;
+}
+
+const ExamInstructionsPage = async ({
+  params,
+  searchParams,
+}: ExamInstructionsPageProps) => {
+  const { id } = await params;
+  const { invitation } = await searchParams;
+
+  return (
+    <div>
+      <ExamInstructions examId={id} invitationToken={invitation} />
+    </div>
+  );
+};
+
+export default ExamInstructionsPage;
@@ -1,10 +1,21 @@
 import ExamInterface from "@/components/exams/exam-interface";
+import { notFound } from "next/navigation";
 import React from "react";
 
-const ExamInterfacePage = () => {
+interface ExamInterfacePageProps {
+  searchParams: Promise<{ sessionId?: string }>;
+}
+
+const ExamInterfacePage = async ({ searchParams }: ExamInterfacePageProps) => {
+  const { sessionId } = await searchParams;
+
+  if (!sessionId) {
+    notFound();
+  }
+
   return (
     <div>
-      <ExamInterface />
+      <ExamInterface sessionId={sessionId} />
     </div>
   );
 };
@@ -0,0 +1,23 @@
+import ExamResults from "@/components/exams/exam-results";
+import { notFound } from "next/navigation";
+import React from "react";
+
+interface ExamResultsPageProps {
+  searchParams: Promise<{ sessionId?: string }>;
+}
+
+const ExamResultsPage = async ({ searchParams }: ExamResultsPageProps) => {
+  const { sessionId } = await searchParams;
+
+  if (!sessionId) {
+    notFound();
+  }
+
+  return (
+    <div>
+      <ExamResults sessionId={sessionId} />
+    </div>
+  );
+};
+
+export default ExamResultsPage;
@@ -0,0 +1,12 @@
+import ResumeExamSession from "@/components/exams/resume-exam-session";
+import React from "react";
+
+const ResumeExamPage = () => {
+  return (
+    <div>
+      <ResumeExamSession />
+    </div>
+  );
+};
+
+export default ResumeExamPage;
@@ -0,0 +1,12 @@
+import SmartPracticeSetup from "@/components/exams/smart-practice-setup";
+import React from "react";
+
+const SmartPracticePage = () => {
+  return (
+    <div>
+      <SmartPracticeSetup />
+    </div>
+  );
+};
+
+export default SmartPracticePage;
@@ -0,0 +1,95 @@
+import { ArrowRight, CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import { Metadata } from "next";
+import ParticlesBackground from "@/components/ui/particles-background";
+import { verifyCertificate } from "@/lib/actions/exam-certificate";
+
+export const metadata: Metadata = {
+  title: "Verify Certificate",
+  description: "Check that an EduSmart exam certificate is genuine",
+};
+
+interface VerifyCertificatePageProps {
+  params: Promise<{ code: string }>;
+}
+
+export default async function VerifyCertificatePage({
+  params,
+}: VerifyCertificatePageProps) {
+  const { code } = await params;
+  const result = await verifyCertificate(decodeURIComponent(code));
+  const certificate = result.success ? result.data : undefined;
+
+  return (
+    <div className="relative flex min-h-screen items-center justify-center px-4">
+      <ParticlesBackground />
+      <Card className="relative z-10 w-full max-w-lg space-y-6 p-6">
+        {certificate ? (
+          <>
+            <div className="flex flex-col items-center text-center">
+              <CheckCircle2 className="h-12 w-12 text-green-600" />
+              <h3 className="mt-4">Certificate Verified</h3>
+              <p className="mt-2 text-gray-600">
+                This certificate was issued by EduSmart.
+              </p>
+            </div>
+
+            <dl className="space-y-3 rounded-lg bg-gray-50 p-4 text-sm">
+              <div className="flex justify-between gap-4">
+                <dt className="text-gray-600">Candidate</dt>
+                <dd className="text-right font-medium">
+                  {certificate.candidateName}
+                </dd>
+              </div>
+              <div className="flex justify-between gap-4">
+                <dt className="text-gray-600">Exam</dt>
+                <dd className="text-right font-medium">
+                  {certificate.examTitle}
+                </dd>
+              </div>
+              <div className="flex justify-between gap-4">
+                <dt className="text-gray-600">Score</dt>
+                <dd className="text-right font-medium">
+                  {certificate.score.toFixed(1)}%
+                </dd>
+              </div>
+              <div className="flex justify-between gap-4">
+                <dt className="text-gray-600">Issued</dt>
+                <dd className="text-right font-medium">
+                  {certificate.issuedAt.toLocaleDateString("en-GB", {
+                    day: "numeric",
+                    month: "long",
+                    year: "numeric",
+                  })}
+                </dd>
+              </div>
+              <div className="flex justify-between gap-4">
+                <dt className="text-gray-600">Verification Code</dt>
+                <dd className="text-right font-mono">
+                  {certificate.verificationCode}
+                </dd>
+              </div>
+            </dl>
+          </>
+        ) : (
+          <div className="flex flex-col items-center text-center">
+            <XCircle className="h-12 w-12 text-destructive" />
+            <h3 className="mt-4">Certificate Not Verified</h3>
+            <p className="mt-2 text-gray-600">{result.message}</p>
+          </div>
+        )}
+
+        <div className="border-t pt-6">
+          <Button variant="outline" className="w-full" asChild>
+            <Link href="/">
+              Go To Homepage
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Link>
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+/**
+ * Anti-Cheat Policy Fields
+ *
+ * Features:
+ * - Follow the category default or set a per-exam policy
+ * - Monitored violation types with a weight each
+ * - Warning and auto-submit thresholds on the weighted score
+ * - Copy/paste blocking
+ */
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  resolveAntiCheatPolicy,
+  VIOLATION_TYPE_LABELS,
+} from "@/lib/utils/exam";
+import { VIOLATION_TYPES } from "@/lib/validations/exam";
+import type { AntiCheatPolicy, ViolationType } from "@/types/exam-session";
+
+interface AntiCheatPolicyFieldsProps {
+  category: string;
+  value: AntiCheatPolicy | null; // null = category default
+  onChange: (value: AntiCheatPolicy | null) => void;
+  disabled?: boolean;
+  error?: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function describePolicy(policy: AntiCheatPolicy): string {
+  if (policy.monitoredViolations.length === 0) {
+    return policy.blockCopyPaste
+      ? "No monitoring, copy/paste blocked"
+      : "No monitoring";
+  }
+
+  const parts = [
+    `${policy.monitoredViolations.length} violation type${policy.monitoredViolations.length === 1 ? "" : "s"} monitored`,
+  ];
+  if (policy.warningThreshold !== null) {
+    parts.push(`warning at ${policy.warningThreshold} points`);
+  }
+  parts.push(
+    policy.autoSubmitThreshold !== null
+      ? `auto-submit at ${policy.autoSubmitThreshold} points`
+      : "no auto-submit"
+  );
+  if (policy.blockCopyPaste) parts.push("copy/paste blocked");
+
+  return parts.join(", ");
+}
+
+function parseThreshold(value: string): number | null {
+  const parsed = parseFloat(value);
+  return value.trim() && Number.isFinite(parsed) ? parsed : null;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function AntiCheatPolicyFields({
+  category,
+  value,
+  onChange,
+  disabled = false,
+  error,
+}: AntiCheatPolicyFieldsProps) {
+  const categoryDefault = resolveAntiCheatPolicy({ category });
+
+  const update = (changes: Partial<AntiCheatPolicy>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const toggleViolation = (type: ViolationType, checked: boolean) => {
+    if (!value) return;
+    update({
+      monitoredViolations: checked
+        ? VIOLATION_TYPES.filter(
+            (t) => t === type || value.monitoredViolations.includes(t)
+          )
+        : value.monitoredViolations.filter((t) => t !== type),
+    });
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="custom_anti_cheat_policy" className="text-sm">
+            Custom Anti-Cheat Policy
+          </Label>
+          <p className="text-xs text-gray-600 mt-1">
+            {value
+              ? describePolicy(value)
+              : `Category default: ${describePolicy(categoryDefault)}`}
+          </p>
+        </div>
+        <Switch
+          id="custom_anti_cheat_policy"
+          checked={!!value}
+          onCheckedChange={(checked) =>
+            onChange(checked ? categoryDefault : null)
+          }
+          disabled={disabled}
+        />
+      </div>
+
+      {value && (
+        <>
+          <div className="grid gap-3">
+            {VIOLATION_TYPES.map((type) => {
+              const isMonitored = value.monitoredViolations.includes(type);
+
+              return (
+                <div
+                  key={type}
+                  className="flex items-center justify-between gap-4"
+                >
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`monitor_${type}`}
+                      checked={isMonitored}
+                      onCheckedChange={(checked) =>
+                        toggleViolation(type, checked === true)
+                      }
+                      disabled={disabled}
+                    />
+                    <Label
+                      htmlFor={`monitor_${type}`}
+                      className="text-sm font-normal"
+                    >
+                      {VIOLATION_TYPE_LABELS[type]}
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label
+                      htmlFor={`weight_${type}`}
+                      className="text-xs text-gray-600"
+                    >
+                      Weight
+                    </Label>
+                    <Input
+                      id={`weight_${type}`}
+                      type="number"
+                      min="0"
+                      max="10"
+                      step="0.5"
+                      className="w-20"
+                      value={value.violationWeights[type]}
+                      onChange={(e) =>
+                        update({
+                          violationWeights: {
+                            ...value.violationWeights,
+                            [type]: parseFloat(e.target.value) || 0,
+                          },
+                        })
+                      }
+                      disabled={disabled || !isMonitored}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="warning_threshold" className="text-sm">
+                Warning Threshold
+              </Label>
+              <Input
+                id="warning_threshold"
+                type="number"
+                min="0.5"
+                max="100"
+                step="0.5"
+                placeholder="No warning"
+                value={value.warningThreshold ?? ""}
+                onChange={(e) =>
+                  update({ warningThreshold: parseThreshold(e.target.value) })
+                }
+                disabled={disabled}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="auto_submit_threshold" className="text-sm">
+                Auto-Submit Threshold
+              </Label>
+              <Input
+                id="auto_submit_threshold"
+                type="number"
+                min="0.5"
+                max="100"
+                step="0.5"
+                placeholder="Never"
+                value={value.autoSubmitThreshold ?? ""}
+                onChange={(e) =>
+                  update({
+                    autoSubmitThreshold: parseThreshold(e.target.value),
+                  })
+                }
+                disabled={disabled}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4 md:pt-6">
+              <Label htmlFor="block_copy_paste" className="text-sm">
+                Block Copy/Paste
+              </Label>
+              <Switch
+                id="block_copy_paste"
+                checked={value.blockCopyPaste}
+                onCheckedChange={(checked) =>
+                  update({ blockCopyPaste: checked })
+                }
+                disabled={disabled}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-600">
+            Each violation adds its weight to the session&apos;s score. Leave a
+            threshold blank to turn it off.
+          </p>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
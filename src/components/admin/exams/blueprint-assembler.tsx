@@ -0,0 +1,445 @@
+"use client";
+
+/**
+ * Blueprint Assembler
+ *
+ * Features:
+ * - Question counts per subject, tag and difficulty
+ * - Optional total point target
+ * - Preview with per-question swap and remove before using the draw
+ * - Avoids questions from the admin's recent exams where possible
+ */
+
+import { useState } from "react";
+import { Loader2, Plus, RefreshCw, Shuffle, X } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { assembleExamFromBlueprint } from "@/lib/actions/exam-blueprint";
+import { DIFFICULTY_LEVELS, SUBJECTS } from "@/lib/utils/exam";
+import {
+  MAX_BLUEPRINT_RULES,
+  type BlueprintRuleInput,
+  type ExamBlueprintInput,
+} from "@/lib/validations/exam-blueprint";
+import type { ExamBlueprintPreview } from "@/types/admin";
+import type { QuestionDecrypted } from "@/types/exam-api";
+
+interface BlueprintAssemblerProps {
+  examType: string;
+  subject: string;
+  onApply: (questions: QuestionDecrypted[]) => void;
+  disabled?: boolean;
+}
+
+interface RuleRow {
+  subject: string;
+  tag: string;
+  difficultyLevel: string; // "any" = every level
+  count: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function emptyRow(subject: string): RuleRow {
+  return { subject, tag: "", difficultyLevel: "any", count: "10" };
+}
+
+function toRuleInput(row: RuleRow): BlueprintRuleInput {
+  return {
+    subject: row.subject,
+    tag: row.tag || undefined,
+    difficultyLevel:
+      row.difficultyLevel === "any"
+        ? undefined
+        : (row.difficultyLevel as BlueprintRuleInput["difficultyLevel"]),
+    count: parseInt(row.count) || 0,
+  };
+}
+
+function describeRule(rule: ExamBlueprintPreview["rules"][number]): string {
+  return [rule.subject, rule.tag && `#${rule.tag}`, rule.difficultyLevel]
+    .filter(Boolean)
+    .join(" • ");
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function BlueprintAssembler({
+  examType,
+  subject,
+  onApply,
+  disabled = false,
+}: BlueprintAssemblerProps) {
+  const [rows, setRows] = useState<RuleRow[]>(() => [emptyRow(subject)]);
+  const [sameExamType, setSameExamType] = useState(true);
+  const [targetPoints, setTargetPoints] = useState("");
+  const [preview, setPreview] = useState<ExamBlueprintPreview | null>(null);
+  // Blueprint the preview was drawn from, reused for swaps
+  const [blueprint, setBlueprint] = useState<ExamBlueprintInput | null>(null);
+  const [isAssembling, setIsAssembling] = useState(false);
+  const [swappingId, setSwappingId] = useState<string | null>(null);
+
+  const updateRow = (index: number, changes: Partial<RuleRow>) => {
+    setRows((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    );
+  };
+
+  const isValid = rows.every((row) => row.subject && parseInt(row.count) >= 1);
+
+  const handleAssemble = async () => {
+    if (!isValid) return;
+
+    const input: ExamBlueprintInput = {
+      examType:
+        sameExamType && examType
+          ? (examType as ExamBlueprintInput["examType"])
+          : undefined,
+      rules: rows.map(toRuleInput),
+      targetPoints: parseFloat(targetPoints) || undefined,
+    };
+
+    setIsAssembling(true);
+    const result = await assembleExamFromBlueprint(input);
+    setIsAssembling(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.message);
+      return;
+    }
+
+    setBlueprint(input);
+    setPreview(result.data);
+  };
+
+  const handleSwap = async (questionId: string) => {
+    if (!preview || !blueprint) return;
+
+    const current = preview.questions.find((q) => q.id === questionId);
+    if (!current) return;
+
+    setSwappingId(questionId);
+    const result = await assembleExamFromBlueprint({
+      examType: blueprint.examType,
+      rules: [{ ...blueprint.rules[current.ruleIndex], count: 1 }],
+      targetPoints: current.questionPoint,
+      excludeQuestionIds: preview.questions.map((q) => q.id),
+    });
+    setSwappingId(null);
+
+    const replacement = result.data?.questions[0];
+    if (!result.success || !replacement) {
+      toast.error(
+        result.success ? "No other question matches this row" : result.message
+      );
+      return;
+    }
+
+    const questions = preview.questions.map((q) =>
+      q.id === questionId ? { ...replacement, ruleIndex: current.ruleIndex } : q
+    );
+    setPreview({
+      ...preview,
+      questions,
+      totalPoints: questions.reduce((sum, q) => sum + q.questionPoint, 0),
+    });
+  };
+
+  const handleRemove = (questionId: string) => {
+    if (!preview) return;
+
+    const questions = preview.questions.filter((q) => q.id !== questionId);
+    setPreview({
+      ...preview,
+      questions,
+      totalPoints: questions.reduce((sum, q) => sum + q.questionPoint, 0),
+    });
+  };
+
+  const handleApply = () => {
+    if (!preview || preview.questions.length === 0) return;
+
+    onApply(preview.questions);
+    toast.success(`${preview.questions.length} questions added to the exam`);
+    setPreview(null);
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4 bg-gray-50">
+      {/* Blueprint Rows */}
+      <div className="space-y-3">
+        {rows.map((row, index) => (
+          <div
+            key={index}
+            className="grid md:grid-cols-[2fr_1.5fr_1fr_0.75fr_auto] gap-2 items-end"
+          >
+            <div className="grid gap-1">
+              <Label className="text-xs">Subject</Label>
+              <Select
+                value={row.subject}
+                onValueChange={(value) => updateRow(index, { subject: value })}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUBJECTS.map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {s}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <Label className="text-xs">Tag (Optional)</Label>
+              <Input
+                placeholder="Any tag"
+                maxLength={50}
+                value={row.tag}
+                onChange={(e) => updateRow(index, { tag: e.target.value })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label className="text-xs">Difficulty</Label>
+              <Select
+                value={row.difficultyLevel}
+                onValueChange={(value) =>
+                  updateRow(index, { difficultyLevel: value })
+                }
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any level</SelectItem>
+                  {DIFFICULTY_LEVELS.map((level) => (
+                    <SelectItem
+                      key={level}
+                      value={level}
+                      className="capitalize"
+                    >
+                      {level}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <Label className="text-xs">Questions</Label>
+              <Input
+                type="number"
+                min="1"
+                max="200"
+                value={row.count}
+                onChange={(e) => updateRow(index, { count: e.target.value })}
+                disabled={disabled}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setRows((prev) => prev.filter((_, i) => i !== index))
+              }
+              disabled={disabled || rows.length === 1}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        {rows.length < MAX_BLUEPRINT_RULES && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setRows((prev) => [...prev, emptyRow(subject)])}
+            disabled={disabled}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Row
+          </Button>
+        )}
+      </div>
+
+      {/* Options */}
+      <div className="grid md:grid-cols-2 gap-4 pt-2 border-t">
+        <div className="grid gap-2">
+          <Label htmlFor="blueprint_target_points" className="text-sm">
+            Target Total Points (Optional)
+          </Label>
+          <Input
+            id="blueprint_target_points"
+            type="number"
+            min="1"
+            step="0.5"
+            placeholder="No target"
+            value={targetPoints}
+            onChange={(e) => setTargetPoints(e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+        {examType && (
+          <div className="flex items-center justify-between gap-4 md:pt-6">
+            <Label htmlFor="blueprint_same_exam_type" className="text-sm">
+              Only {examType} questions
+            </Label>
+            <Switch
+              id="blueprint_same_exam_type"
+              checked={sameExamType}
+              onCheckedChange={setSameExamType}
+              disabled={disabled}
+            />
+          </div>
+        )}
+      </div>
+
+      <Button
+        type="button"
+        onClick={handleAssemble}
+        disabled={disabled || !isValid || isAssembling}
+      >
+        {isAssembling ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Shuffle className="h-4 w-4 mr-2" />
+        )}
+        {preview ? "Draw Again" : "Generate Preview"}
+      </Button>
+
+      {/* Preview */}
+      {preview && (
+        <div className="space-y-4 pt-2 border-t">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h5 className="font-medium">
+              Preview ({preview.questions.length} questions)
+            </h5>
+            <div className="text-sm text-gray-600">
+              Total Points:{" "}
+              <span className="font-medium">{preview.totalPoints}</span>
+              {preview.targetPoints !== null &&
+                ` of ${preview.targetPoints} targeted`}
+            </div>
+          </div>
+
+          <ul className="space-y-1 text-sm">
+            {preview.rules.map((rule, index) => (
+              <li key={index} className="flex justify-between gap-4">
+                <span className="capitalize">{describeRule(rule)}</span>
+                <span
+                  className={
+                    rule.selected < rule.requested
+                      ? "text-red-500"
+                      : "text-gray-600"
+                  }
+                >
+                  {rule.selected} of {rule.requested}
+                  {rule.selected < rule.requested &&
+                    ` (only ${rule.available} match)`}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {preview.questions.some((q) => q.recentlyUsed) && (
+            <p className="text-xs text-gray-600">
+              Some rows could not be filled without questions from your last{" "}
+              {preview.recentExamCount} exams. They are marked below.
+            </p>
+          )}
+
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {preview.questions.map((question, index) => (
+              <div
+                key={question.id}
+                className="border rounded-lg p-3 bg-white flex items-start justify-between gap-4"
+              >
+                <div className="flex gap-3 flex-1 min-w-0">
+                  <span className="text-sm text-gray-500 tabular-nums">
+                    {index + 1}.
+                  </span>
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <span className="text-xs font-medium px-2 py-1 rounded bg-gray-200">
+                        {question.subject}
+                      </span>
+                      <span className="text-xs font-medium px-2 py-1 rounded bg-gray-200 capitalize">
+                        {question.difficultyLevel}
+                      </span>
+                      <span className="text-xs font-medium px-2 py-1 rounded bg-blue-100 text-primary">
+                        {question.questionPoint} pts
+                      </span>
+                      {question.recentlyUsed && (
+                        <Badge variant="outline">Recently used</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm">{question.questionText}</p>
+                  </div>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title="Swap for another matching question"
+                    onClick={() => handleSwap(question.id)}
+                    disabled={disabled || swappingId !== null}
+                  >
+                    {swappingId === question.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    title="Remove from preview"
+                    onClick={() => handleRemove(question.id)}
+                    disabled={disabled || swappingId !== null}
+                  >
+                    <X className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              onClick={handleApply}
+              disabled={disabled || preview.questions.length === 0}
+            >
+              Use These Questions
+            </Button>
+          </div>
+          <p className="text-xs text-gray-600 text-right">
+            Replaces the questions currently selected for this exam
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
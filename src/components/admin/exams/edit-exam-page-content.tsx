@@ -1,11 +1,17 @@
 "use client";
 
+import { useState } from "react";
+import Link from "next/link";
 import { useParams } from "next/navigation";
 import CreateExamForm from "@/components/admin/exams/exam-form";
 import { useExam } from "@/hooks/use-exams";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card } from "@/components/ui/card";
-import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, BarChart3, Mail, Send } from "lucide-react";
+import { INVITATION_CATEGORIES } from "@/lib/validations/exam-invitation";
+import { RESULT_RELEASE_CATEGORIES } from "@/lib/utils/exam";
+import { ReleaseResultsDialog } from "@/components/admin/exams/release-results-dialog";
 
 // ============================================
 // LOADING SKELETON
@@ -62,6 +68,7 @@ function ErrorState({ message }: { message: string }) {
 export function EditExamPageContent() {
   const params = useParams();
   const examId = params.id as string;
+  const [showReleaseDialog, setShowReleaseDialog] = useState(false);
 
   // Fetch exam data using TanStack Query
   const { data, isLoading, isError, error } = useExam(examId, {
@@ -87,6 +94,10 @@ export function EditExamPageContent() {
   }
 
   const { exam } = data.data;
+  const canReleaseResults =
+    RESULT_RELEASE_CATEGORIES.includes(exam.category || "") &&
+    exam.resultReleaseMode !== "immediate" &&
+    !exam.resultsReleasedAt;
 
   // Transform exam data to form format
   const initialData = {
@@ -100,24 +111,72 @@ export function EditExamPageContent() {
     max_attempts: exam.maxAttempts?.toString() || "",
     shuffle_questions: exam.shuffleQuestions,
     randomize_options: exam.randomizeOptions,
+    allow_answer_changes: exam.allowAnswerChanges ?? undefined,
     is_public: exam.isPublic,
     is_free: exam.isFree,
     status: exam.status,
     category: exam.category || "",
     start_date: exam.startDate ? new Date(exam.startDate).toISOString() : "",
     end_date: exam.endDate ? new Date(exam.endDate).toISOString() : "",
+    result_release_mode: exam.resultReleaseMode,
+    results_release_at: exam.resultsReleaseAt
+      ? new Date(exam.resultsReleaseAt).toISOString()
+      : "",
+    anti_cheat_policy: exam.antiCheatPolicy ?? undefined,
+    question_pools: exam.questionPools ?? undefined,
+    sections: exam.sections ?? undefined,
     questions: exam.questions,
   };
 
   return (
     <div className="container mx-auto py-8">
       {/* Page Header */}
-      <div className="mb-6">
+      <div className="mb-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
         <p className="text-muted-foreground mt-2">
           {exam.examType} • {exam.subject} • {exam.year}
         </p>
+        <div className="flex flex-wrap items-center gap-2">
+          {exam.resultsReleasedAt && (
+            <p className="text-sm text-muted-foreground">
+              Results released{" "}
+              {new Date(exam.resultsReleasedAt).toLocaleString()}
+            </p>
+          )}
+          {canReleaseResults && (
+            <Button
+              variant="outline"
+              onClick={() => setShowReleaseDialog(true)}
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Release Results
+            </Button>
+          )}
+          <Button variant="outline" asChild>
+            <Link href={`/cp/admin-dashboard/exams/${exam.id}/analytics`}>
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Analytics
+            </Link>
+          </Button>
+          {INVITATION_CATEGORIES.includes(
+            exam.category as (typeof INVITATION_CATEGORIES)[number]
+          ) && (
+            <Button variant="outline" asChild>
+              <Link href={`/cp/admin-dashboard/exams/${exam.id}/invitations`}>
+                <Mail className="h-4 w-4 mr-2" />
+                Manage Invitations
+              </Link>
+            </Button>
+          )}
+        </div>
       </div>
 
+      <ReleaseResultsDialog
+        examId={exam.id}
+        examTitle={exam.title}
+        open={showReleaseDialog}
+        onOpenChange={setShowReleaseDialog}
+      />
+
       {/* Edit Form */}
       <CreateExamForm
         initialData={initialData}
@@ -93,6 +93,7 @@ export function EditQuestionPageContent() {
     question_image: question.questionImage || "",
     question_point: question.questionPoint.toString(),
     answer_explanation: question.answerExplanation || "",
+    marking_rubric: question.markingRubric || "",
     difficulty_level: question.difficultyLevel,
     tags: Array.isArray(question.tags) ? question.tags.join(", ") : "",
     time_limit: question.timeLimit?.toString() || "",
@@ -102,6 +103,7 @@ export function EditQuestionPageContent() {
       is_correct: opt.isCorrect,
       order_index: opt.orderIndex,
     })),
+    answer_rules: question.answerRules,
   };
 
   return (
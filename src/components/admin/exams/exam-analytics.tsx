@@ -0,0 +1,362 @@
+"use client";
+
+/**
+ * Exam Analytics
+ *
+ * Features:
+ * - Attempts, completion and abandonment, pass rate and average duration
+ * - Score distribution histogram
+ * - Violation counts by type
+ * - Hardest questions by proportion correct
+ * - CSV and Excel export
+ */
+
+import Link from "next/link";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useExamAnalytics, useExportExamAnalytics } from "@/hooks/use-exams";
+import type { ExamAnalytics as ExamAnalyticsData } from "@/types/admin";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const chartConfig = {
+  count: {
+    label: "Sessions",
+    color: "var(--primary)",
+  },
+} satisfies ChartConfig;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${value.toFixed(1)}%`;
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return "—";
+  const minutes = Math.floor(seconds / 60);
+  const remaining = Math.round(seconds % 60);
+  return minutes > 0 ? `${minutes}m ${remaining}s` : `${remaining}s`;
+}
+
+function formatViolationType(type: string): string {
+  return type.replace(/_/g, " ");
+}
+
+// ============================================
+// SUB-COMPONENTS
+// ============================================
+
+function StatCard({
+  title,
+  value,
+  description,
+}: {
+  title: string;
+  value: string;
+  description: string;
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl tabular-nums">{value}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ScoreDistributionChart({
+  analytics,
+}: {
+  analytics: ExamAnalyticsData;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Score Distribution</CardTitle>
+        <CardDescription>
+          {analytics.scored} graded session{analytics.scored === 1 ? "" : "s"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {analytics.scored === 0 ? (
+          <div className="flex h-[250px] items-center justify-center text-sm text-muted-foreground">
+            Scores appear here once sessions are graded.
+          </div>
+        ) : (
+          <ChartContainer
+            config={chartConfig}
+            className="aspect-auto h-[250px] w-full"
+          >
+            <BarChart data={analytics.scoreDistribution}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="label"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+              />
+              <YAxis
+                allowDecimals={false}
+                tickLine={false}
+                axisLine={false}
+                width={32}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent indicator="dot" />}
+              />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function ExamAnalytics({ examId }: { examId: string }) {
+  const { data, isLoading, isError, error } = useExamAnalytics(examId);
+  const exportMutation = useExportExamAnalytics();
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 space-y-4">
+        <Skeleton className="h-8 w-[300px]" />
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-28 w-full" />
+          ))}
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !data?.success || !data.data) {
+    return (
+      <div className="container mx-auto py-8">
+        <Card className="p-8">
+          <div className="flex items-center justify-center flex-col gap-4">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+            <div className="text-center">
+              <h3 className="text-lg font-semibold">
+                Error Loading Exam Analytics
+              </h3>
+              <p className="text-sm text-muted-foreground mt-2">
+                {error?.message || data?.message || "Something went wrong"}
+              </p>
+            </div>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const analytics = data.data;
+  const exportingFormat = exportMutation.isPending
+    ? exportMutation.variables?.format
+    : null;
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="-ml-3 mb-2">
+            <Link href={`/cp/admin-dashboard/exams/${examId}`}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Exam
+            </Link>
+          </Button>
+          <h2 className="text-2xl font-semibold">{analytics.title}</h2>
+          <p className="text-muted-foreground mt-1">
+            {analytics.examType} • {analytics.subject} • {analytics.year}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => exportMutation.mutate({ examId, format: "csv" })}
+            disabled={exportMutation.isPending}
+          >
+            {exportingFormat === "csv" ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export CSV
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => exportMutation.mutate({ examId, format: "excel" })}
+            disabled={exportMutation.isPending}
+          >
+            {exportingFormat === "excel" ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+            )}
+            Export Excel
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          title="Attempts"
+          value={analytics.attempts.toString()}
+          description={`${analytics.candidates} candidate${analytics.candidates === 1 ? "" : "s"} • ${analytics.inProgress} in progress`}
+        />
+        <StatCard
+          title="Completion Rate"
+          value={formatPercent(analytics.completionRate)}
+          description={`${formatPercent(analytics.abandonmentRate)} abandoned or timed out`}
+        />
+        <StatCard
+          title="Pass Rate"
+          value={formatPercent(analytics.passRate)}
+          description={
+            analytics.passingScore !== null
+              ? `Passing score ${analytics.passingScore}% • average ${formatPercent(analytics.averageScore)}`
+              : `No passing score • average ${formatPercent(analytics.averageScore)}`
+          }
+        />
+        <StatCard
+          title="Average Duration"
+          value={formatDuration(analytics.averageDuration)}
+          description="Across completed sessions"
+        />
+      </div>
+
+      <ScoreDistributionChart analytics={analytics} />
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Violations */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Violations</CardTitle>
+            <CardDescription>
+              {analytics.totalViolations} recorded across all attempts
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {analytics.violationsByType.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No violations recorded.
+              </p>
+            ) : (
+              <Table>
+                <TableBody>
+                  {analytics.violationsByType.map((violation) => (
+                    <TableRow key={violation.type}>
+                      <TableCell className="capitalize">
+                        {formatViolationType(violation.type)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {violation.count}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Hardest Questions */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Hardest Questions</CardTitle>
+            <CardDescription>
+              Lowest proportion of correct answers in graded sessions
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {analytics.hardestQuestions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No graded answers yet.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Question</TableHead>
+                    <TableHead className="text-right">Responses</TableHead>
+                    <TableHead className="text-right">Correct</TableHead>
+                    <TableHead className="text-right">Avg Time</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analytics.hardestQuestions.map((question) => (
+                    <TableRow key={question.questionId}>
+                      <TableCell className="whitespace-normal">
+                        <Link
+                          href={`/cp/admin-dashboard/questions/${question.questionId}`}
+                          className="line-clamp-2 hover:underline"
+                        >
+                          {question.questionText}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {question.responses}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatPercent(question.pValue * 100)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatDuration(question.averageTime)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -21,7 +21,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Loader2, X, Search, ChevronDown } from "lucide-react";
+import { Loader2, X, Search, ChevronDown, ListChecks } from "lucide-react";
 import { toast } from "sonner";
 import { Card } from "@/components/ui/card";
 import {
@@ -36,10 +36,22 @@ import {
   EXAM_TYPES,
   SUBJECTS,
   YEARS,
+  RESULT_RELEASE_CATEGORIES,
+  allowsAnswerChanges,
 } from "@/lib/utils/exam";
+import { RESULT_RELEASE_MODES } from "@/lib/validations/exam";
 import { searchQuestions } from "@/lib/actions/exam-upload";
 import { useCreateExam, useUpdateExam } from "@/hooks/use-exams";
+import { AntiCheatPolicyFields } from "@/components/admin/exams/anti-cheat-policy-fields";
+import { BlueprintAssembler } from "@/components/admin/exams/blueprint-assembler";
+import { QuestionPoolsFields } from "@/components/admin/exams/question-pools-fields";
+import { ExamSectionsFields } from "@/components/admin/exams/exam-sections-fields";
 import type { QuestionDecrypted } from "@/types/exam-api";
+import type {
+  AntiCheatPolicy,
+  ExamSectionConfig,
+  QuestionPool,
+} from "@/types/exam-session";
 
 // ============================================
 // TYPES
@@ -57,12 +69,18 @@ interface CreateExamFormProps {
     max_attempts: string;
     shuffle_questions: boolean;
     randomize_options: boolean;
+    allow_answer_changes: boolean;
     is_public: boolean;
     is_free: boolean;
     status: string;
     category: string;
     start_date: string;
     end_date: string;
+    result_release_mode: string;
+    results_release_at: string;
+    anti_cheat_policy: AntiCheatPolicy;
+    question_pools: QuestionPool[];
+    sections: ExamSectionConfig[];
     questions: QuestionDecrypted[];
   }>;
   onSubmit?: (data: { examId: string; exam: unknown }) => Promise<void>;
@@ -81,12 +99,15 @@ interface FormData {
   max_attempts: string;
   shuffle_questions: boolean;
   randomize_options: boolean;
+  allow_answer_changes: boolean;
   is_public: boolean;
   is_free: boolean;
   status: string;
   category: string;
   start_date: string;
   end_date: string;
+  result_release_mode: string;
+  results_release_at: string;
 }
 
 interface QuestionFilters {
@@ -96,6 +117,26 @@ interface QuestionFilters {
   difficulty_level: string;
 }
 
+// ============================================
+// HELPERS
+// ============================================
+
+const RELEASE_MODE_LABELS: Record<string, string> = {
+  immediate: "Immediately after submission",
+  scheduled: "At a scheduled date and time",
+  manual: "Manually by an admin",
+};
+
+/**
+ * Format an ISO timestamp for a datetime-local input (local time)
+ */
+function toDateTimeLocal(value: string): string {
+  if (!value) return "";
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
 // ============================================
 // COMPONENT
 // ============================================
@@ -108,6 +149,7 @@ export default function CreateExamForm({
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [showQuestionSearch, setShowQuestionSearch] = useState(false);
+  const [showBlueprint, setShowBlueprint] = useState(false);
   const [isLoadingQuestions, setIsLoadingQuestions] = useState(false);
 
   // reCAPTCHA hook
@@ -145,12 +187,17 @@ export default function CreateExamForm({
     max_attempts: initialData.max_attempts || "",
     shuffle_questions: initialData.shuffle_questions || false,
     randomize_options: initialData.randomize_options || false,
+    allow_answer_changes:
+      initialData.allow_answer_changes ??
+      allowsAnswerChanges({ category: initialData.category }),
     is_public: initialData.is_public || false,
     is_free: initialData.is_free || false,
     status: initialData.status || "draft",
     category: initialData.category || "",
     start_date: initialData.start_date || "",
     end_date: initialData.end_date || "",
+    result_release_mode: initialData.result_release_mode || "immediate",
+    results_release_at: initialData.results_release_at || "",
   }));
 
   const [questionFilters, setQuestionFilters] = useState<QuestionFilters>({
@@ -166,6 +213,17 @@ export default function CreateExamForm({
   const [selectedQuestions, setSelectedQuestions] = useState<
     QuestionDecrypted[]
   >(initialData.questions || []);
+  // null follows the category default
+  const [antiCheatPolicy, setAntiCheatPolicy] =
+    useState<AntiCheatPolicy | null>(initialData.anti_cheat_policy ?? null);
+  // null gives every candidate every selected question
+  const [questionPools, setQuestionPools] = useState<QuestionPool[] | null>(
+    initialData.question_pools ?? null
+  );
+  // null keeps the exam as one flat list of questions
+  const [sections, setSections] = useState<ExamSectionConfig[] | null>(
+    initialData.sections ?? null
+  );
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [startDate, setStartDate] = useState<Date | undefined>(
     initialData.start_date ? new Date(initialData.start_date) : undefined
@@ -256,6 +314,18 @@ export default function CreateExamForm({
     });
   }, []);
 
+  const applyBlueprintQuestions = useCallback(
+    (questions: QuestionDecrypted[]) => {
+      setSelectedQuestions(questions);
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors.questions;
+        return newErrors;
+      });
+    },
+    []
+  );
+
   const removeQuestion = useCallback((questionId: string) => {
     setSelectedQuestions((prev) => prev.filter((q) => q.id !== questionId));
   }, []);
@@ -303,14 +373,60 @@ export default function CreateExamForm({
     if (!formData.title) newErrors.title = "Title is required";
     if (!formData.duration) newErrors.duration = "Duration is required";
     if (!formData.status) newErrors.status = "Status is required";
+    if (
+      formData.result_release_mode === "scheduled" &&
+      !formData.results_release_at
+    ) {
+      newErrors.results_release_at = "Release date is required";
+    }
+
+    if (
+      antiCheatPolicy &&
+      antiCheatPolicy.warningThreshold !== null &&
+      antiCheatPolicy.autoSubmitThreshold !== null &&
+      antiCheatPolicy.warningThreshold >= antiCheatPolicy.autoSubmitThreshold
+    ) {
+      newErrors.anti_cheat_policy =
+        "Warning threshold must be below the auto-submit threshold";
+    }
 
     if (selectedQuestions.length === 0) {
       newErrors.questions = "At least one question must be selected";
     }
 
+    if (
+      questionPools &&
+      questionPools.some((pool) => !pool.label.trim() || pool.count < 1)
+    ) {
+      newErrors.question_pools =
+        "Every pool needs a name and must draw at least 1 question";
+    }
+
+    if (sections) {
+      const assigned = new Set(sections.flatMap((s) => s.questionIds));
+
+      if (sections.some((s) => !s.title.trim())) {
+        newErrors.sections = "Every section needs a title";
+      } else if (selectedQuestions.some((q) => !assigned.has(q.id))) {
+        newErrors.sections = "Assign every question to a section";
+      } else if (
+        sections.some(
+          (s) => !selectedQuestions.some((q) => s.questionIds.includes(q.id))
+        )
+      ) {
+        newErrors.sections = "Every section needs at least 1 question";
+      } else if (
+        sections.reduce((sum, s) => sum + (s.timeLimit ?? 0), 0) >
+        parseInt(formData.duration)
+      ) {
+        newErrors.sections =
+          "Section time limits add up to more than the exam duration";
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, [formData, selectedQuestions.length]);
+  }, [formData, antiCheatPolicy, questionPools, sections, selectedQuestions]);
 
   const handleSubmit = useCallback(
     async (addAnother: boolean = false) => {
@@ -348,6 +464,36 @@ export default function CreateExamForm({
           JSON.stringify(selectedQuestions.map((q) => q.id))
         );
 
+        if (antiCheatPolicy) {
+          formDataToSend.append(
+            "anti_cheat_policy",
+            JSON.stringify(antiCheatPolicy)
+          );
+        }
+
+        if (questionPools) {
+          formDataToSend.append(
+            "question_pools",
+            JSON.stringify(questionPools)
+          );
+        }
+
+        if (sections) {
+          // Drop questions removed from the exam since they were assigned
+          const selectedIds = new Set(selectedQuestions.map((q) => q.id));
+          formDataToSend.append(
+            "sections",
+            JSON.stringify(
+              sections.map((section) => ({
+                ...section,
+                questionIds: section.questionIds.filter((id) =>
+                  selectedIds.has(id)
+                ),
+              }))
+            )
+          );
+        }
+
         // Call the appropriate mutation
         if (isEditing && examId) {
           const result = await updateMutation.mutateAsync({
@@ -397,6 +543,9 @@ export default function CreateExamForm({
       recaptchaError,
       formData,
       selectedQuestions,
+      antiCheatPolicy,
+      questionPools,
+      sections,
       examId,
       createMutation,
       updateMutation,
@@ -633,9 +782,18 @@ export default function CreateExamForm({
                 <Label htmlFor="category">Category (Optional)</Label>
                 <Select
                   value={formData.category}
-                  onValueChange={(value) =>
-                    handleInputChange("category", value)
-                  }
+                  onValueChange={(value) => {
+                    handleInputChange("category", value);
+                    // Follow the category's default answer-change rule
+                    handleInputChange(
+                      "allow_answer_changes",
+                      allowsAnswerChanges({ category: value })
+                    );
+                    if (!RESULT_RELEASE_CATEGORIES.includes(value)) {
+                      handleInputChange("result_release_mode", "immediate");
+                      handleInputChange("results_release_at", "");
+                    }
+                  }}
                   disabled={isSubmitting}
                 >
                   <SelectTrigger className="w-full">
@@ -725,6 +883,60 @@ export default function CreateExamForm({
               </div>
             </div>
 
+            {RESULT_RELEASE_CATEGORIES.includes(formData.category) && (
+              <div className="grid md:grid-cols-2 gap-6">
+                <div className="grid gap-3">
+                  <Label htmlFor="result_release_mode">Release Results</Label>
+                  <Select
+                    value={formData.result_release_mode}
+                    onValueChange={(value) =>
+                      handleInputChange("result_release_mode", value)
+                    }
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger id="result_release_mode" className="w-full">
+                      <SelectValue placeholder="Select release mode" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RESULT_RELEASE_MODES.map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {RELEASE_MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {formData.result_release_mode === "scheduled" && (
+                  <div className="grid gap-3">
+                    <Label htmlFor="results_release_at">
+                      Release Date and Time{" "}
+                      <span className="text-red-500">*</span>
+                    </Label>
+                    <Input
+                      id="results_release_at"
+                      type="datetime-local"
+                      value={toDateTimeLocal(formData.results_release_at)}
+                      onChange={(e) =>
+                        handleInputChange(
+                          "results_release_at",
+                          e.target.value
+                            ? new Date(e.target.value).toISOString()
+                            : ""
+                        )
+                      }
+                      disabled={isSubmitting}
+                    />
+                    {errors.results_release_at && (
+                      <p className="text-xs text-red-500">
+                        {errors.results_release_at}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
               <div className="flex items-center justify-between p-4 border rounded-lg">
                 <Label htmlFor="shuffle_questions" className="text-sm">
@@ -754,6 +966,20 @@ export default function CreateExamForm({
                 />
               </div>
 
+              <div className="flex items-center justify-between p-4 border rounded-lg">
+                <Label htmlFor="allow_answer_changes" className="text-sm">
+                  Allow Answer Changes
+                </Label>
+                <Switch
+                  id="allow_answer_changes"
+                  checked={formData.allow_answer_changes}
+                  onCheckedChange={(checked) =>
+                    handleInputChange("allow_answer_changes", checked)
+                  }
+                  disabled={isSubmitting}
+                />
+              </div>
+
               <div className="flex items-center justify-between p-4 border rounded-lg">
                 <Label htmlFor="is_public" className="text-sm">
                   Public Access
@@ -782,6 +1008,26 @@ export default function CreateExamForm({
                 />
               </div>
             </div>
+
+            <AntiCheatPolicyFields
+              category={formData.category}
+              value={antiCheatPolicy}
+              onChange={(value) => {
+                setAntiCheatPolicy(value);
+                setErrors((prev) => {
+                  const newErrors = { ...prev };
+                  delete newErrors.anti_cheat_policy;
+                  return newErrors;
+                });
+              }}
+              disabled={isSubmitting}
+              error={
+                errors.anti_cheat_policy ||
+                Object.entries(errors).find(([key]) =>
+                  key.startsWith("anti_cheat_policy.")
+                )?.[1]
+              }
+            />
           </div>
 
           {/* Question Selection */}
@@ -799,18 +1045,39 @@ export default function CreateExamForm({
 
             {/* Question Search/Filter */}
             <div className="space-y-4">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={toggleQuestionSearch}
-                disabled={isSubmitting}
-                className="w-full md:w-fit"
-              >
-                <Search className="h-4 w-4 mr-2" />
-                {showQuestionSearch
-                  ? "Hide Question Bank"
-                  : "Browse Question Bank"}
-              </Button>
+              <div className="flex flex-col md:flex-row gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={toggleQuestionSearch}
+                  disabled={isSubmitting}
+                  className="w-full md:w-fit"
+                >
+                  <Search className="h-4 w-4 mr-2" />
+                  {showQuestionSearch
+                    ? "Hide Question Bank"
+                    : "Browse Question Bank"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setShowBlueprint((prev) => !prev)}
+                  disabled={isSubmitting}
+                  className="w-full md:w-fit"
+                >
+                  <ListChecks className="h-4 w-4 mr-2" />
+                  {showBlueprint ? "Hide Blueprint" : "Assemble from Blueprint"}
+                </Button>
+              </div>
+
+              {showBlueprint && (
+                <BlueprintAssembler
+                  examType={formData.exam_type}
+                  subject={formData.subject}
+                  onApply={applyBlueprintQuestions}
+                  disabled={isSubmitting}
+                />
+              )}
 
               {showQuestionSearch && (
                 <div className="border rounded-lg p-4 space-y-4 bg-gray-50">
@@ -1118,6 +1385,27 @@ export default function CreateExamForm({
                 </div>
               </div>
             )}
+
+            {selectedQuestions.length > 0 && (
+              <QuestionPoolsFields
+                value={questionPools}
+                onChange={setQuestionPools}
+                questions={selectedQuestions}
+                disabled={isSubmitting}
+                error={errors.question_pools}
+              />
+            )}
+
+            {selectedQuestions.length > 0 && (
+              <ExamSectionsFields
+                value={sections}
+                onChange={setSections}
+                questions={selectedQuestions}
+                duration={parseInt(formData.duration) || undefined}
+                disabled={isSubmitting}
+                error={errors.sections}
+              />
+            )}
           </div>
 
           {/* Form Actions */}
@@ -0,0 +1,468 @@
+"use client";
+
+/**
+ * Exam Invitations Manager
+ *
+ * Features:
+ * - Invite a single user or email address
+ * - Import a CSV of email addresses as a batch
+ * - Optional expiry and invitation email
+ * - Status overview (pending, used, expired, revoked)
+ * - Copy link and revoke actions
+ */
+
+import { useRef, useState } from "react";
+import Link from "next/link";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Copy,
+  FileUp,
+  Loader2,
+  Mail,
+  Send,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  useExamInvitations,
+  useCreateExamInvitation,
+  useCreateExamInvitationBatch,
+  useRevokeExamInvitation,
+} from "@/hooks/use-exam-invitations";
+import {
+  INVITATION_CATEGORIES,
+  type InvitationStatus,
+} from "@/lib/validations/exam-invitation";
+import type {
+  AdminExamInvitation,
+  ExamInvitationBatchResult,
+} from "@/types/admin";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const STATUS_BADGE_VARIANT: Record<
+  InvitationStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "secondary",
+  used: "default",
+  expired: "outline",
+  revoked: "destructive",
+};
+
+const STATUS_FILTERS: Array<InvitationStatus | "all"> = [
+  "all",
+  "pending",
+  "used",
+  "expired",
+  "revoked",
+];
+
+interface ExamInvitationsManagerProps {
+  examId: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function toIsoOrUndefined(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+function formatDate(value: Date | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function ExamInvitationsManager({
+  examId,
+}: ExamInvitationsManagerProps) {
+  const [statusFilter, setStatusFilter] = useState<InvitationStatus | "all">(
+    "all"
+  );
+  const [email, setEmail] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [sendEmail, setSendEmail] = useState(true);
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [batchResult, setBatchResult] =
+    useState<ExamInvitationBatchResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading, isError, error } = useExamInvitations(
+    examId,
+    statusFilter === "all" ? undefined : statusFilter
+  );
+  const createInvitation = useCreateExamInvitation();
+  const createBatch = useCreateExamInvitationBatch();
+  const revokeInvitation = useRevokeExamInvitation();
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = await createInvitation.mutateAsync({
+      examId,
+      email: email.trim(),
+      expiresAt: toIsoOrUndefined(expiresAt),
+      sendEmail,
+    });
+
+    if (result.success) {
+      setEmail("");
+    }
+  };
+
+  const handleBatch = async () => {
+    if (!csvFile) return;
+
+    const csv = await csvFile.text();
+    const result = await createBatch.mutateAsync({
+      examId,
+      csv,
+      expiresAt: toIsoOrUndefined(expiresAt),
+      sendEmail,
+    });
+
+    if (result.success && result.data) {
+      setBatchResult(result.data);
+      setCsvFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleCopyLink = async (invitation: AdminExamInvitation) => {
+    try {
+      await navigator.clipboard.writeText(invitation.inviteUrl);
+      toast.success("Invitation link copied");
+    } catch {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 space-y-4">
+        <Skeleton className="h-8 w-[300px]" />
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !data?.success || !data.data) {
+    return (
+      <div className="container mx-auto py-8">
+        <Card className="p-8">
+          <div className="flex items-center justify-center flex-col gap-4">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+            <div className="text-center">
+              <h3 className="text-lg font-semibold">
+                Error Loading Invitations
+              </h3>
+              <p className="text-sm text-muted-foreground mt-2">
+                {error?.message || data?.message || "Exam not found"}
+              </p>
+            </div>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const { exam, invitations, counts } = data.data;
+  const supportsInvitations = INVITATION_CATEGORIES.includes(
+    exam.category as (typeof INVITATION_CATEGORIES)[number]
+  );
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">Invitations</h2>
+          <p className="text-muted-foreground mt-1">
+            {exam.title} • {exam.examType} • {exam.subject}
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href={`/cp/admin-dashboard/exams/${exam.id}`}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Exam
+          </Link>
+        </Button>
+      </div>
+
+      {!supportsInvitations && (
+        <Card className="p-6">
+          <p className="text-sm text-muted-foreground">
+            Invitations are only used for recruitment, competition and challenge
+            exams. Change the exam category to invite candidates.
+          </p>
+        </Card>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {(
+          [
+            ["Total", counts.total],
+            ["Pending", counts.pending],
+            ["Used", counts.used],
+            ["Expired", counts.expired],
+            ["Revoked", counts.revoked],
+          ] as const
+        ).map(([label, value]) => (
+          <Card key={label} className="px-4 py-3">
+            <p className="text-xs text-muted-foreground">{label}</p>
+            <p className="text-2xl font-bold">{value}</p>
+          </Card>
+        ))}
+      </div>
+
+      {/* Create Invitations */}
+      {supportsInvitations && (
+        <Card className="px-4 md:px-8 py-6">
+          <div className="grid md:grid-cols-2 gap-6 mb-6">
+            <div className="space-y-2">
+              <Label htmlFor="invitation-expiry">Expires at (optional)</Label>
+              <Input
+                id="invitation-expiry"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-3 md:pt-7">
+              <Switch
+                id="invitation-send-email"
+                checked={sendEmail}
+                onCheckedChange={setSendEmail}
+              />
+              <Label htmlFor="invitation-send-email">
+                Email the invitation link to each recipient
+              </Label>
+            </div>
+          </div>
+
+          <Tabs defaultValue="single">
+            <TabsList>
+              <TabsTrigger value="single">Single Invitation</TabsTrigger>
+              <TabsTrigger value="batch">CSV Batch</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="single" className="pt-4">
+              <form
+                onSubmit={handleCreate}
+                className="flex flex-col md:flex-row gap-3"
+              >
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="invitation-email">Email address</Label>
+                  <Input
+                    id="invitation-email"
+                    type="email"
+                    placeholder="candidate@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Registered users are linked to the invitation automatically.
+                  </p>
+                </div>
+                <Button
+                  type="submit"
+                  className="md:mt-7"
+                  disabled={createInvitation.isPending || !email.trim()}
+                >
+                  {createInvitation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Send className="h-4 w-4 mr-2" />
+                  )}
+                  Invite
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="batch" className="pt-4 space-y-4">
+              <div className="flex flex-col md:flex-row gap-3">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="invitation-csv">CSV file</Label>
+                  <Input
+                    id="invitation-csv"
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={(e) => {
+                      setCsvFile(e.target.files?.[0] ?? null);
+                      setBatchResult(null);
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    One email per row. If the file has a header row, the
+                    &quot;email&quot; column is used.
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  className="md:mt-7"
+                  onClick={handleBatch}
+                  disabled={createBatch.isPending || !csvFile}
+                >
+                  {createBatch.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <FileUp className="h-4 w-4 mr-2" />
+                  )}
+                  Import
+                </Button>
+              </div>
+
+              {batchResult && (
+                <div className="rounded-lg border p-4 space-y-2 text-sm">
+                  <p>
+                    <strong>{batchResult.created}</strong> created,{" "}
+                    <strong>{batchResult.emailed}</strong> emailed,{" "}
+                    <strong>{batchResult.skipped.length}</strong> skipped.
+                  </p>
+                  {batchResult.skipped.length > 0 && (
+                    <ul className="list-disc pl-5 text-muted-foreground max-h-40 overflow-y-auto">
+                      {batchResult.skipped.map((item, index) => (
+                        <li key={`${item.email}-${index}`}>
+                          {item.email} — {item.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        </Card>
+      )}
+
+      {/* Invitation List */}
+      <Card className="px-4 md:px-8 py-6 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {STATUS_FILTERS.map((status) => (
+            <Button
+              key={status}
+              size="sm"
+              variant={statusFilter === status ? "default" : "outline"}
+              onClick={() => setStatusFilter(status)}
+              className="capitalize"
+            >
+              {status}
+            </Button>
+          ))}
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Used</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invitations.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={6}
+                    className="h-24 text-center text-muted-foreground"
+                  >
+                    No invitations found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                invitations.map((invitation) => (
+                  <TableRow key={invitation.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Mail className="h-4 w-4 text-muted-foreground" />
+                        <div>
+                          {invitation.recipientName && (
+                            <p className="font-medium">
+                              {invitation.recipientName}
+                            </p>
+                          )}
+                          <p className="text-sm text-muted-foreground">
+                            {invitation.recipientEmail}
+                          </p>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={STATUS_BADGE_VARIANT[invitation.status]}
+                        className="capitalize"
+                      >
+                        {invitation.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(invitation.expiresAt)}</TableCell>
+                    <TableCell>{formatDate(invitation.usedAt)}</TableCell>
+                    <TableCell>{formatDate(invitation.createdAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleCopyLink(invitation)}
+                          disabled={invitation.status !== "pending"}
+                        >
+                          <Copy className="h-4 w-4" />
+                          <span className="sr-only">Copy link</span>
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => revokeInvitation.mutate(invitation.id)}
+                          disabled={
+                            invitation.status === "used" ||
+                            invitation.status === "revoked" ||
+                            revokeInvitation.isPending
+                          }
+                        >
+                          <XCircle className="h-4 w-4 text-destructive" />
+                          <span className="sr-only">Revoke</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </Card>
+    </div>
+  );
+}
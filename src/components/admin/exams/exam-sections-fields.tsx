@@ -0,0 +1,320 @@
+"use client";
+
+/**
+ * Exam Sections Fields
+ *
+ * Features:
+ * - Split an exam into ordered sections (e.g. Objective, Theory)
+ * - Per-section instructions, optional time limit and no-return rule
+ * - Assign each selected question to a section
+ */
+
+import { ChevronDown, ChevronUp, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { QuestionDecrypted } from "@/types/exam-api";
+import type { ExamSectionConfig } from "@/types/exam-session";
+
+interface ExamSectionsFieldsProps {
+  value: ExamSectionConfig[] | null; // null = no sections
+  onChange: (value: ExamSectionConfig[] | null) => void;
+  questions: QuestionDecrypted[]; // Selected questions, in exam order
+  duration?: number; // Exam duration in minutes
+  disabled?: boolean;
+  error?: string;
+}
+
+const MAX_SECTIONS = 10;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function emptySection(index: number): ExamSectionConfig {
+  return { title: `Section ${index + 1}`, allowReturn: true, questionIds: [] };
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function ExamSectionsFields({
+  value,
+  onChange,
+  questions,
+  duration,
+  disabled = false,
+  error,
+}: ExamSectionsFieldsProps) {
+  const updateSection = (
+    index: number,
+    changes: Partial<ExamSectionConfig>
+  ) => {
+    if (!value) return;
+    onChange(
+      value.map((section, i) =>
+        i === index ? { ...section, ...changes } : section
+      )
+    );
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    if (!value) return;
+    const reordered = [...value];
+    [reordered[index], reordered[index + offset]] = [
+      reordered[index + offset],
+      reordered[index],
+    ];
+    onChange(reordered);
+  };
+
+  // Questions keep the exam's order within their section
+  const assignQuestion = (questionId: string, sectionIndex: number) => {
+    if (!value) return;
+    onChange(
+      value.map((section, i) => ({
+        ...section,
+        questionIds: questions
+          .filter((q) =>
+            q.id === questionId
+              ? i === sectionIndex
+              : section.questionIds.includes(q.id)
+          )
+          .map((q) => q.id),
+      }))
+    );
+  };
+
+  const sectionOf = (questionId: string) =>
+    value?.findIndex((section) => section.questionIds.includes(questionId)) ??
+    -1;
+
+  const totalSectionTime =
+    value?.reduce((sum, section) => sum + (section.timeLimit ?? 0), 0) ?? 0;
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="use_exam_sections" className="text-sm">
+            Exam Sections
+          </Label>
+          <p className="text-xs text-gray-600 mt-1">
+            {value
+              ? `${value.length} section${value.length === 1 ? "" : "s"}, taken in order`
+              : "All questions form a single section"}
+          </p>
+        </div>
+        <Switch
+          id="use_exam_sections"
+          checked={!!value}
+          onCheckedChange={(checked) =>
+            onChange(
+              checked
+                ? [
+                    {
+                      ...emptySection(0),
+                      questionIds: questions.map((q) => q.id),
+                    },
+                  ]
+                : null
+            )
+          }
+          disabled={disabled}
+        />
+      </div>
+
+      {value && (
+        <>
+          <div className="space-y-3">
+            {value.map((section, index) => (
+              <div key={index} className="space-y-3 p-3 border rounded-md">
+                <div className="grid md:grid-cols-[2fr_1fr_auto] gap-2 items-end">
+                  <div className="grid gap-1">
+                    <Label className="text-xs">Section {index + 1} Title</Label>
+                    <Input
+                      maxLength={100}
+                      value={section.title}
+                      onChange={(e) =>
+                        updateSection(index, { title: e.target.value })
+                      }
+                      disabled={disabled}
+                    />
+                  </div>
+                  <div className="grid gap-1">
+                    <Label className="text-xs">Time Limit (Minutes)</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="600"
+                      placeholder="No limit"
+                      value={section.timeLimit ?? ""}
+                      onChange={(e) =>
+                        updateSection(index, {
+                          timeLimit: parseInt(e.target.value) || undefined,
+                        })
+                      }
+                      disabled={disabled}
+                    />
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveSection(index, -1)}
+                      disabled={disabled || index === 0}
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveSection(index, 1)}
+                      disabled={disabled || index === value.length - 1}
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        onChange(value.filter((_, i) => i !== index))
+                      }
+                      disabled={disabled || value.length === 1}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid gap-1">
+                  <Label className="text-xs">Instructions (Optional)</Label>
+                  <Textarea
+                    rows={2}
+                    maxLength={2000}
+                    placeholder="e.g. Answer all questions in this section"
+                    value={section.instructions ?? ""}
+                    onChange={(e) =>
+                      updateSection(index, {
+                        instructions: e.target.value || undefined,
+                      })
+                    }
+                    disabled={disabled}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`section_allow_return_${index}`}
+                      checked={section.allowReturn}
+                      onCheckedChange={(checked) =>
+                        updateSection(index, { allowReturn: checked })
+                      }
+                      disabled={disabled}
+                    />
+                    <Label
+                      htmlFor={`section_allow_return_${index}`}
+                      className="text-xs font-normal"
+                    >
+                      Candidates may return after moving on
+                    </Label>
+                  </div>
+                  <span className="text-xs text-gray-600">
+                    {section.questionIds.length} question
+                    {section.questionIds.length === 1 ? "" : "s"}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {value.length < MAX_SECTIONS && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange([...value, emptySection(value.length)])}
+              disabled={disabled}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Section
+            </Button>
+          )}
+
+          {duration !== undefined && totalSectionTime > duration && (
+            <p className="text-xs text-red-500">
+              Section time limits add up to {totalSectionTime} minutes, more
+              than the {duration} minute exam duration.
+            </p>
+          )}
+
+          {questions.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-xs">Question Sections</Label>
+              <div className="max-h-80 overflow-y-auto space-y-1 pr-1">
+                {questions.map((question, qIndex) => {
+                  const sectionIndex = sectionOf(question.id);
+
+                  return (
+                    <div
+                      key={question.id}
+                      className="flex items-center justify-between gap-2 text-sm"
+                    >
+                      <span className="truncate text-gray-700">
+                        {qIndex + 1}. {question.questionText}
+                      </span>
+                      <Select
+                        value={
+                          sectionIndex === -1 ? undefined : String(sectionIndex)
+                        }
+                        onValueChange={(index) =>
+                          assignQuestion(question.id, parseInt(index))
+                        }
+                        disabled={disabled}
+                      >
+                        <SelectTrigger
+                          className={`w-44 shrink-0 ${sectionIndex === -1 ? "border-red-500" : ""}`}
+                        >
+                          <SelectValue placeholder="Unassigned" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {value.map((section, index) => (
+                            <SelectItem key={index} value={String(index)}>
+                              {section.title || `Section ${index + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-600">
+            Candidates take sections one after another. A timed section ends on
+            its own when its time runs out; the exam duration still caps the
+            whole paper.
+          </p>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+"use client";
+
+/**
+ * Item Analysis Report
+ *
+ * Features:
+ * - Exam type and subject filters, with a flagged-only toggle
+ * - p-value, point-biserial discrimination and average time per question
+ * - Option pick rates with the answer key marked
+ * - Flags for difficulty mismatches, unused distractors and likely miskeys
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  AlertCircle,
+  Check,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useItemAnalysis } from "@/hooks/use-item-analysis";
+import { EXAM_TYPES, SUBJECTS } from "@/lib/utils/exam";
+import type { ItemAnalysis, ItemAnalysisFlag } from "@/types/admin";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PAGE_SIZE = 20;
+
+const FLAG_LABELS: Record<ItemAnalysisFlag, string> = {
+  difficulty_mismatch: "Difficulty mismatch",
+  unused_distractor: "Unused distractor",
+  possible_key_error: "Possible wrong key",
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+function formatNumber(value: number | null): string {
+  return value === null ? "—" : value.toFixed(2);
+}
+
+function formatTime(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value)}s`;
+}
+
+// ============================================
+// SUB-COMPONENTS
+// ============================================
+
+function OptionBreakdown({ item }: { item: ItemAnalysis }) {
+  if (item.options.length === 0) {
+    return <span className="text-sm text-muted-foreground">—</span>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {item.options.map((option) => (
+        <div
+          key={option.optionId}
+          className="flex items-center gap-2 text-sm"
+          title={option.optionText}
+        >
+          <span className="w-4 font-medium">{option.label}</span>
+          <div className="h-2 w-20 rounded bg-muted overflow-hidden">
+            <div
+              className={`h-full ${option.isCorrect ? "bg-green-600" : "bg-muted-foreground/50"}`}
+              style={{ width: `${Math.round(option.pickRate * 100)}%` }}
+            />
+          </div>
+          <span className="w-10 text-right tabular-nums">
+            {Math.round(option.pickRate * 100)}%
+          </span>
+          {option.isCorrect && <Check className="h-3 w-3 text-green-600" />}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function ItemAnalysisReport() {
+  const [examType, setExamType] = useState("all");
+  const [subject, setSubject] = useState("all");
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [offset, setOffset] = useState(0);
+
+  const hasScope = examType !== "all" || subject !== "all";
+
+  const { data, isLoading, isError, error } = useItemAnalysis({
+    examType: examType !== "all" ? examType : undefined,
+    subject: subject !== "all" ? subject : undefined,
+    flaggedOnly,
+    limit: PAGE_SIZE,
+    offset,
+  });
+
+  const updateFilter = (update: () => void) => {
+    update();
+    setOffset(0);
+  };
+
+  const renderContent = () => {
+    if (!hasScope) {
+      return (
+        <Card className="p-8">
+          <p className="text-center text-sm text-muted-foreground">
+            Choose an exam type or subject to analyse its questions.
+          </p>
+        </Card>
+      );
+    }
+
+    if (isLoading) {
+      return <Skeleton className="h-64 w-full" />;
+    }
+
+    if (isError || !data?.success || !data.data) {
+      return (
+        <Card className="p-8">
+          <div className="flex items-center justify-center flex-col gap-4">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+            <div className="text-center">
+              <h3 className="text-lg font-semibold">
+                Error Loading Item Analysis
+              </h3>
+              <p className="text-sm text-muted-foreground mt-2">
+                {error?.message || data?.message || "Something went wrong"}
+              </p>
+            </div>
+          </div>
+        </Card>
+      );
+    }
+
+    const { items, total, flaggedCount, minResponses } = data.data;
+    const hasPrevious = offset > 0;
+    const hasNext = offset + PAGE_SIZE < total;
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {flaggedCount} flagged question{flaggedCount === 1 ? "" : "s"}.
+          Questions are only flagged once they have at least {minResponses}{" "}
+          graded responses.
+        </p>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[280px]">Question</TableHead>
+                <TableHead className="text-right">Responses</TableHead>
+                <TableHead className="text-right">p-value</TableHead>
+                <TableHead className="text-right">Discrimination</TableHead>
+                <TableHead className="text-right">Avg Time</TableHead>
+                <TableHead>Difficulty</TableHead>
+                <TableHead>Options</TableHead>
+                <TableHead>Flags</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={9}
+                    className="h-24 text-center text-muted-foreground"
+                  >
+                    No questions found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                items.map((item) => (
+                  <TableRow key={item.questionId} className="align-top">
+                    <TableCell className="whitespace-normal">
+                      <p className="line-clamp-2">{item.questionText}</p>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {item.examType} • {item.subject} • {item.year}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {item.responses}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatNumber(item.pValue)}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right tabular-nums ${
+                        item.discrimination !== null && item.discrimination < 0
+                          ? "text-destructive"
+                          : ""
+                      }`}
+                    >
+                      {formatNumber(item.discrimination)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatTime(item.averageTime)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-1 text-sm">
+                        <span className="capitalize">
+                          Stated: {item.statedDifficulty}
+                        </span>
+                        <span className="capitalize text-muted-foreground">
+                          Observed: {item.empiricalDifficulty ?? "—"}
+                        </span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <OptionBreakdown item={item} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {item.flags.map((flag) => (
+                          <Badge
+                            key={flag}
+                            variant={
+                              flag === "possible_key_error"
+                                ? "destructive"
+                                : "secondary"
+                            }
+                          >
+                            {FLAG_LABELS[flag]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" asChild>
+                        <Link
+                          href={`/cp/admin-dashboard/questions/${item.questionId}`}
+                        >
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Edit
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset((prev) => Math.max(0, prev - PAGE_SIZE))}
+              disabled={!hasPrevious}
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOffset((prev) => prev + PAGE_SIZE)}
+              disabled={!hasNext}
+            >
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      {/* Page Header */}
+      <div>
+        <h2 className="text-2xl font-semibold">Item Analysis</h2>
+        <p className="text-muted-foreground mt-1">
+          Question statistics from graded exam answers
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-4">
+        <Select
+          value={examType}
+          onValueChange={(value) => updateFilter(() => setExamType(value))}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Exam type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All exam types</SelectItem>
+            {EXAM_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {type}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={subject}
+          onValueChange={(value) => updateFilter(() => setSubject(value))}
+        >
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Subject" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All subjects</SelectItem>
+            {SUBJECTS.map((s) => (
+              <SelectItem key={s} value={s}>
+                {s}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="item-analysis-flagged"
+            checked={flaggedOnly}
+            onCheckedChange={(checked) =>
+              updateFilter(() => setFlaggedOnly(checked))
+            }
+          />
+          <Label htmlFor="item-analysis-flagged">Flagged only</Label>
+        </div>
+      </div>
+
+      {renderContent()}
+    </div>
+  );
+}
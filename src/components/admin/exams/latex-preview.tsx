@@ -0,0 +1,23 @@
+"use client";
+
+import { LatexText } from "@/components/exams/latex-text";
+import { hasLatex } from "@/lib/utils/latex";
+
+interface LatexPreviewProps {
+  text: string;
+}
+
+/**
+ * Rendered preview of text containing LaTeX. Invalid LaTeX shows as red
+ * source; renders nothing for plain text.
+ */
+export function LatexPreview({ text }: LatexPreviewProps) {
+  if (!hasLatex(text)) return null;
+
+  return (
+    <div className="rounded-md border bg-white p-3 space-y-1">
+      <p className="text-xs text-gray-600">Preview</p>
+      <LatexText text={text} className="block text-sm" />
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+/**
+ * Essay Marking Queue
+ *
+ * Features:
+ * - Completed sessions waiting on essay marking, oldest first
+ * - Pending and marked answer counts per session
+ * - Link to mark each session
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  ClipboardCheck,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useMarkingQueue } from "@/hooks/use-exam-marking";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PAGE_SIZE = 20;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function formatDate(value: Date | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function MarkingQueue() {
+  const [offset, setOffset] = useState(0);
+
+  const { data, isLoading, isError, error } = useMarkingQueue({
+    limit: PAGE_SIZE,
+    offset,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 space-y-4">
+        <Skeleton className="h-8 w-[300px]" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !data?.success || !data.data) {
+    return (
+      <div className="container mx-auto py-8">
+        <Card className="p-8">
+          <div className="flex items-center justify-center flex-col gap-4">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+            <div className="text-center">
+              <h3 className="text-lg font-semibold">
+                Error Loading Marking Queue
+              </h3>
+              <p className="text-sm text-muted-foreground mt-2">
+                {error?.message || data?.message || "Something went wrong"}
+              </p>
+            </div>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const { sessions, total } = data.data;
+  const hasPrevious = offset > 0;
+  const hasNext = offset + PAGE_SIZE < total;
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      {/* Page Header */}
+      <div>
+        <h2 className="text-2xl font-semibold">Marking Queue</h2>
+        <p className="text-muted-foreground mt-1">
+          {total} session{total === 1 ? "" : "s"} waiting on essay marking
+        </p>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Candidate</TableHead>
+              <TableHead>Exam</TableHead>
+              <TableHead>Completed</TableHead>
+              <TableHead>Progress</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sessions.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="h-24 text-center text-muted-foreground"
+                >
+                  Nothing to mark.
+                </TableCell>
+              </TableRow>
+            ) : (
+              sessions.map((session) => (
+                <TableRow key={session.sessionId}>
+                  <TableCell>
+                    <p className="font-medium">{session.candidateName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {session.candidateEmail}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-medium">{session.examTitle}</p>
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="text-sm text-muted-foreground">
+                        {session.examType}
+                      </span>
+                      {session.category && (
+                        <Badge variant="outline" className="capitalize">
+                          {session.category}
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatDate(session.completedAt)}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">
+                      {session.markedAnswers} /{" "}
+                      {session.markedAnswers + session.pendingAnswers} marked
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" asChild>
+                      <Link
+                        href={`/cp/admin-dashboard/marking/${session.sessionId}`}
+                      >
+                        <ClipboardCheck className="h-4 w-4 mr-2" />
+                        Mark
+                      </Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setOffset((prev) => Math.max(0, prev - PAGE_SIZE))}
+            disabled={!hasPrevious}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setOffset((prev) => prev + PAGE_SIZE)}
+            disabled={!hasNext}
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+/**
+ * Proctoring Review Console
+ *
+ * Features:
+ * - Sessions with recorded violations, most violations first
+ * - Filter by review status
+ * - Link to each session's violation timeline
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  ShieldAlert,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useProctoringQueue } from "@/hooks/use-exam-proctoring";
+import { PROCTORING_STATUSES } from "@/lib/validations/exam-proctoring";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PAGE_SIZE = 20;
+
+// ============================================
+// HELPERS
+// ============================================
+
+type ProctoringStatusFilter = (typeof PROCTORING_STATUSES)[number];
+
+function formatDate(value: Date | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export function ProctoringStatusBadge({ status }: { status: string }) {
+  switch (status) {
+    case "disqualified":
+      return <Badge variant="destructive">Disqualified</Badge>;
+    case "flagged":
+      return <Badge variant="default">Flagged</Badge>;
+    case "cleared":
+      return <Badge variant="secondary">Cleared</Badge>;
+    default:
+      return <Badge variant="outline">Unreviewed</Badge>;
+  }
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function ProctoringQueue() {
+  const [offset, setOffset] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+
+  const { data, isLoading, isError, error } = useProctoringQueue({
+    proctoringStatus:
+      statusFilter === "all"
+        ? undefined
+        : (statusFilter as ProctoringStatusFilter),
+    limit: PAGE_SIZE,
+    offset,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 space-y-4">
+        <Skeleton className="h-8 w-[300px]" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !data?.success || !data.data) {
+    return (
+      <div className="container mx-auto py-8">
+        <Card className="p-8">
+          <div className="flex items-center justify-center flex-col gap-4">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+            <div className="text-center">
+              <h3 className="text-lg font-semibold">
+                Error Loading Proctoring Console
+              </h3>
+              <p className="text-sm text-muted-foreground mt-2">
+                {error?.message || data?.message || "Something went wrong"}
+              </p>
+            </div>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const { sessions, total } = data.data;
+  const hasPrevious = offset > 0;
+  const hasNext = offset + PAGE_SIZE < total;
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">Proctoring Review</h2>
+          <p className="text-muted-foreground mt-1">
+            {total} session{total === 1 ? "" : "s"} with recorded violations
+          </p>
+        </div>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => {
+            setStatusFilter(value);
+            setOffset(0);
+          }}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Review status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {PROCTORING_STATUSES.map((status) => (
+              <SelectItem key={status} value={status} className="capitalize">
+                {status}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Candidate</TableHead>
+              <TableHead>Exam</TableHead>
+              <TableHead>Started</TableHead>
+              <TableHead className="text-right">Violations</TableHead>
+              <TableHead>Review</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sessions.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={6}
+                  className="h-24 text-center text-muted-foreground"
+                >
+                  No sessions to review.
+                </TableCell>
+              </TableRow>
+            ) : (
+              sessions.map((session) => (
+                <TableRow key={session.sessionId}>
+                  <TableCell>
+                    <p className="font-medium">{session.candidateName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {session.candidateEmail}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-medium">{session.examTitle}</p>
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="text-sm text-muted-foreground">
+                        {session.examType}
+                      </span>
+                      {session.category && (
+                        <Badge variant="outline" className="capitalize">
+                          {session.category}
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <p>{formatDate(session.startedAt)}</p>
+                    <p className="text-sm text-muted-foreground capitalize">
+                      {session.status}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {session.violationCount}
+                  </TableCell>
+                  <TableCell>
+                    <ProctoringStatusBadge status={session.proctoringStatus} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" asChild>
+                      <Link
+                        href={`/cp/admin-dashboard/proctoring/${session.sessionId}`}
+                      >
+                        <ShieldAlert className="h-4 w-4 mr-2" />
+                        Review
+                      </Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setOffset((prev) => Math.max(0, prev - PAGE_SIZE))}
+            disabled={!hasPrevious}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setOffset((prev) => prev + PAGE_SIZE)}
+            disabled={!hasNext}
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
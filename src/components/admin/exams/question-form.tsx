@@ -26,6 +26,10 @@ import {
   SUBJECTS,
   YEARS,
 } from "@/lib/utils/exam";
+import { getLatexError } from "@/lib/utils/latex";
+import { getRichTextError } from "@/lib/utils/rich-text";
+import { LatexPreview } from "@/components/admin/exams/latex-preview";
+import { RichTextField } from "@/components/admin/exams/rich-text-field";
 import { AddQuestionFormProps } from "@/types/question";
 import { useCreateQuestion, useUpdateQuestion } from "@/hooks/use-questions";
 import type { QuestionUploadInput } from "@/lib/validations/question";
@@ -145,6 +149,7 @@ export default function AddQuestionForm({
     question_text: initialData.question_text || "",
     question_point: initialData.question_point || "",
     answer_explanation: initialData.answer_explanation || "",
+    marking_rubric: initialData.marking_rubric || "",
     difficulty_level: initialData.difficulty_level || "",
     tags: initialData.tags || "",
     time_limit: initialData.time_limit || "",
@@ -178,6 +183,22 @@ export default function AddQuestionForm({
     ];
   });
 
+  // Fill-in-blank matching rules (tolerance kept as input text)
+  const [answerRules, setAnswerRules] = useState({
+    caseSensitive: initialData.answer_rules?.caseSensitive ?? false,
+    ignoreWhitespace: initialData.answer_rules?.ignoreWhitespace ?? false,
+    numericTolerance:
+      initialData.answer_rules?.numericTolerance?.toString() || "0",
+  });
+
+  const isFillInBlank = formData.question_type === "fill_in_blank";
+  const isEssay = formData.question_type === "essay";
+  const imageContext = {
+    examType: formData.exam_type,
+    year: formData.year,
+    subject: formData.subject,
+  };
+
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   // Update question image preview when initialData changes
@@ -302,6 +323,9 @@ export default function AddQuestionForm({
   };
 
   const handleOptionCorrectToggle = (index: number) => {
+    // Every fill-in-blank answer is an accepted answer
+    if (isFillInBlank) return;
+
     setOptions((prev) =>
       prev.map((opt, i) => ({ ...opt, is_correct: i === index }))
     );
@@ -315,14 +339,14 @@ export default function AddQuestionForm({
           option_text: "",
           option_image: null,
           option_image_preview: "",
-          is_correct: false,
+          is_correct: isFillInBlank,
         },
       ]);
     }
   };
 
   const removeOption = (index: number) => {
-    if (options.length > 2) {
+    if (options.length > (isFillInBlank ? 1 : 2)) {
       setOptions((prev) => prev.filter((_, i) => i !== index));
     }
   };
@@ -344,11 +368,22 @@ export default function AddQuestionForm({
           is_correct: false,
         },
       ]);
+    } else if (value === "fill_in_blank") {
+      // Options hold the accepted answers, all of them correct
+      setOptions([
+        {
+          option_text: "",
+          option_image: null,
+          option_image_preview: "",
+          is_correct: true,
+        },
+      ]);
     } else if (
       formData.question_type === "true_false" ||
+      formData.question_type === "fill_in_blank" ||
       !initialData.options
     ) {
-      // Only reset if coming from true_false or no initial data
+      // Only reset if coming from true_false, fill_in_blank or no initial data
       setOptions([
         {
           option_text: "",
@@ -382,17 +417,43 @@ export default function AddQuestionForm({
       newErrors.difficulty_level = "Difficulty level is required";
 
     const hasCorrectAnswer = options.some((opt) => opt.is_correct);
-    if (!hasCorrectAnswer) {
+    if (!isEssay && !hasCorrectAnswer) {
       newErrors.options = "At least one correct answer must be selected";
     }
 
-    if (formData.question_type === "multiple_choice") {
+    if (formData.question_type === "multiple_choice" || isFillInBlank) {
       const hasEmptyOption = options.some((opt) => !opt.option_text.trim());
       if (hasEmptyOption) {
         newErrors.options = "All option texts must be filled";
       }
     }
 
+    // LaTeX and rich text must be valid, as the server rejects them otherwise
+    const questionTextError = getRichTextError(formData.question_text);
+    if (questionTextError) {
+      newErrors.question_text = questionTextError;
+    }
+
+    const optionLatexError = options
+      .map((opt) => getLatexError(opt.option_text))
+      .find(Boolean);
+    if (!isEssay && optionLatexError) {
+      newErrors.options = optionLatexError;
+    }
+
+    const explanationError = getRichTextError(formData.answer_explanation);
+    if (explanationError) {
+      newErrors.answer_explanation = explanationError;
+    }
+
+    if (isFillInBlank) {
+      const tolerance = Number(answerRules.numericTolerance);
+      if (!Number.isFinite(tolerance) || tolerance < 0) {
+        newErrors.numeric_tolerance =
+          "Numeric tolerance must be a non-negative number";
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -406,6 +467,7 @@ export default function AddQuestionForm({
       question_text: initialData.question_text || "",
       question_point: initialData.question_point || "",
       answer_explanation: initialData.answer_explanation || "",
+      marking_rubric: initialData.marking_rubric || "",
       difficulty_level: initialData.difficulty_level || "",
       tags: initialData.tags || "",
       time_limit: initialData.time_limit || "",
@@ -438,6 +500,13 @@ export default function AddQuestionForm({
       ]);
     }
 
+    setAnswerRules({
+      caseSensitive: initialData.answer_rules?.caseSensitive ?? false,
+      ignoreWhitespace: initialData.answer_rules?.ignoreWhitespace ?? false,
+      numericTolerance:
+        initialData.answer_rules?.numericTolerance?.toString() || "0",
+    });
+
     setQuestionImage(null);
     setQuestionImagePreview(initialData.question_image || "");
     setErrors({});
@@ -465,6 +534,9 @@ export default function AddQuestionForm({
         question_text: formData.question_text,
         question_point: parseFloat(formData.question_point),
         answer_explanation: formData.answer_explanation || undefined,
+        marking_rubric: isEssay
+          ? formData.marking_rubric || undefined
+          : undefined,
         difficulty_level:
           formData.difficulty_level as QuestionUploadInput["difficulty_level"],
         tags: formData.tags
@@ -477,12 +549,22 @@ export default function AddQuestionForm({
           ? parseInt(formData.time_limit)
           : undefined,
         language: "en",
-        options: options.map((opt, index) => ({
-          option_text: opt.option_text,
-          is_correct: opt.is_correct,
-          order_index: index,
-          has_image: opt.option_image !== null || !!opt.option_image_preview,
-        })),
+        options: isEssay
+          ? []
+          : options.map((opt, index) => ({
+              option_text: opt.option_text,
+              is_correct: opt.is_correct,
+              order_index: index,
+              has_image:
+                opt.option_image !== null || !!opt.option_image_preview,
+            })),
+        answer_rules: isFillInBlank
+          ? {
+              caseSensitive: answerRules.caseSensitive,
+              ignoreWhitespace: answerRules.ignoreWhitespace,
+              numericTolerance: Number(answerRules.numericTolerance),
+            }
+          : undefined,
         has_question_image: questionImage !== null || !!questionImagePreview,
       };
 
@@ -745,16 +827,20 @@ export default function AddQuestionForm({
               <Label htmlFor="question_text">
                 Question Text <span className="text-red-500">*</span>
               </Label>
-              <Textarea
+              <RichTextField
                 id="question_text"
                 placeholder="Enter the question..."
                 value={formData.question_text}
-                onChange={(e) =>
-                  handleInputChange("question_text", e.target.value)
-                }
+                onChange={(value) => handleInputChange("question_text", value)}
                 disabled={isLoading}
-                rows={4}
+                rows={6}
+                imageContext={imageContext}
               />
+              <p className="text-xs text-gray-600">
+                Use $...$ for inline maths and $$...$$ for display maths, e.g.{" "}
+                {"$x^2$"} or {"$\\ce{H2O}$"}. Write \$ for a dollar sign. Leave
+                a blank line between paragraphs, lists and tables.
+              </p>
               {errors.question_text && (
                 <p className="text-xs text-red-500">{errors.question_text}</p>
               )}
@@ -809,57 +895,68 @@ export default function AddQuestionForm({
             </div>
           </div>
 
-          {/* Answer Options */}
-          <div className="space-y-6">
-            <div className="border-b pb-4">
-              <h4 className="text-lg font-medium">Answer Options</h4>
-              <p className="text-sm text-gray-600">
-                {formData.question_type === "true_false"
-                  ? "Select the correct answer"
-                  : "Add answer options and mark the correct one(s)"}
-              </p>
-            </div>
+          {/* Answer Options (essays are marked by hand against a rubric) */}
+          {!isEssay && (
+            <div className="space-y-6">
+              <div className="border-b pb-4">
+                <h4 className="text-lg font-medium">Answer Options</h4>
+                <p className="text-sm text-gray-600">
+                  {formData.question_type === "true_false"
+                    ? "Select the correct answer"
+                    : isFillInBlank
+                      ? "Add every answer that should be accepted"
+                      : "Add answer options and mark the correct one(s)"}
+                </p>
+              </div>
 
-            {errors.options && (
-              <p className="text-xs text-red-500">{errors.options}</p>
-            )}
+              {errors.options && (
+                <p className="text-xs text-red-500">{errors.options}</p>
+              )}
 
-            <div className="space-y-4">
-              {options.map((option, index) => (
-                <div
-                  key={index}
-                  className="border rounded-lg p-4 space-y-3 bg-gray-50"
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div className="h-8 w-8 rounded-full bg-primary text-white flex items-center justify-center font-medium">
-                        {formData.question_type === "true_false"
-                          ? option.option_text.charAt(0)
-                          : optionLabels[index]}
-                      </div>
-                      <Label className="font-medium">
-                        {formData.question_type === "true_false"
-                          ? option.option_text
-                          : `Option ${optionLabels[index]}`}
-                      </Label>
-                    </div>
-                    <div className="flex items-center gap-4">
-                      <div className="flex items-center gap-2">
-                        <Label htmlFor={`correct-${index}`} className="text-sm">
-                          Correct
+              <div className="space-y-4">
+                {options.map((option, index) => (
+                  <div
+                    key={index}
+                    className="border rounded-lg p-4 space-y-3 bg-gray-50"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div className="h-8 w-8 rounded-full bg-primary text-white flex items-center justify-center font-medium">
+                          {formData.question_type === "true_false"
+                            ? option.option_text.charAt(0)
+                            : optionLabels[index]}
+                        </div>
+                        <Label className="font-medium">
+                          {formData.question_type === "true_false"
+                            ? option.option_text
+                            : isFillInBlank
+                              ? `Accepted Answer ${index + 1}`
+                              : `Option ${optionLabels[index]}`}
                         </Label>
-                        <Switch
-                          id={`correct-${index}`}
-                          checked={option.is_correct}
-                          onCheckedChange={() =>
-                            handleOptionCorrectToggle(index)
-                          }
-                          disabled={isLoading}
-                          className="cursor-pointer"
-                        />
                       </div>
-                      {formData.question_type === "multiple_choice" &&
-                        options.length > 2 && (
+                      <div className="flex items-center gap-4">
+                        <div
+                          className={`flex items-center gap-2 ${isFillInBlank ? "hidden" : ""}`}
+                        >
+                          <Label
+                            htmlFor={`correct-${index}`}
+                            className="text-sm"
+                          >
+                            Correct
+                          </Label>
+                          <Switch
+                            id={`correct-${index}`}
+                            checked={option.is_correct}
+                            onCheckedChange={() =>
+                              handleOptionCorrectToggle(index)
+                            }
+                            disabled={isLoading}
+                            className="cursor-pointer"
+                          />
+                        </div>
+                        {((formData.question_type === "multiple_choice" &&
+                          options.length > 2) ||
+                          (isFillInBlank && options.length > 1)) && (
                           <Button
                             type="button"
                             variant="ghost"
@@ -870,113 +967,221 @@ export default function AddQuestionForm({
                             <X className="h-4 w-4 text-red-500" />
                           </Button>
                         )}
+                      </div>
                     </div>
-                  </div>
-
-                  {formData.question_type === "multiple_choice" && (
-                    <>
-                      <Input
-                        placeholder={`Enter option ${optionLabels[index]} text`}
-                        value={option.option_text}
-                        onChange={(e) =>
-                          handleOptionTextChange(index, e.target.value)
-                        }
-                        disabled={isLoading}
-                      />
 
-                      <div className="flex items-center gap-4">
+                    {isFillInBlank && (
+                      <>
                         <Input
-                          id={`option-image-${index}`}
-                          type="file"
-                          accept="image/*"
-                          onChange={(e) => handleOptionImageUpload(index, e)}
+                          placeholder="Enter an accepted answer"
+                          value={option.option_text}
+                          onChange={(e) =>
+                            handleOptionTextChange(index, e.target.value)
+                          }
                           disabled={isLoading}
-                          className="hidden"
                         />
-                        <Button
-                          type="button"
-                          variant="outline"
-                          size="sm"
-                          onClick={() =>
-                            document
-                              .getElementById(`option-image-${index}`)
-                              ?.click()
+                        <LatexPreview text={option.option_text} />
+                      </>
+                    )}
+
+                    {formData.question_type === "multiple_choice" && (
+                      <>
+                        <Input
+                          placeholder={`Enter option ${optionLabels[index]} text`}
+                          value={option.option_text}
+                          onChange={(e) =>
+                            handleOptionTextChange(index, e.target.value)
                           }
                           disabled={isLoading}
-                        >
-                          <Upload className="h-3 w-3 mr-2" />
-                          {option.option_image_preview
-                            ? "Change Image"
-                            : "Add Image"}
-                        </Button>
-                        {option.option_image_preview && (
-                          <div className="relative">
-                            <Image
-                              src={option.option_image_preview}
-                              alt={`Option ${optionLabels[index]}`}
-                              width={500}
-                              height={500}
-                              className="h-16 w-16 object-cover rounded border"
-                            />
-                            <Button
-                              type="button"
-                              variant="destructive"
-                              size="sm"
-                              className="absolute -top-2 -right-2 h-5 w-5 rounded-full p-0"
-                              onClick={() => removeOptionImage(index)}
-                            >
-                              <X className="h-3 w-3" />
-                            </Button>
-                          </div>
-                        )}
-                      </div>
-                      <p className="text-xs text-gray-600">
-                        Max 10MB per image. Supported: JPEG, PNG, WebP, GIF
-                      </p>
-                    </>
+                        />
+                        <LatexPreview text={option.option_text} />
+
+                        <div className="flex items-center gap-4">
+                          <Input
+                            id={`option-image-${index}`}
+                            type="file"
+                            accept="image/*"
+                            onChange={(e) => handleOptionImageUpload(index, e)}
+                            disabled={isLoading}
+                            className="hidden"
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              document
+                                .getElementById(`option-image-${index}`)
+                                ?.click()
+                            }
+                            disabled={isLoading}
+                          >
+                            <Upload className="h-3 w-3 mr-2" />
+                            {option.option_image_preview
+                              ? "Change Image"
+                              : "Add Image"}
+                          </Button>
+                          {option.option_image_preview && (
+                            <div className="relative">
+                              <Image
+                                src={option.option_image_preview}
+                                alt={`Option ${optionLabels[index]}`}
+                                width={500}
+                                height={500}
+                                className="h-16 w-16 object-cover rounded border"
+                              />
+                              <Button
+                                type="button"
+                                variant="destructive"
+                                size="sm"
+                                className="absolute -top-2 -right-2 h-5 w-5 rounded-full p-0"
+                                onClick={() => removeOptionImage(index)}
+                              >
+                                <X className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-600">
+                          Max 10MB per image. Supported: JPEG, PNG, WebP, GIF
+                        </p>
+                      </>
+                    )}
+                  </div>
+                ))}
+
+                {(formData.question_type === "multiple_choice" ||
+                  isFillInBlank) &&
+                  options.length < 10 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={addOption}
+                      disabled={isLoading}
+                      className="w-full md:w-fit"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      {isFillInBlank
+                        ? "Add Accepted Answer"
+                        : `Add Option ${optionLabels[options.length]}`}
+                    </Button>
                   )}
+              </div>
+
+              {isFillInBlank && (
+                <div className="grid md:grid-cols-3 gap-6">
+                  <div className="flex items-center justify-between gap-2 border rounded-lg p-4">
+                    <Label htmlFor="case_sensitive" className="text-sm">
+                      Case sensitive
+                    </Label>
+                    <Switch
+                      id="case_sensitive"
+                      checked={answerRules.caseSensitive}
+                      onCheckedChange={(checked) =>
+                        setAnswerRules((prev) => ({
+                          ...prev,
+                          caseSensitive: checked,
+                        }))
+                      }
+                      disabled={isLoading}
+                      className="cursor-pointer"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-2 border rounded-lg p-4">
+                    <Label htmlFor="ignore_whitespace" className="text-sm">
+                      Ignore all whitespace
+                    </Label>
+                    <Switch
+                      id="ignore_whitespace"
+                      checked={answerRules.ignoreWhitespace}
+                      onCheckedChange={(checked) =>
+                        setAnswerRules((prev) => ({
+                          ...prev,
+                          ignoreWhitespace: checked,
+                        }))
+                      }
+                      disabled={isLoading}
+                      className="cursor-pointer"
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="numeric_tolerance" className="text-sm">
+                      Numeric tolerance
+                    </Label>
+                    <Input
+                      id="numeric_tolerance"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={answerRules.numericTolerance}
+                      onChange={(e) =>
+                        setAnswerRules((prev) => ({
+                          ...prev,
+                          numericTolerance: e.target.value,
+                        }))
+                      }
+                      disabled={isLoading}
+                    />
+                    {errors.numeric_tolerance && (
+                      <p className="text-xs text-red-500">
+                        {errors.numeric_tolerance}
+                      </p>
+                    )}
+                  </div>
                 </div>
-              ))}
-
-              {formData.question_type === "multiple_choice" &&
-                options.length < 10 && (
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={addOption}
-                    disabled={isLoading}
-                    className="w-full md:w-fit"
-                  >
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Option {optionLabels[options.length]}
-                  </Button>
-                )}
+              )}
             </div>
-          </div>
+          )}
 
           {/* Additional Information */}
           <div className="space-y-6">
             <div className="border-b pb-4">
               <h4 className="text-lg font-medium">Additional Information</h4>
               <p className="text-sm text-gray-600">
-                Optional explanation for the answer
+                {isEssay
+                  ? "Marking guidance and an optional model answer"
+                  : "Optional explanation for the answer"}
               </p>
             </div>
 
+            {isEssay && (
+              <div className="grid gap-3">
+                <Label htmlFor="marking_rubric">
+                  Marking Rubric (Optional)
+                </Label>
+                <Textarea
+                  id="marking_rubric"
+                  placeholder="List the points markers should look for and how many marks each is worth..."
+                  value={formData.marking_rubric}
+                  onChange={(e) =>
+                    handleInputChange("marking_rubric", e.target.value)
+                  }
+                  disabled={isLoading}
+                  rows={4}
+                />
+              </div>
+            )}
+
             <div className="grid gap-3">
               <Label htmlFor="answer_explanation">
                 Answer Explanation (Optional)
               </Label>
-              <Textarea
+              <RichTextField
                 id="answer_explanation"
                 placeholder="Explain why this is the correct answer..."
                 value={formData.answer_explanation}
-                onChange={(e) =>
-                  handleInputChange("answer_explanation", e.target.value)
+                onChange={(value) =>
+                  handleInputChange("answer_explanation", value)
                 }
                 disabled={isLoading}
                 rows={4}
+                imageContext={imageContext}
               />
+              {errors.answer_explanation && (
+                <p className="text-xs text-red-500">
+                  {errors.answer_explanation}
+                </p>
+              )}
             </div>
           </div>
 
@@ -0,0 +1,228 @@
+"use client";
+
+/**
+ * Question Pools Fields
+ *
+ * Features:
+ * - Give every candidate all selected questions, or draw from pools
+ * - Pools by tag and difficulty with a count drawn per candidate
+ * - Matching selected questions shown for each pool
+ */
+
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { DIFFICULTY_LEVELS } from "@/lib/utils/exam";
+import type { QuestionDecrypted } from "@/types/exam-api";
+import type { QuestionPool } from "@/types/exam-session";
+
+interface QuestionPoolsFieldsProps {
+  value: QuestionPool[] | null; // null = every selected question
+  onChange: (value: QuestionPool[] | null) => void;
+  questions: QuestionDecrypted[]; // Selected questions the pools draw from
+  disabled?: boolean;
+  error?: string;
+}
+
+const MAX_POOLS = 20;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function emptyPool(index: number): QuestionPool {
+  return { label: `Pool ${index + 1}`, count: 5 };
+}
+
+function countMatching(
+  pool: QuestionPool,
+  questions: QuestionDecrypted[]
+): number {
+  const tag = pool.tag?.trim().toLowerCase();
+
+  return questions.filter(
+    (q) =>
+      (!pool.difficultyLevel || q.difficultyLevel === pool.difficultyLevel) &&
+      (!tag || q.tags.some((t) => t.trim().toLowerCase() === tag))
+  ).length;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function QuestionPoolsFields({
+  value,
+  onChange,
+  questions,
+  disabled = false,
+  error,
+}: QuestionPoolsFieldsProps) {
+  const updatePool = (index: number, changes: Partial<QuestionPool>) => {
+    if (!value) return;
+    onChange(
+      value.map((pool, i) => (i === index ? { ...pool, ...changes } : pool))
+    );
+  };
+
+  const totalDrawn = value?.reduce((sum, pool) => sum + pool.count, 0) ?? 0;
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="use_question_pools" className="text-sm">
+            Randomized Papers
+          </Label>
+          <p className="text-xs text-gray-600 mt-1">
+            {value
+              ? `Each candidate draws ${totalDrawn} of the ${questions.length} selected questions`
+              : "Every candidate gets every selected question"}
+          </p>
+        </div>
+        <Switch
+          id="use_question_pools"
+          checked={!!value}
+          onCheckedChange={(checked) =>
+            onChange(checked ? [emptyPool(0)] : null)
+          }
+          disabled={disabled}
+        />
+      </div>
+
+      {value && (
+        <>
+          <div className="space-y-3">
+            {value.map((pool, index) => {
+              const matching = countMatching(pool, questions);
+
+              return (
+                <div key={index} className="space-y-1">
+                  <div className="grid md:grid-cols-[2fr_1.5fr_1fr_0.75fr_auto] gap-2 items-end">
+                    <div className="grid gap-1">
+                      <Label className="text-xs">Pool Name</Label>
+                      <Input
+                        maxLength={100}
+                        value={pool.label}
+                        onChange={(e) =>
+                          updatePool(index, { label: e.target.value })
+                        }
+                        disabled={disabled}
+                      />
+                    </div>
+                    <div className="grid gap-1">
+                      <Label className="text-xs">Tag (Optional)</Label>
+                      <Input
+                        placeholder="Any tag"
+                        maxLength={50}
+                        value={pool.tag ?? ""}
+                        onChange={(e) =>
+                          updatePool(index, {
+                            tag: e.target.value || undefined,
+                          })
+                        }
+                        disabled={disabled}
+                      />
+                    </div>
+                    <div className="grid gap-1">
+                      <Label className="text-xs">Difficulty</Label>
+                      <Select
+                        value={pool.difficultyLevel ?? "any"}
+                        onValueChange={(level) =>
+                          updatePool(index, {
+                            difficultyLevel:
+                              level === "any" ? undefined : level,
+                          })
+                        }
+                        disabled={disabled}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="any">Any level</SelectItem>
+                          {DIFFICULTY_LEVELS.map((level) => (
+                            <SelectItem
+                              key={level}
+                              value={level}
+                              className="capitalize"
+                            >
+                              {level}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid gap-1">
+                      <Label className="text-xs">Draw</Label>
+                      <Input
+                        type="number"
+                        min="1"
+                        max="200"
+                        value={pool.count}
+                        onChange={(e) =>
+                          updatePool(index, {
+                            count: parseInt(e.target.value) || 0,
+                          })
+                        }
+                        disabled={disabled}
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        onChange(value.filter((_, i) => i !== index))
+                      }
+                      disabled={disabled || value.length === 1}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p
+                    className={`text-xs ${
+                      matching < pool.count ? "text-red-500" : "text-gray-600"
+                    }`}
+                  >
+                    {matching} selected question{matching === 1 ? "" : "s"}{" "}
+                    match this pool
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          {value.length < MAX_POOLS && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange([...value, emptyPool(value.length)])}
+              disabled={disabled}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Pool
+            </Button>
+          )}
+
+          <p className="text-xs text-gray-600">
+            Pools are drawn when a session starts. A question is only drawn
+            once, so overlapping pools need enough questions for both.
+          </p>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
   Plus,
   Upload,
   Download,
+  BarChart3,
 } from "lucide-react";
 import {
   Card,
@@ -235,6 +236,13 @@ export function QuestionsPageContent() {
               Export Questions
             </Link>
           </Button>
+
+          <Button asChild variant="outline">
+            <Link href="/cp/admin-dashboard/questions/item-analysis">
+              <BarChart3 className="mr-2 h-4 w-4" />
+              Item Analysis
+            </Link>
+          </Button>
         </div>
       </div>
 
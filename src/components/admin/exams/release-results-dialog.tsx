@@ -0,0 +1,84 @@
+"use client";
+
+/**
+ * Release Results Confirmation Dialog
+ *
+ * Features:
+ * - Confirms before results go live (this cannot be undone)
+ * - Emails every candidate once results are released
+ * - Loading states and toast notifications
+ */
+
+import { Loader2, Send } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useReleaseExamResults } from "@/hooks/use-exams";
+
+interface ReleaseResultsDialogProps {
+  examId: string;
+  examTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReleaseResultsDialog({
+  examId,
+  examTitle,
+  open,
+  onOpenChange,
+}: ReleaseResultsDialogProps) {
+  const releaseResults = useReleaseExamResults();
+
+  const handleRelease = () => {
+    releaseResults.mutate(examId, {
+      onSuccess: (data) => {
+        if (data.success) onOpenChange(false);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Send className="h-5 w-5 text-primary" />
+            Release Results
+          </DialogTitle>
+          <DialogDescription>
+            Candidates will be able to see their scores for{" "}
+            <span className="font-semibold">{examTitle}</span> and will be
+            notified by email. This action cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={releaseResults.isPending}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleRelease} disabled={releaseResults.isPending}>
+            {releaseResults.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Releasing...
+              </>
+            ) : (
+              "Release Results"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
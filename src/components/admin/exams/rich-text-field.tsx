@@ -0,0 +1,245 @@
+"use client";
+
+/**
+ * Rich Text Field
+ *
+ * Features:
+ * - Textarea for the rich text format in `lib/utils/rich-text`
+ * - Toolbar for bold, italic, lists, tables, code blocks and maths
+ * - Inline image upload
+ * - Rendered preview once the text has any formatting
+ */
+
+import { useRef, useState } from "react";
+import {
+  Bold,
+  Code,
+  ImagePlus,
+  Italic,
+  List,
+  ListOrdered,
+  Loader2,
+  Sigma,
+  Table,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { RichText } from "@/components/exams/rich-text";
+import { uploadQuestionContentImage } from "@/lib/actions/question-upload";
+import { hasRichFormatting } from "@/lib/utils/rich-text";
+
+interface RichTextFieldProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  disabled?: boolean;
+  // Where uploaded images are stored; images are disabled until all are set
+  imageContext: { examType: string; year: string; subject: string };
+}
+
+const TABLE_TEMPLATE =
+  "| Heading 1 | Heading 2 |\n| --- | --- |\n| Cell | Cell |\n| Cell | Cell |";
+
+// ============================================
+// COMPONENT
+// ============================================
+
+export function RichTextField({
+  id,
+  value,
+  onChange,
+  placeholder,
+  rows = 4,
+  disabled = false,
+  imageContext,
+}: RichTextFieldProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const canUploadImages =
+    !!imageContext.examType && !!imageContext.year && !!imageContext.subject;
+
+  // Replace the selection and keep it selected
+  const replaceSelection = (
+    format: (selected: string) => string,
+    placeholderText = ""
+  ) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const replacement = format(value.slice(start, end) || placeholderText);
+
+    onChange(value.slice(0, start) + replacement + value.slice(end));
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start, start + replacement.length);
+    });
+  };
+
+  const wrap = (marker: string, placeholderText: string) =>
+    replaceSelection((text) => `${marker}${text}${marker}`, placeholderText);
+
+  // Blocks start on their own line with a blank line before them
+  const insertBlock = (format: (selected: string) => string, text = "") => {
+    const start = textareaRef.current?.selectionStart ?? value.length;
+    const before = value.slice(0, start);
+    const separator = !before.trim()
+      ? ""
+      : before.endsWith("\n\n")
+        ? ""
+        : before.endsWith("\n")
+          ? "\n"
+          : "\n\n";
+
+    replaceSelection((selected) => separator + format(selected), text);
+  };
+
+  const prefixLines = (prefix: (index: number) => string) =>
+    insertBlock(
+      (selected) =>
+        selected
+          .split("\n")
+          .map((line, index) => `${prefix(index)}${line}`)
+          .join("\n"),
+      "Item"
+    );
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("image", file);
+      formData.append("exam_type", imageContext.examType);
+      formData.append("year", imageContext.year);
+      formData.append("subject", imageContext.subject);
+
+      const result = await uploadQuestionContentImage(formData);
+      if (!result.success || !result.data) {
+        toast.error(result.message);
+        return;
+      }
+
+      const alt = file.name.replace(/\.[^.]+$/, "").replace(/[[\]]/g, "");
+      const url = result.data.url;
+      replaceSelection(() => `![${alt}](${url})`);
+    } catch (error) {
+      console.error("Content image upload error:", error);
+      toast.error("Failed to upload image");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const toolbar = [
+    {
+      label: "Bold",
+      icon: Bold,
+      onClick: () => wrap("**", "bold text"),
+    },
+    {
+      label: "Italic",
+      icon: Italic,
+      onClick: () => wrap("*", "italic text"),
+    },
+    {
+      label: "Bulleted list",
+      icon: List,
+      onClick: () => prefixLines(() => "- "),
+    },
+    {
+      label: "Numbered list",
+      icon: ListOrdered,
+      onClick: () => prefixLines((index) => `${index + 1}. `),
+    },
+    {
+      label: "Table",
+      icon: Table,
+      onClick: () => insertBlock(() => TABLE_TEMPLATE),
+    },
+    {
+      label: "Code block",
+      icon: Code,
+      onClick: () =>
+        insertBlock((selected) => `\`\`\`\n${selected}\n\`\`\``, "code"),
+    },
+    {
+      label: "Maths",
+      icon: Sigma,
+      onClick: () => wrap("$", "x^2"),
+    },
+  ];
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex flex-wrap items-center gap-1">
+        {toolbar.map((item) => (
+          <Button
+            key={item.label}
+            type="button"
+            variant="ghost"
+            size="sm"
+            title={item.label}
+            aria-label={item.label}
+            onClick={item.onClick}
+            disabled={disabled}
+          >
+            <item.icon className="h-4 w-4" />
+          </Button>
+        ))}
+        <Input
+          id={`${id}_image`}
+          type="file"
+          accept="image/*"
+          onChange={handleImageUpload}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          title={
+            canUploadImages
+              ? "Image"
+              : "Select the exam type, year and subject to add images"
+          }
+          aria-label="Image"
+          onClick={() => document.getElementById(`${id}_image`)?.click()}
+          disabled={disabled || isUploading || !canUploadImages}
+        >
+          {isUploading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <ImagePlus className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
+
+      <Textarea
+        ref={textareaRef}
+        id={id}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        rows={rows}
+        className="font-mono text-sm"
+      />
+
+      {hasRichFormatting(value) && (
+        <div className="rounded-md border bg-white p-3 space-y-1">
+          <p className="text-xs text-gray-600">Preview</p>
+          <RichText text={value} className="text-sm" />
+        </div>
+      )}
+    </div>
+  );
+}
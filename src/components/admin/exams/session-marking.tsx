@@ -0,0 +1,289 @@
+"use client";
+
+/**
+ * Session Essay Marking
+ *
+ * Features:
+ * - Each essay answer next to its rubric and answer explanation
+ * - Partial points and feedback per answer
+ * - Live grading status, score and pass/fail for the session
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { AlertCircle, ArrowLeft, CheckCircle2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useMarkEssayAnswer,
+  useSessionMarking,
+} from "@/hooks/use-exam-marking";
+import type { MarkableAnswer } from "@/types/admin";
+
+interface SessionMarkingProps {
+  sessionId: string;
+}
+
+// ============================================
+// ANSWER CARD
+// ============================================
+
+function MarkableAnswerCard({
+  answer,
+  index,
+}: {
+  answer: MarkableAnswer;
+  index: number;
+}) {
+  const [points, setPoints] = useState(
+    answer.pointsAwarded !== null ? answer.pointsAwarded.toString() : ""
+  );
+  const [feedback, setFeedback] = useState(answer.feedback ?? "");
+  const markAnswer = useMarkEssayAnswer();
+
+  const parsedPoints = Number(points);
+  const isValidPoints =
+    points !== "" &&
+    Number.isFinite(parsedPoints) &&
+    parsedPoints >= 0 &&
+    parsedPoints <= answer.questionPoint;
+
+  const handleSave = () => {
+    if (!isValidPoints) return;
+
+    markAnswer.mutate({
+      answerId: answer.answerId,
+      pointsAwarded: parsedPoints,
+      feedback: feedback.trim() || undefined,
+    });
+  };
+
+  return (
+    <Card className="px-4 md:px-8 py-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Question {index + 1}</p>
+          <p className="font-medium whitespace-pre-wrap">
+            {answer.questionText}
+          </p>
+          {answer.questionImage && (
+            <Image
+              src={answer.questionImage}
+              alt={`Question ${index + 1}`}
+              width={500}
+              height={300}
+              className="max-w-full h-auto rounded border"
+            />
+          )}
+        </div>
+        {answer.markedAt ? (
+          <Badge variant="default" className="gap-1 shrink-0">
+            <CheckCircle2 className="h-3 w-3" />
+            {answer.pointsAwarded} / {answer.questionPoint}
+          </Badge>
+        ) : (
+          <Badge variant="secondary" className="shrink-0">
+            Unmarked
+          </Badge>
+        )}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <Label>Candidate Answer</Label>
+          <div className="rounded-md border bg-gray-50 p-4 text-sm whitespace-pre-wrap min-h-[120px]">
+            {answer.textAnswer || (
+              <span className="text-muted-foreground">No answer given</span>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Rubric</Label>
+            <div className="rounded-md border p-4 text-sm whitespace-pre-wrap">
+              {answer.markingRubric || (
+                <span className="text-muted-foreground">
+                  No rubric provided
+                </span>
+              )}
+            </div>
+          </div>
+          {answer.answerExplanation && (
+            <div className="space-y-2">
+              <Label>Answer Explanation</Label>
+              <div className="rounded-md border p-4 text-sm whitespace-pre-wrap">
+                {answer.answerExplanation}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-[200px_1fr] gap-6">
+        <div className="grid gap-2">
+          <Label htmlFor={`points-${answer.answerId}`}>
+            Points (max {answer.questionPoint})
+          </Label>
+          <Input
+            id={`points-${answer.answerId}`}
+            type="number"
+            min="0"
+            max={answer.questionPoint}
+            step="0.5"
+            value={points}
+            onChange={(e) => setPoints(e.target.value)}
+            disabled={markAnswer.isPending}
+          />
+          {points !== "" && !isValidPoints && (
+            <p className="text-xs text-red-500">
+              Enter a value between 0 and {answer.questionPoint}
+            </p>
+          )}
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor={`feedback-${answer.answerId}`}>
+            Feedback (Optional)
+          </Label>
+          <Textarea
+            id={`feedback-${answer.answerId}`}
+            placeholder="Comments shown to the candidate with their results..."
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            maxLength={2000}
+            rows={3}
+            disabled={markAnswer.isPending}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={handleSave}
+          disabled={!isValidPoints || markAnswer.isPending}
+        >
+          {markAnswer.isPending && (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          )}
+          {answer.markedAt ? "Update Mark" : "Save Mark"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function SessionMarking({ sessionId }: SessionMarkingProps) {
+  const { data, isLoading, isError, error } = useSessionMarking(sessionId);
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 space-y-4">
+        <Skeleton className="h-8 w-[300px]" />
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !data?.success || !data.data) {
+    return (
+      <div className="container mx-auto py-8">
+        <Card className="p-8">
+          <div className="flex items-center justify-center flex-col gap-4">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+            <div className="text-center">
+              <h3 className="text-lg font-semibold">Error Loading Session</h3>
+              <p className="text-sm text-muted-foreground mt-2">
+                {error?.message || data?.message || "Session not found"}
+              </p>
+            </div>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const session = data.data;
+  const isGraded = session.gradingStatus === "graded";
+  const passed =
+    isGraded && session.passingScore !== null && session.score !== null
+      ? session.score >= session.passingScore
+      : undefined;
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">{session.examTitle}</h2>
+          <p className="text-muted-foreground mt-1">
+            {session.candidateName} • {session.candidateEmail}
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/cp/admin-dashboard/marking">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Queue
+          </Link>
+        </Button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card className="px-4 py-3">
+          <p className="text-xs text-muted-foreground">Status</p>
+          <p className="text-2xl font-bold capitalize">
+            {session.gradingStatus}
+          </p>
+        </Card>
+        <Card className="px-4 py-3">
+          <p className="text-xs text-muted-foreground">
+            {isGraded ? "Score" : "Provisional Score"}
+          </p>
+          <p className="text-2xl font-bold">
+            {session.score !== null ? `${session.score.toFixed(1)}%` : "—"}
+          </p>
+        </Card>
+        <Card className="px-4 py-3">
+          <p className="text-xs text-muted-foreground">Essays Marked</p>
+          <p className="text-2xl font-bold">
+            {session.answers.filter((a) => a.markedAt).length} /{" "}
+            {session.answers.length}
+          </p>
+        </Card>
+        <Card className="px-4 py-3">
+          <p className="text-xs text-muted-foreground">Result</p>
+          <p className="text-2xl font-bold">
+            {passed === undefined ? "—" : passed ? "Passed" : "Failed"}
+          </p>
+        </Card>
+      </div>
+
+      {session.answers.length === 0 ? (
+        <Card className="p-6">
+          <p className="text-sm text-muted-foreground">
+            This session has no essay answers to mark.
+          </p>
+        </Card>
+      ) : (
+        session.answers.map((answer, index) => (
+          <MarkableAnswerCard
+            key={answer.answerId}
+            answer={answer}
+            index={index}
+          />
+        ))
+      )}
+    </div>
+  );
+}
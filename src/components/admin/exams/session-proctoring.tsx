@@ -0,0 +1,390 @@
+"use client";
+
+/**
+ * Session Proctoring Review
+ *
+ * Features:
+ * - Violations, answers and device resumes on one timeline
+ * - Violation counts by type
+ * - Clear, flag or disqualify the session with a reviewer note
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle2,
+  Flag,
+  Loader2,
+  PenLine,
+  RotateCcw,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { ProctoringStatusBadge } from "@/components/admin/exams/proctoring-queue";
+import {
+  useReviewSession,
+  useSessionProctoring,
+} from "@/hooks/use-exam-proctoring";
+import { PROCTORING_REVIEW_STATUSES } from "@/lib/validations/exam-proctoring";
+import type {
+  ProctoringTimelineEvent,
+  SessionProctoringDetails,
+} from "@/types/admin";
+
+interface SessionProctoringProps {
+  sessionId: string;
+}
+
+type ReviewStatus = (typeof PROCTORING_REVIEW_STATUSES)[number];
+
+// ============================================
+// HELPERS
+// ============================================
+
+function formatDate(value: Date | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function formatViolationType(type: string): string {
+  return type.replace(/_/g, " ");
+}
+
+function formatOffset(timestamp: Date, startedAt: Date): string {
+  const seconds = Math.max(
+    0,
+    Math.round(
+      (new Date(timestamp).getTime() - new Date(startedAt).getTime()) / 1000
+    )
+  );
+  const minutes = Math.floor(seconds / 60);
+  const remaining = (seconds % 60).toString().padStart(2, "0");
+  return `+${minutes}:${remaining}`;
+}
+
+function describeEvent(event: ProctoringTimelineEvent): string {
+  switch (event.kind) {
+    case "started":
+      return "Session started";
+    case "completed":
+      return "Session ended";
+    case "answer":
+      return `Answered question ${event.questionNumber}${
+        event.timeSpent ? ` (${event.timeSpent}s on question)` : ""
+      }`;
+    case "violation":
+      return formatViolationType(event.violationType ?? "violation");
+    case "resumed":
+      return "Resumed after re-authentication";
+  }
+}
+
+// ============================================
+// TIMELINE
+// ============================================
+
+function TimelineItem({
+  event,
+  startedAt,
+}: {
+  event: ProctoringTimelineEvent;
+  startedAt: Date;
+}) {
+  const isViolation = event.kind === "violation";
+  const Icon = isViolation
+    ? AlertTriangle
+    : event.kind === "answer"
+      ? PenLine
+      : event.kind === "resumed"
+        ? RotateCcw
+        : event.kind === "completed"
+          ? CheckCircle2
+          : Flag;
+
+  return (
+    <li className="flex items-start gap-3 py-2">
+      <span className="w-14 shrink-0 text-xs text-muted-foreground tabular-nums pt-0.5">
+        {formatOffset(event.timestamp, startedAt)}
+      </span>
+      <Icon
+        className={`h-4 w-4 shrink-0 mt-0.5 ${
+          isViolation ? "text-destructive" : "text-muted-foreground"
+        }`}
+      />
+      <div className="min-w-0">
+        <p
+          className={`text-sm ${
+            isViolation ? "font-medium text-destructive capitalize" : ""
+          }`}
+        >
+          {describeEvent(event)}
+        </p>
+        {(isViolation || event.kind === "resumed") && event.metadata && (
+          <p className="text-xs text-muted-foreground font-mono break-all">
+            {event.metadata}
+          </p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+// ============================================
+// REVIEW FORM
+// ============================================
+
+function ReviewForm({ session }: { session: SessionProctoringDetails }) {
+  const [status, setStatus] = useState<ReviewStatus | "">(
+    session.proctoringStatus === "unreviewed"
+      ? ""
+      : (session.proctoringStatus as ReviewStatus)
+  );
+  const [note, setNote] = useState(session.proctoringNote ?? "");
+  const reviewSession = useReviewSession();
+
+  const isActive = session.status === "active";
+  const needsNote = status === "disqualified" && !note.trim();
+
+  const handleSave = () => {
+    if (!status || needsNote) return;
+
+    reviewSession.mutate({
+      sessionId: session.sessionId,
+      proctoringStatus: status,
+      note: note.trim() || undefined,
+    });
+  };
+
+  return (
+    <Card className="px-4 md:px-8 py-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold">Review Decision</h3>
+        <ProctoringStatusBadge status={session.proctoringStatus} />
+      </div>
+
+      {session.reviewedAt && (
+        <p className="text-sm text-muted-foreground">
+          Reviewed by {session.reviewerName ?? "a former admin"} on{" "}
+          {formatDate(session.reviewedAt)}
+        </p>
+      )}
+
+      {isActive ? (
+        <p className="text-sm text-muted-foreground">
+          This session is still in progress. Review it once the candidate has
+          finished.
+        </p>
+      ) : (
+        <>
+          <div className="grid gap-2">
+            <Label htmlFor="proctoring-status">Decision</Label>
+            <Select
+              value={status}
+              onValueChange={(value) => setStatus(value as ReviewStatus)}
+              disabled={reviewSession.isPending}
+            >
+              <SelectTrigger id="proctoring-status" className="w-[220px]">
+                <SelectValue placeholder="Choose a decision" />
+              </SelectTrigger>
+              <SelectContent>
+                {PROCTORING_REVIEW_STATUSES.map((value) => (
+                  <SelectItem key={value} value={value} className="capitalize">
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="proctoring-note">
+              Note {status === "disqualified" ? "(Required)" : "(Optional)"}
+            </Label>
+            <Textarea
+              id="proctoring-note"
+              placeholder="Reasoning for this decision..."
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={2000}
+              rows={4}
+              disabled={reviewSession.isPending}
+            />
+            {needsNote && (
+              <p className="text-xs text-red-500">
+                Add a note explaining the disqualification
+              </p>
+            )}
+          </div>
+
+          {status === "disqualified" && (
+            <p className="text-sm text-muted-foreground">
+              Disqualified sessions are removed from leaderboards, the
+              candidate&apos;s score is hidden and any certificate is revoked.
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handleSave}
+              disabled={!status || needsNote || reviewSession.isPending}
+            >
+              {reviewSession.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Save Decision
+            </Button>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function SessionProctoring({ sessionId }: SessionProctoringProps) {
+  const { data, isLoading, isError, error } = useSessionProctoring(sessionId);
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 space-y-4">
+        <Skeleton className="h-8 w-[300px]" />
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !data?.success || !data.data) {
+    return (
+      <div className="container mx-auto py-8">
+        <Card className="p-8">
+          <div className="flex items-center justify-center flex-col gap-4">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+            <div className="text-center">
+              <h3 className="text-lg font-semibold">Error Loading Session</h3>
+              <p className="text-sm text-muted-foreground mt-2">
+                {error?.message || data?.message || "Session not found"}
+              </p>
+            </div>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const session = data.data;
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">{session.examTitle}</h2>
+          <p className="text-muted-foreground mt-1">
+            {session.candidateName} • {session.candidateEmail}
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/cp/admin-dashboard/proctoring">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Console
+          </Link>
+        </Button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card className="px-4 py-3">
+          <p className="text-xs text-muted-foreground">Status</p>
+          <p className="text-2xl font-bold capitalize">{session.status}</p>
+          {session.completionReason && (
+            <p className="text-xs text-muted-foreground capitalize">
+              {formatViolationType(session.completionReason)}
+            </p>
+          )}
+        </Card>
+        <Card className="px-4 py-3">
+          <p className="text-xs text-muted-foreground">Violations</p>
+          <p className="text-2xl font-bold">{session.violationCount}</p>
+        </Card>
+        <Card className="px-4 py-3">
+          <p className="text-xs text-muted-foreground">Score</p>
+          <p className="text-2xl font-bold">
+            {session.score !== null ? `${session.score.toFixed(1)}%` : "—"}
+          </p>
+        </Card>
+        <Card className="px-4 py-3">
+          <p className="text-xs text-muted-foreground">Started</p>
+          <p className="text-sm font-medium mt-2">
+            {formatDate(session.startedAt)}
+          </p>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Timeline */}
+        <Card className="px-4 md:px-8 py-6 lg:col-span-2">
+          <h3 className="font-semibold">Timeline</h3>
+          <p className="text-sm text-muted-foreground">
+            Time since the session started
+          </p>
+          <ol className="mt-4 divide-y">
+            {session.timeline.map((event) => (
+              <TimelineItem
+                key={event.id}
+                event={event}
+                startedAt={session.startedAt}
+              />
+            ))}
+          </ol>
+        </Card>
+
+        <div className="space-y-6">
+          {/* Violations */}
+          <Card className="px-4 md:px-8 py-6 space-y-3">
+            <h3 className="font-semibold">Violations by Type</h3>
+            {session.violationsByType.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No violations recorded.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {session.violationsByType.map((violation) => (
+                  <li
+                    key={violation.type}
+                    className="flex justify-between text-sm"
+                  >
+                    <span className="capitalize">
+                      {formatViolationType(violation.type)}
+                    </span>
+                    <span className="tabular-nums">{violation.count}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+
+          <ReviewForm
+            key={session.reviewedAt ? String(session.reviewedAt) : "new"}
+            session={session}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
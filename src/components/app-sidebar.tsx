@@ -16,6 +16,7 @@ import {
   IconReport,
   IconSearch,
   IconSettings,
+  IconShieldCheck,
   IconUsers,
 } from "@tabler/icons-react";
 
@@ -53,6 +54,16 @@ const data = {
       url: "/cp/admin-dashboard/exams",
       icon: IconChartBar,
     },
+    {
+      title: "Marking",
+      url: "/cp/admin-dashboard/marking",
+      icon: IconReport,
+    },
+    {
+      title: "Proctoring",
+      url: "/cp/admin-dashboard/proctoring",
+      icon: IconShieldCheck,
+    },
     {
       title: "Users",
       url: "/cp/admin-dashboard/users",
@@ -0,0 +1,121 @@
+import { Clock, Target, TrendingDown, TrendingUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardAction,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { StudentDashboardSummary } from "@/types/student-dashboard";
+
+interface DashboardSummaryCardsProps {
+  summary: StudentDashboardSummary;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatTimeSpent = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return minutes > 0 ? `${minutes}m` : `${seconds}s`;
+};
+
+const formatScore = (score: number | null) =>
+  score !== null ? `${score.toFixed(1)}%` : "—";
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function DashboardSummaryCards({ summary }: DashboardSummaryCardsProps) {
+  const { strongestSubject, weakestSubject } = summary;
+
+  return (
+    <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs @xl/main:grid-cols-2 @5xl/main:grid-cols-4">
+      <Card className="@container/card">
+        <CardHeader>
+          <CardDescription>Completed Exams</CardDescription>
+          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
+            {summary.completedExams}
+          </CardTitle>
+          <CardAction>
+            <Badge variant="outline">
+              <Clock />
+              {formatTimeSpent(summary.totalTimeSpent)}
+            </Badge>
+          </CardAction>
+        </CardHeader>
+        <CardFooter className="text-sm text-muted-foreground">
+          Total time spent on exams
+        </CardFooter>
+      </Card>
+
+      <Card className="@container/card">
+        <CardHeader>
+          <CardDescription>Average Score</CardDescription>
+          <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
+            {formatScore(summary.averageScore)}
+          </CardTitle>
+          <CardAction>
+            <Badge variant="outline">
+              <Target />
+              Best {formatScore(summary.bestScore)}
+            </Badge>
+          </CardAction>
+        </CardHeader>
+        <CardFooter className="text-sm text-muted-foreground">
+          Across graded exams with released results
+        </CardFooter>
+      </Card>
+
+      <Card className="@container/card">
+        <CardHeader>
+          <CardDescription>Strongest Subject</CardDescription>
+          <CardTitle className="text-2xl font-semibold @[250px]/card:text-3xl line-clamp-1">
+            {strongestSubject?.key ?? "—"}
+          </CardTitle>
+          {strongestSubject && (
+            <CardAction>
+              <Badge variant="outline">
+                <TrendingUp />
+                {formatScore(strongestSubject.averageScore)}
+              </Badge>
+            </CardAction>
+          )}
+        </CardHeader>
+        <CardFooter className="text-sm text-muted-foreground">
+          {strongestSubject
+            ? `Average over ${strongestSubject.attempts} attempt${strongestSubject.attempts === 1 ? "" : "s"}`
+            : "Complete an exam to see your strengths"}
+        </CardFooter>
+      </Card>
+
+      <Card className="@container/card">
+        <CardHeader>
+          <CardDescription>Weakest Subject</CardDescription>
+          <CardTitle className="text-2xl font-semibold @[250px]/card:text-3xl line-clamp-1">
+            {weakestSubject?.key ?? "—"}
+          </CardTitle>
+          {weakestSubject && (
+            <CardAction>
+              <Badge variant="outline">
+                <TrendingDown />
+                {formatScore(weakestSubject.averageScore)}
+              </Badge>
+            </CardAction>
+          )}
+        </CardHeader>
+        <CardFooter className="text-sm text-muted-foreground">
+          {weakestSubject
+            ? "Worth another practice session"
+            : "Try exams in more subjects to compare"}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ExamHistoryEntry } from "@/types/student-dashboard";
+
+interface ExamHistoryTableProps {
+  history: ExamHistoryEntry[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return minutes > 0 ? `${minutes}m ${secs}s` : `${secs}s`;
+};
+
+const formatDate = (value: Date | null) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+function ScoreCell({ entry }: { entry: ExamHistoryEntry }) {
+  if (entry.status !== "completed") {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  if (entry.disqualified) {
+    return <Badge variant="destructive">Disqualified</Badge>;
+  }
+  if (!entry.resultsReleased) {
+    return <Badge variant="secondary">Awaiting release</Badge>;
+  }
+  if (entry.gradingStatus === "pending") {
+    return <Badge variant="secondary">Marking</Badge>;
+  }
+  return (
+    <span className="font-medium tabular-nums">
+      {entry.score !== null ? `${entry.score.toFixed(1)}%` : "—"}
+    </span>
+  );
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function ExamHistoryTable({ history }: ExamHistoryTableProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exam History</CardTitle>
+        <CardDescription>Your most recent exam sessions</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Exam</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Score</TableHead>
+                <TableHead>Time Spent</TableHead>
+                <TableHead>Completed</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={6}
+                    className="h-24 text-center text-muted-foreground"
+                  >
+                    You have not finished any exams yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                history.map((entry) => (
+                  <TableRow key={entry.sessionId}>
+                    <TableCell>
+                      <p className="font-medium">{entry.examTitle}</p>
+                      <div className="flex items-center gap-2 mt-1">
+                        <span className="text-sm text-muted-foreground">
+                          {entry.examType} • {entry.subject}
+                        </span>
+                        <Badge variant="outline" className="capitalize">
+                          {entry.category}
+                        </Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell className="capitalize">{entry.status}</TableCell>
+                    <TableCell>
+                      <ScoreCell entry={entry} />
+                    </TableCell>
+                    <TableCell>{formatDuration(entry.timeSpent)}</TableCell>
+                    <TableCell>{formatDate(entry.completedAt)}</TableCell>
+                    <TableCell className="text-right">
+                      {entry.status === "completed" && (
+                        <Button size="sm" variant="outline" asChild>
+                          <Link
+                            href={`/exams/results?sessionId=${entry.sessionId}`}
+                          >
+                            View Results
+                          </Link>
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import Link from "next/link";
+import { Clock, PlayCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { InProgressSession } from "@/types/student-dashboard";
+
+interface InProgressSessionsProps {
+  sessions: InProgressSession[];
+}
+
+const formatRemaining = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m left` : `${seconds}s left`;
+};
+
+export function InProgressSessions({ sessions }: InProgressSessionsProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>In Progress</CardTitle>
+        <CardDescription>
+          Exams you started but have not submitted
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No exams in progress.</p>
+        ) : (
+          sessions.map((session) => (
+            <div
+              key={session.sessionId}
+              className="flex flex-col gap-3 rounded-md border p-4 md:flex-row md:items-center md:justify-between"
+            >
+              <div className="space-y-1">
+                <p className="font-medium">{session.examTitle}</p>
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  <span>
+                    {session.examType} • {session.subject}
+                  </span>
+                  <Badge variant="outline" className="capitalize">
+                    {session.category}
+                  </Badge>
+                  <span>
+                    {session.answeredQuestions} / {session.totalQuestions}{" "}
+                    answered
+                  </span>
+                  {session.remainingTime !== null && (
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {formatRemaining(session.remainingTime)}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <Button size="sm" asChild>
+                <Link
+                  href={`/exams/exam-interface?sessionId=${session.sessionId}`}
+                >
+                  <PlayCircle className="h-4 w-4 mr-2" />
+                  Resume
+                </Link>
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { ScoreAverage } from "@/types/student-dashboard";
+
+interface ScoreBreakdownProps {
+  title: string;
+  description: string;
+  averages: ScoreAverage[];
+}
+
+/**
+ * Average score per group (subject or exam type) as horizontal bars
+ */
+export function ScoreBreakdown({
+  title,
+  description,
+  averages,
+}: ScoreBreakdownProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {averages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No graded exams yet.</p>
+        ) : (
+          averages.map((average) => (
+            <div key={average.key} className="space-y-1.5">
+              <div className="flex items-center justify-between gap-4 text-sm">
+                <span className="font-medium truncate">{average.key}</span>
+                <span className="tabular-nums text-muted-foreground shrink-0">
+                  {average.averageScore.toFixed(1)}% • {average.attempts}{" "}
+                  attempt{average.attempts === 1 ? "" : "s"}
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-muted overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-primary"
+                  style={{ width: `${Math.min(100, average.averageScore)}%` }}
+                />
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
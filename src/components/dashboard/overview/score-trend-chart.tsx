@@ -0,0 +1,116 @@
+"use client";
+
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import type { ScoreTrendPoint } from "@/types/student-dashboard";
+
+interface ScoreTrendChartProps {
+  points: ScoreTrendPoint[];
+}
+
+const chartConfig = {
+  score: {
+    label: "Score (%)",
+    color: "var(--primary)",
+  },
+} satisfies ChartConfig;
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+
+export function ScoreTrendChart({ points }: ScoreTrendChartProps) {
+  const chartData = points.map((point) => ({
+    completedAt: new Date(point.completedAt).toISOString(),
+    score: Number(point.score.toFixed(1)),
+    examTitle: point.examTitle,
+  }));
+
+  return (
+    <Card className="@container/card">
+      <CardHeader>
+        <CardTitle>Score Trend</CardTitle>
+        <CardDescription>
+          Your last {points.length} graded exam{points.length === 1 ? "" : "s"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-2 pt-4 sm:px-6 sm:pt-6">
+        {chartData.length === 0 ? (
+          <div className="flex h-[250px] items-center justify-center text-sm text-muted-foreground">
+            Scores appear here once your exams are graded.
+          </div>
+        ) : (
+          <ChartContainer
+            config={chartConfig}
+            className="aspect-auto h-[250px] w-full"
+          >
+            <AreaChart data={chartData}>
+              <defs>
+                <linearGradient id="fillScore" x1="0" y1="0" x2="0" y2="1">
+                  <stop
+                    offset="5%"
+                    stopColor="var(--color-score)"
+                    stopOpacity={0.8}
+                  />
+                  <stop
+                    offset="95%"
+                    stopColor="var(--color-score)"
+                    stopOpacity={0.1}
+                  />
+                </linearGradient>
+              </defs>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="completedAt"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                minTickGap={32}
+                tickFormatter={formatDate}
+              />
+              <YAxis
+                domain={[0, 100]}
+                tickLine={false}
+                axisLine={false}
+                width={32}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) =>
+                      payload?.[0]
+                        ? `${payload[0].payload.examTitle} • ${formatDate(payload[0].payload.completedAt)}`
+                        : ""
+                    }
+                    indicator="dot"
+                  />
+                }
+              />
+              <Area
+                dataKey="score"
+                type="monotone"
+                fill="url(#fillScore)"
+                stroke="var(--color-score)"
+              />
+            </AreaChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
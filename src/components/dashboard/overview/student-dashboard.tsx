@@ -0,0 +1,136 @@
+"use client";
+
+/**
+ * Student Dashboard
+ *
+ * Features:
+ * - Completed exams, average score, time spent and subject strengths
+ * - Score trend over recent graded exams
+ * - Average score per subject and exam type
+ * - Weakest topics across all released results
+ * - In-progress sessions with a resume link
+ * - Recent exam history with links to results
+ * - Entry points to smart practice and the review queue
+ */
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, RotateCcw, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DashboardSummaryCards } from "@/components/dashboard/overview/dashboard-summary-cards";
+import { ScoreTrendChart } from "@/components/dashboard/overview/score-trend-chart";
+import { ScoreBreakdown } from "@/components/dashboard/overview/score-breakdown";
+import { InProgressSessions } from "@/components/dashboard/overview/in-progress-sessions";
+import { ExamHistoryTable } from "@/components/dashboard/overview/exam-history-table";
+import { TopicsToRevise } from "@/components/exams/topics-to-revise";
+import { getStudentDashboard } from "@/lib/actions/student-dashboard";
+import type { StudentDashboardData } from "@/types/student-dashboard";
+
+export function StudentDashboard() {
+  const [dashboard, setDashboard] = useState<StudentDashboardData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadDashboard = async () => {
+      const result = await getStudentDashboard();
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setDashboard(result.data);
+      } else {
+        setError(result.message);
+      }
+    };
+
+    loadDashboard();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <Card className="p-8">
+        <div className="flex items-center justify-center flex-col gap-4">
+          <AlertCircle className="h-12 w-12 text-destructive" />
+          <div className="text-center">
+            <h3 className="text-lg font-semibold">Error Loading Dashboard</h3>
+            <p className="text-sm text-muted-foreground mt-2">{error}</p>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  if (!dashboard) {
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-32 w-full" />
+          ))}
+        </div>
+        <Skeleton className="h-[330px] w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="@container/main flex flex-1 flex-col gap-4 md:gap-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">Your Progress</h2>
+          <p className="text-muted-foreground mt-1">
+            Scores, strengths and exams in progress
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/review">
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Review Missed Questions
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/exams/smart-practice">
+              <Sparkles className="h-4 w-4 mr-2" />
+              Smart Practice
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <DashboardSummaryCards summary={dashboard.summary} />
+
+      <InProgressSessions sessions={dashboard.inProgress} />
+
+      <ScoreTrendChart points={dashboard.scoreTrend} />
+
+      <div className="grid gap-4 md:gap-6 @3xl/main:grid-cols-2">
+        <ScoreBreakdown
+          title="By Subject"
+          description="Average score per subject"
+          averages={dashboard.subjects}
+        />
+        <ScoreBreakdown
+          title="By Exam Type"
+          description="Average score per exam body"
+          averages={dashboard.examTypes}
+        />
+      </div>
+
+      <TopicsToRevise
+        topics={dashboard.topicsToRevise}
+        description="Topics answered at least 3 times with under 60% accuracy across your exams."
+      />
+
+      <ExamHistoryTable history={dashboard.history} />
+    </div>
+  );
+}
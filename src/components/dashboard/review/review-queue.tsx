@@ -0,0 +1,250 @@
+"use client";
+
+/**
+ * Review Queue
+ *
+ * Features:
+ * - Due questions missed in practice, one at a time
+ * - Answer reveal with the explanation
+ * - Self-graded recall (Again, Hard, Good, Easy) that reschedules the item
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { toast } from "sonner";
+import { AlertCircle, CheckCircle2, Loader2, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getReviewQueue, recordReview } from "@/lib/actions/review-queue";
+import type { ReviewQueue as ReviewQueueData } from "@/types/review-queue";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// SM-2 quality for each recall button
+const RECALL_OPTIONS = [
+  { label: "Again", quality: 1, variant: "destructive" },
+  { label: "Hard", quality: 3, variant: "outline" },
+  { label: "Good", quality: 4, variant: "outline" },
+  { label: "Easy", quality: 5, variant: "default" },
+] as const;
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function ReviewQueue() {
+  const [queue, setQueue] = useState<ReviewQueueData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+  const [selectedOptionId, setSelectedOptionId] = useState<string | null>(null);
+  const [textAnswer, setTextAnswer] = useState("");
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+
+  const loadQueue = useCallback(async () => {
+    const result = await getReviewQueue();
+
+    if (result.success && result.data) {
+      setQueue(result.data);
+      setIndex(0);
+    } else {
+      setError(result.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleRecall = async (quality: number) => {
+    if (!queue) return;
+    const card = queue.cards[index];
+    if (!card) return;
+
+    setIsRecording(true);
+    const result = await recordReview({ itemId: card.itemId, quality });
+    setIsRecording(false);
+
+    if (!result.success) {
+      toast.error(result.message);
+      return;
+    }
+
+    setSelectedOptionId(null);
+    setTextAnswer("");
+    setIsRevealed(false);
+
+    if (index + 1 < queue.cards.length) {
+      setIndex(index + 1);
+    } else {
+      setQueue(null);
+      await loadQueue();
+    }
+  };
+
+  if (error) {
+    return (
+      <Card className="p-8">
+        <div className="flex items-center justify-center flex-col gap-4">
+          <AlertCircle className="h-12 w-12 text-destructive" />
+          <div className="text-center">
+            <h3 className="text-lg font-semibold">Error Loading Reviews</h3>
+            <p className="text-sm text-muted-foreground mt-2">{error}</p>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  if (!queue) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-8 w-[300px]" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const card = queue.cards[index];
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h2 className="text-2xl font-semibold">Review</h2>
+        <p className="text-muted-foreground mt-1">
+          {queue.dueCount} due • {queue.totalCount} question
+          {queue.totalCount === 1 ? "" : "s"} in your review queue
+        </p>
+      </div>
+
+      {!card ? (
+        <Card className="p-8">
+          <div className="flex items-center justify-center flex-col gap-4 text-center">
+            <CheckCircle2 className="h-12 w-12 text-green-600" />
+            <div>
+              <h3 className="text-lg font-semibold">All caught up</h3>
+              <p className="text-sm text-muted-foreground mt-2">
+                {queue.nextDueAt
+                  ? `Your next review is due ${new Date(queue.nextDueAt).toLocaleString()}.`
+                  : "Questions you miss in practice sessions will show up here."}
+              </p>
+            </div>
+            <Button asChild variant="outline">
+              <Link href="/exams/smart-practice">Start Smart Practice</Link>
+            </Button>
+          </div>
+        </Card>
+      ) : (
+        <Card className="px-4 md:px-8 py-6 space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Question {index + 1} of {queue.cards.length}
+            </p>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{card.subject}</Badge>
+              {card.lapses > 0 && (
+                <Badge variant="secondary" className="gap-1">
+                  <RotateCcw className="h-3 w-3" />
+                  Missed {card.lapses}×
+                </Badge>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <p className="font-medium whitespace-pre-wrap">
+              {card.question.questionText}
+            </p>
+            {card.question.questionImage && (
+              <Image
+                src={card.question.questionImage}
+                alt="Question image"
+                width={500}
+                height={300}
+                className="max-w-full h-auto rounded border"
+              />
+            )}
+          </div>
+
+          {card.question.questionType === "fill_in_blank" ? (
+            <div className="space-y-2">
+              <Input
+                placeholder="Type your answer..."
+                value={textAnswer}
+                onChange={(e) => setTextAnswer(e.target.value)}
+                disabled={isRevealed}
+              />
+              {isRevealed && (
+                <p className="text-sm">
+                  <span className="text-gray-600">Accepted answers: </span>
+                  {card.acceptedAnswers.join(", ")}
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {card.question.options.map((option) => {
+                const isCorrect = card.correctOptionIds.includes(option.id);
+                const isSelected = selectedOptionId === option.id;
+                const revealClass = isRevealed
+                  ? isCorrect
+                    ? "border-green-300 bg-green-50"
+                    : isSelected
+                      ? "border-red-300 bg-red-50"
+                      : ""
+                  : isSelected
+                    ? "border-primary bg-primary/5"
+                    : "";
+
+                return (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => setSelectedOptionId(option.id)}
+                    disabled={isRevealed}
+                    className={`w-full rounded-md border p-3 text-left text-sm ${revealClass}`}
+                  >
+                    {option.optionText}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {isRevealed && card.explanation && (
+            <div className="rounded-md border p-4 text-sm whitespace-pre-wrap">
+              {card.explanation}
+            </div>
+          )}
+
+          <div className="flex flex-wrap justify-end gap-2">
+            {!isRevealed ? (
+              <Button onClick={() => setIsRevealed(true)}>Show Answer</Button>
+            ) : (
+              RECALL_OPTIONS.map((option) => (
+                <Button
+                  key={option.label}
+                  variant={option.variant}
+                  onClick={() => handleRecall(option.quality)}
+                  disabled={isRecording}
+                >
+                  {isRecording && (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  )}
+                  {option.label}
+                </Button>
+              ))
+            )}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
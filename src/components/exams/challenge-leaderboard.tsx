@@ -0,0 +1,139 @@
+"use client";
+
+/**
+ * Challenge Leaderboard
+ *
+ * Features:
+ * - Participants ranked by score, then time taken
+ * - Current participant highlighted
+ * - Release notice while scores are still hidden
+ */
+
+import { useEffect, useState } from "react";
+import { Trophy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getExamLeaderboard } from "@/lib/actions/exam-session";
+import type { ExamLeaderboard } from "@/types/exam-session";
+
+interface ChallengeLeaderboardProps {
+  examId: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return minutes > 0 ? `${minutes}m ${secs}s` : `${secs}s`;
+};
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function ChallengeLeaderboard({ examId }: ChallengeLeaderboardProps) {
+  const [leaderboard, setLeaderboard] = useState<ExamLeaderboard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadLeaderboard = async () => {
+      const result = await getExamLeaderboard(examId);
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setLeaderboard(result.data);
+      } else {
+        setError(result.message);
+      }
+    };
+
+    loadLeaderboard();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [examId]);
+
+  if (error) return null;
+
+  if (!leaderboard) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  return (
+    <Card className="px-4 md:px-8 py-6">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Trophy className="h-5 w-5 text-primary" />
+            <h4>Leaderboard</h4>
+          </div>
+          <span className="text-sm text-gray-600">
+            {leaderboard.totalParticipants} participant
+            {leaderboard.totalParticipants === 1 ? "" : "s"}
+          </span>
+        </div>
+
+        {!leaderboard.released ? (
+          <p className="text-sm text-gray-600">
+            Scores are hidden until results are released
+            {leaderboard.releaseAt &&
+              ` on ${new Date(leaderboard.releaseAt).toLocaleString()}`}
+            .
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Rank</TableHead>
+                  <TableHead>Participant</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                  <TableHead className="text-right">Time</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {leaderboard.entries.map((entry) => (
+                  <TableRow
+                    key={`${entry.rank}-${entry.participantName}`}
+                    className={entry.isCurrentUser ? "bg-primary/5" : undefined}
+                  >
+                    <TableCell className="font-medium">#{entry.rank}</TableCell>
+                    <TableCell>
+                      {entry.participantName}
+                      {entry.isCurrentUser && (
+                        <Badge variant="secondary" className="ml-2">
+                          You
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {entry.score.toFixed(1)}%
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatDuration(entry.timeTaken)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
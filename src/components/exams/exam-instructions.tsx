@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, Clock, Loader2, PlayCircle } from "lucide-react";
+import {
+  getExamInstructions,
+  startExamSession,
+} from "@/lib/actions/exam-session";
+import type { ExamConfigResult } from "@/types/exam-session";
+
+// Maximum number of questions a configured session may contain
+const MAX_CONFIGURED_QUESTIONS = 80;
+
+interface ExamInstructionsProps {
+  examId: string;
+  invitationToken?: string;
+}
+
+type InstructionsData = NonNullable<ExamConfigResult["data"]>;
+
+export default function ExamInstructions({
+  examId,
+  invitationToken,
+}: ExamInstructionsProps) {
+  const router = useRouter();
+  const [instructions, setInstructions] = useState<InstructionsData | null>(
+    null
+  );
+  const [error, setError] = useState<{ message: string; code?: string } | null>(
+    null
+  );
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadInstructions = async () => {
+      const result = await getExamInstructions(examId, invitationToken);
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setInstructions(result.data);
+      } else {
+        setError({ message: result.message, code: result.code });
+      }
+    };
+
+    loadInstructions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [examId, invitationToken]);
+
+  const handleStart = async () => {
+    if (!instructions) return;
+
+    setIsStarting(true);
+
+    const requiresConfig =
+      instructions.category === "practice" || instructions.category === "test";
+
+    const result = await startExamSession({
+      examId,
+      invitationToken,
+      config: requiresConfig
+        ? {
+            numQuestions: MAX_CONFIGURED_QUESTIONS,
+            shuffleQuestions: instructions.shuffleQuestions,
+            shuffleOptions: instructions.shuffleOptions,
+            timeLimit: instructions.timeLimit,
+          }
+        : undefined,
+    });
+
+    if (result.success && result.data) {
+      router.push(`/exams/exam-interface?sessionId=${result.data.sessionId}`);
+      return;
+    }
+
+    setIsStarting(false);
+    setError({ message: result.message, code: result.code });
+  };
+
+  if (error) {
+    const callbackUrl = invitationToken
+      ? `/exams/${examId}?invitation=${encodeURIComponent(invitationToken)}`
+      : `/exams/${examId}`;
+
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 my-12">
+        <Card className="max-w-xl mx-auto p-8">
+          <div className="flex items-center justify-center flex-col gap-4 text-center">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+            <div>
+              <h3 className="text-lg font-semibold">Unable to open exam</h3>
+              <p className="text-sm text-muted-foreground mt-2">
+                {error.message}
+              </p>
+            </div>
+            {error.code === "UNAUTHORIZED" ? (
+              <Button asChild>
+                <Link
+                  href={`/auth/login?callbackUrl=${encodeURIComponent(callbackUrl)}`}
+                >
+                  Sign in to continue
+                </Link>
+              </Button>
+            ) : error.code === "CONCURRENT_SESSION" ? (
+              <Button asChild>
+                <Link href="/exams/resume">Resume Active Exam</Link>
+              </Button>
+            ) : (
+              <Button asChild variant="outline">
+                <Link href="/dashboard">Back to Dashboard</Link>
+              </Button>
+            )}
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!instructions) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 my-12">
+        <div className="max-w-2xl mx-auto space-y-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 my-12">
+      <div className="max-w-2xl mx-auto space-y-4">
+        <Card className="px-4 md:px-8 py-6">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <h3>{instructions.title}</h3>
+              <p className="text-sm text-gray-600">{instructions.examType}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary" className="capitalize">
+                {instructions.category}
+              </Badge>
+              {instructions.timeLimit && (
+                <Badge variant="outline" className="gap-1">
+                  <Clock className="h-3 w-3" />
+                  {instructions.timeLimit} min
+                </Badge>
+              )}
+            </div>
+          </div>
+        </Card>
+
+        <Card className="px-4 md:px-8 py-6">
+          <div className="space-y-4">
+            <h4>Instructions</h4>
+            <ul className="space-y-2 text-sm">
+              {instructions.instructions.map((line, index) => (
+                <li key={index}>{line}</li>
+              ))}
+            </ul>
+
+            <div className="flex justify-end pt-2">
+              <Button onClick={handleStart} disabled={isStarting}>
+                {isStarting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <PlayCircle className="h-4 w-4 mr-2" />
+                )}
+                Start Exam
+              </Button>
+            </div>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Dialog,
   DialogContent,
@@ -20,322 +24,108 @@ import {
   ChevronRight,
   Send,
   AlertTriangle,
+  AlertCircle,
   CheckCircle2,
+  XCircle,
   Info,
   Shield,
   Eye,
   EyeOff,
+  Loader2,
+  Flag,
+  Layers,
 } from "lucide-react";
 import Image from "next/image";
-
-// Mock exam data
-const mockExamData = {
-  exam_type: "JAMB",
-  year: 2024,
-  subject: "Mathematics",
-  time_limit: 2400, // 40 minutes for 20 questions (120 seconds per question)
-  questions: [
-    {
-      question_id: "q1",
-      question_type: "multiple_choice",
-      question_text: "What is the value of x in the equation 2x + 5 = 13?",
-      question_image: "",
-      options: [
-        { option_text: "3", option_image: "", is_correct: false },
-        { option_text: "4", option_image: "", is_correct: true },
-        { option_text: "5", option_image: "", is_correct: false },
-        { option_text: "6", option_image: "", is_correct: false },
-      ],
-      question_point: 2,
-      difficulty_level: "easy",
-      tags: ["algebra", "equations"],
-    },
-    {
-      question_id: "q2",
-      question_type: "true_false",
-      question_text: "The sum of angles in a triangle is 180 degrees.",
-      question_image: "",
-      options: [
-        { option_text: "True", option_image: "", is_correct: true },
-        { option_text: "False", option_image: "", is_correct: false },
-      ],
-      question_point: 1,
-      difficulty_level: "easy",
-      tags: ["geometry"],
-    },
-    {
-      question_id: "q3",
-      question_type: "multiple_choice",
-      question_text: "What is the derivative of x² with respect to x?",
-      question_image: "",
-      options: [
-        { option_text: "x", option_image: "", is_correct: false },
-        { option_text: "2x", option_image: "", is_correct: true },
-        { option_text: "x²", option_image: "", is_correct: false },
-        { option_text: "2x²", option_image: "", is_correct: false },
-      ],
-      question_point: 3,
-      difficulty_level: "medium",
-      tags: ["calculus", "derivatives"],
-    },
-    {
-      question_id: "q4",
-      question_type: "multiple_choice",
-      question_text: "What is the value of sin(30°)?",
-      question_image: "",
-      options: [
-        { option_text: "0", option_image: "", is_correct: false },
-        { option_text: "0.5", option_image: "", is_correct: true },
-        { option_text: "1", option_image: "", is_correct: false },
-        { option_text: "√3/2", option_image: "", is_correct: false },
-      ],
-      question_point: 2,
-      difficulty_level: "easy",
-      tags: ["trigonometry"],
-    },
-    {
-      question_id: "q5",
-      question_type: "true_false",
-      question_text:
-        "The equation x² + y² = 25 represents a circle with radius 5.",
-      question_image: "",
-      options: [
-        { option_text: "True", option_image: "", is_correct: true },
-        { option_text: "False", option_image: "", is_correct: false },
-      ],
-      question_point: 1,
-      difficulty_level: "easy",
-      tags: ["geometry", "conic sections"],
-    },
-    {
-      question_id: "q6",
-      question_type: "multiple_choice",
-      question_text: "Solve for x: 3x² - 12 = 0",
-      question_image: "",
-      options: [
-        { option_text: "±2", option_image: "", is_correct: true },
-        { option_text: "±3", option_image: "", is_correct: false },
-        { option_text: "±4", option_image: "", is_correct: false },
-        { option_text: "±1", option_image: "", is_correct: false },
-      ],
-      question_point: 3,
-      difficulty_level: "medium",
-      tags: ["algebra", "quadratic equations"],
-    },
-    {
-      question_id: "q7",
-      question_type: "multiple_choice",
-      question_text:
-        "What is the area of a circle with radius 7 cm? (Use π ≈ 22/7)",
-      question_image: "",
-      options: [
-        { option_text: "44 cm²", option_image: "", is_correct: false },
-        { option_text: "154 cm²", option_image: "", is_correct: true },
-        { option_text: "22 cm²", option_image: "", is_correct: false },
-        { option_text: "77 cm²", option_image: "", is_correct: false },
-      ],
-      question_point: 2,
-      difficulty_level: "easy",
-      tags: ["geometry", "area"],
-    },
-    {
-      question_id: "q8",
-      question_type: "true_false",
-      question_text: "The function f(x) = x³ is an even function.",
-      question_image: "",
-      options: [
-        { option_text: "True", option_image: "", is_correct: false },
-        { option_text: "False", option_image: "", is_correct: true },
-      ],
-      question_point: 1,
-      difficulty_level: "medium",
-      tags: ["algebra", "functions"],
-    },
-    {
-      question_id: "q9",
-      question_type: "multiple_choice",
-      question_text:
-        "What is the probability of rolling a 6 on a fair six-sided die?",
-      question_image: "",
-      options: [
-        { option_text: "1/6", option_image: "", is_correct: true },
-        { option_text: "1/3", option_image: "", is_correct: false },
-        { option_text: "1/2", option_image: "", is_correct: false },
-        { option_text: "1/4", option_image: "", is_correct: false },
-      ],
-      question_point: 2,
-      difficulty_level: "easy",
-      tags: ["probability"],
-    },
-    {
-      question_id: "q10",
-      question_type: "multiple_choice",
-      question_text: "What is the value of log₂(8)?",
-      question_image: "",
-      options: [
-        { option_text: "2", option_image: "", is_correct: false },
-        { option_text: "3", option_image: "", is_correct: true },
-        { option_text: "4", option_image: "", is_correct: false },
-        { option_text: "1", option_image: "", is_correct: false },
-      ],
-      question_point: 3,
-      difficulty_level: "medium",
-      tags: ["logarithms"],
-    },
-    {
-      question_id: "q11",
-      question_type: "true_false",
-      question_text:
-        "The median of a data set is always one of the data points.",
-      question_image: "",
-      options: [
-        { option_text: "True", option_image: "", is_correct: false },
-        { option_text: "False", option_image: "", is_correct: true },
-      ],
-      question_point: 1,
-      difficulty_level: "medium",
-      tags: ["statistics"],
-    },
-    {
-      question_id: "q12",
-      question_type: "multiple_choice",
-      question_text: "What is the slope of the line y = 3x + 2?",
-      question_image: "",
-      options: [
-        { option_text: "2", option_image: "", is_correct: false },
-        { option_text: "3", option_image: "", is_correct: true },
-        { option_text: "1", option_image: "", is_correct: false },
-        { option_text: "0", option_image: "", is_correct: false },
-      ],
-      question_point: 2,
-      difficulty_level: "easy",
-      tags: ["algebra", "linear equations"],
-    },
-    {
-      question_id: "q13",
-      question_type: "multiple_choice",
-      question_text: "Solve the inequality: 2x - 4 > 6",
-      question_image: "",
-      options: [
-        { option_text: "x > 5", option_image: "", is_correct: true },
-        { option_text: "x < 5", option_image: "", is_correct: false },
-        { option_text: "x > 1", option_image: "", is_correct: false },
-        { option_text: "x < 1", option_image: "", is_correct: false },
-      ],
-      question_point: 3,
-      difficulty_level: "medium",
-      tags: ["algebra", "inequalities"],
-    },
-    {
-      question_id: "q14",
-      question_type: "true_false",
-      question_text:
-        "The cosine of an angle in a right triangle is the ratio of the adjacent side to the hypotenuse.",
-      question_image: "",
-      options: [
-        { option_text: "True", option_image: "", is_correct: true },
-        { option_text: "False", option_image: "", is_correct: false },
-      ],
-      question_point: 1,
-      difficulty_level: "easy",
-      tags: ["trigonometry"],
-    },
-    {
-      question_id: "q15",
-      question_type: "multiple_choice",
-      question_text: "What is the sum of the first 10 positive integers?",
-      question_image: "",
-      options: [
-        { option_text: "45", option_image: "", is_correct: false },
-        { option_text: "55", option_image: "", is_correct: true },
-        { option_text: "50", option_image: "", is_correct: false },
-        { option_text: "60", option_image: "", is_correct: false },
-      ],
-      question_point: 3,
-      difficulty_level: "medium",
-      tags: ["arithmetic", "series"],
-    },
-    {
-      question_id: "q16",
-      question_type: "multiple_choice",
-      question_text: "What is the integral of 3x² dx?",
-      question_image: "",
-      options: [
-        { option_text: "x³ + C", option_image: "", is_correct: true },
-        { option_text: "3x³ + C", option_image: "", is_correct: false },
-        { option_text: "x² + C", option_image: "", is_correct: false },
-        { option_text: "3x + C", option_image: "", is_correct: false },
-      ],
-      question_point: 4,
-      difficulty_level: "hard",
-      tags: ["calculus", "integrals"],
-    },
-    {
-      question_id: "q17",
-      question_type: "true_false",
-      question_text: "A square is a regular polygon.",
-      question_image: "",
-      options: [
-        { option_text: "True", option_image: "", is_correct: true },
-        { option_text: "False", option_image: "", is_correct: false },
-      ],
-      question_point: 1,
-      difficulty_level: "easy",
-      tags: ["geometry"],
-    },
-    {
-      question_id: "q18",
-      question_type: "multiple_choice",
-      question_text: "What is the value of tan(45°)?",
-      question_image: "",
-      options: [
-        { option_text: "0", option_image: "", is_correct: false },
-        { option_text: "1", option_image: "", is_correct: true },
-        { option_text: "√2", option_image: "", is_correct: false },
-        { option_text: "√3", option_image: "", is_correct: false },
-      ],
-      question_point: 2,
-      difficulty_level: "easy",
-      tags: ["trigonometry"],
-    },
-    {
-      question_id: "q19",
-      question_type: "multiple_choice",
-      question_text: "If f(x) = 2x + 3 and g(x) = x - 1, what is f(g(x))?",
-      question_image: "",
-      options: [
-        { option_text: "2x + 1", option_image: "", is_correct: true },
-        { option_text: "2x - 1", option_image: "", is_correct: false },
-        { option_text: "x + 2", option_image: "", is_correct: false },
-        { option_text: "2x + 3", option_image: "", is_correct: false },
-      ],
-      question_point: 4,
-      difficulty_level: "hard",
-      tags: ["algebra", "functions"],
-    },
-    {
-      question_id: "q20",
-      question_type: "true_false",
-      question_text:
-        "The mean of a data set is always greater than the median.",
-      question_image: "",
-      options: [
-        { option_text: "True", option_image: "", is_correct: false },
-        { option_text: "False", option_image: "", is_correct: true },
-      ],
-      question_point: 1,
-      difficulty_level: "medium",
-      tags: ["statistics"],
-    },
-  ],
-};
+import {
+  getSessionDetails,
+  getQuestion,
+  submitAnswer,
+  clearAnswer,
+  flagQuestion,
+  getSessionReview,
+  trackViolation,
+  syncServerTime,
+  completeExam,
+  finishExamSection,
+} from "@/lib/actions/exam-session";
+import type {
+  AnswerFeedback,
+  ExamSessionDetails,
+  QuestionData,
+  ResumedExamSession,
+  SectionProgress,
+} from "@/types/exam-session";
+import type { TrackViolationInput } from "@/lib/validations/exam-session";
+import {
+  LEADERBOARD_CATEGORIES,
+  REVIEW_CATEGORIES,
+  isQuestionInOpenSection,
+} from "@/lib/utils/exam";
+import { LiveProgressBar } from "@/components/exams/live-progress-bar";
+import { LatexText } from "@/components/exams/latex-text";
+import { RichText } from "@/components/exams/rich-text";
+
+// ============================================
+// CONSTANTS
+// ============================================
 
 const optionLabels = ["A", "B", "C", "D", "E", "F", "G", "H", "I", "J"];
 
-export default function ExamInterface() {
+const TIME_SYNC_INTERVAL = 60 * 1000; // Re-sync with server every minute
+const VIOLATION_REPORT_THROTTLE = 2000; // Ignore duplicate events within 2s
+const TIME_WARNINGS = [300, 60]; // Warn at 5 minutes and 1 minute remaining
+
+// ============================================
+// TYPES
+// ============================================
+
+type ViolationType = TrackViolationInput["type"];
+
+interface SubmittedAnswer {
+  selectedOptionId: string | null;
+  textAnswer?: string;
+}
+
+interface ExamInterfaceProps {
+  sessionId: string;
+  // State from a resume on this device, used instead of reading it back
+  resumed?: ResumedExamSession;
+}
+
+export default function ExamInterface({
+  sessionId,
+  resumed,
+}: ExamInterfaceProps) {
+  const router = useRouter();
+
+  // Session state (server-driven)
+  const [details, setDetails] = useState<ExamSessionDetails | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [needsResume, setNeedsResume] = useState(false);
+  const [questions, setQuestions] = useState<Record<number, QuestionData>>({});
+  const [isQuestionLoading, setIsQuestionLoading] = useState(false);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<string, number>>({});
-  const [timeRemaining, setTimeRemaining] = useState(mockExamData.time_limit);
+  const [answers, setAnswers] = useState<Record<string, SubmittedAnswer>>({});
+  // Server-backed review state, so it survives reloads and device switches
+  const [questionIds, setQuestionIds] = useState<string[]>([]);
+  const [answeredIds, setAnsweredIds] = useState<Set<string>>(new Set());
+  const [flaggedIds, setFlaggedIds] = useState<Set<string>>(new Set());
+  const [feedback, setFeedback] = useState<Record<string, AnswerFeedback>>({});
+  const [textAnswer, setTextAnswer] = useState("");
+  const [isSubmittingAnswer, setIsSubmittingAnswer] = useState(false);
+  const [isSubmittingExam, setIsSubmittingExam] = useState(false);
+  const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
+  const [serverViolationCount, setServerViolationCount] = useState(0);
+  const [violationScore, setViolationScore] = useState(0);
+  // Sectioned exams only
+  const [sectionProgress, setSectionProgress] =
+    useState<SectionProgress | null>(null);
+  const [sectionTimeRemaining, setSectionTimeRemaining] = useState<
+    number | null
+  >(null);
+  const [showFinishSectionDialog, setShowFinishSectionDialog] = useState(false);
+  const [isFinishingSection, setIsFinishingSection] = useState(false);
+
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showSubmitDialog, setShowSubmitDialog] = useState(false);
   const [showExitWarningDialog, setShowExitWarningDialog] = useState(false);
@@ -352,6 +142,7 @@ export default function ExamInterface() {
     focusLoss: 0,
     mouseLeavePage: 0,
     shortcutAttempts: 0,
+    clipboardAttempts: 0,
   });
   const [isTabVisible, setIsTabVisible] = useState(true);
   const [hasWindowFocus, setHasWindowFocus] = useState(true);
@@ -362,10 +153,50 @@ export default function ExamInterface() {
   const focusCheckIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const wasFullscreenRef = useRef(false);
   const reenterFullscreenTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const endTimeRef = useRef<number | null>(null);
+  const sectionEndTimeRef = useRef<number | null>(null);
+  const clockOffsetRef = useRef(0); // Server clock minus client clock, in ms
+  const questionStartRef = useRef<number>(Date.now());
+  const hasSubmittedRef = useRef(false);
+  const warnedAtRef = useRef<Set<number>>(new Set());
+  const lastViolationReportRef = useRef<Partial<Record<ViolationType, number>>>(
+    {}
+  );
 
-  const currentQuestion = mockExamData.questions[currentQuestionIndex];
-  const totalQuestions = mockExamData.questions.length;
-  const answeredQuestions = Object.keys(answers).length;
+  const category = details?.category || "practice";
+  const allowReview = REVIEW_CATEGORIES.includes(category);
+  const antiCheatPolicy = details?.antiCheatPolicy;
+  const isMonitored = (antiCheatPolicy?.monitoredViolations.length ?? 0) > 0;
+  const blockCopyPaste = !!antiCheatPolicy?.blockCopyPaste;
+  const showLiveProgress = LEADERBOARD_CATEGORIES.includes(category);
+  const canChangeAnswers = !!details?.allowAnswerChanges;
+  const totalQuestions = details?.totalQuestions ?? 0;
+  const currentQuestion = questions[currentQuestionIndex];
+  const currentAnswer = currentQuestion
+    ? answers[currentQuestion.id]
+    : undefined;
+  const isCurrentAnswered =
+    !!currentQuestion && answeredIds.has(currentQuestion.id);
+  const isCurrentFlagged =
+    !!currentQuestion && flaggedIds.has(currentQuestion.id);
+  // Write-once exams lock a question as soon as it is answered
+  const isAnswerLocked = isCurrentAnswered && !canChangeAnswers;
+  const currentFeedback = currentQuestion
+    ? feedback[currentQuestion.id]
+    : undefined;
+  const answeredQuestions = answeredIds.size;
+  const currentSection = sectionProgress
+    ? sectionProgress.sections[sectionProgress.currentSection]
+    : undefined;
+  const isLastSection =
+    !!sectionProgress &&
+    sectionProgress.currentSection === sectionProgress.sections.length - 1;
+  // Without sections every question is open
+  const isQuestionOpen = useCallback(
+    (index: number) =>
+      !sectionProgress || isQuestionInOpenSection(sectionProgress, index),
+    [sectionProgress]
+  );
   const totalViolations = Object.values(violations).reduce(
     (sum, count) => sum + count,
     0
@@ -392,44 +223,86 @@ export default function ExamInterface() {
     []
   );
 
-  // Record violation function
-  const recordViolation = useCallback(
-    (type: keyof typeof violations, message: string) => {
-      setViolations((prev) => ({
-        ...prev,
-        [type]: prev[type] + 1,
-      }));
-      showAlert("warning", "Exam Violation Detected", message, 4000);
-    },
-    [showAlert]
-  );
+  // Show a section update and anchor its countdown to the server clock
+  const applySectionProgress = useCallback((progress: SectionProgress) => {
+    sectionEndTimeRef.current = progress.sectionEndTime
+      ? new Date(progress.sectionEndTime).getTime() - clockOffsetRef.current
+      : null;
+    setSectionProgress(progress);
+
+    // Leave a section that just closed for the one the candidate is in
+    setCurrentQuestionIndex((index) =>
+      isQuestionInOpenSection(progress, index)
+        ? index
+        : progress.sections[progress.currentSection].startIndex
+    );
+  }, []);
 
-  // Memoized submit function
-  const submitExam = useCallback(() => {
+  // Another device resumed the session, so this one has to resume it too
+  const handleResumeRequired = useCallback((message: string) => {
+    hasSubmittedRef.current = true;
     if (timerRef.current) clearInterval(timerRef.current);
+    setAllowFullscreenExit(true);
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    }
 
-    const answeredCount = Object.keys(answers).length;
-    const results = {
-      answers,
-      timeSpent: mockExamData.time_limit - timeRemaining,
-      answeredCount,
-      totalQuestions: mockExamData.questions.length,
-      violations,
-      totalViolations,
-    };
+    setNeedsResume(true);
+    setLoadError(message);
+  }, []);
 
-    console.log("Exam submitted:", results);
-    showAlert(
-      "success",
-      "Exam Submitted",
-      "Your exam has been submitted successfully!"
-    );
-    setShowSubmitDialog(false);
-    setShowExitWarningDialog(false);
-  }, [answers, timeRemaining, violations, totalViolations, showAlert]);
+  // Re-read section progress after the server refused a closed section
+  const refreshSectionProgress = useCallback(async () => {
+    const result = await getSessionDetails(sessionId);
+    if (result.success && result.data?.sectionProgress) {
+      applySectionProgress(result.data.sectionProgress);
+    }
+  }, [sessionId, applySectionProgress]);
+
+  // Submit the exam on the server and move to the results page
+  const submitExam = useCallback(async () => {
+    if (hasSubmittedRef.current) return;
+    hasSubmittedRef.current = true;
+
+    if (timerRef.current) clearInterval(timerRef.current);
+    setIsSubmittingExam(true);
+    setAllowFullscreenExit(true);
+
+    const result = await completeExam(sessionId);
+
+    // SESSION_COMPLETED and SESSION_EXPIRED mean the server already closed
+    // the session (time expired or violation limit), so results are still
+    // available
+    if (
+      result.success ||
+      result.code === "SESSION_COMPLETED" ||
+      result.code === "SESSION_EXPIRED"
+    ) {
+      setShowSubmitDialog(false);
+      setShowExitWarningDialog(false);
+
+      if (document.fullscreenElement) {
+        await document.exitFullscreen().catch(() => undefined);
+      }
+
+      router.push(`/exams/results?sessionId=${sessionId}`);
+      return;
+    }
+
+    if (result.code === "RESUME_REQUIRED") {
+      handleResumeRequired(result.message);
+      return;
+    }
+
+    hasSubmittedRef.current = false;
+    setIsSubmittingExam(false);
+    showAlert("warning", "Submission Failed", result.message, 5000);
+  }, [sessionId, router, showAlert, handleResumeRequired]);
 
   // Memoized auto-submit function
   const handleAutoSubmit = useCallback(() => {
+    if (hasSubmittedRef.current) return;
+
     showAlert(
       "warning",
       "Time's Up!",
@@ -437,11 +310,243 @@ export default function ExamInterface() {
       2000
     );
     setTimeout(() => {
-      setAllowFullscreenExit(true);
       submitExam();
     }, 2000);
   }, [submitExam, showAlert]);
 
+  // Report a violation to the server (throttled per type)
+  const reportViolation = useCallback(
+    async (type: ViolationType) => {
+      if (hasSubmittedRef.current) return;
+      if (!details?.antiCheatPolicy.monitoredViolations.includes(type)) return;
+
+      const now = Date.now();
+      const lastReported = lastViolationReportRef.current[type] ?? 0;
+      if (now - lastReported < VIOLATION_REPORT_THROTTLE) return;
+      lastViolationReportRef.current[type] = now;
+
+      const result = await trackViolation({ sessionId, type });
+
+      if (!result.success || !result.data) return;
+
+      setServerViolationCount(result.data.violationCount);
+      setViolationScore(result.data.violationScore);
+
+      if (result.data.autoSubmitted) {
+        showAlert(
+          "warning",
+          "Exam Auto-Submitted",
+          "The violation limit has been reached. Your exam has been submitted.",
+          4000
+        );
+        submitExam();
+      } else if (result.data.warning) {
+        const limit = details?.antiCheatPolicy.autoSubmitThreshold;
+        showAlert(
+          "warning",
+          "Violation Warning",
+          limit
+            ? `You have ${result.data.violationScore} of ${limit} violation points. Your exam will be submitted automatically at ${limit}.`
+            : `You have ${result.data.violationScore} violation points. These will be included in your submission report.`,
+          6000
+        );
+      }
+    },
+    [details, sessionId, showAlert, submitExam]
+  );
+
+  // Record violation function
+  const recordViolation = useCallback(
+    (
+      type: keyof typeof violations,
+      message: string,
+      serverType?: ViolationType
+    ) => {
+      setViolations((prev) => ({
+        ...prev,
+        [type]: prev[type] + 1,
+      }));
+      showAlert("warning", "Exam Violation Detected", message, 4000);
+
+      if (serverType) {
+        reportViolation(serverType);
+      }
+    },
+    [showAlert, reportViolation]
+  );
+
+  // Load session details and initialise the server clock
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSession = async () => {
+      const result = await getSessionDetails(sessionId);
+      if (cancelled) return;
+
+      if (result.code === "RESUME_REQUIRED") {
+        handleResumeRequired(result.message);
+        return;
+      }
+
+      if (!result.success || !result.data) {
+        setLoadError(result.message);
+        return;
+      }
+
+      const data = result.data;
+
+      if (data.status === "completed") {
+        router.replace(`/exams/results?sessionId=${sessionId}`);
+        return;
+      }
+
+      if (data.status !== "active") {
+        setLoadError("This exam session is no longer active.");
+        return;
+      }
+
+      // A resume already returned the session state, so only a fresh load
+      // reads it back
+      const state = resumed ?? data;
+      clockOffsetRef.current =
+        new Date(state.serverTime).getTime() - Date.now();
+
+      if (state.sectionProgress) {
+        applySectionProgress(state.sectionProgress);
+        setCurrentQuestionIndex(
+          state.sectionProgress.sections[state.sectionProgress.currentSection]
+            .startIndex
+        );
+      }
+
+      if (state.serverEndTime) {
+        // Anchor the countdown to the server end time, independent of the
+        // client's wall clock
+        const msUntilEnd =
+          new Date(state.serverEndTime).getTime() -
+          new Date(state.serverTime).getTime();
+        endTimeRef.current = Date.now() + msUntilEnd;
+        setTimeRemaining(Math.max(0, Math.ceil(msUntilEnd / 1000)));
+      }
+
+      if (resumed) {
+        setQuestionIds(resumed.questionOrder);
+        setAnsweredIds(new Set(resumed.answers.map((a) => a.questionId)));
+        setAnswers(
+          Object.fromEntries(
+            resumed.answers.map((a) => [
+              a.questionId,
+              {
+                selectedOptionId: a.selectedOptionId ?? null,
+                textAnswer: a.textAnswer,
+              },
+            ])
+          )
+        );
+        setFlaggedIds(new Set(resumed.flaggedQuestions));
+      } else {
+        const review = await getSessionReview(sessionId);
+        if (cancelled) return;
+
+        if (review.success && review.data) {
+          const reviewQuestions = review.data.questions;
+          setQuestionIds(reviewQuestions.map((q) => q.questionId));
+          setAnsweredIds(
+            new Set(
+              reviewQuestions
+                .filter((q) => q.isAnswered)
+                .map((q) => q.questionId)
+            )
+          );
+          setFlaggedIds(
+            new Set(
+              reviewQuestions
+                .filter((q) => q.isFlagged)
+                .map((q) => q.questionId)
+            )
+          );
+        }
+      }
+
+      setServerViolationCount(data.violationCount);
+      setViolationScore(data.violationScore);
+      setDetails(data);
+    };
+
+    loadSession();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, resumed, router, applySectionProgress, handleResumeRequired]);
+
+  // Fetch the current question from the server when it is not cached
+  useEffect(() => {
+    if (!details || questions[currentQuestionIndex]) return;
+
+    let cancelled = false;
+
+    const loadQuestion = async () => {
+      setIsQuestionLoading(true);
+      const result = await getQuestion(sessionId, currentQuestionIndex);
+      if (cancelled) return;
+      setIsQuestionLoading(false);
+
+      if (result.success && result.data) {
+        const question = result.data.question;
+        setQuestions((prev) => ({
+          ...prev,
+          [result.data!.questionIndex]: question,
+        }));
+        return;
+      }
+
+      if (
+        result.code === "SESSION_EXPIRED" ||
+        result.code === "SESSION_NOT_ACTIVE"
+      ) {
+        handleAutoSubmit();
+        return;
+      }
+
+      if (result.code === "SECTION_CLOSED") {
+        refreshSectionProgress();
+        return;
+      }
+
+      if (result.code === "RESUME_REQUIRED") {
+        handleResumeRequired(result.message);
+        return;
+      }
+
+      showAlert("warning", "Unable to load question", result.message, 5000);
+    };
+
+    loadQuestion();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    details,
+    questions,
+    currentQuestionIndex,
+    sessionId,
+    handleAutoSubmit,
+    handleResumeRequired,
+    refreshSectionProgress,
+    showAlert,
+  ]);
+
+  // Reset per-question state when the displayed question changes
+  useEffect(() => {
+    questionStartRef.current = Date.now();
+    setTextAnswer(
+      currentQuestion ? answers[currentQuestion.id]?.textAnswer || "" : ""
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentQuestion?.id]);
+
   // Handle exit warning dialog actions
   const handleExitWarningSubmit = useCallback(() => {
     setAllowFullscreenExit(true);
@@ -501,6 +606,9 @@ export default function ExamInterface() {
         !allowFullscreenExit
       ) {
         setShowExitWarningDialog(true);
+        if (isMonitored) {
+          reportViolation("fullscreen_exit");
+        }
         // Immediately try to re-enter fullscreen
         forceReenterFullscreen();
         return; // Don't update fullscreen state yet
@@ -520,10 +628,17 @@ export default function ExamInterface() {
         clearTimeout(reenterFullscreenTimeoutRef.current);
       }
     };
-  }, [allowFullscreenExit, forceReenterFullscreen]);
+  }, [
+    allowFullscreenExit,
+    forceReenterFullscreen,
+    isMonitored,
+    reportViolation,
+  ]);
 
   // Browser Activity Monitoring
   useEffect(() => {
+    if (!details || !isMonitored) return;
+
     // Visibility change detection (tab switches)
     const handleVisibilityChange = () => {
       const isVisible = !document.hidden;
@@ -532,7 +647,8 @@ export default function ExamInterface() {
       if (!isVisible) {
         recordViolation(
           "tabSwitches",
-          "Tab switching detected. Please remain on the exam page."
+          "Tab switching detected. Please remain on the exam page.",
+          "tab_switch"
         );
       }
     };
@@ -542,7 +658,8 @@ export default function ExamInterface() {
       setHasWindowFocus(false);
       recordViolation(
         "focusLoss",
-        "Window focus lost. Please keep the exam window active."
+        "Window focus lost. Please keep the exam window active.",
+        "window_blur"
       );
     };
 
@@ -644,7 +761,11 @@ export default function ExamInterface() {
       const currentlyHasFocus = document.hasFocus();
       if (!currentlyHasFocus && hasWindowFocus) {
         setHasWindowFocus(false);
-        recordViolation("focusLoss", "Document focus lost detected.");
+        recordViolation(
+          "focusLoss",
+          "Document focus lost detected.",
+          "window_blur"
+        );
       } else if (currentlyHasFocus && !hasWindowFocus) {
         setHasWindowFocus(true);
       }
@@ -672,46 +793,172 @@ export default function ExamInterface() {
         clearInterval(focusCheckIntervalRef.current);
       }
     };
-  }, [recordViolation, hasWindowFocus]);
+  }, [details, isMonitored, recordViolation, hasWindowFocus]);
 
-  // Timer effect
+  // Timer effect - counts down to the server end time
   useEffect(() => {
-    if (timeRemaining > 0) {
-      timerRef.current = setInterval(() => {
-        setTimeRemaining((prev) => {
-          if (prev <= 1) {
-            handleAutoSubmit();
-            return 0;
+    if (!details || endTimeRef.current === null) return;
+
+    const tick = () => {
+      if (endTimeRef.current === null) return;
+
+      const remaining = Math.max(
+        0,
+        Math.ceil((endTimeRef.current - Date.now()) / 1000)
+      );
+      setTimeRemaining(remaining);
+
+      for (const threshold of TIME_WARNINGS) {
+        if (remaining <= threshold && !warnedAtRef.current.has(threshold)) {
+          warnedAtRef.current.add(threshold);
+          if (remaining > 0) {
+            showAlert(
+              "warning",
+              "Time Warning",
+              `${threshold / 60} minute${threshold === 60 ? "" : "s"} remaining.`,
+              4000
+            );
           }
-          return prev - 1;
-        });
-      }, 1000);
-    }
+        }
+      }
+
+      if (remaining <= 0) {
+        if (timerRef.current) clearInterval(timerRef.current);
+        handleAutoSubmit();
+      }
+    };
+
+    tick();
+    timerRef.current = setInterval(tick, 1000);
 
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
     };
-  }, [timeRemaining, handleAutoSubmit]);
+  }, [details, handleAutoSubmit, showAlert]);
+
+  // Periodically re-sync the countdown with the server clock
+  useEffect(() => {
+    if (!details || endTimeRef.current === null) return;
+
+    const interval = setInterval(async () => {
+      if (hasSubmittedRef.current) return;
+
+      const result = await syncServerTime(sessionId);
+      if (!result.success) return;
+
+      if (result.isExpired) {
+        endTimeRef.current = Date.now();
+        handleAutoSubmit();
+        return;
+      }
+
+      if (result.remainingTime !== undefined) {
+        endTimeRef.current = Date.now() + result.remainingTime * 1000;
+      }
+    }, TIME_SYNC_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [details, sessionId, handleAutoSubmit]);
+
+  // Move on when the current section runs out of time; the last section
+  // running out ends the exam
+  const handleSectionTimeUp = useCallback(async () => {
+    if (!sectionProgress || hasSubmittedRef.current) return;
+
+    if (isLastSection) {
+      handleAutoSubmit();
+      return;
+    }
+
+    const result = await finishExamSection({
+      sessionId,
+      sectionIndex: sectionProgress.currentSection,
+    });
+
+    if (result.success && result.data) {
+      setShowFinishSectionDialog(false);
+      applySectionProgress(result.data);
+      showAlert(
+        "info",
+        "Section Time Up",
+        `Moving on to ${result.data.sections[result.data.currentSection].title}.`,
+        4000
+      );
+      return;
+    }
+
+    if (
+      result.code === "SESSION_EXPIRED" ||
+      result.code === "SESSION_NOT_ACTIVE"
+    ) {
+      handleAutoSubmit();
+    }
+  }, [
+    sectionProgress,
+    isLastSection,
+    sessionId,
+    applySectionProgress,
+    handleAutoSubmit,
+    showAlert,
+  ]);
+
+  // Section timer - counts down to the current section's end time
+  useEffect(() => {
+    if (!sectionProgress || sectionEndTimeRef.current === null) {
+      setSectionTimeRemaining(null);
+      return;
+    }
+
+    const tick = () => {
+      if (sectionEndTimeRef.current === null) return;
+
+      const remaining = Math.max(
+        0,
+        Math.ceil((sectionEndTimeRef.current - Date.now()) / 1000)
+      );
+      setSectionTimeRemaining(remaining);
+
+      if (remaining <= 0) {
+        clearInterval(interval);
+        handleSectionTimeUp();
+      }
+    };
+
+    const interval = setInterval(tick, 1000);
+    tick();
+
+    return () => clearInterval(interval);
+  }, [sectionProgress, handleSectionTimeUp]);
 
   // Disable copy/paste
   useEffect(() => {
+    if (!details || !blockCopyPaste) return;
+
     const preventCopy = (e: ClipboardEvent) => {
       e.preventDefault();
-      showAlert("warning", "Copy Disabled", "Copy is disabled during the exam");
+      recordViolation(
+        "clipboardAttempts",
+        "Copy is disabled during the exam",
+        "copy_attempt"
+      );
     };
 
     const preventPaste = (e: ClipboardEvent) => {
       e.preventDefault();
-      showAlert(
-        "warning",
-        "Paste Disabled",
-        "Paste is disabled during the exam"
+      recordViolation(
+        "clipboardAttempts",
+        "Paste is disabled during the exam",
+        "paste_attempt"
       );
     };
 
     const preventCut = (e: ClipboardEvent) => {
       e.preventDefault();
-      showAlert("warning", "Cut Disabled", "Cut is disabled during the exam");
+      recordViolation(
+        "clipboardAttempts",
+        "Cut is disabled during the exam",
+        "copy_attempt"
+      );
     };
 
     document.addEventListener("copy", preventCopy);
@@ -723,7 +970,7 @@ export default function ExamInterface() {
       document.removeEventListener("paste", preventPaste);
       document.removeEventListener("cut", preventCut);
     };
-  }, [showAlert]);
+  }, [details, blockCopyPaste, recordViolation]);
 
   // Cleanup alert timeout on unmount
   useEffect(() => {
@@ -765,42 +1012,331 @@ export default function ExamInterface() {
     }
   }, []);
 
-  const handleAnswerSelect = useCallback(
-    (optionIndex: number) => {
-      setAnswers((prev) => ({
-        ...prev,
-        [currentQuestion.question_id]: optionIndex,
-      }));
+  const handleNext = useCallback(() => {
+    if (
+      currentQuestionIndex < totalQuestions - 1 &&
+      isQuestionOpen(currentQuestionIndex + 1)
+    ) {
+      setCurrentQuestionIndex((prev) => prev + 1);
+    }
+  }, [currentQuestionIndex, totalQuestions, isQuestionOpen]);
+
+  // Send an answer to the server for the current question
+  const saveAnswer = useCallback(
+    async (answer: SubmittedAnswer) => {
+      if (!currentQuestion || isAnswerLocked || isSubmittingAnswer) return;
+
+      setIsSubmittingAnswer(true);
+      const timeSpent = Math.round(
+        (Date.now() - questionStartRef.current) / 1000
+      );
+
+      const result = await submitAnswer({
+        sessionId,
+        questionId: currentQuestion.id,
+        selectedOptionId: answer.selectedOptionId,
+        textAnswer: answer.textAnswer,
+        timeSpent,
+      });
+      setIsSubmittingAnswer(false);
+
+      if (result.success) {
+        setAnswers((prev) => ({ ...prev, [currentQuestion.id]: answer }));
+        setAnsweredIds((prev) => new Set(prev).add(currentQuestion.id));
+
+        if (result.feedback) {
+          setFeedback((prev) => ({
+            ...prev,
+            [currentQuestion.id]: result.feedback!,
+          }));
+          return;
+        }
+
+        // Without inline feedback, a first answer moves on to the next
+        // question; changing an answer stays put
+        if (!isCurrentAnswered) handleNext();
+        return;
+      }
+
+      if (result.code === "ALREADY_ANSWERED") {
+        setAnswers((prev) => ({ ...prev, [currentQuestion.id]: answer }));
+        setAnsweredIds((prev) => new Set(prev).add(currentQuestion.id));
+        return;
+      }
+
+      if (
+        result.code === "SESSION_EXPIRED" ||
+        result.code === "SESSION_NOT_ACTIVE"
+      ) {
+        handleAutoSubmit();
+        return;
+      }
+
+      if (result.code === "SECTION_CLOSED") {
+        refreshSectionProgress();
+      }
+
+      if (result.code === "RESUME_REQUIRED") {
+        handleResumeRequired(result.message);
+        return;
+      }
+
+      showAlert("warning", "Answer Not Saved", result.message, 5000);
     },
-    [currentQuestion.question_id]
+    [
+      currentQuestion,
+      isCurrentAnswered,
+      isAnswerLocked,
+      isSubmittingAnswer,
+      sessionId,
+      handleNext,
+      handleAutoSubmit,
+      handleResumeRequired,
+      refreshSectionProgress,
+      showAlert,
+    ]
   );
 
-  const handleNext = useCallback(() => {
-    if (currentQuestionIndex < totalQuestions - 1) {
-      setCurrentQuestionIndex((prev) => prev + 1);
+  // Remove the saved answer for the current question
+  const handleClearAnswer = useCallback(async () => {
+    if (!currentQuestion || !isCurrentAnswered || isSubmittingAnswer) return;
+
+    setIsSubmittingAnswer(true);
+    const result = await clearAnswer({
+      sessionId,
+      questionId: currentQuestion.id,
+    });
+    setIsSubmittingAnswer(false);
+
+    if (result.success) {
+      const questionId = currentQuestion.id;
+      setAnswers((prev) => {
+        const next = { ...prev };
+        delete next[questionId];
+        return next;
+      });
+      setFeedback((prev) => {
+        const next = { ...prev };
+        delete next[questionId];
+        return next;
+      });
+      setAnsweredIds((prev) => {
+        const next = new Set(prev);
+        next.delete(questionId);
+        return next;
+      });
+      setTextAnswer("");
+      return;
+    }
+
+    if (
+      result.code === "SESSION_EXPIRED" ||
+      result.code === "SESSION_NOT_ACTIVE"
+    ) {
+      handleAutoSubmit();
+      return;
+    }
+
+    if (result.code === "RESUME_REQUIRED") {
+      handleResumeRequired(result.message);
+      return;
+    }
+
+    showAlert("warning", "Answer Not Cleared", result.message, 5000);
+  }, [
+    currentQuestion,
+    isCurrentAnswered,
+    isSubmittingAnswer,
+    sessionId,
+    handleAutoSubmit,
+    handleResumeRequired,
+    showAlert,
+  ]);
+
+  // Flag or unflag the current question for review
+  const handleToggleFlag = useCallback(async () => {
+    if (!currentQuestion) return;
+
+    const questionId = currentQuestion.id;
+    const result = await flagQuestion({
+      sessionId,
+      questionId,
+      flagged: !flaggedIds.has(questionId),
+    });
+
+    if (result.success && result.data) {
+      const { flagged } = result.data;
+      setFlaggedIds((prev) => {
+        const next = new Set(prev);
+        if (flagged) {
+          next.add(questionId);
+        } else {
+          next.delete(questionId);
+        }
+        return next;
+      });
+      return;
+    }
+
+    if (result.code === "RESUME_REQUIRED") {
+      handleResumeRequired(result.message);
+      return;
     }
-  }, [currentQuestionIndex, totalQuestions]);
+
+    showAlert("warning", "Flag Not Saved", result.message, 5000);
+  }, [currentQuestion, flaggedIds, sessionId, handleResumeRequired, showAlert]);
+
+  const handleAnswerSelect = useCallback(
+    (optionId: string) => {
+      if (currentAnswer?.selectedOptionId === optionId) return;
+      saveAnswer({ selectedOptionId: optionId });
+    },
+    [currentAnswer, saveAnswer]
+  );
+
+  const handleTextAnswerSubmit = useCallback(() => {
+    if (!textAnswer.trim()) return;
+    saveAnswer({ selectedOptionId: null, textAnswer: textAnswer.trim() });
+  }, [saveAnswer, textAnswer]);
 
   const handlePrevious = useCallback(() => {
-    if (currentQuestionIndex > 0) {
+    if (
+      allowReview &&
+      currentQuestionIndex > 0 &&
+      isQuestionOpen(currentQuestionIndex - 1)
+    ) {
       setCurrentQuestionIndex((prev) => prev - 1);
     }
-  }, [currentQuestionIndex]);
+  }, [allowReview, currentQuestionIndex, isQuestionOpen]);
 
-  const handleQuestionNavigate = useCallback((index: number) => {
-    setCurrentQuestionIndex(index);
-  }, []);
+  const handleQuestionNavigate = useCallback(
+    (index: number) => {
+      if (allowReview && isQuestionOpen(index)) {
+        setCurrentQuestionIndex(index);
+      }
+    },
+    [allowReview, isQuestionOpen]
+  );
+
+  // Finish the current section and start the next one
+  const handleFinishSection = useCallback(async () => {
+    if (!sectionProgress) return;
+
+    setIsFinishingSection(true);
+    const result = await finishExamSection({
+      sessionId,
+      sectionIndex: sectionProgress.currentSection,
+    });
+    setIsFinishingSection(false);
+    setShowFinishSectionDialog(false);
+
+    if (result.success && result.data) {
+      applySectionProgress(result.data);
+      setCurrentQuestionIndex(
+        result.data.sections[result.data.currentSection].startIndex
+      );
+      return;
+    }
+
+    if (
+      result.code === "SESSION_EXPIRED" ||
+      result.code === "SESSION_NOT_ACTIVE"
+    ) {
+      handleAutoSubmit();
+      return;
+    }
+
+    if (result.code === "RESUME_REQUIRED") {
+      handleResumeRequired(result.message);
+      return;
+    }
+
+    showAlert("warning", "Section Not Finished", result.message, 5000);
+  }, [
+    sectionProgress,
+    sessionId,
+    applySectionProgress,
+    handleAutoSubmit,
+    handleResumeRequired,
+    showAlert,
+  ]);
 
   const handleSubmitClick = useCallback(() => {
     setShowSubmitDialog(true);
   }, []);
 
-  const isQuestionAnswered = useCallback(
-    (questionId: string) => {
-      return questionId in answers;
-    },
-    [answers]
-  );
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 my-12">
+        <Card className="max-w-xl mx-auto p-8">
+          <div className="flex items-center justify-center flex-col gap-4 text-center">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+            <div>
+              <h3 className="text-lg font-semibold">Unable to open exam</h3>
+              <p className="text-sm text-muted-foreground mt-2">{loadError}</p>
+            </div>
+            {needsResume ? (
+              <Button asChild>
+                <Link href="/exams/resume">Resume on this device</Link>
+              </Button>
+            ) : (
+              <Button asChild variant="outline">
+                <Link href="/dashboard">Back to Dashboard</Link>
+              </Button>
+            )}
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!details) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 my-12">
+        <div className="max-w-7xl mx-auto space-y-4">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-14 w-full" />
+          <Skeleton className="h-96 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  const isTextQuestion =
+    currentQuestion?.questionType === "essay" ||
+    currentQuestion?.questionType === "fill_in_blank";
+
+  const currentSectionUnanswered = currentSection
+    ? questionIds
+        .slice(
+          currentSection.startIndex,
+          currentSection.startIndex + currentSection.questionCount
+        )
+        .filter((id) => !answeredIds.has(id)).length
+    : 0;
+
+  // Navigator groups: one per section, or every question together
+  const navigatorGroups = sectionProgress
+    ? sectionProgress.sections.map((section, index) => ({
+        key: section.sectionId,
+        title: section.title,
+        status: sectionProgress.openSections[index]
+          ? null
+          : index > sectionProgress.currentSection
+            ? "Not started"
+            : "Closed",
+        startIndex: section.startIndex,
+        questionCount: section.questionCount,
+      }))
+    : [
+        {
+          key: "all",
+          title: null,
+          status: null,
+          startIndex: 0,
+          questionCount: totalQuestions,
+        },
+      ];
 
   return (
     <div
@@ -834,26 +1370,30 @@ export default function ExamInterface() {
           <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
             <div>
               <h3>
-                {mockExamData.exam_type} {mockExamData.year}
+                {details.examType} {details.year}
               </h3>
-              <p className="text-sm text-gray-600">{mockExamData.subject}</p>
+              <p className="text-sm text-gray-600">
+                {details.subject} • {details.examTitle}
+              </p>
             </div>
 
             <div className="flex items-center gap-4">
-              <div
-                className={`flex items-center gap-2 px-4 py-2 ${timeRemaining < 300 ? "bg-red-600" : "bg-primary/10"} rounded-lg`}
-              >
-                <Clock
-                  className={`h-5 w-5 ${timeRemaining < 300 ? "text-white" : "text-primary"}`}
-                />
-                <span
-                  className={`font-mono font-bold ${
-                    timeRemaining < 300 ? "text-white" : "text-primary"
-                  }`}
+              {timeRemaining !== null && (
+                <div
+                  className={`flex items-center gap-2 px-4 py-2 ${timeRemaining < 300 ? "bg-red-600" : "bg-primary/10"} rounded-lg`}
                 >
-                  {formatTime(timeRemaining)}
-                </span>
-              </div>
+                  <Clock
+                    className={`h-5 w-5 ${timeRemaining < 300 ? "text-white" : "text-primary"}`}
+                  />
+                  <span
+                    className={`font-mono font-bold ${
+                      timeRemaining < 300 ? "text-white" : "text-primary"
+                    }`}
+                  >
+                    {formatTime(timeRemaining)}
+                  </span>
+                </div>
+              )}
 
               <Button
                 variant="outline"
@@ -877,143 +1417,319 @@ export default function ExamInterface() {
           </div>
         </Card>
 
-        {/* Exam Protection Status */}
-        <Card className="px-4 md:px-8 py-4">
-          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
-            <div className="flex items-center gap-4">
-              <div className="flex items-center gap-2">
-                <Shield
-                  className={`h-5 w-5 ${totalViolations === 0 ? "text-green-600" : "text-red-600"}`}
-                />
-                <span className="text-sm font-medium">
-                  Exam Protection:{" "}
-                  {totalViolations === 0
-                    ? "Secure"
-                    : `${totalViolations} Violations`}
-                </span>
-              </div>
-
-              <div className="flex items-center gap-2">
-                {isTabVisible ? (
-                  <Eye className="h-4 w-4 text-green-600" />
-                ) : (
-                  <EyeOff className="h-4 w-4 text-red-600" />
-                )}
-                <span className="text-xs text-gray-600">
-                  {isTabVisible ? "Tab Visible" : "Tab Hidden"}
-                </span>
+        {/* Challenge Live Status Bar */}
+        {showLiveProgress && <LiveProgressBar sessionId={sessionId} />}
+
+        {/* Current Section */}
+        {sectionProgress && currentSection && (
+          <Card className="px-4 md:px-8 py-4">
+            <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <Layers className="h-5 w-5 text-primary mt-0.5" />
+                <div>
+                  <p className="font-medium">
+                    Section {sectionProgress.currentSection + 1} of{" "}
+                    {sectionProgress.sections.length}: {currentSection.title}
+                  </p>
+                  {currentSection.instructions && (
+                    <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">
+                      {currentSection.instructions}
+                    </p>
+                  )}
+                  {!currentSection.allowReturn && !isLastSection && (
+                    <p className="text-xs text-amber-700 mt-2">
+                      You cannot return to this section once you move on.
+                    </p>
+                  )}
+                </div>
               </div>
 
-              <div className="flex items-center gap-2">
+              {sectionTimeRemaining !== null && (
                 <div
-                  className={`h-2 w-2 rounded-full ${hasWindowFocus ? "bg-green-600" : "bg-red-600"}`}
-                />
-                <span className="text-xs text-gray-600">
-                  {hasWindowFocus ? "Focused" : "Unfocused"}
-                </span>
-              </div>
+                  className={`flex items-center gap-2 px-3 py-1.5 shrink-0 ${sectionTimeRemaining < 60 ? "bg-red-600" : "bg-primary/10"} rounded-lg`}
+                >
+                  <Clock
+                    className={`h-4 w-4 ${sectionTimeRemaining < 60 ? "text-white" : "text-primary"}`}
+                  />
+                  <span
+                    className={`font-mono text-sm font-bold ${
+                      sectionTimeRemaining < 60 ? "text-white" : "text-primary"
+                    }`}
+                  >
+                    Section {formatTime(sectionTimeRemaining)}
+                  </span>
+                </div>
+              )}
             </div>
+          </Card>
+        )}
 
-            {totalViolations > 0 && (
-              <div className="text-xs text-gray-600 space-x-4">
-                <span>Tab switches: {violations.tabSwitches}</span>
-                <span>Focus loss: {violations.focusLoss}</span>
-                <span>Mouse left: {violations.mouseLeavePage}</span>
-                <span>Shortcuts: {violations.shortcutAttempts}</span>
-              </div>
-            )}
-          </div>
-        </Card>
-
-        {/* Question Card */}
-        <Card className="px-4 md:px-8 py-6">
-          <div className="space-y-6">
-            <div className="flex items-start justify-between">
-              <div className="flex-1">
-                <div className="flex items-center gap-3 mb-4">
-                  <span className="text-sm font-medium text-gray-600">
-                    Question {currentQuestionIndex + 1} of {totalQuestions}
-                  </span>
-                  <span className="px-2 py-1 bg-primary/10 text-primary text-xs font-medium rounded">
-                    {currentQuestion.question_point}{" "}
-                    {currentQuestion.question_point === 1 ? "point" : "points"}
-                  </span>
-                  <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs font-medium rounded capitalize">
-                    {currentQuestion.difficulty_level}
+        {/* Exam Protection Status */}
+        {isMonitored && (
+          <Card className="px-4 md:px-8 py-4">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Shield
+                    className={`h-5 w-5 ${serverViolationCount === 0 ? "text-green-600" : "text-red-600"}`}
+                  />
+                  <span className="text-sm font-medium">
+                    Exam Protection:{" "}
+                    {serverViolationCount === 0
+                      ? "Secure"
+                      : `${serverViolationCount} Violations`}
+                    {serverViolationCount > 0 &&
+                      antiCheatPolicy?.autoSubmitThreshold != null &&
+                      ` (${violationScore} of ${antiCheatPolicy.autoSubmitThreshold} points)`}
                   </span>
                 </div>
 
-                <div className="prose max-w-none">
-                  <p className="text-lg mb-6 select-none">
-                    {currentQuestion.question_text}
-                  </p>
-                  {currentQuestion.question_image && (
-                    <div className="mb-6">
-                      <Image
-                        src={currentQuestion.question_image}
-                        alt="Question diagram"
-                        width={500}
-                        height={500}
-                        className="max-w-full h-auto rounded-lg border border-gray-200"
-                      />
-                    </div>
+                <div className="flex items-center gap-2">
+                  {isTabVisible ? (
+                    <Eye className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <EyeOff className="h-4 w-4 text-red-600" />
                   )}
+                  <span className="text-xs text-gray-600">
+                    {isTabVisible ? "Tab Visible" : "Tab Hidden"}
+                  </span>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <div
+                    className={`h-2 w-2 rounded-full ${hasWindowFocus ? "bg-green-600" : "bg-red-600"}`}
+                  />
+                  <span className="text-xs text-gray-600">
+                    {hasWindowFocus ? "Focused" : "Unfocused"}
+                  </span>
                 </div>
               </div>
+
+              {totalViolations > 0 && (
+                <div className="text-xs text-gray-600 space-x-4">
+                  <span>Tab switches: {violations.tabSwitches}</span>
+                  <span>Focus loss: {violations.focusLoss}</span>
+                  <span>Mouse left: {violations.mouseLeavePage}</span>
+                  <span>Shortcuts: {violations.shortcutAttempts}</span>
+                  <span>Copy/paste: {violations.clipboardAttempts}</span>
+                </div>
+              )}
             </div>
+          </Card>
+        )}
 
-            {/* Options */}
-            <div className="space-y-3">
-              {currentQuestion.options.map((option, index) => {
-                const isSelected =
-                  answers[currentQuestion.question_id] === index;
-                const isTrueFalse =
-                  currentQuestion.question_type === "true_false";
-
-                return (
-                  <button
-                    key={index}
-                    onClick={() => handleAnswerSelect(index)}
-                    className={`w-full text-left p-4 rounded-lg border-2 transition-all cursor-pointer ${
-                      isSelected
-                        ? "border-primary bg-primary/5"
-                        : "border-gray-200 hover:border-gray-300 bg-white"
-                    }`}
+        {/* Question Card */}
+        <Card className="px-4 md:px-8 py-6">
+          {!currentQuestion || isQuestionLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-5 w-48" />
+              <Skeleton className="h-6 w-full" />
+              <Skeleton className="h-6 w-3/4" />
+              <div className="space-y-3 pt-4">
+                {[1, 2, 3, 4].map((i) => (
+                  <Skeleton key={i} className="h-14 w-full" />
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center gap-3 mb-4">
+                    <span className="text-sm font-medium text-gray-600">
+                      Question {currentQuestionIndex + 1} of {totalQuestions}
+                    </span>
+                    <span className="px-2 py-1 bg-primary/10 text-primary text-xs font-medium rounded">
+                      {currentQuestion.questionPoint}{" "}
+                      {currentQuestion.questionPoint === 1 ? "point" : "points"}
+                    </span>
+                  </div>
+
+                  <div className="prose max-w-none">
+                    <RichText
+                      text={currentQuestion.questionText}
+                      className="text-lg mb-6 select-none"
+                    />
+                    {currentQuestion.questionImage && (
+                      <div className="mb-6">
+                        <Image
+                          src={currentQuestion.questionImage}
+                          alt="Question diagram"
+                          width={500}
+                          height={500}
+                          className="max-w-full h-auto rounded-lg border border-gray-200"
+                        />
+                      </div>
+                    )}
+                  </div>
+                </div>
+                {allowReview && (
+                  <Button
+                    variant={isCurrentFlagged ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={handleToggleFlag}
+                    className="gap-2"
                   >
-                    <div className="flex items-center gap-3">
-                      <div
-                        className={`h-8 w-8 rounded-full flex items-center justify-center font-medium flex-shrink-0 ${
-                          isSelected
-                            ? "bg-primary text-white"
-                            : "bg-gray-100 text-gray-700"
+                    <Flag
+                      className={`h-4 w-4 ${isCurrentFlagged ? "fill-amber-500 text-amber-500" : ""}`}
+                    />
+                    {isCurrentFlagged ? "Flagged" : "Flag for Review"}
+                  </Button>
+                )}
+              </div>
+
+              {/* Options / text answer */}
+              {isTextQuestion ? (
+                <div className="space-y-3">
+                  <Textarea
+                    value={textAnswer}
+                    onChange={(e) => setTextAnswer(e.target.value)}
+                    placeholder={
+                      currentQuestion.questionType === "essay"
+                        ? "Write your answer here..."
+                        : "Type the missing word or phrase..."
+                    }
+                    rows={currentQuestion.questionType === "essay" ? 8 : 2}
+                    maxLength={5000}
+                    disabled={isAnswerLocked || isSubmittingAnswer}
+                  />
+                  <div className="flex justify-end">
+                    <Button
+                      onClick={handleTextAnswerSubmit}
+                      disabled={
+                        isAnswerLocked ||
+                        isSubmittingAnswer ||
+                        !textAnswer.trim() ||
+                        textAnswer.trim() === currentAnswer?.textAnswer
+                      }
+                    >
+                      {isSubmittingAnswer && (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      )}
+                      {!isCurrentAnswered
+                        ? "Save Answer"
+                        : isAnswerLocked ||
+                            textAnswer.trim() === currentAnswer?.textAnswer
+                          ? "Answer Saved"
+                          : "Update Answer"}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {currentQuestion.options.map((option, index) => {
+                    const isSelected =
+                      currentAnswer?.selectedOptionId === option.id;
+                    const isTrueFalse =
+                      currentQuestion.questionType === "true_false";
+                    const isRevealedCorrect =
+                      currentFeedback?.correctOptionId === option.id;
+                    const isRevealedWrong =
+                      !!currentFeedback &&
+                      isSelected &&
+                      !currentFeedback.isCorrect;
+
+                    return (
+                      <button
+                        key={option.id}
+                        onClick={() => handleAnswerSelect(option.id)}
+                        disabled={isAnswerLocked || isSubmittingAnswer}
+                        className={`w-full text-left p-4 rounded-lg border-2 transition-all cursor-pointer disabled:cursor-default ${
+                          isRevealedCorrect
+                            ? "border-green-600 bg-green-50"
+                            : isRevealedWrong
+                              ? "border-red-600 bg-red-50"
+                              : isSelected
+                                ? "border-primary bg-primary/5"
+                                : "border-gray-200 hover:border-gray-300 bg-white"
                         }`}
                       >
-                        {isTrueFalse
-                          ? option.option_text.charAt(0)
-                          : optionLabels[index]}
-                      </div>
-                      <div className="flex-1 space-y-2">
-                        {option.option_text && (
-                          <span className="block select-none">
-                            {option.option_text}
-                          </span>
-                        )}
-                        {option.option_image && (
-                          <Image
-                            src={option.option_image}
-                            alt={`Option ${optionLabels[index]}`}
-                            width={300}
-                            height={200}
-                            className="max-w-full h-auto rounded border border-gray-200"
-                          />
-                        )}
-                      </div>
-                    </div>
-                  </button>
-                );
-              })}
+                        <div className="flex items-center gap-3">
+                          <div
+                            className={`h-8 w-8 rounded-full flex items-center justify-center font-medium flex-shrink-0 ${
+                              isSelected
+                                ? "bg-primary text-white"
+                                : "bg-gray-100 text-gray-700"
+                            }`}
+                          >
+                            {isTrueFalse
+                              ? option.optionText.charAt(0)
+                              : optionLabels[index]}
+                          </div>
+                          <div className="flex-1 space-y-2">
+                            {option.optionText && (
+                              <span className="block select-none">
+                                <LatexText text={option.optionText} />
+                              </span>
+                            )}
+                            {option.optionImage && (
+                              <Image
+                                src={option.optionImage}
+                                alt={`Option ${optionLabels[index]}`}
+                                width={300}
+                                height={200}
+                                className="max-w-full h-auto rounded border border-gray-200"
+                              />
+                            )}
+                          </div>
+                          {isRevealedCorrect && (
+                            <CheckCircle2 className="h-5 w-5 text-green-600" />
+                          )}
+                          {isRevealedWrong && (
+                            <XCircle className="h-5 w-5 text-red-600" />
+                          )}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {isCurrentAnswered && canChangeAnswers && (
+                <div className="flex justify-end">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleClearAnswer}
+                    disabled={isSubmittingAnswer}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Clear Answer
+                  </Button>
+                </div>
+              )}
+
+              {/* Practice mode inline feedback */}
+              {currentFeedback && (
+                <Alert
+                  variant={
+                    currentFeedback.isCorrect ? "default" : "destructive"
+                  }
+                >
+                  {currentFeedback.isCorrect ? (
+                    <CheckCircle2 className="h-4 w-4" />
+                  ) : (
+                    <XCircle className="h-4 w-4" />
+                  )}
+                  <AlertTitle>
+                    {currentFeedback.isCorrect ? "Correct!" : "Incorrect"}
+                  </AlertTitle>
+                  {!currentFeedback.isCorrect &&
+                    currentFeedback.correctAnswer && (
+                      <AlertDescription>
+                        Correct answer:{" "}
+                        <LatexText text={currentFeedback.correctAnswer} />
+                      </AlertDescription>
+                    )}
+                  {currentFeedback.explanation && (
+                    <AlertDescription>
+                      <RichText text={currentFeedback.explanation} />
+                    </AlertDescription>
+                  )}
+                </Alert>
+              )}
             </div>
-          </div>
+          )}
         </Card>
 
         {/* Navigation */}
@@ -1023,7 +1739,11 @@ export default function ExamInterface() {
               <Button
                 variant="outline"
                 onClick={handlePrevious}
-                disabled={currentQuestionIndex === 0}
+                disabled={
+                  !allowReview ||
+                  currentQuestionIndex === 0 ||
+                  !isQuestionOpen(currentQuestionIndex - 1)
+                }
               >
                 <ChevronLeft className="h-4 w-4 mr-2" />
                 Previous
@@ -1031,14 +1751,30 @@ export default function ExamInterface() {
               <Button
                 variant="outline"
                 onClick={handleNext}
-                disabled={currentQuestionIndex === totalQuestions - 1}
+                disabled={
+                  currentQuestionIndex === totalQuestions - 1 ||
+                  !isQuestionOpen(currentQuestionIndex + 1)
+                }
               >
                 Next
                 <ChevronRight className="h-4 w-4 ml-2" />
               </Button>
+              {sectionProgress && !isLastSection && (
+                <Button
+                  variant="secondary"
+                  onClick={() => setShowFinishSectionDialog(true)}
+                  disabled={isFinishingSection}
+                >
+                  Finish Section
+                </Button>
+              )}
             </div>
 
-            <Button onClick={handleSubmitClick} className="gap-2">
+            <Button
+              onClick={handleSubmitClick}
+              className="gap-2"
+              disabled={isSubmittingExam}
+            >
               <Send className="h-4 w-4" />
               Submit Exam
             </Button>
@@ -1063,28 +1799,62 @@ export default function ExamInterface() {
                     Unanswered ({totalQuestions - answeredQuestions})
                   </span>
                 </div>
+                {allowReview && (
+                  <div className="flex items-center gap-2">
+                    <Flag className="h-3 w-3 fill-amber-500 text-amber-500" />
+                    <span className="text-gray-600">
+                      Flagged ({flaggedIds.size})
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
 
-            <div className="grid grid-cols-5 sm:grid-cols-10 gap-2">
-              {mockExamData.questions.map((question, index) => {
-                const isAnswered = isQuestionAnswered(question.question_id);
-                const isCurrent = index === currentQuestionIndex;
-
-                return (
-                  <Button
-                    key={question.question_id}
-                    variant={isAnswered ? "default" : "outline"}
-                    onClick={() => handleQuestionNavigate(index)}
-                    className={`h-10 w-full ${
-                      isCurrent ? "ring-2 ring-primary ring-offset-2" : ""
-                    }`}
-                  >
-                    {index + 1}
-                  </Button>
-                );
-              })}
-            </div>
+            {navigatorGroups.map((group) => (
+              <div key={group.key} className="space-y-2">
+                {group.title && (
+                  <p className="text-sm font-medium text-gray-700">
+                    {group.title}
+                    {group.status && (
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        {group.status}
+                      </span>
+                    )}
+                  </p>
+                )}
+                <div className="grid grid-cols-5 sm:grid-cols-10 gap-2">
+                  {Array.from({ length: group.questionCount }, (_, offset) => {
+                    const index = group.startIndex + offset;
+                    const questionId =
+                      questionIds[index] ?? questions[index]?.id;
+                    const isAnswered =
+                      !!questionId && answeredIds.has(questionId);
+                    const isFlagged =
+                      !!questionId && flaggedIds.has(questionId);
+                    const isCurrent = index === currentQuestionIndex;
+
+                    return (
+                      <Button
+                        key={index}
+                        variant={isAnswered ? "default" : "outline"}
+                        onClick={() => handleQuestionNavigate(index)}
+                        disabled={
+                          (!allowReview || !isQuestionOpen(index)) && !isCurrent
+                        }
+                        className={`relative h-10 w-full ${
+                          isCurrent ? "ring-2 ring-primary ring-offset-2" : ""
+                        }`}
+                      >
+                        {index + 1}
+                        {isFlagged && (
+                          <Flag className="absolute top-0.5 right-0.5 h-3 w-3 fill-amber-500 text-amber-500" />
+                        )}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
           </div>
         </Card>
       </div>
@@ -1131,10 +1901,14 @@ export default function ExamInterface() {
                   {answeredQuestions} of {totalQuestions}
                 </span>
               </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Time Remaining:</span>
-                <span className="font-medium">{formatTime(timeRemaining)}</span>
-              </div>
+              {timeRemaining !== null && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Time Remaining:</span>
+                  <span className="font-medium">
+                    {formatTime(timeRemaining)}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -1149,6 +1923,7 @@ export default function ExamInterface() {
             <Button
               variant="destructive"
               onClick={handleExitWarningSubmit}
+              disabled={isSubmittingExam}
               className="w-full sm:w-auto"
             >
               Submit & Exit
@@ -1157,6 +1932,54 @@ export default function ExamInterface() {
         </DialogContent>
       </Dialog>
 
+      {/* Finish Section Dialog */}
+      <Dialog
+        open={showFinishSectionDialog}
+        onOpenChange={setShowFinishSectionDialog}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Finish {currentSection?.title}?</DialogTitle>
+            <DialogDescription>
+              {currentSection?.allowReturn
+                ? "You will move on to the next section. You can come back to this one while its time lasts."
+                : "You will move on to the next section and cannot return to this one."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-2 text-sm">
+            {currentSectionUnanswered > 0 ? (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                <p className="text-yellow-800">
+                  You have {currentSectionUnanswered} unanswered{" "}
+                  {currentSectionUnanswered === 1 ? "question" : "questions"} in
+                  this section.
+                </p>
+              </div>
+            ) : (
+              <p className="text-gray-600">
+                Every question in this section is answered.
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowFinishSectionDialog(false)}
+            >
+              Stay in Section
+            </Button>
+            <Button onClick={handleFinishSection} disabled={isFinishingSection}>
+              {isFinishingSection && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Finish Section
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Submit Confirmation Dialog */}
       <Dialog open={showSubmitDialog} onOpenChange={setShowSubmitDialog}>
         <DialogContent>
@@ -1185,18 +2008,30 @@ export default function ExamInterface() {
                 {totalQuestions - answeredQuestions}
               </span>
             </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600">Total Violations:</span>
-              <span
-                className={`font-medium ${totalViolations > 0 ? "text-red-600" : "text-green-600"}`}
-              >
-                {totalViolations}
-              </span>
-            </div>
-            <div className="flex justify-between text-sm pt-2 border-t">
-              <span className="text-gray-600">Time Remaining:</span>
-              <span className="font-medium">{formatTime(timeRemaining)}</span>
-            </div>
+            {allowReview && (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Flagged for Review:</span>
+                <span className="font-medium text-amber-600">
+                  {flaggedIds.size}
+                </span>
+              </div>
+            )}
+            {isMonitored && (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Total Violations:</span>
+                <span
+                  className={`font-medium ${serverViolationCount > 0 ? "text-red-600" : "text-green-600"}`}
+                >
+                  {serverViolationCount}
+                </span>
+              </div>
+            )}
+            {timeRemaining !== null && (
+              <div className="flex justify-between text-sm pt-2 border-t">
+                <span className="text-gray-600">Time Remaining:</span>
+                <span className="font-medium">{formatTime(timeRemaining)}</span>
+              </div>
+            )}
           </div>
 
           {totalQuestions - answeredQuestions > 0 && (
@@ -1211,10 +2046,35 @@ export default function ExamInterface() {
             </div>
           )}
 
-          {totalViolations > 0 && (
+          {allowReview && flaggedIds.size > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+              <p className="text-sm text-amber-800">
+                Review your flagged questions before submitting:
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {questionIds.map((questionId, index) =>
+                  flaggedIds.has(questionId) ? (
+                    <Button
+                      key={questionId}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setShowSubmitDialog(false);
+                        handleQuestionNavigate(index);
+                      }}
+                    >
+                      {index + 1}
+                    </Button>
+                  ) : null
+                )}
+              </div>
+            </div>
+          )}
+
+          {isMonitored && serverViolationCount > 0 && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-3">
               <p className="text-sm text-red-800">
-                {totalViolations} exam violations detected. These will be
+                {serverViolationCount} exam violations detected. These will be
                 included in your submission report.
               </p>
             </div>
@@ -1227,7 +2087,12 @@ export default function ExamInterface() {
             >
               Continue Exam
             </Button>
-            <Button onClick={submitExam}>Submit Exam</Button>
+            <Button onClick={submitExam} disabled={isSubmittingExam}>
+              {isSubmittingExam && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Submit Exam
+            </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
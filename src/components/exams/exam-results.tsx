@@ -0,0 +1,377 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import {
+  AlertCircle,
+  Award,
+  CheckCircle2,
+  Clock,
+  Loader2,
+  Target,
+  Trophy,
+  XCircle,
+} from "lucide-react";
+import { getExamResults } from "@/lib/actions/exam-session";
+import { downloadCertificate } from "@/lib/actions/exam-certificate";
+import { LEADERBOARD_CATEGORIES } from "@/lib/utils/exam";
+import { ChallengeLeaderboard } from "@/components/exams/challenge-leaderboard";
+import { TopicsToRevise } from "@/components/exams/topics-to-revise";
+import { LatexText } from "@/components/exams/latex-text";
+import { RichText } from "@/components/exams/rich-text";
+import type { ExamResultsData } from "@/types/exam-session";
+
+interface ExamResultsProps {
+  sessionId: string;
+}
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return minutes > 0 ? `${minutes}m ${secs}s` : `${secs}s`;
+};
+
+export default function ExamResults({ sessionId }: ExamResultsProps) {
+  const [results, setResults] = useState<ExamResultsData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadResults = async () => {
+      const result = await getExamResults(sessionId);
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setResults(result.data);
+      } else {
+        setError(result.message);
+      }
+    };
+
+    loadResults();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  const handleDownloadCertificate = async () => {
+    setIsDownloading(true);
+    try {
+      const response = await downloadCertificate(sessionId);
+
+      if (!response.success || !response.data) {
+        toast.error(response.message);
+        return;
+      }
+
+      const binaryString = atob(response.data.buffer);
+      const bytes = new Uint8Array(binaryString.length);
+      for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+      }
+
+      const blob = new Blob([bytes], { type: response.data.mimeType });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = response.data.filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Certificate download error:", error);
+      toast.error("Failed to download certificate");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 my-12">
+        <Card className="max-w-xl mx-auto p-8">
+          <div className="flex items-center justify-center flex-col gap-4 text-center">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+            <div>
+              <h3 className="text-lg font-semibold">Results unavailable</h3>
+              <p className="text-sm text-muted-foreground mt-2">{error}</p>
+            </div>
+            <Button asChild variant="outline">
+              <Link href="/dashboard">Back to Dashboard</Link>
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!results) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 my-12">
+        <div className="max-w-4xl mx-auto space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  const isPendingMarking = results.gradingStatus === "pending";
+  const isAwaitingRelease = !results.resultsReleased;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 my-12">
+      <div className="max-w-4xl mx-auto space-y-4">
+        {/* Summary */}
+        <Card className="px-4 md:px-8 py-6">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <h3>{results.examTitle}</h3>
+              <p className="text-sm text-gray-600">
+                {results.examType} • Completed{" "}
+                {new Date(results.completedAt).toLocaleString()}
+              </p>
+              {results.leaderboardPosition !== undefined && (
+                <p className="text-sm font-medium text-primary mt-1">
+                  Ranked #{results.leaderboardPosition} of{" "}
+                  {results.totalParticipants}
+                </p>
+              )}
+              {results.completionReason === "time_expired" && (
+                <p className="text-sm text-amber-700 mt-1">
+                  Time ran out, so your saved answers were submitted
+                  automatically.
+                </p>
+              )}
+              {results.completionReason === "violation_limit" && (
+                <p className="text-sm text-red-700 mt-1">
+                  Submitted automatically after too many exam violations.
+                </p>
+              )}
+              {results.disqualified && (
+                <p className="text-sm text-red-700 mt-1">
+                  This attempt was disqualified after a proctoring review.
+                </p>
+              )}
+            </div>
+            {results.disqualified ? (
+              <Badge variant="destructive">Disqualified</Badge>
+            ) : isAwaitingRelease ? (
+              <Badge variant="secondary">Awaiting release</Badge>
+            ) : isPendingMarking ? (
+              <Badge variant="secondary">Pending marking</Badge>
+            ) : (
+              results.passed !== undefined && (
+                <Badge variant={results.passed ? "default" : "destructive"}>
+                  {results.passed ? "Passed" : "Not Passed"}
+                </Badge>
+              )
+            )}
+          </div>
+        </Card>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Card className="px-6 py-4">
+            <div className="flex items-center gap-3">
+              <Trophy className="h-5 w-5 text-primary" />
+              <div>
+                <p className="text-xs text-gray-600">Score</p>
+                {results.disqualified ? (
+                  <>
+                    <p className="text-xl font-bold">Disqualified</p>
+                    <p className="text-xs text-gray-600">
+                      No score is recorded for this attempt
+                    </p>
+                  </>
+                ) : isAwaitingRelease ? (
+                  <>
+                    <p className="text-xl font-bold">Not released</p>
+                    <p className="text-xs text-gray-600">
+                      {results.resultsReleaseAt
+                        ? `Available ${new Date(results.resultsReleaseAt).toLocaleString()}`
+                        : "You will be emailed when results are released"}
+                    </p>
+                  </>
+                ) : isPendingMarking ? (
+                  <>
+                    <p className="text-xl font-bold">Pending</p>
+                    <p className="text-xs text-gray-600">
+                      Essay answers are still being marked
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-xl font-bold">
+                      {results.score?.toFixed(1)}%
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {results.pointsEarned} / {results.totalPoints} points
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+          </Card>
+          <Card className="px-6 py-4">
+            <div className="flex items-center gap-3">
+              <Target className="h-5 w-5 text-primary" />
+              <div>
+                <p className="text-xs text-gray-600">Correct Answers</p>
+                <p className="text-xl font-bold">
+                  {results.correctAnswers ?? "—"} / {results.totalQuestions}
+                </p>
+              </div>
+            </div>
+          </Card>
+          <Card className="px-6 py-4">
+            <div className="flex items-center gap-3">
+              <Clock className="h-5 w-5 text-primary" />
+              <div>
+                <p className="text-xs text-gray-600">Time Spent</p>
+                <p className="text-xl font-bold">
+                  {formatDuration(results.timeSpent)}
+                </p>
+              </div>
+            </div>
+          </Card>
+        </div>
+
+        {/* Per-section breakdown */}
+        {results.sectionResults && results.sectionResults.length > 0 && (
+          <Card className="px-4 md:px-8 py-6">
+            <div className="space-y-3">
+              <h4>Results by Section</h4>
+              {results.sectionResults.map((section) => (
+                <div
+                  key={section.sectionId}
+                  className="flex items-center justify-between gap-4 rounded-lg border p-3 text-sm"
+                >
+                  <div>
+                    <p className="font-medium">{section.title}</p>
+                    <p className="text-xs text-gray-600">
+                      {section.correctAnswers} / {section.totalQuestions}{" "}
+                      correct • {section.pointsEarned} / {section.totalPoints}{" "}
+                      points
+                    </p>
+                  </div>
+                  <p className="text-lg font-bold">
+                    {section.score.toFixed(1)}%
+                  </p>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Challenge leaderboard */}
+        {LEADERBOARD_CATEGORIES.includes(results.category) && (
+          <ChallengeLeaderboard examId={results.examId} />
+        )}
+
+        {/* Weak topics from question tags */}
+        {results.topicsToRevise && (
+          <TopicsToRevise
+            topics={results.topicsToRevise}
+            description="Topics where you answered fewer than 60% of questions correctly in this exam."
+          />
+        )}
+
+        {/* Practice mode answer review */}
+        {results.questions && results.questions.length > 0 && (
+          <Card className="px-4 md:px-8 py-6">
+            <div className="space-y-4">
+              <h4>Answer Review</h4>
+              {results.questions.map((question, index) => (
+                <div
+                  key={index}
+                  className={`rounded-lg border-2 p-4 space-y-2 ${
+                    question.isCorrect
+                      ? "border-green-200 bg-green-50"
+                      : "border-red-200 bg-red-50"
+                  }`}
+                >
+                  <div className="flex items-start gap-2">
+                    {question.isCorrect ? (
+                      <CheckCircle2 className="h-5 w-5 text-green-600 flex-shrink-0" />
+                    ) : (
+                      <XCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+                    )}
+                    <div className="flex flex-1 gap-1 font-medium">
+                      <span>{index + 1}.</span>
+                      <RichText
+                        text={question.questionText}
+                        className="flex-1 min-w-0"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-sm">
+                    <span className="text-gray-600">Your answer: </span>
+                    {question.userAnswer ? (
+                      <LatexText text={question.userAnswer} />
+                    ) : (
+                      "—"
+                    )}
+                  </p>
+                  {!question.isCorrect && question.correctAnswer && (
+                    <p className="text-sm">
+                      <span className="text-gray-600">Correct answer: </span>
+                      <LatexText text={question.correctAnswer} />
+                    </p>
+                  )}
+                  {question.pointsAwarded !== undefined && (
+                    <p className="text-sm">
+                      <span className="text-gray-600">Points awarded: </span>
+                      {question.pointsAwarded}
+                    </p>
+                  )}
+                  {question.feedback && (
+                    <p className="text-sm">
+                      <span className="text-gray-600">Marker feedback: </span>
+                      {question.feedback}
+                    </p>
+                  )}
+                  {question.explanation && (
+                    <RichText
+                      text={question.explanation}
+                      className="text-sm text-gray-700"
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {results.certificateAvailable && (
+            <Button
+              variant="outline"
+              onClick={handleDownloadCertificate}
+              disabled={isDownloading}
+            >
+              {isDownloading ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Award className="h-4 w-4 mr-2" />
+              )}
+              Download Certificate
+            </Button>
+          )}
+          <Button asChild>
+            <Link href="/dashboard">Back to Dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
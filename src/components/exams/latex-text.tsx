@@ -0,0 +1,47 @@
+"use client";
+
+import { useMemo } from "react";
+import "katex/dist/katex.min.css";
+import { renderLatex, splitLatex, unescapeLatexText } from "@/lib/utils/latex";
+
+interface LatexTextProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Question, option or explanation text with `$...$` and `$$...$$` maths
+ * rendered by KaTeX. Plain text is rendered as text, never as HTML.
+ */
+export function LatexText({ text, className }: LatexTextProps) {
+  const segments = useMemo(
+    () =>
+      splitLatex(text).map((segment) =>
+        segment.type === "text"
+          ? { ...segment, value: unescapeLatexText(segment.value) }
+          : {
+              ...segment,
+              value: renderLatex(segment.value, segment.type === "block"),
+            }
+      ),
+    [text]
+  );
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.type === "text" ? (
+          <span key={index}>{segment.value}</span>
+        ) : (
+          <span
+            key={index}
+            className={
+              segment.type === "block" ? "block overflow-x-auto" : undefined
+            }
+            dangerouslySetInnerHTML={{ __html: segment.value }}
+          />
+        )
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+/**
+ * Challenge Live Status Bar
+ *
+ * Features:
+ * - Progress of every participant still in the challenge, polled
+ * - Count of participants who have already submitted
+ * - No scores, so nothing leaks before results are released
+ */
+
+import { useEffect, useState } from "react";
+import { Users } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { getLiveProgress } from "@/lib/actions/exam-session";
+import type { LiveProgress } from "@/types/exam-session";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const POLL_INTERVAL = 15 * 1000;
+const VISIBLE_PARTICIPANTS = 5;
+
+interface LiveProgressBarProps {
+  sessionId: string;
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function LiveProgressBar({ sessionId }: LiveProgressBarProps) {
+  const [progress, setProgress] = useState<LiveProgress | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProgress = async () => {
+      const result = await getLiveProgress(sessionId);
+      if (!cancelled && result.success && result.data) {
+        setProgress(result.data);
+      }
+    };
+
+    loadProgress();
+    const interval = setInterval(loadProgress, POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [sessionId]);
+
+  if (!progress) return null;
+
+  const participants = progress.activeParticipants.slice(
+    0,
+    VISIBLE_PARTICIPANTS
+  );
+  const currentUser = progress.activeParticipants.find((p) => p.isCurrentUser);
+  if (currentUser && !participants.includes(currentUser)) {
+    participants.push(currentUser);
+  }
+
+  return (
+    <Card className="px-4 md:px-8 py-4">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            <span className="text-sm font-medium">Live Challenge Status</span>
+          </div>
+          <span className="text-xs text-gray-600">
+            {progress.activeParticipants.length} in progress •{" "}
+            {progress.completedParticipants} submitted
+          </span>
+        </div>
+
+        <div className="space-y-2">
+          {participants.map((participant, index) => {
+            const percent =
+              participant.totalQuestions > 0
+                ? (participant.answeredQuestions / participant.totalQuestions) *
+                  100
+                : 0;
+
+            return (
+              <div
+                key={`${participant.participantName}-${index}`}
+                className="flex items-center gap-3"
+              >
+                <span
+                  className={`w-32 truncate text-xs ${
+                    participant.isCurrentUser
+                      ? "font-semibold text-primary"
+                      : "text-gray-700"
+                  }`}
+                >
+                  {participant.isCurrentUser
+                    ? "You"
+                    : participant.participantName}
+                </span>
+                <div className="h-2 flex-1 rounded-full bg-gray-200">
+                  <div
+                    className={`h-2 rounded-full ${
+                      participant.isCurrentUser ? "bg-primary" : "bg-gray-500"
+                    }`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                <span className="w-14 text-right text-xs text-gray-600">
+                  {participant.answeredQuestions}/{participant.totalQuestions}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+/**
+ * Resume Exam Session
+ *
+ * Features:
+ * - Finds the candidate's unfinished session
+ * - Progress and time left on the server clock
+ * - Re-authenticates with a password, or a fresh sign-in for social accounts
+ * - Moves the session to this device and reopens the exam interface with
+ *   the saved answers, flags and time left
+ */
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, Clock, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  getActiveExamSession,
+  resumeExamSession,
+} from "@/lib/actions/exam-session";
+import ExamInterface from "@/components/exams/exam-interface";
+import type {
+  ActiveExamSession,
+  ResumedExamSession,
+} from "@/types/exam-session";
+
+const RESUME_PATH = "/exams/resume";
+
+// Codes the candidate can fix from this page without starting over
+const PASSWORD_ERRORS = ["INVALID_PASSWORD", "PASSWORD_REQUIRED"];
+
+function formatRemainingTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} min left` : "Less than a minute left";
+}
+
+export default function ResumeExamSession() {
+  const [session, setSession] = useState<ActiveExamSession | null>();
+  const [resumed, setResumed] = useState<ResumedExamSession | null>(null);
+  const [error, setError] = useState<{ message: string; code?: string } | null>(
+    null
+  );
+  const [password, setPassword] = useState("");
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [isResuming, setIsResuming] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSession = async () => {
+      const result = await getActiveExamSession();
+      if (cancelled) return;
+
+      if (result.success) {
+        setSession(result.data ?? null);
+      } else {
+        setError({ message: result.message, code: result.code });
+      }
+    };
+
+    loadSession();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleResume = async () => {
+    if (!session) return;
+
+    setIsResuming(true);
+    setPasswordError(null);
+
+    const result = await resumeExamSession({
+      sessionId: session.sessionId,
+      password: session.requiresPassword ? password : undefined,
+    });
+
+    if (result.success && result.data) {
+      // Reloads open the interface directly; this device is now the bound one
+      window.history.replaceState(
+        null,
+        "",
+        `/exams/exam-interface?sessionId=${result.data.sessionId}`
+      );
+      setResumed(result.data);
+      return;
+    }
+
+    setIsResuming(false);
+    if (result.code && PASSWORD_ERRORS.includes(result.code)) {
+      setPasswordError(result.message);
+    } else {
+      setError({ message: result.message, code: result.code });
+    }
+  };
+
+  if (resumed) {
+    return <ExamInterface sessionId={resumed.sessionId} resumed={resumed} />;
+  }
+
+  if (error) {
+    const needsSignIn =
+      error.code === "UNAUTHORIZED" || error.code === "REAUTH_REQUIRED";
+
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 my-12">
+        <Card className="max-w-xl mx-auto p-8">
+          <div className="flex items-center justify-center flex-col gap-4 text-center">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+            <div>
+              <h3 className="text-lg font-semibold">Unable to resume exam</h3>
+              <p className="text-sm text-muted-foreground mt-2">
+                {error.message}
+              </p>
+            </div>
+            {needsSignIn ? (
+              <Button asChild>
+                <Link
+                  href={`/auth/login?callbackUrl=${encodeURIComponent(RESUME_PATH)}`}
+                >
+                  Sign in to continue
+                </Link>
+              </Button>
+            ) : (
+              <Button asChild variant="outline">
+                <Link href="/dashboard">Back to Dashboard</Link>
+              </Button>
+            )}
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  if (session === undefined) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 my-12">
+        <div className="max-w-xl mx-auto space-y-4">
+          <Skeleton className="h-48 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 my-12">
+        <Card className="max-w-xl mx-auto p-8">
+          <div className="flex items-center justify-center flex-col gap-4 text-center">
+            <div>
+              <h3 className="text-lg font-semibold">No exam in progress</h3>
+              <p className="text-sm text-muted-foreground mt-2">
+                You have no unfinished exam session to resume.
+              </p>
+            </div>
+            <Button asChild variant="outline">
+              <Link href="/dashboard">Back to Dashboard</Link>
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 my-12">
+      <Card className="max-w-xl mx-auto px-4 md:px-8 py-6 space-y-6">
+        <div>
+          <h3>{session.examTitle}</h3>
+          <p className="text-sm text-gray-600">
+            Started {new Date(session.startedAt).toLocaleString()}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <span>
+            {session.answeredQuestions} of {session.totalQuestions} answered
+          </span>
+          {session.remainingTime !== undefined && (
+            <span className="flex items-center gap-1">
+              <Clock className="h-4 w-4" />
+              {formatRemainingTime(session.remainingTime)}
+            </span>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-600">
+          Your saved answers and flags carry over, and the exam closes on any
+          other device. The timer kept running while you were away, and this
+          resume is recorded on the session.
+        </p>
+
+        {session.requiresPassword ? (
+          <div className="grid gap-2">
+            <Label htmlFor="resume-password">
+              Confirm your password to continue
+            </Label>
+            <Input
+              id="resume-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && password) handleResume();
+              }}
+              disabled={isResuming}
+            />
+            {passwordError && (
+              <p className="text-xs text-red-500">{passwordError}</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">
+            If you signed in more than 15 minutes ago you will be asked to sign
+            in again.
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleResume}
+            disabled={isResuming || (session.requiresPassword && !password)}
+          >
+            {isResuming ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RotateCcw className="h-4 w-4 mr-2" />
+            )}
+            Resume Exam
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useMemo, type ReactNode } from "react";
+import Image from "next/image";
+import "katex/dist/katex.min.css";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { renderLatex } from "@/lib/utils/latex";
+import {
+  isAllowedRichTextImage,
+  parseRichText,
+  type RichInline,
+  type RichTableAlign,
+} from "@/lib/utils/rich-text";
+import { cn } from "@/lib/utils";
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+}
+
+const ALIGN_CLASSES: Record<NonNullable<RichTableAlign>, string> = {
+  left: "text-left",
+  center: "text-center",
+  right: "text-right",
+};
+
+function renderInline(nodes: RichInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <span key={index}>{node.value}</span>;
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "emphasis":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "code":
+        return (
+          <code
+            key={index}
+            className="rounded bg-gray-100 px-1 py-0.5 font-mono text-[0.9em]"
+          >
+            {node.value}
+          </code>
+        );
+      case "math":
+        return (
+          <span
+            key={index}
+            className={node.display ? "block overflow-x-auto" : undefined}
+            dangerouslySetInnerHTML={{
+              __html: renderLatex(node.value, node.display),
+            }}
+          />
+        );
+      case "image":
+        return isAllowedRichTextImage(node.src) ? (
+          <Image
+            key={index}
+            src={node.src}
+            alt={node.alt}
+            width={800}
+            height={600}
+            className="my-2 inline-block h-auto max-w-full rounded border"
+          />
+        ) : (
+          <span key={index}>{node.alt}</span>
+        );
+    }
+  });
+}
+
+/**
+ * Question text or answer explanation in the rich text format from
+ * `lib/utils/rich-text`: paragraphs, lists, tables, code blocks, inline
+ * formatting, images and LaTeX maths.
+ */
+export function RichText({ text, className }: RichTextProps) {
+  const blocks = useMemo(() => parseRichText(text), [text]);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case "paragraph":
+            return (
+              <p key={index} className="whitespace-pre-wrap">
+                {renderInline(block.children)}
+              </p>
+            );
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List
+                key={index}
+                start={block.ordered ? block.start : undefined}
+                className={cn(
+                  "ml-6 space-y-1",
+                  block.ordered ? "list-decimal" : "list-disc"
+                )}
+              >
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex} className="whitespace-pre-wrap">
+                    {renderInline(item)}
+                  </li>
+                ))}
+              </List>
+            );
+          }
+          case "table":
+            return (
+              <div key={index} className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {block.header.map((cell, column) => (
+                        <TableHead
+                          key={column}
+                          className={cn(
+                            block.align[column] &&
+                              ALIGN_CLASSES[block.align[column]]
+                          )}
+                        >
+                          {renderInline(cell)}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {block.rows.map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {row.map((cell, column) => (
+                          <TableCell
+                            key={column}
+                            className={cn(
+                              block.align[column] &&
+                                ALIGN_CLASSES[block.align[column]]
+                            )}
+                          >
+                            {renderInline(cell)}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            );
+          case "code":
+            return (
+              <pre
+                key={index}
+                className="overflow-x-auto rounded-md bg-gray-100 p-3 text-sm"
+              >
+                <code data-language={block.language ?? undefined}>
+                  {block.value}
+                </code>
+              </pre>
+            );
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+/**
+ * Smart Practice Setup
+ *
+ * Features:
+ * - Subject picker with the difficulty level each subject is at
+ * - Number of questions and optional time limit
+ * - Starts an adaptive session and opens the exam interface
+ */
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { AlertCircle, Loader2, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getSmartPracticeSubjects,
+  startSmartPractice,
+} from "@/lib/actions/smart-practice";
+import type { SmartPracticeSubject } from "@/types/exam-session";
+
+const MIN_QUESTIONS = 5;
+const MAX_QUESTIONS = 80;
+
+export default function SmartPracticeSetup() {
+  const router = useRouter();
+  const [subjects, setSubjects] = useState<SmartPracticeSubject[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [subject, setSubject] = useState("");
+  const [numQuestions, setNumQuestions] = useState("20");
+  const [timeLimit, setTimeLimit] = useState("");
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSubjects = async () => {
+      const result = await getSmartPracticeSubjects();
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setSubjects(result.data);
+      } else {
+        setError(result.message);
+      }
+    };
+
+    loadSubjects();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selectedSubject = subjects?.find((s) => s.subject === subject);
+  const maxQuestions = Math.min(
+    MAX_QUESTIONS,
+    selectedSubject?.availableQuestions ?? MAX_QUESTIONS
+  );
+  const parsedQuestions = Number(numQuestions);
+  const parsedTimeLimit = timeLimit ? Number(timeLimit) : undefined;
+  const isValid =
+    !!selectedSubject &&
+    Number.isInteger(parsedQuestions) &&
+    parsedQuestions >= MIN_QUESTIONS &&
+    parsedQuestions <= maxQuestions &&
+    (parsedTimeLimit === undefined ||
+      (Number.isInteger(parsedTimeLimit) && parsedTimeLimit >= 1));
+
+  const handleStart = async () => {
+    if (!isValid) return;
+
+    setIsStarting(true);
+
+    const result = await startSmartPractice({
+      subject,
+      numQuestions: parsedQuestions,
+      timeLimit: parsedTimeLimit,
+    });
+
+    if (result.success && result.data) {
+      router.push(`/exams/exam-interface?sessionId=${result.data.sessionId}`);
+      return;
+    }
+
+    setIsStarting(false);
+    setError(result.message);
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 my-12">
+        <Card className="max-w-xl mx-auto p-8">
+          <div className="flex items-center justify-center flex-col gap-4 text-center">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+            <div>
+              <h3 className="text-lg font-semibold">
+                Unable to start smart practice
+              </h3>
+              <p className="text-sm text-muted-foreground mt-2">{error}</p>
+            </div>
+            <Button asChild variant="outline">
+              <Link href="/dashboard">Back to Dashboard</Link>
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!subjects) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 my-12">
+        <div className="max-w-2xl mx-auto space-y-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 my-12">
+      <div className="max-w-2xl mx-auto space-y-4">
+        <Card className="px-4 md:px-8 py-6">
+          <div className="flex items-start gap-3">
+            <Sparkles className="h-6 w-6 text-primary shrink-0" />
+            <div>
+              <h3>Smart Practice</h3>
+              <p className="text-sm text-gray-600">
+                Questions are drawn from the whole question bank and weighted
+                toward the topics you find hardest. The difficulty goes up as
+                your accuracy improves.
+              </p>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="px-4 md:px-8 py-6">
+          {subjects.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No subjects have enough questions for smart practice yet.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid gap-2">
+                <Label htmlFor="smart-practice-subject">Subject</Label>
+                <Select value={subject} onValueChange={setSubject}>
+                  <SelectTrigger id="smart-practice-subject" className="w-full">
+                    <SelectValue placeholder="Choose a subject" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {subjects.map((s) => (
+                      <SelectItem key={s.subject} value={s.subject}>
+                        {s.subject}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedSubject && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <span>
+                      {selectedSubject.availableQuestions} questions available
+                    </span>
+                    <Badge variant="outline" className="capitalize">
+                      Focus: {selectedSubject.targetDifficulty}
+                    </Badge>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="smart-practice-questions">
+                    Number of Questions
+                  </Label>
+                  <Input
+                    id="smart-practice-questions"
+                    type="number"
+                    min={MIN_QUESTIONS}
+                    max={maxQuestions}
+                    value={numQuestions}
+                    onChange={(e) => setNumQuestions(e.target.value)}
+                    disabled={isStarting}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Between {MIN_QUESTIONS} and {maxQuestions}
+                  </p>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="smart-practice-time">
+                    Time Limit in Minutes (Optional)
+                  </Label>
+                  <Input
+                    id="smart-practice-time"
+                    type="number"
+                    min={1}
+                    max={600}
+                    placeholder="Untimed"
+                    value={timeLimit}
+                    onChange={(e) => setTimeLimit(e.target.value)}
+                    disabled={isStarting}
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <Button onClick={handleStart} disabled={!isValid || isStarting}>
+                  {isStarting ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Sparkles className="h-4 w-4 mr-2" />
+                  )}
+                  Start Smart Practice
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { BookOpen } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import type { TopicPerformance } from "@/types/exam-session";
+
+interface TopicsToReviseProps {
+  topics: TopicPerformance[];
+  description?: string;
+}
+
+const formatSeconds = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return minutes > 0 ? `${minutes}m ${secs}s` : `${secs}s`;
+};
+
+/**
+ * Weakest question topics by accuracy, from question tags
+ */
+export function TopicsToRevise({ topics, description }: TopicsToReviseProps) {
+  return (
+    <Card className="px-4 md:px-8 py-6">
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5 text-primary" />
+          <h4>Topics to Revise</h4>
+        </div>
+        {description && (
+          <p className="text-sm text-muted-foreground">{description}</p>
+        )}
+
+        {topics.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No weak topics found. Keep it up!
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {topics.map((topic) => (
+              <div
+                key={`${topic.subject}-${topic.topic}`}
+                className="space-y-1.5"
+              >
+                <div className="flex items-center justify-between gap-4 text-sm">
+                  <span className="truncate">
+                    <span className="font-medium capitalize">
+                      {topic.topic}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {" "}
+                      • {topic.subject}
+                    </span>
+                  </span>
+                  <span className="tabular-nums text-muted-foreground shrink-0">
+                    {topic.correctAnswers} / {topic.attempts} correct •{" "}
+                    {formatSeconds(topic.averageTime)} avg
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-red-500"
+                    style={{ width: `${topic.accuracy}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type UseQueryOptions,
+} from "@tanstack/react-query";
+import {
+  listExamInvitations,
+  createExamInvitation,
+  createExamInvitationBatch,
+  revokeExamInvitation,
+} from "@/lib/actions/exam-invitations";
+import type {
+  AdminActionResult,
+  AdminExamInvitation,
+  ExamInvitationBatchResult,
+  ExamInvitationListResponse,
+} from "@/types/admin";
+import type {
+  CreateInvitationInput,
+  CreateInvitationBatchInput,
+  InvitationStatus,
+} from "@/lib/validations/exam-invitation";
+import { toast } from "sonner";
+
+// ============================================
+// QUERY KEYS
+// ============================================
+
+export const examInvitationKeys = {
+  all: ["exam-invitations"] as const,
+  lists: () => [...examInvitationKeys.all, "list"] as const,
+  list: (examId: string, status?: InvitationStatus) =>
+    [...examInvitationKeys.lists(), examId, status ?? "all"] as const,
+};
+
+// ============================================
+// QUERY: LIST INVITATIONS
+// ============================================
+
+export function useExamInvitations(
+  examId: string,
+  status?: InvitationStatus,
+  options?: Omit<
+    UseQueryOptions<AdminActionResult<ExamInvitationListResponse>, Error>,
+    "queryKey" | "queryFn"
+  >
+) {
+  return useQuery<AdminActionResult<ExamInvitationListResponse>, Error>({
+    queryKey: examInvitationKeys.list(examId, status),
+    queryFn: async () => {
+      const result = await listExamInvitations(examId, status);
+      return result;
+    },
+    enabled: !!examId,
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    placeholderData: (previousData) => previousData,
+    ...options,
+  });
+}
+
+// ============================================
+// MUTATION: CREATE INVITATION
+// ============================================
+
+export function useCreateExamInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    AdminActionResult<AdminExamInvitation>,
+    Error,
+    CreateInvitationInput
+  >({
+    mutationFn: async (input) => {
+      return await createExamInvitation(input);
+    },
+    onSuccess: (data) => {
+      if (data.success) {
+        queryClient.invalidateQueries({
+          queryKey: examInvitationKeys.lists(),
+          refetchType: "active",
+        });
+
+        toast.success(data.message, {
+          description: data.data?.recipientEmail ?? undefined,
+          duration: 5000,
+        });
+      } else {
+        handleErrorToast(data);
+      }
+    },
+    onError: (error) => {
+      console.error("Create invitation error:", error);
+      toast.error("Unexpected error", {
+        description: "Failed to create invitation. Please try again.",
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// ============================================
+// MUTATION: CREATE INVITATION BATCH
+// ============================================
+
+export function useCreateExamInvitationBatch() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    AdminActionResult<ExamInvitationBatchResult>,
+    Error,
+    CreateInvitationBatchInput
+  >({
+    mutationFn: async (input) => {
+      return await createExamInvitationBatch(input);
+    },
+    onSuccess: (data) => {
+      if (data.success) {
+        queryClient.invalidateQueries({
+          queryKey: examInvitationKeys.lists(),
+          refetchType: "active",
+        });
+
+        const skipped = data.data?.skipped.length ?? 0;
+        toast.success(data.message, {
+          description: `${data.data?.emailed ?? 0} emailed${
+            skipped > 0 ? `, ${skipped} skipped` : ""
+          }`,
+          duration: 5000,
+        });
+      } else {
+        handleErrorToast(data);
+      }
+    },
+    onError: (error) => {
+      console.error("Create invitation batch error:", error);
+      toast.error("Unexpected error", {
+        description: "Failed to import invitations. Please try again.",
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// ============================================
+// MUTATION: REVOKE INVITATION
+// ============================================
+
+export function useRevokeExamInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<AdminActionResult<AdminExamInvitation>, Error, string>({
+    mutationFn: async (invitationId) => {
+      return await revokeExamInvitation(invitationId);
+    },
+    onSuccess: (data) => {
+      if (data.success) {
+        queryClient.invalidateQueries({
+          queryKey: examInvitationKeys.lists(),
+          refetchType: "active",
+        });
+
+        toast.success("Invitation revoked");
+      } else {
+        handleErrorToast(data);
+      }
+    },
+    onError: (error) => {
+      console.error("Revoke invitation error:", error);
+      toast.error("Failed to revoke invitation", {
+        description: error.message,
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function handleErrorToast<T>(result: AdminActionResult<T>) {
+  if (result.success) return;
+
+  switch (result.code) {
+    case "FORBIDDEN":
+      toast.error("Access denied", {
+        description: result.message,
+        duration: 5000,
+      });
+      break;
+
+    case "RATE_LIMIT_EXCEEDED":
+      toast.error("Rate limit exceeded", {
+        description: result.message,
+        duration: 8000,
+      });
+      break;
+
+    case "VALIDATION_ERROR":
+      toast.error("Validation failed", {
+        description: result.message,
+        duration: 5000,
+      });
+      break;
+
+    default:
+      toast.error("Operation failed", {
+        description: result.message || "An unexpected error occurred",
+        duration: 5000,
+      });
+  }
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type UseQueryOptions,
+} from "@tanstack/react-query";
+import {
+  getMarkingQueue,
+  getSessionForMarking,
+  markEssayAnswer,
+} from "@/lib/actions/exam-marking";
+import type {
+  AdminActionResult,
+  MarkAnswerResult,
+  MarkingQueueResponse,
+  SessionMarkingDetails,
+} from "@/types/admin";
+import type {
+  MarkingQueueInput,
+  MarkAnswerInput,
+} from "@/lib/validations/exam-marking";
+import { toast } from "sonner";
+
+// ============================================
+// QUERY KEYS
+// ============================================
+
+export const examMarkingKeys = {
+  all: ["exam-marking"] as const,
+  queues: () => [...examMarkingKeys.all, "queue"] as const,
+  queue: (input: MarkingQueueInput) =>
+    [...examMarkingKeys.queues(), input] as const,
+  sessions: () => [...examMarkingKeys.all, "session"] as const,
+  session: (sessionId: string) =>
+    [...examMarkingKeys.sessions(), sessionId] as const,
+};
+
+// ============================================
+// QUERY: MARKING QUEUE
+// ============================================
+
+export function useMarkingQueue(
+  input: MarkingQueueInput = {},
+  options?: Omit<
+    UseQueryOptions<AdminActionResult<MarkingQueueResponse>, Error>,
+    "queryKey" | "queryFn"
+  >
+) {
+  return useQuery<AdminActionResult<MarkingQueueResponse>, Error>({
+    queryKey: examMarkingKeys.queue(input),
+    queryFn: async () => {
+      const result = await getMarkingQueue(input);
+      return result;
+    },
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    placeholderData: (previousData) => previousData,
+    ...options,
+  });
+}
+
+// ============================================
+// QUERY: SESSION MARKING DETAILS
+// ============================================
+
+export function useSessionMarking(
+  sessionId: string,
+  options?: Omit<
+    UseQueryOptions<AdminActionResult<SessionMarkingDetails>, Error>,
+    "queryKey" | "queryFn"
+  >
+) {
+  return useQuery<AdminActionResult<SessionMarkingDetails>, Error>({
+    queryKey: examMarkingKeys.session(sessionId),
+    queryFn: async () => {
+      const result = await getSessionForMarking(sessionId);
+      return result;
+    },
+    enabled: !!sessionId,
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    ...options,
+  });
+}
+
+// ============================================
+// MUTATION: MARK ESSAY ANSWER
+// ============================================
+
+export function useMarkEssayAnswer() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    AdminActionResult<MarkAnswerResult>,
+    Error,
+    MarkAnswerInput
+  >({
+    mutationFn: async (input) => {
+      return await markEssayAnswer(input);
+    },
+    onSuccess: (data) => {
+      if (data.success) {
+        queryClient.invalidateQueries({
+          queryKey: examMarkingKeys.all,
+          refetchType: "active",
+        });
+
+        toast.success(data.message, {
+          description:
+            data.data?.gradingStatus === "pending"
+              ? `${data.data.pendingAnswers} answer(s) left to mark`
+              : undefined,
+          duration: 4000,
+        });
+      } else {
+        handleErrorToast(data);
+      }
+    },
+    onError: (error) => {
+      console.error("Mark essay answer error:", error);
+      toast.error("Unexpected error", {
+        description: "Failed to save mark. Please try again.",
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function handleErrorToast<T>(result: AdminActionResult<T>) {
+  if (result.success) return;
+
+  switch (result.code) {
+    case "FORBIDDEN":
+      toast.error("Access denied", {
+        description: result.message,
+        duration: 5000,
+      });
+      break;
+
+    case "RATE_LIMIT_EXCEEDED":
+      toast.error("Rate limit exceeded", {
+        description: result.message,
+        duration: 8000,
+      });
+      break;
+
+    case "VALIDATION_ERROR":
+      toast.error("Validation failed", {
+        description: result.message,
+        duration: 5000,
+      });
+      break;
+
+    default:
+      toast.error("Operation failed", {
+        description: result.message || "An unexpected error occurred",
+        duration: 5000,
+      });
+  }
+}
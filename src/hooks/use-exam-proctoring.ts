@@ -0,0 +1,166 @@
+"use client";
+
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type UseQueryOptions,
+} from "@tanstack/react-query";
+import {
+  getProctoringQueue,
+  getSessionProctoring,
+  reviewSessionProctoring,
+} from "@/lib/actions/exam-proctoring";
+import type {
+  AdminActionResult,
+  ProctoringQueueResponse,
+  ProctoringReviewResult,
+  SessionProctoringDetails,
+} from "@/types/admin";
+import type {
+  ProctoringQueueInput,
+  ReviewSessionInput,
+} from "@/lib/validations/exam-proctoring";
+import { toast } from "sonner";
+
+// ============================================
+// QUERY KEYS
+// ============================================
+
+export const examProctoringKeys = {
+  all: ["exam-proctoring"] as const,
+  queues: () => [...examProctoringKeys.all, "queue"] as const,
+  queue: (input: ProctoringQueueInput) =>
+    [...examProctoringKeys.queues(), input] as const,
+  sessions: () => [...examProctoringKeys.all, "session"] as const,
+  session: (sessionId: string) =>
+    [...examProctoringKeys.sessions(), sessionId] as const,
+};
+
+// ============================================
+// QUERY: PROCTORING QUEUE
+// ============================================
+
+export function useProctoringQueue(
+  input: ProctoringQueueInput = {},
+  options?: Omit<
+    UseQueryOptions<AdminActionResult<ProctoringQueueResponse>, Error>,
+    "queryKey" | "queryFn"
+  >
+) {
+  return useQuery<AdminActionResult<ProctoringQueueResponse>, Error>({
+    queryKey: examProctoringKeys.queue(input),
+    queryFn: async () => {
+      const result = await getProctoringQueue(input);
+      return result;
+    },
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    placeholderData: (previousData) => previousData,
+    ...options,
+  });
+}
+
+// ============================================
+// QUERY: SESSION PROCTORING DETAILS
+// ============================================
+
+export function useSessionProctoring(
+  sessionId: string,
+  options?: Omit<
+    UseQueryOptions<AdminActionResult<SessionProctoringDetails>, Error>,
+    "queryKey" | "queryFn"
+  >
+) {
+  return useQuery<AdminActionResult<SessionProctoringDetails>, Error>({
+    queryKey: examProctoringKeys.session(sessionId),
+    queryFn: async () => {
+      const result = await getSessionProctoring(sessionId);
+      return result;
+    },
+    enabled: !!sessionId,
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    ...options,
+  });
+}
+
+// ============================================
+// MUTATION: REVIEW SESSION
+// ============================================
+
+export function useReviewSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    AdminActionResult<ProctoringReviewResult>,
+    Error,
+    ReviewSessionInput
+  >({
+    mutationFn: async (input) => {
+      return await reviewSessionProctoring(input);
+    },
+    onSuccess: (data) => {
+      if (data.success) {
+        queryClient.invalidateQueries({
+          queryKey: examProctoringKeys.all,
+          refetchType: "active",
+        });
+
+        toast.success(data.message, {
+          description:
+            data.data?.proctoringStatus === "disqualified"
+              ? "Scores are hidden and any certificate has been revoked"
+              : undefined,
+          duration: 4000,
+        });
+      } else {
+        handleErrorToast(data);
+      }
+    },
+    onError: (error) => {
+      console.error("Review session error:", error);
+      toast.error("Unexpected error", {
+        description: "Failed to save review. Please try again.",
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function handleErrorToast<T>(result: AdminActionResult<T>) {
+  if (result.success) return;
+
+  switch (result.code) {
+    case "FORBIDDEN":
+      toast.error("Access denied", {
+        description: result.message,
+        duration: 5000,
+      });
+      break;
+
+    case "RATE_LIMIT_EXCEEDED":
+      toast.error("Rate limit exceeded", {
+        description: result.message,
+        duration: 8000,
+      });
+      break;
+
+    case "VALIDATION_ERROR":
+      toast.error("Validation failed", {
+        description: result.message,
+        duration: 5000,
+      });
+      break;
+
+    default:
+      toast.error("Operation failed", {
+        description: result.message || "An unexpected error occurred",
+        duration: 5000,
+      });
+  }
+}
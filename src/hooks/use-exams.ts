@@ -15,17 +15,31 @@ import {
   deleteExam,
   getExamById,
 } from "@/lib/actions/exam-upload";
+import { releaseExamResults } from "@/lib/actions/exam-results-release";
+import {
+  getExamAnalytics,
+  exportExamAnalytics,
+} from "@/lib/actions/exam-analytics";
 import type {
   ExamListQuery,
   ExamListResponse,
   ExamStats,
   AdminActionResult,
+  ResultsReleaseSummary,
+  ExamAnalytics,
+  ExamAnalyticsExport,
 } from "@/types/admin";
+import type { ExportExamAnalyticsInput } from "@/lib/validations/exam";
 import type {
   ExamUploadResponse,
   ExamDeleteResponse,
   QuestionDecrypted,
 } from "@/types/exam-api";
+import type {
+  AntiCheatPolicy,
+  ExamSectionConfig,
+  QuestionPool,
+} from "@/types/exam-session";
 import { toast } from "sonner";
 
 // ============================================
@@ -40,6 +54,7 @@ export const examKeys = {
   details: () => [...examKeys.all, "detail"] as const,
   detail: (id: string) => [...examKeys.details(), id] as const,
   stats: () => [...examKeys.all, "stats"] as const,
+  analytics: (id: string) => [...examKeys.all, "analytics", id] as const,
 };
 
 // ============================================
@@ -109,12 +124,19 @@ type ExamDetail = {
   maxAttempts: number | null;
   shuffleQuestions: boolean;
   randomizeOptions: boolean;
+  allowAnswerChanges: boolean | null;
   isPublic: boolean;
   isFree: boolean;
   status: string;
   category: string | null;
   startDate: Date | null;
   endDate: Date | null;
+  resultReleaseMode: string;
+  resultsReleaseAt: Date | null;
+  resultsReleasedAt: Date | null;
+  antiCheatPolicy: AntiCheatPolicy | null;
+  questionPools: QuestionPool[] | null;
+  sections: ExamSectionConfig[] | null;
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
@@ -273,7 +295,11 @@ export function useUpdateExam(
         (
           options.onSuccess as (
             data: ExamUploadResponse,
-            variables: { examId: string; data: FormData; recaptchaToken: string },
+            variables: {
+              examId: string;
+              data: FormData;
+              recaptchaToken: string;
+            },
             context: unknown
           ) => void
         )(data, variables, context);
@@ -291,7 +317,11 @@ export function useUpdateExam(
         (
           options.onError as (
             error: Error,
-            variables: { examId: string; data: FormData; recaptchaToken: string },
+            variables: {
+              examId: string;
+              data: FormData;
+              recaptchaToken: string;
+            },
             context: unknown
           ) => void
         )(error, variables, context);
@@ -374,6 +404,114 @@ export function useDeleteExam(
   });
 }
 
+// ============================================
+// MUTATION: RELEASE RESULTS
+// ============================================
+
+export function useReleaseExamResults() {
+  const queryClient = useQueryClient();
+
+  return useMutation<AdminActionResult<ResultsReleaseSummary>, Error, string>({
+    mutationFn: async (examId: string) => {
+      return await releaseExamResults(examId);
+    },
+    onSuccess: (data, examId) => {
+      if (data.success) {
+        queryClient.invalidateQueries({
+          queryKey: examKeys.detail(examId),
+          refetchType: "active",
+        });
+
+        toast.success(data.message, {
+          description: `${data.data?.emailsSent ?? 0} notification email(s) sent`,
+          duration: 5000,
+        });
+      } else {
+        toast.error("Failed to release results", {
+          description: data.message,
+          duration: 5000,
+        });
+      }
+    },
+    onError: (error) => {
+      console.error("Release results error:", error);
+      toast.error("Failed to release results", {
+        description: error.message,
+        duration: 5000,
+      });
+    },
+  });
+}
+
+// ============================================
+// QUERY: EXAM ANALYTICS
+// ============================================
+
+export function useExamAnalytics(
+  examId: string,
+  options?: Omit<
+    UseQueryOptions<AdminActionResult<ExamAnalytics>, Error>,
+    "queryKey" | "queryFn"
+  >
+) {
+  return useQuery<AdminActionResult<ExamAnalytics>, Error>({
+    queryKey: examKeys.analytics(examId),
+    queryFn: async () => {
+      const result = await getExamAnalytics(examId);
+      return result;
+    },
+    enabled: !!examId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    ...options,
+  });
+}
+
+// ============================================
+// MUTATION: EXPORT EXAM ANALYTICS
+// ============================================
+
+export function useExportExamAnalytics() {
+  return useMutation<
+    AdminActionResult<ExamAnalyticsExport>,
+    Error,
+    ExportExamAnalyticsInput
+  >({
+    mutationFn: async (input) => {
+      return await exportExamAnalytics(input);
+    },
+    onSuccess: (data) => {
+      if (data.success && data.data) {
+        const blob = new Blob([new Uint8Array(data.data.buffer)], {
+          type: data.data.mimeType,
+        });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = data.data.filename;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+
+        toast.success(data.message);
+      } else {
+        toast.error("Failed to export analytics", {
+          description: data.message,
+          duration: 5000,
+        });
+      }
+    },
+    onError: (error) => {
+      console.error("Export exam analytics error:", error);
+      toast.error("Unexpected error", {
+        description: "Failed to export analytics. Please try again.",
+        duration: 5000,
+      });
+    },
+  });
+}
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
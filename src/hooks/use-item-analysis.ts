@@ -0,0 +1,42 @@
+"use client";
+
+import { useQuery, type UseQueryOptions } from "@tanstack/react-query";
+import { getItemAnalysis } from "@/lib/actions/item-analysis";
+import type { AdminActionResult, ItemAnalysisResponse } from "@/types/admin";
+import type { ItemAnalysisInput } from "@/lib/validations/item-analysis";
+
+// ============================================
+// QUERY KEYS
+// ============================================
+
+export const itemAnalysisKeys = {
+  all: ["item-analysis"] as const,
+  reports: () => [...itemAnalysisKeys.all, "report"] as const,
+  report: (input: ItemAnalysisInput) =>
+    [...itemAnalysisKeys.reports(), input] as const,
+};
+
+// ============================================
+// QUERY: ITEM ANALYSIS REPORT
+// ============================================
+
+export function useItemAnalysis(
+  input: ItemAnalysisInput,
+  options?: Omit<
+    UseQueryOptions<AdminActionResult<ItemAnalysisResponse>, Error>,
+    "queryKey" | "queryFn"
+  >
+) {
+  return useQuery<AdminActionResult<ItemAnalysisResponse>, Error>({
+    queryKey: itemAnalysisKeys.report(input),
+    queryFn: async () => {
+      const result = await getItemAnalysis(input);
+      return result;
+    },
+    enabled: !!(input.examType || input.subject || input.examId),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    placeholderData: (previousData) => previousData,
+    ...options,
+  });
+}
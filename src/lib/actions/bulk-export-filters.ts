@@ -5,6 +5,7 @@ import prisma from "@/lib/prisma";
 import { headers as getHeaders } from "next/headers";
 import { hasPermission } from "@/lib/rbac/utils";
 import { decryptQuestion } from "@/lib/utils/question-decrypt";
+import { parseFillInBlankRules } from "@/lib/utils/exam-scoring";
 import type { QuestionListResponse } from "@/types/question-api";
 import { Prisma } from "@/generated/prisma";
 import { FilterOptions } from "@/types/bulk-import";
@@ -160,6 +161,10 @@ export async function getFilteredQuestionsPreview(
             tags: Array.isArray(decrypted.tags)
               ? decrypted.tags
               : JSON.parse(decrypted.tags as string),
+            answerRules:
+              decrypted.questionType === "fill_in_blank"
+                ? parseFillInBlankRules(decrypted.answerRules)
+                : null,
           };
         } catch (error) {
           console.error(`Failed to decrypt question ${q.id}:`, error);
@@ -46,6 +46,7 @@ import type {
   BulkExportQuery,
   QuestionBulkRow,
 } from "@/types/question-api";
+import type { FillInBlankRulesInput } from "@/lib/validations/question";
 import { ZodError } from "zod";
 
 // ============================================
@@ -67,9 +68,11 @@ interface EncryptedQuestionData {
   tags: string[];
   timeLimit: number | null;
   language: string;
+  answerRules?: FillInBlankRulesInput;
   createdBy: string;
   questionText: string; // Encrypted JSON string
   answerExplanation: string | null; // Encrypted JSON string or null
+  markingRubric: string | null; // Encrypted JSON string or null
   options: EncryptedOptionData[];
 }
 
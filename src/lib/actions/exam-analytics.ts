@@ -0,0 +1,490 @@
+/**
+ * Exam Analytics Server Actions
+ *
+ * Per-exam statistics for admins: attempts, completion and abandonment,
+ * score distribution, pass rate, duration, integrity violations and the
+ * hardest questions. The same data can be exported as CSV or Excel.
+ *
+ * Scores only count for completed, fully graded sessions that were not
+ * disqualified on proctoring review.
+ *
+ * Security Features:
+ * - Session validation via Better Auth
+ * - Admin-only access control
+ * - Rate limiting (60 views / minute, 10 exports / 5 minutes)
+ *
+ * @module lib/actions/exam-analytics
+ */
+
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/middleware/rate-limit";
+import { logAuditEntry, verifyAdminAccess } from "@/lib/utils/admin-access";
+import { excelHandler } from "@/lib/bulk/bulk-formats/excel";
+import { csvHandler } from "@/lib/bulk/bulk-formats/csv";
+import { analyzeItem, type ItemResponse } from "@/lib/utils/item-analysis";
+import { decryptQuestion } from "@/lib/utils/question-decrypt";
+import {
+  examAnalyticsSchema,
+  exportExamAnalyticsSchema,
+  type ExportExamAnalyticsInput,
+} from "@/lib/validations/exam";
+import type {
+  AdminActionResult,
+  ExamAnalytics,
+  ExamAnalyticsExport,
+  HardQuestion,
+  ScoreDistributionBucket,
+} from "@/types/admin";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const SCORE_BUCKET_SIZE = 10;
+const HARDEST_QUESTIONS_LIMIT = 10;
+const EXPORT_HEADERS = ["Section", "Metric", "Value"];
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function percentage(count: number, total: number): number | null {
+  return total > 0 ? (count / total) * 100 : null;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Scored sessions per 10-point range; 100 falls in the top range
+ */
+function buildScoreDistribution(scores: number[]): ScoreDistributionBucket[] {
+  const buckets: ScoreDistributionBucket[] = [];
+
+  for (let min = 0; min < 100; min += SCORE_BUCKET_SIZE) {
+    const max = min + SCORE_BUCKET_SIZE - 1;
+    const isLast = min + SCORE_BUCKET_SIZE >= 100;
+
+    buckets.push({
+      label: isLast ? `${min}-100` : `${min}-${max}`,
+      min,
+      max: isLast ? 100 : max,
+      count: 0,
+    });
+  }
+
+  for (const score of scores) {
+    const index = Math.min(
+      Math.floor(score / SCORE_BUCKET_SIZE),
+      buckets.length - 1
+    );
+    buckets[Math.max(0, index)].count++;
+  }
+
+  return buckets;
+}
+
+/**
+ * Compute analytics for an exam
+ *
+ * @returns Analytics, or null if the exam does not exist
+ */
+async function buildExamAnalytics(
+  examId: string
+): Promise<ExamAnalytics | null> {
+  // STEP 1: Load exam
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId, deletedAt: null },
+    select: {
+      id: true,
+      title: true,
+      examType: true,
+      subject: true,
+      year: true,
+      passingScore: true,
+      questions: { select: { questionId: true } },
+    },
+  });
+
+  if (!exam) return null;
+
+  // STEP 2: Load sessions and violations
+  const [sessions, violations] = await Promise.all([
+    prisma.examSession.findMany({
+      where: { examId: exam.id },
+      select: {
+        userId: true,
+        status: true,
+        gradingStatus: true,
+        proctoringStatus: true,
+        score: true,
+        startedAt: true,
+        completedAt: true,
+      },
+    }),
+    prisma.examViolation.groupBy({
+      by: ["type"],
+      where: { session: { examId: exam.id } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const countStatus = (status: string) =>
+    sessions.filter((s) => s.status === status).length;
+
+  const inProgress = countStatus("active");
+  const completed = countStatus("completed");
+  const abandoned = countStatus("abandoned");
+  const expired = countStatus("expired");
+  const finished = sessions.length - inProgress;
+
+  const scores = sessions
+    .filter(
+      (s) =>
+        s.status === "completed" &&
+        s.gradingStatus === "graded" &&
+        s.proctoringStatus !== "disqualified" &&
+        s.score !== null
+    )
+    .map((s) => s.score as number);
+
+  const durations = sessions
+    .filter((s) => s.status === "completed" && s.completedAt)
+    .map((s) => (s.completedAt!.getTime() - s.startedAt.getTime()) / 1000);
+
+  const passingScore = exam.passingScore;
+  const passRate =
+    passingScore !== null
+      ? percentage(
+          scores.filter((score) => score >= passingScore).length,
+          scores.length
+        )
+      : null;
+
+  // STEP 3: Hardest questions by proportion correct
+  const questionIds = exam.questions.map((q) => q.questionId);
+  const answers = await prisma.examAnswer.findMany({
+    where: {
+      questionId: { in: questionIds },
+      isCorrect: { not: null },
+      session: {
+        examId: exam.id,
+        status: "completed",
+        gradingStatus: "graded",
+        proctoringStatus: { not: "disqualified" },
+        score: { not: null },
+      },
+    },
+    select: {
+      questionId: true,
+      isCorrect: true,
+      selectedOptionId: true,
+      timeSpent: true,
+      session: { select: { score: true } },
+    },
+  });
+
+  const responsesByQuestion = new Map<string, ItemResponse[]>();
+  for (const answer of answers) {
+    const responses = responsesByQuestion.get(answer.questionId) ?? [];
+    responses.push({
+      questionId: answer.questionId,
+      isCorrect: answer.isCorrect === true,
+      selectedOptionId: answer.selectedOptionId,
+      timeSpent: answer.timeSpent,
+      totalScore: answer.session.score ?? 0,
+    });
+    responsesByQuestion.set(answer.questionId, responses);
+  }
+
+  const hardest = [...responsesByQuestion.entries()]
+    .map(([questionId, responses]) =>
+      analyzeItem(
+        {
+          id: questionId,
+          difficultyLevel: "",
+          hasChoices: false,
+          options: [],
+        },
+        responses
+      )
+    )
+    .sort(
+      (a, b) => (a.pValue ?? 0) - (b.pValue ?? 0) || b.responses - a.responses
+    )
+    .slice(0, HARDEST_QUESTIONS_LIMIT);
+
+  const hardestQuestions = await prisma.question.findMany({
+    where: { id: { in: hardest.map((h) => h.questionId) } },
+    include: { options: true },
+  });
+  const questionTextMap = new Map(
+    hardestQuestions.map((q) => [q.id, decryptQuestion(q).questionText])
+  );
+
+  return {
+    examId: exam.id,
+    title: exam.title,
+    examType: exam.examType,
+    subject: exam.subject,
+    year: exam.year,
+    passingScore,
+    attempts: sessions.length,
+    candidates: new Set(sessions.map((s) => s.userId)).size,
+    inProgress,
+    completed,
+    abandoned,
+    expired,
+    completionRate: percentage(completed, finished),
+    abandonmentRate: percentage(abandoned + expired, finished),
+    scored: scores.length,
+    averageScore: average(scores),
+    passRate,
+    averageDuration: average(durations),
+    scoreDistribution: buildScoreDistribution(scores),
+    violationsByType: violations
+      .map((v) => ({ type: v.type, count: v._count._all }))
+      .sort((a, b) => b.count - a.count),
+    totalViolations: violations.reduce((sum, v) => sum + v._count._all, 0),
+    hardestQuestions: hardest.map(
+      (h): HardQuestion => ({
+        questionId: h.questionId,
+        questionText: questionTextMap.get(h.questionId) ?? "Deleted question",
+        responses: h.responses,
+        pValue: h.pValue ?? 0,
+        discrimination: h.discrimination,
+        averageTime: h.averageTime,
+      })
+    ),
+  };
+}
+
+/**
+ * Flatten analytics into Section / Metric / Value rows for export
+ */
+function toExportRows(analytics: ExamAnalytics): Record<string, unknown>[] {
+  const round = (value: number | null) =>
+    value === null ? "" : Math.round(value * 100) / 100;
+
+  const summary: Array<[string, unknown]> = [
+    ["Exam", analytics.title],
+    ["Exam Type", analytics.examType],
+    ["Subject", analytics.subject],
+    ["Year", analytics.year],
+    ["Passing Score (%)", analytics.passingScore ?? ""],
+    ["Attempts", analytics.attempts],
+    ["Candidates", analytics.candidates],
+    ["In Progress", analytics.inProgress],
+    ["Completed", analytics.completed],
+    ["Abandoned", analytics.abandoned],
+    ["Expired", analytics.expired],
+    ["Completion Rate (%)", round(analytics.completionRate)],
+    ["Abandonment Rate (%)", round(analytics.abandonmentRate)],
+    ["Graded Sessions", analytics.scored],
+    ["Average Score (%)", round(analytics.averageScore)],
+    ["Pass Rate (%)", round(analytics.passRate)],
+    ["Average Duration (seconds)", round(analytics.averageDuration)],
+    ["Total Violations", analytics.totalViolations],
+  ];
+
+  return [
+    ...summary.map(([metric, value]) => ({
+      Section: "Summary",
+      Metric: metric,
+      Value: value,
+    })),
+    ...analytics.scoreDistribution.map((bucket) => ({
+      Section: "Score Distribution",
+      Metric: bucket.label,
+      Value: bucket.count,
+    })),
+    ...analytics.violationsByType.map((violation) => ({
+      Section: "Violations",
+      Metric: violation.type,
+      Value: violation.count,
+    })),
+    ...analytics.hardestQuestions.map((question) => ({
+      Section: "Hardest Questions (proportion correct)",
+      Metric: question.questionText,
+      Value: round(question.pValue),
+    })),
+  ];
+}
+
+// ============================================
+// GET EXAM ANALYTICS
+// ============================================
+
+/**
+ * Get analytics for a single exam (admin only)
+ *
+ * @param examId - Exam ID
+ * @returns Exam analytics
+ */
+export async function getExamAnalytics(
+  examId: string
+): Promise<AdminActionResult<ExamAnalytics>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "admin:exam-analytics",
+      { max: 60, windowSeconds: 60 },
+      adminContext.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMIT_EXCEEDED",
+      };
+    }
+
+    // STEP 3: Validate input
+    const validated = examAnalyticsSchema.parse({ examId });
+
+    // STEP 4: Compute analytics
+    const analytics = await buildExamAnalytics(validated.examId);
+
+    if (!analytics) {
+      return {
+        success: false,
+        message: "Exam not found",
+        code: "EXAM_NOT_FOUND",
+      };
+    }
+
+    return {
+      success: true,
+      message: "Exam analytics retrieved successfully",
+      data: analytics,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Get exam analytics error:", error);
+    return {
+      success: false,
+      message: "Failed to retrieve exam analytics",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+// ============================================
+// EXPORT EXAM ANALYTICS
+// ============================================
+
+/**
+ * Export an exam's analytics as CSV or Excel (admin only)
+ *
+ * @param input - Exam ID and file format
+ * @returns File contents for download
+ */
+export async function exportExamAnalytics(
+  input: ExportExamAnalyticsInput
+): Promise<AdminActionResult<ExamAnalyticsExport>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "admin:exam-analytics-export",
+      { max: 10, windowSeconds: 300 },
+      adminContext.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMIT_EXCEEDED",
+      };
+    }
+
+    // STEP 3: Validate input
+    const validated = exportExamAnalyticsSchema.parse(input);
+
+    // STEP 4: Compute analytics
+    const analytics = await buildExamAnalytics(validated.examId);
+
+    if (!analytics) {
+      return {
+        success: false,
+        message: "Exam not found",
+        code: "EXAM_NOT_FOUND",
+      };
+    }
+
+    // STEP 5: Generate file
+    const handler = validated.format === "excel" ? excelHandler : csvHandler;
+    const fileResult = await handler.export(
+      toExportRows(analytics),
+      EXPORT_HEADERS,
+      { styled: true }
+    );
+    const extension = validated.format === "excel" ? "xlsx" : "csv";
+    const date = new Date().toISOString().slice(0, 10);
+
+    await logAuditEntry(adminContext, "EXAM_ANALYTICS_EXPORTED", {
+      examId: analytics.examId,
+      examTitle: analytics.title,
+      format: validated.format,
+    });
+
+    return {
+      success: true,
+      message: "Exam analytics exported",
+      data: {
+        buffer: Array.from(fileResult.buffer),
+        filename: `exam-analytics-${analytics.examId}-${date}.${extension}`,
+        mimeType: fileResult.mimeType,
+        size: fileResult.size,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Export exam analytics error:", error);
+    return {
+      success: false,
+      message: "Failed to export exam analytics",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
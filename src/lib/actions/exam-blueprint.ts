@@ -0,0 +1,224 @@
+/**
+ * Exam Blueprint Server Actions
+ *
+ * Assemble an exam's questions from a blueprint of counts per subject, tag
+ * and difficulty instead of picking every question by hand. Questions are
+ * drawn from the non-deleted question bank, avoiding those used in the
+ * admin's recent exams. Nothing is saved: the preview goes back to the exam
+ * form, where single questions can be swapped (by assembling one question
+ * for their row with the rest of the preview excluded) before the exam is
+ * created through `createExam` as usual.
+ *
+ * Security Features:
+ * - Session validation via Better Auth
+ * - Admin-only access control
+ * - Rate limiting (30 assemblies / minute)
+ *
+ * @module lib/actions/exam-blueprint
+ */
+
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/middleware/rate-limit";
+import { verifyAdminAccess } from "@/lib/utils/admin-access";
+import { decryptQuestion } from "@/lib/utils/question-decrypt";
+import { selectBlueprintQuestions } from "@/lib/utils/exam-blueprint";
+import {
+  examBlueprintSchema,
+  type ExamBlueprintInput,
+} from "@/lib/validations/exam-blueprint";
+import type {
+  AdminActionResult,
+  BlueprintPreviewQuestion,
+  ExamBlueprintPreview,
+} from "@/types/admin";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const RECENT_EXAM_COUNT = 5; // Admin's latest exams whose questions are avoided
+
+// ============================================
+// ASSEMBLE FROM BLUEPRINT
+// ============================================
+
+/**
+ * Draw questions for an exam from a blueprint (admin only)
+ *
+ * @param input - Blueprint rows, optional exam type and point target, and
+ *   questions to leave out
+ * @returns Preview of the drawn questions and how each row was filled
+ */
+export async function assembleExamFromBlueprint(
+  input: ExamBlueprintInput
+): Promise<AdminActionResult<ExamBlueprintPreview>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "exam:blueprint",
+      { max: 30, windowSeconds: 60 },
+      adminContext.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMIT_EXCEEDED",
+      };
+    }
+
+    // STEP 3: Validate input
+    const validated = examBlueprintSchema.parse(input);
+
+    // STEP 4: Questions used in the admin's recent exams
+    const recentExams = await prisma.exam.findMany({
+      where: { createdBy: adminContext.userId, deletedAt: null },
+      orderBy: { createdAt: "desc" },
+      take: RECENT_EXAM_COUNT,
+      select: { questions: { select: { questionId: true } } },
+    });
+
+    const recentQuestionIds = new Set(
+      recentExams.flatMap((exam) => exam.questions.map((q) => q.questionId))
+    );
+
+    // STEP 5: Load matching questions and draw
+    const candidates = await prisma.question.findMany({
+      where: {
+        deletedAt: null,
+        subject: { in: [...new Set(validated.rules.map((r) => r.subject))] },
+        ...(validated.examType ? { examType: validated.examType } : {}),
+        ...(validated.excludeQuestionIds.length > 0
+          ? { id: { notIn: validated.excludeQuestionIds } }
+          : {}),
+      },
+      select: {
+        id: true,
+        subject: true,
+        tags: true,
+        difficultyLevel: true,
+        questionPoint: true,
+      },
+    });
+
+    const selection = selectBlueprintQuestions(
+      validated.rules,
+      candidates,
+      recentQuestionIds,
+      validated.targetPoints
+    );
+
+    // STEP 6: Decrypt the drawn questions for the preview
+    const questions = await prisma.question.findMany({
+      where: { id: { in: selection.picks.map((p) => p.question.id) } },
+      include: {
+        options: {
+          orderBy: { orderIndex: "asc" },
+        },
+      },
+    });
+    const questionsById = new Map(questions.map((q) => [q.id, q]));
+
+    const previewQuestions = selection.picks
+      .map((pick): BlueprintPreviewQuestion | null => {
+        const question = questionsById.get(pick.question.id);
+        if (!question) return null;
+
+        try {
+          const decrypted = decryptQuestion(question);
+          return {
+            id: decrypted.id,
+            examType: decrypted.examType,
+            year: decrypted.year,
+            subject: decrypted.subject,
+            questionType: decrypted.questionType,
+            questionText: decrypted.questionText,
+            questionImage: decrypted.questionImage,
+            questionPoint: decrypted.questionPoint,
+            answerExplanation: decrypted.answerExplanation,
+            difficultyLevel: decrypted.difficultyLevel,
+            tags: Array.isArray(decrypted.tags)
+              ? decrypted.tags
+              : JSON.parse(decrypted.tags as string),
+            timeLimit: decrypted.timeLimit,
+            language: decrypted.language,
+            createdBy: decrypted.createdBy,
+            createdAt: decrypted.createdAt,
+            updatedAt: decrypted.updatedAt,
+            deletedAt: decrypted.deletedAt,
+            options: decrypted.options.map((opt) => ({
+              id: opt.id,
+              questionId: opt.questionId,
+              optionText: opt.optionText,
+              optionImage: opt.optionImage,
+              isCorrect: opt.isCorrect,
+              orderIndex: opt.orderIndex,
+            })),
+            ruleIndex: pick.ruleIndex,
+            recentlyUsed: pick.recentlyUsed,
+          };
+        } catch (error) {
+          console.error(`Failed to decrypt question ${question.id}:`, error);
+          return null;
+        }
+      })
+      .filter((q): q is BlueprintPreviewQuestion => q !== null);
+
+    const totalPoints = previewQuestions.reduce(
+      (sum, q) => sum + q.questionPoint,
+      0
+    );
+    const shortRows = selection.rules.filter(
+      (r) => r.selected < r.requested
+    ).length;
+
+    return {
+      success: true,
+      message:
+        shortRows > 0
+          ? `Not enough matching questions for ${shortRows} blueprint row${shortRows === 1 ? "" : "s"}`
+          : "Blueprint assembled",
+      data: {
+        questions: previewQuestions,
+        rules: validated.rules.map((rule, index) => ({
+          subject: rule.subject,
+          tag: rule.tag ?? null,
+          difficultyLevel: rule.difficultyLevel ?? null,
+          ...selection.rules[index],
+        })),
+        totalPoints,
+        targetPoints: validated.targetPoints ?? null,
+        recentExamCount: recentExams.length,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: error.issues[0]?.message || "Invalid blueprint",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Assemble exam from blueprint error:", error);
+    return {
+      success: false,
+      message: "Failed to assemble exam from blueprint",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
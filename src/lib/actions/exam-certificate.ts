@@ -0,0 +1,267 @@
+/**
+ * Exam Certificate Server Actions
+ *
+ * Candidates who pass a test-mode exam can download a PDF certificate.
+ * Each certificate carries a unique verification code that anyone can
+ * check on the public verification page.
+ *
+ * Security Features:
+ * - Session validation via Better Auth (downloads)
+ * - Ownership check on the exam session
+ * - Rate limiting (per user for downloads, per IP for verification)
+ *
+ * @module lib/actions/exam-certificate
+ */
+
+"use server";
+
+import { z } from "zod";
+import { randomBytes } from "crypto";
+import prisma from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/middleware/rate-limit";
+import {
+  verifyUserSession,
+  isCertificateEligible,
+} from "@/lib/utils/exam-session-helpers";
+import { renderCertificatePdf } from "@/lib/utils/certificate-pdf";
+import {
+  CERTIFICATE_CODE_ALPHABET,
+  downloadCertificateSchema,
+  verifyCertificateSchema,
+} from "@/lib/validations/exam-certificate";
+import type {
+  CertificateDownloadResult,
+  CertificateVerificationResult,
+} from "@/types/exam-session";
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Generate a human-friendly verification code (EDU-XXXX-XXXX-XXXX)
+ */
+function generateVerificationCode(): string {
+  const bytes = randomBytes(12);
+  const chars = Array.from(
+    bytes,
+    (byte) => CERTIFICATE_CODE_ALPHABET[byte % CERTIFICATE_CODE_ALPHABET.length]
+  );
+
+  return `EDU-${chars.slice(0, 4).join("")}-${chars.slice(4, 8).join("")}-${chars.slice(8).join("")}`;
+}
+
+/**
+ * Public verification URL printed on the certificate
+ */
+function buildVerificationUrl(code: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${baseUrl}/verify/certificate/${code}`;
+}
+
+// ============================================
+// DOWNLOAD CERTIFICATE
+// ============================================
+
+/**
+ * Download the certificate for a passed test-mode session
+ *
+ * The certificate is issued on first download; later downloads re-render
+ * the same certificate with the same verification code.
+ */
+export async function downloadCertificate(
+  sessionId: string
+): Promise<CertificateDownloadResult> {
+  try {
+    // STEP 1: Validate input
+    const validated = downloadCertificateSchema.parse({ sessionId });
+
+    // STEP 2: Authenticate user
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    // STEP 3: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "exam:certificate",
+      { max: 20, windowSeconds: 3600 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    // STEP 4: Load session and check ownership
+    const session = await prisma.examSession.findUnique({
+      where: { id: validated.sessionId },
+      include: { certificate: true },
+    });
+
+    if (!session || session.userId !== userSession.userId) {
+      return {
+        success: false,
+        message: "Session not found",
+        code: "SESSION_NOT_FOUND",
+      };
+    }
+
+    // STEP 5: Check eligibility
+    let certificate = session.certificate;
+
+    if (!certificate) {
+      const [exam, user] = await Promise.all([
+        prisma.exam.findUnique({
+          where: { id: session.examId },
+          select: { title: true, passingScore: true },
+        }),
+        prisma.user.findUnique({
+          where: { id: session.userId },
+          select: { name: true },
+        }),
+      ]);
+
+      if (
+        !exam ||
+        !user ||
+        !isCertificateEligible(session, exam.passingScore)
+      ) {
+        return {
+          success: false,
+          message: "No certificate is available for this exam session",
+          code: "CERTIFICATE_NOT_AVAILABLE",
+        };
+      }
+
+      // STEP 6: Issue the certificate (idempotent per session)
+      certificate = await prisma.examCertificate.upsert({
+        where: { sessionId: session.id },
+        create: {
+          sessionId: session.id,
+          userId: session.userId,
+          examId: session.examId,
+          verificationCode: generateVerificationCode(),
+          candidateName: user.name,
+          examTitle: exam.title,
+          score: session.score!,
+          issuedAt: session.completedAt ?? new Date(),
+        },
+        update: {},
+      });
+    }
+
+    // STEP 7: Render the PDF
+    const pdfBytes = await renderCertificatePdf({
+      candidateName: certificate.candidateName,
+      examTitle: certificate.examTitle,
+      score: certificate.score,
+      issuedAt: certificate.issuedAt,
+      verificationCode: certificate.verificationCode,
+      verificationUrl: buildVerificationUrl(certificate.verificationCode),
+    });
+
+    return {
+      success: true,
+      message: "Certificate generated",
+      data: {
+        buffer: Buffer.from(pdfBytes).toString("base64"),
+        filename: `certificate-${certificate.verificationCode}.pdf`,
+        mimeType: "application/pdf",
+        verificationCode: certificate.verificationCode,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Download certificate error:", error);
+    return {
+      success: false,
+      message: "Failed to generate certificate",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+// ============================================
+// VERIFY CERTIFICATE (PUBLIC)
+// ============================================
+
+/**
+ * Look up a certificate by its verification code
+ *
+ * Public: no authentication, rate limited per IP address.
+ */
+export async function verifyCertificate(
+  code: string
+): Promise<CertificateVerificationResult> {
+  try {
+    const validated = verifyCertificateSchema.parse({ code });
+
+    const rateLimitResult = await checkRateLimit("certificate:verify", {
+      max: 30,
+      windowSeconds: 60,
+    });
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    const certificate = await prisma.examCertificate.findUnique({
+      where: { verificationCode: validated.code },
+    });
+
+    if (!certificate) {
+      return {
+        success: false,
+        message: "No certificate matches this verification code",
+        code: "CERTIFICATE_NOT_FOUND",
+      };
+    }
+
+    return {
+      success: true,
+      message: "Certificate verified",
+      data: {
+        verificationCode: certificate.verificationCode,
+        candidateName: certificate.candidateName,
+        examTitle: certificate.examTitle,
+        score: certificate.score,
+        issuedAt: certificate.issuedAt,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid verification code",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Verify certificate error:", error);
+    return {
+      success: false,
+      message: "Failed to verify certificate",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
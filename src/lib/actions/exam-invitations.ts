@@ -0,0 +1,752 @@
+/**
+ * Exam Invitation Server Actions
+ *
+ * Admin actions for managing invitations to recruitment, competition
+ * and challenge exams. `checkExamAccess` requires a valid invitation
+ * token for these categories; this module is where tokens are issued.
+ *
+ * Security Features:
+ * - Session validation via Better Auth
+ * - Admin-only access control
+ * - Rate limiting (30 single invites / 5 minutes, 5 batches / 5 minutes)
+ * - Cryptographically random, single-use tokens
+ *
+ * @module lib/actions/exam-invitations
+ */
+
+"use server";
+
+import { randomBytes } from "crypto";
+import Papa from "papaparse";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/middleware/rate-limit";
+import { logAuditEntry, verifyAdminAccess } from "@/lib/utils/admin-access";
+import { sendExamInvitationEmail } from "@/lib/emails/exam-notifications";
+import {
+  createInvitationSchema,
+  createInvitationBatchSchema,
+  listInvitationsSchema,
+  revokeInvitationSchema,
+  invitationEmailSchema,
+  INVITATION_CATEGORIES,
+  MAX_INVITATIONS_PER_BATCH,
+  type CreateInvitationInput,
+  type CreateInvitationBatchInput,
+  type InvitationStatus,
+} from "@/lib/validations/exam-invitation";
+import type {
+  AdminActionResult,
+  AdminExamInvitation,
+  ExamInvitationBatchResult,
+  ExamInvitationListResponse,
+} from "@/types/admin";
+import type { Prisma } from "@/generated/prisma";
+
+// ============================================
+// TYPES
+// ============================================
+
+type InvitationWithUser = Prisma.ExamInvitationGetPayload<{
+  include: { user: { select: { name: true; email: true } } };
+}>;
+
+type InvitableExam = {
+  id: string;
+  title: string;
+  examType: string;
+  subject: string;
+  category: string | null;
+};
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Generate a URL-safe, single-use invitation token
+ */
+function generateInvitationToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Build the direct exam link sent to invitees
+ */
+function buildInviteUrl(examId: string, token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${baseUrl}/exams/${examId}?invitation=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Derive invitation status from its timestamps
+ */
+function getInvitationStatus(
+  invitation: Pick<InvitationWithUser, "revokedAt" | "usedAt" | "expiresAt">,
+  now: Date
+): InvitationStatus {
+  if (invitation.revokedAt) return "revoked";
+  if (invitation.usedAt) return "used";
+  if (invitation.expiresAt && invitation.expiresAt < now) return "expired";
+  return "pending";
+}
+
+function formatInvitation(
+  invitation: InvitationWithUser,
+  now: Date
+): AdminExamInvitation {
+  return {
+    id: invitation.id,
+    examId: invitation.examId,
+    userId: invitation.userId,
+    email: invitation.email,
+    recipientName: invitation.user?.name ?? null,
+    recipientEmail: invitation.user?.email ?? invitation.email,
+    token: invitation.token,
+    inviteUrl: buildInviteUrl(invitation.examId, invitation.token),
+    status: getInvitationStatus(invitation, now),
+    expiresAt: invitation.expiresAt,
+    usedAt: invitation.usedAt,
+    revokedAt: invitation.revokedAt,
+    createdAt: invitation.createdAt,
+  };
+}
+
+/**
+ * Load an exam and check it uses invitation-based access
+ */
+async function getInvitableExam(
+  examId: string
+): Promise<
+  | { success: true; exam: InvitableExam }
+  | { success: false; message: string; code: string }
+> {
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId, deletedAt: null },
+    select: {
+      id: true,
+      title: true,
+      examType: true,
+      subject: true,
+      category: true,
+    },
+  });
+
+  if (!exam) {
+    return {
+      success: false,
+      message: "Exam not found",
+      code: "EXAM_NOT_FOUND",
+    };
+  }
+
+  if (
+    !INVITATION_CATEGORIES.includes(
+      exam.category as (typeof INVITATION_CATEGORIES)[number]
+    )
+  ) {
+    return {
+      success: false,
+      message:
+        "Invitations are only used for recruitment, competition and challenge exams",
+      code: "INVITATION_NOT_SUPPORTED",
+    };
+  }
+
+  return { success: true, exam };
+}
+
+/**
+ * Extract email addresses from CSV content
+ *
+ * Uses the "email" column when a header row is present, otherwise the
+ * first column of every row.
+ */
+function parseEmailsFromCsv(csv: string): string[] {
+  const parsed = Papa.parse<string[]>(csv.trim(), {
+    skipEmptyLines: true,
+  });
+
+  const rows = parsed.data.filter((row) => Array.isArray(row));
+  if (rows.length === 0) return [];
+
+  const headerIndex = rows[0].findIndex(
+    (cell) => cell.trim().toLowerCase() === "email"
+  );
+  const columnIndex = headerIndex >= 0 ? headerIndex : 0;
+  const dataRows = headerIndex >= 0 ? rows.slice(1) : rows;
+
+  return dataRows
+    .map((row) => (row[columnIndex] || "").trim())
+    .filter((value) => value.length > 0);
+}
+
+/**
+ * Send the invitation email without failing the calling action
+ *
+ * @returns Whether the email was sent
+ */
+async function deliverInvitationEmail(
+  exam: InvitableExam,
+  invitation: AdminExamInvitation
+): Promise<boolean> {
+  if (!invitation.recipientEmail) return false;
+
+  try {
+    await sendExamInvitationEmail(invitation.recipientEmail, {
+      examTitle: exam.title,
+      examType: exam.examType,
+      subject: exam.subject,
+      inviteUrl: invitation.inviteUrl,
+      recipientName: invitation.recipientName ?? undefined,
+      expiresAt: invitation.expiresAt,
+    });
+    return true;
+  } catch (error) {
+    console.error(
+      `Failed to send invitation email for ${invitation.id}:`,
+      error
+    );
+    return false;
+  }
+}
+
+// ============================================
+// CREATE INVITATION
+// ============================================
+
+/**
+ * Create an invitation for a single user or email address (admin only)
+ *
+ * If the email belongs to a registered user, the invitation is bound to
+ * that user as well.
+ *
+ * @param input - Exam ID, recipient, optional expiry and email flag
+ * @returns Created invitation
+ */
+export async function createExamInvitation(
+  input: CreateInvitationInput
+): Promise<AdminActionResult<AdminExamInvitation>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "exam:invite",
+      { max: 30, windowSeconds: 300 },
+      adminContext.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMIT_EXCEEDED",
+      };
+    }
+
+    // STEP 3: Validate input
+    const validated = createInvitationSchema.parse(input);
+
+    // STEP 4: Verify exam
+    const examResult = await getInvitableExam(validated.examId);
+    if (!examResult.success) {
+      return {
+        success: false,
+        message: examResult.message,
+        code: examResult.code,
+      };
+    }
+
+    // STEP 5: Resolve recipient
+    const recipient = validated.userId
+      ? await prisma.user.findUnique({
+          where: { id: validated.userId },
+          select: { id: true, email: true },
+        })
+      : await prisma.user.findUnique({
+          where: { email: validated.email! },
+          select: { id: true, email: true },
+        });
+
+    if (validated.userId && !recipient) {
+      return {
+        success: false,
+        message: "User not found",
+        code: "USER_NOT_FOUND",
+      };
+    }
+
+    const recipientEmail = recipient?.email ?? validated.email!;
+    const now = new Date();
+
+    const existing = await prisma.examInvitation.findFirst({
+      where: {
+        examId: validated.examId,
+        revokedAt: null,
+        usedAt: null,
+        AND: [
+          { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+          recipient
+            ? { OR: [{ userId: recipient.id }, { email: recipientEmail }] }
+            : { email: recipientEmail },
+        ],
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return {
+        success: false,
+        message: "This recipient already has a pending invitation",
+        code: "INVITATION_EXISTS",
+      };
+    }
+
+    // STEP 6: Create invitation
+    const invitation = await prisma.examInvitation.create({
+      data: {
+        examId: validated.examId,
+        userId: recipient?.id ?? null,
+        email: recipientEmail,
+        token: generateInvitationToken(),
+        expiresAt: validated.expiresAt ? new Date(validated.expiresAt) : null,
+        createdBy: adminContext.userId,
+      },
+      include: { user: { select: { name: true, email: true } } },
+    });
+
+    const formatted = formatInvitation(invitation, now);
+
+    // STEP 7: Send email
+    const emailed = validated.sendEmail
+      ? await deliverInvitationEmail(examResult.exam, formatted)
+      : false;
+
+    // STEP 8: Log audit entry
+    await logAuditEntry(adminContext, "EXAM_INVITATION_CREATE", {
+      examId: validated.examId,
+      invitationId: invitation.id,
+      recipientUserId: invitation.userId,
+      recipientEmail,
+      emailed,
+    });
+
+    return {
+      success: true,
+      message: emailed
+        ? "Invitation created and emailed"
+        : validated.sendEmail
+          ? "Invitation created, but the email could not be sent"
+          : "Invitation created",
+      data: formatted,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: error.issues[0]?.message || "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Create exam invitation error:", error);
+    return {
+      success: false,
+      message: "Failed to create invitation",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+// ============================================
+// CREATE INVITATION BATCH (CSV)
+// ============================================
+
+/**
+ * Create invitations for every email address in a CSV file (admin only)
+ *
+ * Invalid addresses, duplicates and recipients that already hold a
+ * pending invitation are skipped and reported back.
+ *
+ * @param input - Exam ID, CSV content, optional expiry and email flag
+ * @returns Batch summary
+ */
+export async function createExamInvitationBatch(
+  input: CreateInvitationBatchInput
+): Promise<AdminActionResult<ExamInvitationBatchResult>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "exam:invite-batch",
+      { max: 5, windowSeconds: 300 },
+      adminContext.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMIT_EXCEEDED",
+      };
+    }
+
+    // STEP 3: Validate input
+    const validated = createInvitationBatchSchema.parse(input);
+
+    // STEP 4: Verify exam
+    const examResult = await getInvitableExam(validated.examId);
+    if (!examResult.success) {
+      return {
+        success: false,
+        message: examResult.message,
+        code: examResult.code,
+      };
+    }
+
+    // STEP 5: Parse and validate emails
+    const rawEmails = parseEmailsFromCsv(validated.csv);
+
+    if (rawEmails.length === 0) {
+      return {
+        success: false,
+        message: "No email addresses found in the CSV file",
+        code: "EMPTY_BATCH",
+      };
+    }
+
+    if (rawEmails.length > MAX_INVITATIONS_PER_BATCH) {
+      return {
+        success: false,
+        message: `A batch can contain at most ${MAX_INVITATIONS_PER_BATCH} email addresses`,
+        code: "BATCH_TOO_LARGE",
+      };
+    }
+
+    const skipped: ExamInvitationBatchResult["skipped"] = [];
+    const emails: string[] = [];
+    const seen = new Set<string>();
+
+    for (const raw of rawEmails) {
+      const parsed = invitationEmailSchema.safeParse(raw);
+      if (!parsed.success) {
+        skipped.push({ email: raw, reason: "Invalid email address" });
+        continue;
+      }
+      if (seen.has(parsed.data)) {
+        skipped.push({ email: parsed.data, reason: "Duplicate in file" });
+        continue;
+      }
+      seen.add(parsed.data);
+      emails.push(parsed.data);
+    }
+
+    // STEP 6: Skip recipients with pending invitations
+    const now = new Date();
+    const [users, pendingInvitations] = await Promise.all([
+      prisma.user.findMany({
+        where: { email: { in: emails } },
+        select: { id: true, email: true },
+      }),
+      prisma.examInvitation.findMany({
+        where: {
+          examId: validated.examId,
+          email: { in: emails },
+          revokedAt: null,
+          usedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        },
+        select: { email: true },
+      }),
+    ]);
+
+    const userByEmail = new Map(users.map((u) => [u.email.toLowerCase(), u]));
+    const pendingEmails = new Set(
+      pendingInvitations.map((inv) => inv.email?.toLowerCase())
+    );
+
+    const toCreate = emails.filter((email) => {
+      if (pendingEmails.has(email)) {
+        skipped.push({ email, reason: "Already has a pending invitation" });
+        return false;
+      }
+      return true;
+    });
+
+    // STEP 7: Create invitations
+    const expiresAt = validated.expiresAt
+      ? new Date(validated.expiresAt)
+      : null;
+
+    const created = await prisma.$transaction(
+      toCreate.map((email) =>
+        prisma.examInvitation.create({
+          data: {
+            examId: validated.examId,
+            userId: userByEmail.get(email)?.id ?? null,
+            email,
+            token: generateInvitationToken(),
+            expiresAt,
+            createdBy: adminContext.userId,
+          },
+          include: { user: { select: { name: true, email: true } } },
+        })
+      )
+    );
+
+    // STEP 8: Send emails sequentially to stay within SMTP limits
+    let emailed = 0;
+    if (validated.sendEmail) {
+      for (const invitation of created) {
+        const sent = await deliverInvitationEmail(
+          examResult.exam,
+          formatInvitation(invitation, now)
+        );
+        if (sent) emailed++;
+      }
+    }
+
+    // STEP 9: Log audit entry
+    await logAuditEntry(adminContext, "EXAM_INVITATION_BATCH_CREATE", {
+      examId: validated.examId,
+      created: created.length,
+      skipped: skipped.length,
+      emailed,
+    });
+
+    return {
+      success: true,
+      message: `${created.length} invitation${created.length === 1 ? "" : "s"} created`,
+      data: {
+        created: created.length,
+        emailed,
+        skipped,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: error.issues[0]?.message || "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Create exam invitation batch error:", error);
+    return {
+      success: false,
+      message: "Failed to create invitations",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+// ============================================
+// LIST INVITATIONS
+// ============================================
+
+/**
+ * List invitations for an exam (admin only)
+ *
+ * @param examId - Exam ID
+ * @param status - Optional status filter
+ * @returns Invitations with per-status counts
+ */
+export async function listExamInvitations(
+  examId: string,
+  status?: InvitationStatus
+): Promise<AdminActionResult<ExamInvitationListResponse>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Validate input
+    const validated = listInvitationsSchema.parse({ examId, status });
+
+    // STEP 3: Load exam
+    const exam = await prisma.exam.findUnique({
+      where: { id: validated.examId, deletedAt: null },
+      select: {
+        id: true,
+        title: true,
+        examType: true,
+        subject: true,
+        category: true,
+      },
+    });
+
+    if (!exam) {
+      return {
+        success: false,
+        message: "Exam not found",
+        code: "EXAM_NOT_FOUND",
+      };
+    }
+
+    // STEP 4: Load invitations
+    const invitations = await prisma.examInvitation.findMany({
+      where: { examId: validated.examId },
+      include: { user: { select: { name: true, email: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const now = new Date();
+    const formatted = invitations.map((inv) => formatInvitation(inv, now));
+
+    const counts = {
+      total: formatted.length,
+      pending: 0,
+      used: 0,
+      expired: 0,
+      revoked: 0,
+    };
+    for (const invitation of formatted) {
+      counts[invitation.status]++;
+    }
+
+    return {
+      success: true,
+      message: "Invitations retrieved successfully",
+      data: {
+        exam,
+        invitations: validated.status
+          ? formatted.filter((inv) => inv.status === validated.status)
+          : formatted,
+        counts,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("List exam invitations error:", error);
+    return {
+      success: false,
+      message: "Failed to retrieve invitations",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+// ============================================
+// REVOKE INVITATION
+// ============================================
+
+/**
+ * Revoke an unused invitation (admin only)
+ *
+ * @param invitationId - Invitation ID
+ * @returns Revoked invitation
+ */
+export async function revokeExamInvitation(
+  invitationId: string
+): Promise<AdminActionResult<AdminExamInvitation>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Validate input
+    const validated = revokeInvitationSchema.parse({ invitationId });
+
+    // STEP 3: Load invitation
+    const invitation = await prisma.examInvitation.findUnique({
+      where: { id: validated.invitationId },
+    });
+
+    if (!invitation) {
+      return {
+        success: false,
+        message: "Invitation not found",
+        code: "INVITATION_NOT_FOUND",
+      };
+    }
+
+    if (invitation.usedAt) {
+      return {
+        success: false,
+        message: "Used invitations cannot be revoked",
+        code: "INVITATION_USED",
+      };
+    }
+
+    if (invitation.revokedAt) {
+      return {
+        success: false,
+        message: "Invitation is already revoked",
+        code: "INVITATION_REVOKED",
+      };
+    }
+
+    // STEP 4: Revoke
+    const now = new Date();
+    const revoked = await prisma.examInvitation.update({
+      where: { id: invitation.id },
+      data: { revokedAt: now },
+      include: { user: { select: { name: true, email: true } } },
+    });
+
+    // STEP 5: Log audit entry
+    await logAuditEntry(adminContext, "EXAM_INVITATION_REVOKE", {
+      examId: invitation.examId,
+      invitationId: invitation.id,
+    });
+
+    return {
+      success: true,
+      message: "Invitation revoked",
+      data: formatInvitation(revoked, now),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Revoke exam invitation error:", error);
+    return {
+      success: false,
+      message: "Failed to revoke invitation",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
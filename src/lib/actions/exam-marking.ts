@@ -0,0 +1,482 @@
+/**
+ * Exam Marking Server Actions
+ *
+ * Admin actions for marking essay answers by hand. Sessions with
+ * unmarked essay answers are completed with `gradingStatus: "pending"`;
+ * the session score and pass/fail are recomputed as answers are marked
+ * and the session becomes "graded" once every essay answer has points.
+ *
+ * Security Features:
+ * - Session validation via Better Auth
+ * - Admin-only access control
+ * - Rate limiting (120 marks / 5 minutes)
+ *
+ * @module lib/actions/exam-marking
+ */
+
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/middleware/rate-limit";
+import { logAuditEntry, verifyAdminAccess } from "@/lib/utils/admin-access";
+import { computeSessionScore } from "@/lib/utils/exam-session-helpers";
+import {
+  isManuallyMarked,
+  MANUALLY_MARKED_QUESTION_TYPES,
+} from "@/lib/utils/exam-scoring";
+import { decryptQuestion } from "@/lib/utils/question-decrypt";
+import {
+  markingQueueSchema,
+  sessionMarkingSchema,
+  markAnswerSchema,
+  type MarkingQueueInput,
+  type MarkAnswerInput,
+} from "@/lib/validations/exam-marking";
+import type {
+  AdminActionResult,
+  MarkAnswerResult,
+  MarkingQueueResponse,
+  SessionMarkingDetails,
+} from "@/types/admin";
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * IDs of the manually marked questions among the given IDs
+ */
+async function getManuallyMarkedQuestionIds(
+  questionIds: string[]
+): Promise<Set<string>> {
+  if (questionIds.length === 0) return new Set();
+
+  const questions = await prisma.question.findMany({
+    where: {
+      id: { in: questionIds },
+      questionType: { in: [...MANUALLY_MARKED_QUESTION_TYPES] },
+    },
+    select: { id: true },
+  });
+
+  return new Set(questions.map((q) => q.id));
+}
+
+// ============================================
+// MARKING QUEUE
+// ============================================
+
+/**
+ * List completed sessions waiting on essay marking (admin only)
+ *
+ * @param input - Optional exam filter and pagination
+ * @returns Sessions with pending and marked answer counts, oldest first
+ */
+export async function getMarkingQueue(
+  input: MarkingQueueInput = {}
+): Promise<AdminActionResult<MarkingQueueResponse>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Validate input
+    const validated = markingQueueSchema.parse(input);
+
+    // STEP 3: Load pending sessions
+    const where = {
+      status: "completed",
+      gradingStatus: "pending",
+      ...(validated.examId ? { examId: validated.examId } : {}),
+    };
+
+    const [sessions, total] = await Promise.all([
+      prisma.examSession.findMany({
+        where,
+        include: {
+          user: { select: { name: true, email: true } },
+          answers: { select: { questionId: true, pointsAwarded: true } },
+        },
+        orderBy: { completedAt: "asc" },
+        take: validated.limit,
+        skip: validated.offset,
+      }),
+      prisma.examSession.count({ where }),
+    ]);
+
+    // STEP 4: Load exams and essay questions for the page
+    const examIds = [...new Set(sessions.map((s) => s.examId))];
+    const exams = await prisma.exam.findMany({
+      where: { id: { in: examIds } },
+      select: { id: true, title: true, examType: true, category: true },
+    });
+    const examMap = new Map(exams.map((e) => [e.id, e]));
+
+    const essayQuestionIds = await getManuallyMarkedQuestionIds([
+      ...new Set(sessions.flatMap((s) => s.answers.map((a) => a.questionId))),
+    ]);
+
+    return {
+      success: true,
+      message: "Marking queue retrieved successfully",
+      data: {
+        sessions: sessions.map((session) => {
+          const essayAnswers = session.answers.filter((a) =>
+            essayQuestionIds.has(a.questionId)
+          );
+          const pendingAnswers = essayAnswers.filter(
+            (a) => a.pointsAwarded === null
+          ).length;
+          const exam = examMap.get(session.examId);
+
+          return {
+            sessionId: session.id,
+            examId: session.examId,
+            examTitle: exam?.title ?? "Deleted exam",
+            examType: exam?.examType ?? session.examType,
+            category: exam?.category ?? null,
+            candidateName: session.user.name,
+            candidateEmail: session.user.email,
+            completedAt: session.completedAt,
+            pendingAnswers,
+            markedAnswers: essayAnswers.length - pendingAnswers,
+          };
+        }),
+        total,
+        limit: validated.limit,
+        offset: validated.offset,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Get marking queue error:", error);
+    return {
+      success: false,
+      message: "Failed to retrieve marking queue",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+// ============================================
+// SESSION MARKING DETAILS
+// ============================================
+
+/**
+ * Load a session's essay answers with rubric and explanation (admin only)
+ *
+ * @param sessionId - Exam session ID
+ * @returns Session summary with markable answers in question order
+ */
+export async function getSessionForMarking(
+  sessionId: string
+): Promise<AdminActionResult<SessionMarkingDetails>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Validate input
+    const validated = sessionMarkingSchema.parse({ sessionId });
+
+    // STEP 3: Load session
+    const session = await prisma.examSession.findUnique({
+      where: { id: validated.sessionId },
+      include: {
+        user: { select: { name: true, email: true } },
+        answers: true,
+      },
+    });
+
+    if (!session) {
+      return {
+        success: false,
+        message: "Session not found",
+        code: "SESSION_NOT_FOUND",
+      };
+    }
+
+    if (session.status !== "completed") {
+      return {
+        success: false,
+        message: "Only completed sessions can be marked",
+        code: "SESSION_NOT_COMPLETED",
+      };
+    }
+
+    const exam = await prisma.exam.findUnique({
+      where: { id: session.examId },
+      select: {
+        title: true,
+        examType: true,
+        category: true,
+        passingScore: true,
+      },
+    });
+
+    // STEP 4: Load and decrypt essay questions
+    const questions = await prisma.question.findMany({
+      where: {
+        id: { in: session.answers.map((a) => a.questionId) },
+        questionType: { in: [...MANUALLY_MARKED_QUESTION_TYPES] },
+      },
+      include: { options: true },
+    });
+    const questionMap = new Map(
+      questions.map((q) => [q.id, decryptQuestion(q)])
+    );
+
+    const questionOrder: string[] = JSON.parse(session.questionOrder);
+    const answers = session.answers
+      .filter((answer) => questionMap.has(answer.questionId))
+      .sort(
+        (a, b) =>
+          questionOrder.indexOf(a.questionId) -
+          questionOrder.indexOf(b.questionId)
+      )
+      .map((answer) => {
+        const question = questionMap.get(answer.questionId)!;
+
+        return {
+          answerId: answer.id,
+          questionId: question.id,
+          questionText: question.questionText,
+          questionImage: question.questionImage,
+          questionPoint: question.questionPoint,
+          markingRubric: question.markingRubric,
+          answerExplanation: question.answerExplanation,
+          textAnswer: answer.textAnswer,
+          pointsAwarded: answer.pointsAwarded,
+          feedback: answer.feedback,
+          markedAt: answer.markedAt,
+        };
+      });
+
+    return {
+      success: true,
+      message: "Session retrieved successfully",
+      data: {
+        sessionId: session.id,
+        examTitle: exam?.title ?? "Deleted exam",
+        examType: exam?.examType ?? session.examType,
+        category: exam?.category ?? null,
+        candidateName: session.user.name,
+        candidateEmail: session.user.email,
+        completedAt: session.completedAt,
+        gradingStatus:
+          session.gradingStatus === "pending" ? "pending" : "graded",
+        score: session.score,
+        passingScore: exam?.passingScore ?? null,
+        answers,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Get session for marking error:", error);
+    return {
+      success: false,
+      message: "Failed to retrieve session",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+// ============================================
+// MARK ANSWER
+// ============================================
+
+/**
+ * Award points and feedback for an essay answer (admin only)
+ *
+ * Re-marking an answer is allowed. The session score is recomputed after
+ * every mark, and pass/fail is settled once no essay answers are pending.
+ *
+ * @param input - Answer ID, points awarded and optional feedback
+ * @returns Marked answer with the session's updated grading state
+ */
+export async function markEssayAnswer(
+  input: MarkAnswerInput
+): Promise<AdminActionResult<MarkAnswerResult>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "exam:mark",
+      { max: 120, windowSeconds: 300 },
+      adminContext.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMIT_EXCEEDED",
+      };
+    }
+
+    // STEP 3: Validate input
+    const validated = markAnswerSchema.parse(input);
+
+    // STEP 4: Load answer, session and question
+    const answer = await prisma.examAnswer.findUnique({
+      where: { id: validated.answerId },
+      include: { session: true },
+    });
+
+    if (!answer) {
+      return {
+        success: false,
+        message: "Answer not found",
+        code: "ANSWER_NOT_FOUND",
+      };
+    }
+
+    if (answer.session.status !== "completed") {
+      return {
+        success: false,
+        message: "Only completed sessions can be marked",
+        code: "SESSION_NOT_COMPLETED",
+      };
+    }
+
+    const question = await prisma.question.findUnique({
+      where: { id: answer.questionId },
+      select: { questionType: true, questionPoint: true },
+    });
+
+    if (!question || !isManuallyMarked(question.questionType)) {
+      return {
+        success: false,
+        message: "Only essay answers can be marked manually",
+        code: "NOT_MANUALLY_MARKED",
+      };
+    }
+
+    if (validated.pointsAwarded > question.questionPoint) {
+      return {
+        success: false,
+        message: `Points awarded cannot exceed ${question.questionPoint}`,
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    // STEP 5: Save mark
+    const now = new Date();
+
+    await prisma.examAnswer.update({
+      where: { id: answer.id },
+      data: {
+        pointsAwarded: validated.pointsAwarded,
+        isCorrect: validated.pointsAwarded >= question.questionPoint,
+        feedback: validated.feedback || null,
+        markedBy: adminContext.userId,
+        markedAt: now,
+      },
+    });
+
+    // STEP 6: Recompute session score
+    const answers = await prisma.examAnswer.findMany({
+      where: { sessionId: answer.sessionId },
+    });
+
+    const { score, pointsEarned, totalPoints, pendingAnswers } =
+      await computeSessionScore(answer.session.questionOrder, answers);
+    const gradingStatus = pendingAnswers > 0 ? "pending" : "graded";
+
+    await prisma.examSession.update({
+      where: { id: answer.sessionId },
+      data: {
+        score,
+        pointsEarned,
+        totalPoints,
+        gradingStatus,
+        updatedAt: now,
+      },
+    });
+
+    const exam = await prisma.exam.findUnique({
+      where: { id: answer.session.examId },
+      select: { passingScore: true },
+    });
+
+    const passed =
+      exam?.passingScore && gradingStatus === "graded"
+        ? score >= exam.passingScore
+        : undefined;
+
+    // STEP 7: Audit log
+    await logAuditEntry(adminContext, "MARK_ESSAY_ANSWER", {
+      answerId: answer.id,
+      sessionId: answer.sessionId,
+      pointsAwarded: validated.pointsAwarded,
+      gradingStatus,
+    });
+
+    return {
+      success: true,
+      message:
+        gradingStatus === "graded"
+          ? "Answer marked. Session fully graded"
+          : "Answer marked",
+      data: {
+        answerId: answer.id,
+        pointsAwarded: validated.pointsAwarded,
+        pendingAnswers,
+        gradingStatus,
+        score,
+        passed,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: error.issues[0]?.message || "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Mark essay answer error:", error);
+    return {
+      success: false,
+      message: "Failed to mark answer",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
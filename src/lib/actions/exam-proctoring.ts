@@ -0,0 +1,435 @@
+/**
+ * Exam Proctoring Server Actions
+ *
+ * Admin review of the violations recorded by `trackViolation`. Sessions
+ * are listed by violation count, and each session's violations are shown
+ * on one timeline with its answers. Reviewers mark a session as cleared,
+ * flagged or disqualified; disqualified sessions are left out of
+ * leaderboards, show no score to the candidate and lose any certificate.
+ *
+ * Security Features:
+ * - Session validation via Better Auth
+ * - Admin-only access control
+ * - Rate limiting (60 reviews / 5 minutes)
+ *
+ * @module lib/actions/exam-proctoring
+ */
+
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/middleware/rate-limit";
+import { logAuditEntry, verifyAdminAccess } from "@/lib/utils/admin-access";
+import {
+  proctoringQueueSchema,
+  sessionProctoringSchema,
+  reviewSessionSchema,
+  type ProctoringQueueInput,
+  type ReviewSessionInput,
+} from "@/lib/validations/exam-proctoring";
+import type {
+  AdminActionResult,
+  ProctoringQueueResponse,
+  ProctoringReviewResult,
+  ProctoringTimelineEvent,
+  SessionProctoringDetails,
+} from "@/types/admin";
+
+// ============================================
+// PROCTORING QUEUE
+// ============================================
+
+/**
+ * List sessions with violations or a proctoring review (admin only)
+ *
+ * @param input - Optional exam and review status filters, with pagination
+ * @returns Sessions with the most violations first
+ */
+export async function getProctoringQueue(
+  input: ProctoringQueueInput = {}
+): Promise<AdminActionResult<ProctoringQueueResponse>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Validate input
+    const validated = proctoringQueueSchema.parse(input);
+
+    // STEP 3: Load sessions
+    const where = {
+      OR: [
+        { violationCount: { gt: 0 } },
+        { proctoringStatus: { not: "unreviewed" } },
+      ],
+      ...(validated.examId ? { examId: validated.examId } : {}),
+      ...(validated.proctoringStatus
+        ? { proctoringStatus: validated.proctoringStatus }
+        : {}),
+    };
+
+    const [sessions, total] = await Promise.all([
+      prisma.examSession.findMany({
+        where,
+        include: { user: { select: { name: true, email: true } } },
+        orderBy: [{ violationCount: "desc" }, { startedAt: "desc" }],
+        take: validated.limit,
+        skip: validated.offset,
+      }),
+      prisma.examSession.count({ where }),
+    ]);
+
+    // STEP 4: Load exams for the page
+    const examIds = [...new Set(sessions.map((s) => s.examId))];
+    const exams = await prisma.exam.findMany({
+      where: { id: { in: examIds } },
+      select: { id: true, title: true, examType: true, category: true },
+    });
+    const examMap = new Map(exams.map((e) => [e.id, e]));
+
+    return {
+      success: true,
+      message: "Proctoring queue retrieved successfully",
+      data: {
+        sessions: sessions.map((session) => {
+          const exam = examMap.get(session.examId);
+
+          return {
+            sessionId: session.id,
+            examId: session.examId,
+            examTitle: exam?.title ?? "Deleted exam",
+            examType: exam?.examType ?? session.examType,
+            category: exam?.category ?? null,
+            candidateName: session.user.name,
+            candidateEmail: session.user.email,
+            status: session.status,
+            startedAt: session.startedAt,
+            completedAt: session.completedAt,
+            violationCount: session.violationCount,
+            proctoringStatus: session.proctoringStatus,
+            reviewedAt: session.reviewedAt,
+          };
+        }),
+        total,
+        limit: validated.limit,
+        offset: validated.offset,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Get proctoring queue error:", error);
+    return {
+      success: false,
+      message: "Failed to retrieve proctoring queue",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+// ============================================
+// SESSION TIMELINE
+// ============================================
+
+/**
+ * Load a session's violations, answers and resumes on one timeline
+ * (admin only)
+ *
+ * @param sessionId - Exam session ID
+ * @returns Session summary, review state and timeline in time order
+ */
+export async function getSessionProctoring(
+  sessionId: string
+): Promise<AdminActionResult<SessionProctoringDetails>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Validate input
+    const validated = sessionProctoringSchema.parse({ sessionId });
+
+    // STEP 3: Load session
+    const session = await prisma.examSession.findUnique({
+      where: { id: validated.sessionId },
+      include: {
+        user: { select: { name: true, email: true } },
+        answers: {
+          select: {
+            id: true,
+            questionId: true,
+            answeredAt: true,
+            timeSpent: true,
+          },
+        },
+        violations: { orderBy: { timestamp: "asc" } },
+        events: { orderBy: { createdAt: "asc" } },
+      },
+    });
+
+    if (!session) {
+      return {
+        success: false,
+        message: "Session not found",
+        code: "SESSION_NOT_FOUND",
+      };
+    }
+
+    const [exam, reviewer] = await Promise.all([
+      prisma.exam.findUnique({
+        where: { id: session.examId },
+        select: { title: true, examType: true, category: true },
+      }),
+      session.reviewedBy
+        ? prisma.user.findUnique({
+            where: { id: session.reviewedBy },
+            select: { name: true },
+          })
+        : null,
+    ]);
+
+    // STEP 4: Build timeline
+    const questionOrder: string[] = JSON.parse(session.questionOrder);
+
+    const timeline: ProctoringTimelineEvent[] = [
+      {
+        id: `${session.id}-started`,
+        kind: "started" as const,
+        timestamp: session.startedAt,
+      },
+      ...session.answers.map((answer) => ({
+        id: answer.id,
+        kind: "answer" as const,
+        timestamp: answer.answeredAt,
+        questionNumber: questionOrder.indexOf(answer.questionId) + 1,
+        timeSpent: answer.timeSpent,
+      })),
+      ...session.violations.map((violation) => ({
+        id: violation.id,
+        kind: "violation" as const,
+        timestamp: violation.timestamp,
+        violationType: violation.type,
+        metadata: violation.metadata,
+      })),
+      ...session.events.map((event) => ({
+        id: event.id,
+        kind: "resumed" as const,
+        timestamp: event.createdAt,
+        metadata: [
+          event.ipAddress,
+          event.userAgent,
+          // Short form of the device the session moved to
+          event.deviceTokenHash &&
+            `Device ${event.deviceTokenHash.slice(0, 8)}`,
+        ]
+          .filter(Boolean)
+          .join(" • "),
+      })),
+      ...(session.completedAt
+        ? [
+            {
+              id: `${session.id}-completed`,
+              kind: "completed" as const,
+              timestamp: session.completedAt,
+            },
+          ]
+        : []),
+    ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const violationCounts = new Map<string, number>();
+    for (const violation of session.violations) {
+      violationCounts.set(
+        violation.type,
+        (violationCounts.get(violation.type) ?? 0) + 1
+      );
+    }
+
+    return {
+      success: true,
+      message: "Session retrieved successfully",
+      data: {
+        sessionId: session.id,
+        examId: session.examId,
+        examTitle: exam?.title ?? "Deleted exam",
+        examType: exam?.examType ?? session.examType,
+        category: exam?.category ?? null,
+        candidateName: session.user.name,
+        candidateEmail: session.user.email,
+        status: session.status,
+        completionReason: session.completionReason,
+        startedAt: session.startedAt,
+        completedAt: session.completedAt,
+        score: session.score,
+        violationCount: session.violationCount,
+        violationsByType: [...violationCounts.entries()]
+          .map(([type, count]) => ({ type, count }))
+          .sort((a, b) => b.count - a.count),
+        proctoringStatus: session.proctoringStatus,
+        proctoringNote: session.proctoringNote,
+        reviewerName: reviewer?.name ?? null,
+        reviewedAt: session.reviewedAt,
+        timeline,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Get session proctoring error:", error);
+    return {
+      success: false,
+      message: "Failed to retrieve session",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+// ============================================
+// REVIEW SESSION
+// ============================================
+
+/**
+ * Record a proctoring decision for a finished session (admin only)
+ *
+ * Decisions can be changed later. Disqualifying a session revokes any
+ * certificate already issued for it.
+ *
+ * @param input - Session ID, decision and note (required to disqualify)
+ * @returns Updated review state
+ */
+export async function reviewSessionProctoring(
+  input: ReviewSessionInput
+): Promise<AdminActionResult<ProctoringReviewResult>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "exam:proctoring-review",
+      { max: 60, windowSeconds: 300 },
+      adminContext.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMIT_EXCEEDED",
+      };
+    }
+
+    // STEP 3: Validate input
+    const validated = reviewSessionSchema.parse(input);
+
+    // STEP 4: Load session
+    const session = await prisma.examSession.findUnique({
+      where: { id: validated.sessionId },
+      select: { id: true, status: true, proctoringStatus: true },
+    });
+
+    if (!session) {
+      return {
+        success: false,
+        message: "Session not found",
+        code: "SESSION_NOT_FOUND",
+      };
+    }
+
+    if (session.status === "active") {
+      return {
+        success: false,
+        message: "Sessions can be reviewed once the candidate has finished",
+        code: "SESSION_ACTIVE",
+      };
+    }
+
+    // STEP 5: Save decision
+    const now = new Date();
+    const isDisqualified = validated.proctoringStatus === "disqualified";
+
+    await prisma.$transaction([
+      prisma.examSession.update({
+        where: { id: session.id },
+        data: {
+          proctoringStatus: validated.proctoringStatus,
+          proctoringNote: validated.note || null,
+          reviewedBy: adminContext.userId,
+          reviewedAt: now,
+        },
+      }),
+      ...(isDisqualified
+        ? [
+            prisma.examCertificate.deleteMany({
+              where: { sessionId: session.id },
+            }),
+          ]
+        : []),
+    ]);
+
+    // STEP 6: Audit log
+    await logAuditEntry(adminContext, "PROCTORING_REVIEW", {
+      sessionId: session.id,
+      previousStatus: session.proctoringStatus,
+      proctoringStatus: validated.proctoringStatus,
+    });
+
+    return {
+      success: true,
+      message: isDisqualified
+        ? "Session disqualified"
+        : `Session marked as ${validated.proctoringStatus}`,
+      data: {
+        sessionId: session.id,
+        proctoringStatus: validated.proctoringStatus,
+        reviewedAt: now,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: error.issues[0]?.message || "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Review session proctoring error:", error);
+    return {
+      success: false,
+      message: "Failed to save review",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Exam Result Release Server Actions
+ *
+ * Recruitment, competition and challenge results follow the exam
+ * creator's release mode. Scheduled exams are released by the
+ * `/exam-session/release-results` job; this module is where admins
+ * release manual (or early scheduled) results.
+ *
+ * Security Features:
+ * - Session validation via Better Auth
+ * - Admin-only access control
+ * - Rate limiting (10 releases / 5 minutes)
+ * - Idempotent: candidates are emailed once per exam
+ *
+ * @module lib/actions/exam-results-release
+ */
+
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/middleware/rate-limit";
+import { logAuditEntry, verifyAdminAccess } from "@/lib/utils/admin-access";
+import { sendExamResultsReleasedEmails } from "@/lib/emails/exam-notifications";
+import { releaseResultsSchema } from "@/lib/validations/exam";
+import { RESULT_RELEASE_CATEGORIES } from "@/lib/utils/exam";
+import type { AdminActionResult, ResultsReleaseSummary } from "@/types/admin";
+
+// ============================================
+// RELEASE RESULTS
+// ============================================
+
+/**
+ * Release results for an exam and email every candidate (admin only)
+ *
+ * Each candidate's email links to their most recent finished session.
+ *
+ * @param examId - Exam ID
+ * @returns Release time and notification counts
+ */
+export async function releaseExamResults(
+  examId: string
+): Promise<AdminActionResult<ResultsReleaseSummary>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "exam:release-results",
+      { max: 10, windowSeconds: 300 },
+      adminContext.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMIT_EXCEEDED",
+      };
+    }
+
+    // STEP 3: Validate input
+    const validated = releaseResultsSchema.parse({ examId });
+
+    // STEP 4: Verify exam
+    const exam = await prisma.exam.findUnique({
+      where: { id: validated.examId, deletedAt: null },
+      select: {
+        id: true,
+        title: true,
+        examType: true,
+        subject: true,
+        category: true,
+        resultsReleasedAt: true,
+      },
+    });
+
+    if (!exam) {
+      return {
+        success: false,
+        message: "Exam not found",
+        code: "EXAM_NOT_FOUND",
+      };
+    }
+
+    if (!RESULT_RELEASE_CATEGORIES.includes(exam.category || "")) {
+      return {
+        success: false,
+        message:
+          "Only recruitment, competition and challenge results are released manually",
+        code: "INVALID_CATEGORY",
+      };
+    }
+
+    // STEP 5: Mark released (guarded so candidates are emailed once)
+    const releasedAt = new Date();
+    const { count } = await prisma.exam.updateMany({
+      where: { id: exam.id, resultsReleasedAt: null },
+      data: { resultsReleasedAt: releasedAt },
+    });
+
+    if (count === 0) {
+      return {
+        success: false,
+        message: "Results have already been released",
+        code: "RESULTS_ALREADY_RELEASED",
+      };
+    }
+
+    // STEP 6: Email each candidate a link to their latest session
+    const sessions = await prisma.examSession.findMany({
+      where: { examId: exam.id, status: { in: ["completed", "expired"] } },
+      orderBy: { startedAt: "desc" },
+      select: {
+        id: true,
+        userId: true,
+        user: { select: { email: true, name: true } },
+      },
+    });
+
+    const latestByUser = new Map<string, (typeof sessions)[number]>();
+    for (const session of sessions) {
+      if (!latestByUser.has(session.userId)) {
+        latestByUser.set(session.userId, session);
+      }
+    }
+
+    const emailsSent = await sendExamResultsReleasedEmails(
+      exam,
+      [...latestByUser.values()].map((session) => ({
+        email: session.user.email,
+        name: session.user.name,
+        sessionId: session.id,
+      }))
+    );
+
+    // STEP 7: Audit log
+    await logAuditEntry(adminContext, "EXAM_RESULTS_RELEASED", {
+      examId: exam.id,
+      examTitle: exam.title,
+      participants: latestByUser.size,
+      emailsSent,
+    });
+
+    return {
+      success: true,
+      message: `Results released to ${latestByUser.size} candidate(s)`,
+      data: {
+        examId: exam.id,
+        releasedAt,
+        participants: latestByUser.size,
+        emailsSent,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Release exam results error:", error);
+    return {
+      success: false,
+      message: "Failed to release results",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
@@ -1,26 +1,69 @@
 "use server";
 
 import prisma from "@/lib/prisma";
+import { headers } from "next/headers";
 import { z } from "zod";
 import {
   examAccessSchema,
   startExamSchema,
   getQuestionSchema,
   submitAnswerSchema,
+  clearAnswerSchema,
+  flagQuestionSchema,
+  sessionReviewSchema,
   completeExamSchema,
   trackViolationSchema,
   syncTimeSchema,
   getResultsSchema,
   abandonSessionSchema,
+  sessionDetailsSchema,
+  resumeSessionSchema,
+  finishSectionSchema,
+  leaderboardSchema,
+  liveProgressSchema,
 } from "@/lib/validations/exam-session";
 import {
   verifyUserSession,
+  verifyReauthentication,
+  hasPasswordCredential,
   calculateRemainingTime,
   isSessionExpired,
   shuffleArray,
   selectRandomQuestions,
   formatQuestionForClient,
+  computeSessionScore,
+  computeSectionResults,
+  syncSectionProgress,
+  finalizeExpiredSession,
+  getSessionDeadline,
+  isCertificateEligible,
+  bindSessionDevice,
+  isSessionDevice,
 } from "@/lib/utils/exam-session-helpers";
+import { decryptQuestion } from "@/lib/utils/question-decrypt";
+import { gradeAnswer } from "@/lib/utils/exam-scoring";
+import {
+  buildTopicPerformance,
+  loadQuestionTopics,
+  selectTopicsToRevise,
+} from "@/lib/utils/topic-analytics";
+import {
+  allowsAnswerChanges,
+  buildSessionReview,
+  parseFlaggedQuestions,
+  REVIEW_CATEGORIES,
+  LEADERBOARD_CATEGORIES,
+  areResultsReleased,
+  rankParticipants,
+  resolveAntiCheatPolicy,
+  calculateViolationScore,
+  VIOLATION_TYPE_LABELS,
+  parseQuestionPools,
+  buildSessionSections,
+  isQuestionInOpenSection,
+  resolveSectionProgress,
+} from "@/lib/utils/exam";
+import { drawPoolQuestions } from "@/lib/utils/exam-blueprint";
 import { checkRateLimit } from "@/lib/middleware/rate-limit";
 import type {
   ExamAccessResult,
@@ -28,14 +71,59 @@ import type {
   ExamSessionResult,
   GetQuestionResult,
   SubmitAnswerResult,
+  ClearAnswerResult,
+  FlagQuestionResult,
+  FinishSectionResult,
+  SessionReviewResult,
   ExamCompletionResult,
   ViolationTrackingResult,
   ServerTimeSync,
   ExamResultsResult,
   AbandonSessionResult,
+  SessionDetailsResult,
+  ActiveExamSessionResult,
+  ResumeSessionResult,
+  CompletionReason,
+  LeaderboardResult,
+  LiveProgressResult,
+  ViolationType,
 } from "@/types/exam-session";
 
-const VIOLATION_LIMIT = 10;
+const LEADERBOARD_SIZE = 100;
+const RESUME_REQUIRED_MESSAGE =
+  "This exam is open on another device. Resume it here to continue.";
+
+/**
+ * Rank every participant of an exam on their best graded attempt,
+ * leaving out attempts disqualified on proctoring review
+ */
+async function loadRankedParticipants(examId: string) {
+  const sessions = await prisma.examSession.findMany({
+    where: {
+      examId,
+      status: "completed",
+      gradingStatus: "graded",
+      score: { not: null },
+      completedAt: { not: null },
+      proctoringStatus: { not: "disqualified" },
+    },
+    select: {
+      userId: true,
+      score: true,
+      startedAt: true,
+      completedAt: true,
+    },
+  });
+
+  return rankParticipants(
+    sessions.map((s) => ({
+      userId: s.userId,
+      score: s.score!,
+      startedAt: s.startedAt,
+      completedAt: s.completedAt!,
+    }))
+  );
+}
 
 export async function checkExamAccess(
   examId: string,
@@ -84,7 +172,8 @@ export async function checkExamAccess(
       };
     }
 
-    if (exam.status !== "published") {
+    // Smart practice exams are only started through startSmartPractice
+    if (exam.status !== "published" || exam.isAdaptive) {
       return {
         success: false,
         message: "Exam is not available",
@@ -136,6 +225,14 @@ export async function checkExamAccess(
         };
       }
 
+      if (invitation.revokedAt) {
+        return {
+          success: false,
+          message: "Invitation has been revoked",
+          code: "INVITATION_REVOKED",
+        };
+      }
+
       if (invitation.expiresAt && new Date() > invitation.expiresAt) {
         return {
           success: false,
@@ -159,6 +256,18 @@ export async function checkExamAccess(
           code: "INVALID_USER",
         };
       }
+
+      if (
+        !invitation.userId &&
+        invitation.email &&
+        invitation.email.toLowerCase() !== userSession.userEmail.toLowerCase()
+      ) {
+        return {
+          success: false,
+          message: "This invitation was sent to a different email address",
+          code: "INVALID_USER",
+        };
+      }
     } else if (!exam.isPublic) {
       return {
         success: false,
@@ -183,6 +292,8 @@ export async function checkExamAccess(
       };
     }
 
+    const questionPools = parseQuestionPools(exam.questionPools);
+
     return {
       success: true,
       message: "Access granted",
@@ -199,17 +310,27 @@ export async function checkExamAccess(
           maxAttempts: exam.maxAttempts,
           shuffleQuestions: exam.shuffleQuestions,
           randomizeOptions: exam.randomizeOptions,
+          allowAnswerChanges: exam.allowAnswerChanges,
           isPublic: exam.isPublic,
           isFree: exam.isFree,
           status: exam.status,
           category: exam.category,
           startDate: exam.startDate,
           endDate: exam.endDate,
+          resultReleaseMode: exam.resultReleaseMode,
+          resultsReleaseAt: exam.resultsReleaseAt,
+          resultsReleasedAt: exam.resultsReleasedAt,
+          isAdaptive: exam.isAdaptive,
+          antiCheatPolicy: exam.antiCheatPolicy,
+          questionPools: exam.questionPools,
           createdBy: exam.createdBy,
           createdAt: exam.createdAt,
           updatedAt: exam.updatedAt,
           deletedAt: exam.deletedAt,
-          totalQuestions: exam.questions.length,
+          totalQuestions:
+            questionPools.length > 0
+              ? questionPools.reduce((sum, pool) => sum + pool.count, 0)
+              : exam.questions.length,
         },
         accessType: requiresInvitation
           ? "invitation"
@@ -285,10 +406,39 @@ export async function getExamInstructions(
       `Total Questions: ${exam.totalQuestions || 0}`,
     ];
 
+    const questionPools = parseQuestionPools(exam.questionPools);
+    if (questionPools.length > 0) {
+      instructions.push(
+        "Each candidate receives a different set of questions drawn from:"
+      );
+      for (const pool of questionPools) {
+        instructions.push(`• ${pool.label}: ${pool.count} questions`);
+      }
+    }
+
     if (exam.duration) {
       instructions.push(`Time Limit: ${exam.duration} minutes`);
     }
 
+    const sections = await prisma.examSection.findMany({
+      where: { examId: exam.id },
+      orderBy: { orderIndex: "asc" },
+      include: { _count: { select: { questions: true } } },
+    });
+    if (sections.length > 0) {
+      instructions.push("This exam is taken in sections, one after another:");
+      sections.forEach((section, index) => {
+        const details = [
+          `${section._count.questions} questions`,
+          section.timeLimit ? `${section.timeLimit} minutes` : null,
+          section.allowReturn ? null : "no return once finished",
+        ].filter(Boolean);
+        instructions.push(
+          `• Section ${index + 1}: ${section.title} (${details.join(", ")})`
+        );
+      });
+    }
+
     if (exam.shuffleQuestions) {
       instructions.push("Questions will be shuffled");
     }
@@ -297,14 +447,29 @@ export async function getExamInstructions(
       instructions.push("Answer options will be randomized");
     }
 
-    if (
-      category === "test" ||
-      category === "recruitment" ||
-      category === "competition"
-    ) {
+    const antiCheatPolicy = resolveAntiCheatPolicy(exam);
+
+    if (antiCheatPolicy.monitoredViolations.length > 0) {
       instructions.push("⚠️ Anti-cheat monitoring is enabled");
-      instructions.push("• Do not switch tabs or minimize the browser");
-      instructions.push("• Fullscreen mode will be enforced");
+      for (const type of antiCheatPolicy.monitoredViolations) {
+        const weight = antiCheatPolicy.violationWeights[type];
+        instructions.push(
+          `• ${VIOLATION_TYPE_LABELS[type]} counts as ${weight} violation point${weight === 1 ? "" : "s"}`
+        );
+      }
+      if (antiCheatPolicy.warningThreshold !== null) {
+        instructions.push(
+          `• You will be warned at ${antiCheatPolicy.warningThreshold} violation points`
+        );
+      }
+      if (antiCheatPolicy.autoSubmitThreshold !== null) {
+        instructions.push(
+          `• Your exam will be submitted automatically at ${antiCheatPolicy.autoSubmitThreshold} violation points`
+        );
+      }
+    }
+
+    if (antiCheatPolicy.blockCopyPaste) {
       instructions.push("• Copy/paste actions are disabled");
     }
 
@@ -324,6 +489,7 @@ export async function getExamInstructions(
         timeLimit: exam.duration || undefined,
         shuffleQuestions: exam.shuffleQuestions,
         shuffleOptions: exam.randomizeOptions,
+        antiCheatPolicy,
       },
     };
   } catch (error) {
@@ -383,10 +549,7 @@ export async function startExamSession(data: {
       const now = new Date();
       for (const sess of activeSessions) {
         if (isSessionExpired(sess, now)) {
-          await prisma.examSession.update({
-            where: { id: sess.id },
-            data: { status: "expired", updatedAt: now },
-          });
+          await finalizeExpiredSession(sess, now);
         } else {
           return {
             success: false,
@@ -442,9 +605,29 @@ export async function startExamSession(data: {
       orderBy: { orderIndex: "asc" },
     });
 
+    const questionPools = parseQuestionPools(exam.questionPools);
     let selectedQuestions = examQuestions;
 
-    if (config && config.numQuestions < examQuestions.length) {
+    if (questionPools.length > 0) {
+      // Every candidate draws their own paper with the same make-up
+      const drawn = drawPoolQuestions(
+        questionPools,
+        examQuestions.map((eq) => eq.question)
+      );
+
+      if (!drawn) {
+        return {
+          success: false,
+          message: "This exam's question pools cannot be filled",
+          code: "POOLS_UNFILLABLE",
+        };
+      }
+
+      const examQuestionsById = new Map(
+        examQuestions.map((eq) => [eq.questionId, eq])
+      );
+      selectedQuestions = drawn.map((q) => examQuestionsById.get(q.id)!);
+    } else if (config && config.numQuestions < examQuestions.length) {
       selectedQuestions = selectRandomQuestions(
         examQuestions,
         config.numQuestions
@@ -461,6 +644,28 @@ export async function startExamSession(data: {
     }
 
     const now = new Date();
+
+    // Sectioned exams serve their questions section by section
+    const examSections = await prisma.examSection.findMany({
+      where: { examId: validated.examId },
+      orderBy: { orderIndex: "asc" },
+    });
+    let sessionSections = null;
+
+    if (examSections.length > 0) {
+      const laidOut = buildSessionSections(
+        questionOrder,
+        examSections.map((section) => ({
+          ...section,
+          questionIds: examQuestions
+            .filter((eq) => eq.sectionId === section.id)
+            .map((eq) => eq.questionId),
+        })),
+        now
+      );
+      questionOrder = laidOut.questionOrder;
+      sessionSections = laidOut.sections;
+    }
     const timeLimit =
       config?.timeLimit ||
       (category !== "practice" ? exam.duration : undefined);
@@ -479,11 +684,16 @@ export async function startExamSession(data: {
           configuredQuestions: selectedQuestions.length,
           shuffleQuestions: config?.shuffleQuestions ?? exam.shuffleQuestions,
           shuffleOptions: config?.shuffleOptions ?? exam.randomizeOptions,
+          allowAnswerChanges: allowsAnswerChanges({
+            allowAnswerChanges: exam.allowAnswerChanges,
+            category,
+          }),
           status: "active",
           totalQuestions: selectedQuestions.length,
           answeredQuestions: 0,
           violationCount: 0,
           questionOrder: JSON.stringify(questionOrder),
+          sections: sessionSections ? JSON.stringify(sessionSections) : null,
         },
       });
 
@@ -494,7 +704,11 @@ export async function startExamSession(data: {
         });
       }
 
-      return newSession;
+      // Only this device can take the exam until it is resumed elsewhere
+      return tx.examSession.update({
+        where: { id: newSession.id },
+        data: { deviceTokenHash: await bindSessionDevice(newSession.id) },
+      });
     });
 
     return {
@@ -528,6 +742,137 @@ export async function startExamSession(data: {
   }
 }
 
+export async function getSessionDetails(
+  sessionId: string
+): Promise<SessionDetailsResult> {
+  try {
+    const validated = sessionDetailsSchema.parse({ sessionId });
+
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    const rateLimitResult = await checkRateLimit(
+      `exam:details:${validated.sessionId}`,
+      { max: 30, windowSeconds: 60 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    const session = await prisma.examSession.findUnique({
+      where: { id: validated.sessionId },
+    });
+
+    if (!session || session.userId !== userSession.userId) {
+      return {
+        success: false,
+        message: "Session not found",
+        code: "SESSION_NOT_FOUND",
+      };
+    }
+
+    if (session.status === "active" && !(await isSessionDevice(session))) {
+      return {
+        success: false,
+        message: RESUME_REQUIRED_MESSAGE,
+        code: "RESUME_REQUIRED",
+      };
+    }
+
+    const exam = await prisma.exam.findUnique({
+      where: { id: session.examId },
+      select: {
+        title: true,
+        examType: true,
+        subject: true,
+        year: true,
+        category: true,
+        antiCheatPolicy: true,
+      },
+    });
+
+    if (!exam) {
+      return {
+        success: false,
+        message: "Exam not found",
+        code: "EXAM_NOT_FOUND",
+      };
+    }
+
+    const antiCheatPolicy = resolveAntiCheatPolicy(exam);
+    const violations = await prisma.examViolation.findMany({
+      where: { sessionId: session.id },
+      select: { type: true },
+    });
+
+    const now = new Date();
+    const remainingTime = calculateRemainingTime(session, now);
+    const serverEndTime = session.timeLimit
+      ? new Date(session.startedAt.getTime() + session.timeLimit * 60 * 1000)
+      : undefined;
+    const sectionProgress =
+      session.status === "active"
+        ? await syncSectionProgress(session, now)
+        : null;
+
+    return {
+      success: true,
+      message: "Session details retrieved",
+      data: {
+        sessionId: session.id,
+        examId: session.examId,
+        examTitle: exam.title,
+        examType: exam.examType,
+        subject: exam.subject,
+        year: exam.year,
+        category: session.examType,
+        status: session.status,
+        startedAt: session.startedAt,
+        serverTime: now,
+        serverEndTime,
+        remainingTime: remainingTime ?? undefined,
+        totalQuestions: session.totalQuestions,
+        answeredQuestions: session.answeredQuestions,
+        violationCount: session.violationCount,
+        violationScore: calculateViolationScore(
+          antiCheatPolicy,
+          violations.map((v) => v.type)
+        ),
+        allowAnswerChanges: session.allowAnswerChanges,
+        antiCheatPolicy,
+        sectionProgress: sectionProgress ?? undefined,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Get session details error:", error);
+    return {
+      success: false,
+      message: "Failed to get session details",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
 export async function getQuestion(
   sessionId: string,
   questionIndex: number
@@ -586,12 +931,17 @@ export async function getQuestion(
       };
     }
 
+    if (!(await isSessionDevice(session))) {
+      return {
+        success: false,
+        message: RESUME_REQUIRED_MESSAGE,
+        code: "RESUME_REQUIRED",
+      };
+    }
+
     const now = new Date();
     if (isSessionExpired(session, now)) {
-      await prisma.examSession.update({
-        where: { id: session.id },
-        data: { status: "expired", updatedAt: now },
-      });
+      await finalizeExpiredSession(session, now);
 
       return {
         success: false,
@@ -613,6 +963,18 @@ export async function getQuestion(
       };
     }
 
+    const sectionProgress = await syncSectionProgress(session, now);
+    if (
+      sectionProgress &&
+      !isQuestionInOpenSection(sectionProgress, validated.questionIndex)
+    ) {
+      return {
+        success: false,
+        message: "This question is in a section that is not open",
+        code: "SECTION_CLOSED",
+      };
+    }
+
     const questionId = questionOrder[validated.questionIndex];
 
     const question = await prisma.question.findUnique({
@@ -726,12 +1088,17 @@ export async function submitAnswer(data: {
       };
     }
 
+    if (!(await isSessionDevice(session))) {
+      return {
+        success: false,
+        message: RESUME_REQUIRED_MESSAGE,
+        code: "RESUME_REQUIRED",
+      };
+    }
+
     const now = new Date();
     if (isSessionExpired(session, now)) {
-      await prisma.examSession.update({
-        where: { id: session.id },
-        data: { status: "expired", updatedAt: now },
-      });
+      await finalizeExpiredSession(session, now);
 
       return {
         success: false,
@@ -740,6 +1107,23 @@ export async function submitAnswer(data: {
       };
     }
 
+    const sectionProgress = await syncSectionProgress(session, now);
+    if (
+      sectionProgress &&
+      !isQuestionInOpenSection(
+        sectionProgress,
+        (JSON.parse(session.questionOrder) as string[]).indexOf(
+          validated.questionId
+        )
+      )
+    ) {
+      return {
+        success: false,
+        message: "This question is in a section that is not open",
+        code: "SECTION_CLOSED",
+      };
+    }
+
     const existingAnswer = await prisma.examAnswer.findUnique({
       where: {
         sessionId_questionId: {
@@ -749,7 +1133,7 @@ export async function submitAnswer(data: {
       },
     });
 
-    if (existingAnswer) {
+    if (existingAnswer && !session.allowAnswerChanges) {
       return {
         success: false,
         message: "Question already answered",
@@ -770,27 +1154,25 @@ export async function submitAnswer(data: {
       };
     }
 
-    let isCorrect: boolean | null = null;
-    let correctOptionId: string | undefined;
-
-    if (
-      question.questionType === "multiple_choice" &&
-      validated.selectedOptionId
-    ) {
-      const selectedOption = question.options.find(
-        (opt) => opt.id === validated.selectedOptionId
-      );
-      const correctOption = question.options.find((opt) => opt.isCorrect);
-
-      if (selectedOption) {
-        isCorrect = selectedOption.isCorrect;
-        correctOptionId = correctOption?.id;
-      }
-    }
+    const decryptedQuestion = decryptQuestion(question);
+    const isCorrect = gradeAnswer(decryptedQuestion, {
+      selectedOptionId: validated.selectedOptionId,
+      textAnswer: validated.textAnswer,
+    });
+    const correctOption = decryptedQuestion.options.find(
+      (opt) => opt.isCorrect
+    );
 
     await prisma.$transaction(async (tx) => {
-      await tx.examAnswer.create({
-        data: {
+      // Changing an answer replaces it and accumulates time on the question
+      await tx.examAnswer.upsert({
+        where: {
+          sessionId_questionId: {
+            sessionId: validated.sessionId,
+            questionId: validated.questionId,
+          },
+        },
+        create: {
           sessionId: validated.sessionId,
           questionId: validated.questionId,
           selectedOptionId: validated.selectedOptionId || undefined,
@@ -799,27 +1181,37 @@ export async function submitAnswer(data: {
           timeSpent: validated.timeSpent,
           answeredAt: now,
         },
+        update: {
+          selectedOptionId: validated.selectedOptionId,
+          textAnswer: validated.textAnswer ?? null,
+          isCorrect,
+          timeSpent: { increment: validated.timeSpent },
+          answeredAt: now,
+        },
       });
 
       await tx.examSession.update({
         where: { id: validated.sessionId },
         data: {
-          answeredQuestions: session.answeredQuestions + 1,
+          answeredQuestions: await tx.examAnswer.count({
+            where: { sessionId: validated.sessionId },
+          }),
           updatedAt: now,
         },
       });
     });
 
     if (session.examType === "practice" && isCorrect !== null) {
-      const explanation = question.answerExplanation || undefined;
+      const isTextAnswer = question.questionType === "fill_in_blank";
 
       return {
         success: true,
         message: "Answer submitted",
         feedback: {
           isCorrect,
-          correctOptionId,
-          explanation,
+          correctOptionId: isTextAnswer ? undefined : correctOption?.id,
+          correctAnswer: isTextAnswer ? correctOption?.optionText : undefined,
+          explanation: decryptedQuestion.answerExplanation || undefined,
         },
       };
     }
@@ -846,11 +1238,12 @@ export async function submitAnswer(data: {
   }
 }
 
-export async function completeExam(
-  sessionId: string
-): Promise<ExamCompletionResult> {
+export async function clearAnswer(data: {
+  sessionId: string;
+  questionId: string;
+}): Promise<ClearAnswerResult> {
   try {
-    const validated = completeExamSchema.parse({ sessionId });
+    const validated = clearAnswerSchema.parse(data);
 
     const userSession = await verifyUserSession();
     if (!userSession) {
@@ -862,8 +1255,8 @@ export async function completeExam(
     }
 
     const rateLimitResult = await checkRateLimit(
-      "exam:complete",
-      { max: 10, windowSeconds: 3600 },
+      `exam:submit:${validated.sessionId}`,
+      { max: 200, windowSeconds: 3600 },
       userSession.userId
     );
 
@@ -875,19 +1268,8 @@ export async function completeExam(
       };
     }
 
-    if (!userSession) {
-      return {
-        success: false,
-        message: "Authentication required",
-        code: "UNAUTHORIZED",
-      };
-    }
-
     const session = await prisma.examSession.findUnique({
       where: { id: validated.sessionId },
-      include: {
-        answers: true,
-      },
     });
 
     if (!session || session.userId !== userSession.userId) {
@@ -901,53 +1283,630 @@ export async function completeExam(
     if (session.status !== "active") {
       return {
         success: false,
-        message: "Session already completed",
-        code: "SESSION_COMPLETED",
+        message: "Session is not active",
+        code: "SESSION_NOT_ACTIVE",
       };
     }
 
-    const correctAnswers = session.answers.filter(
-      (a) => a.isCorrect === true
-    ).length;
-    const score = (correctAnswers / session.totalQuestions) * 100;
+    if (!(await isSessionDevice(session))) {
+      return {
+        success: false,
+        message: RESUME_REQUIRED_MESSAGE,
+        code: "RESUME_REQUIRED",
+      };
+    }
 
     const now = new Date();
+    if (isSessionExpired(session, now)) {
+      await finalizeExpiredSession(session, now);
 
-    await prisma.examSession.update({
-      where: { id: validated.sessionId },
-      data: {
-        status: "completed",
-        completedAt: now,
-        score,
-        updatedAt: now,
-      },
-    });
-
-    const exam = await prisma.exam.findUnique({
-      where: { id: session.examId },
-      select: { passingScore: true },
-    });
+      return {
+        success: false,
+        message: "Session has expired",
+        code: "SESSION_EXPIRED",
+      };
+    }
 
-    const passed = exam?.passingScore ? score >= exam.passingScore : undefined;
+    if (!session.allowAnswerChanges) {
+      return {
+        success: false,
+        message: "Answers cannot be changed in this exam",
+        code: "ANSWER_CHANGES_NOT_ALLOWED",
+      };
+    }
 
-    return {
-      success: true,
-      message: "Exam completed successfully",
-      data: {
-        sessionId: validated.sessionId,
-        score,
-        correctAnswers,
-        totalQuestions: session.totalQuestions,
-        completedAt: now,
-        passed,
-      },
-    };
-  } catch (error) {
-    if (error instanceof z.ZodError) {
+    const sectionProgress = await syncSectionProgress(session, now);
+    if (
+      sectionProgress &&
+      !isQuestionInOpenSection(
+        sectionProgress,
+        (JSON.parse(session.questionOrder) as string[]).indexOf(
+          validated.questionId
+        )
+      )
+    ) {
       return {
         success: false,
-        message: "Invalid input",
-        code: "VALIDATION_ERROR",
+        message: "This question is in a section that is not open",
+        code: "SECTION_CLOSED",
+      };
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.examAnswer.deleteMany({
+        where: {
+          sessionId: validated.sessionId,
+          questionId: validated.questionId,
+        },
+      });
+
+      await tx.examSession.update({
+        where: { id: validated.sessionId },
+        data: {
+          answeredQuestions: await tx.examAnswer.count({
+            where: { sessionId: validated.sessionId },
+          }),
+          updatedAt: now,
+        },
+      });
+    });
+
+    return {
+      success: true,
+      message: "Answer cleared",
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Clear answer error:", error);
+    return {
+      success: false,
+      message: "Failed to clear answer",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+export async function flagQuestion(data: {
+  sessionId: string;
+  questionId: string;
+  flagged: boolean;
+}): Promise<FlagQuestionResult> {
+  try {
+    const validated = flagQuestionSchema.parse(data);
+
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    const rateLimitResult = await checkRateLimit(
+      `exam:flag:${validated.sessionId}`,
+      { max: 200, windowSeconds: 3600 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    const session = await prisma.examSession.findUnique({
+      where: { id: validated.sessionId },
+    });
+
+    if (!session || session.userId !== userSession.userId) {
+      return {
+        success: false,
+        message: "Session not found",
+        code: "SESSION_NOT_FOUND",
+      };
+    }
+
+    if (session.status !== "active") {
+      return {
+        success: false,
+        message: "Session is not active",
+        code: "SESSION_NOT_ACTIVE",
+      };
+    }
+
+    if (!(await isSessionDevice(session))) {
+      return {
+        success: false,
+        message: RESUME_REQUIRED_MESSAGE,
+        code: "RESUME_REQUIRED",
+      };
+    }
+
+    const now = new Date();
+    if (isSessionExpired(session, now)) {
+      await finalizeExpiredSession(session, now);
+
+      return {
+        success: false,
+        message: "Session has expired",
+        code: "SESSION_EXPIRED",
+      };
+    }
+
+    if (!REVIEW_CATEGORIES.includes(session.examType)) {
+      return {
+        success: false,
+        message: "Questions cannot be flagged in this exam",
+        code: "FLAGGING_NOT_ALLOWED",
+      };
+    }
+
+    const questionOrder: string[] = JSON.parse(session.questionOrder);
+    if (!questionOrder.includes(validated.questionId)) {
+      return {
+        success: false,
+        message: "Question not found",
+        code: "QUESTION_NOT_FOUND",
+      };
+    }
+
+    const sectionProgress = await syncSectionProgress(session, now);
+    if (
+      sectionProgress &&
+      !isQuestionInOpenSection(
+        sectionProgress,
+        questionOrder.indexOf(validated.questionId)
+      )
+    ) {
+      return {
+        success: false,
+        message: "This question is in a section that is not open",
+        code: "SECTION_CLOSED",
+      };
+    }
+
+    const flagged = new Set(parseFlaggedQuestions(session.flaggedQuestions));
+    if (validated.flagged) {
+      flagged.add(validated.questionId);
+    } else {
+      flagged.delete(validated.questionId);
+    }
+
+    await prisma.examSession.update({
+      where: { id: session.id },
+      data: {
+        flaggedQuestions: JSON.stringify(Array.from(flagged)),
+        updatedAt: now,
+      },
+    });
+
+    return {
+      success: true,
+      message: validated.flagged ? "Question flagged" : "Question unflagged",
+      data: {
+        questionId: validated.questionId,
+        flagged: validated.flagged,
+        flaggedCount: flagged.size,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Flag question error:", error);
+    return {
+      success: false,
+      message: "Failed to update flag",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+/**
+ * Finish the candidate's current section and start the next one. Finishing
+ * a section that is already behind the candidate (e.g. a double click, or
+ * a section whose time ran out) just returns where they are now.
+ */
+export async function finishExamSection(data: {
+  sessionId: string;
+  sectionIndex: number;
+}): Promise<FinishSectionResult> {
+  try {
+    const validated = finishSectionSchema.parse(data);
+
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    const rateLimitResult = await checkRateLimit(
+      `exam:section:${validated.sessionId}`,
+      { max: 30, windowSeconds: 3600 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    const session = await prisma.examSession.findUnique({
+      where: { id: validated.sessionId },
+    });
+
+    if (!session || session.userId !== userSession.userId) {
+      return {
+        success: false,
+        message: "Session not found",
+        code: "SESSION_NOT_FOUND",
+      };
+    }
+
+    if (session.status !== "active") {
+      return {
+        success: false,
+        message: "Session is not active",
+        code: "SESSION_NOT_ACTIVE",
+      };
+    }
+
+    if (!(await isSessionDevice(session))) {
+      return {
+        success: false,
+        message: RESUME_REQUIRED_MESSAGE,
+        code: "RESUME_REQUIRED",
+      };
+    }
+
+    const now = new Date();
+    if (isSessionExpired(session, now)) {
+      await finalizeExpiredSession(session, now);
+
+      return {
+        success: false,
+        message: "Session has expired",
+        code: "SESSION_EXPIRED",
+      };
+    }
+
+    const progress = await syncSectionProgress(session, now);
+    if (!progress) {
+      return {
+        success: false,
+        message: "This exam has no sections",
+        code: "NO_SECTIONS",
+      };
+    }
+
+    if (validated.sectionIndex < progress.currentSection) {
+      return {
+        success: true,
+        message: "Section already finished",
+        data: progress,
+      };
+    }
+
+    if (validated.sectionIndex > progress.currentSection) {
+      return {
+        success: false,
+        message: "This section has not started yet",
+        code: "SECTION_NOT_STARTED",
+      };
+    }
+
+    if (progress.currentSection === progress.sections.length - 1) {
+      return {
+        success: false,
+        message: "This is the last section. Submit the exam to finish.",
+        code: "LAST_SECTION",
+      };
+    }
+
+    const sections = progress.sections.map((section, index) =>
+      index === progress.currentSection + 1
+        ? { ...section, startedAt: now.toISOString() }
+        : section
+    );
+
+    // Guard on the stored plan so a concurrent finish cannot skip a section
+    const { count } = await prisma.examSession.updateMany({
+      where: {
+        id: session.id,
+        status: "active",
+        sections: JSON.stringify(progress.sections),
+      },
+      data: { sections: JSON.stringify(sections), updatedAt: now },
+    });
+
+    if (count === 0) {
+      // Another request moved the session on first
+      const current = await prisma.examSession.findUnique({
+        where: { id: session.id },
+        select: { id: true, sections: true },
+      });
+      const currentProgress = current
+        ? await syncSectionProgress(current, now)
+        : null;
+
+      return {
+        success: true,
+        message: "Section already finished",
+        data: currentProgress ?? progress,
+      };
+    }
+
+    return {
+      success: true,
+      message: "Section finished",
+      data: resolveSectionProgress(sections, now),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Finish exam section error:", error);
+    return {
+      success: false,
+      message: "Failed to finish section",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+export async function getSessionReview(
+  sessionId: string
+): Promise<SessionReviewResult> {
+  try {
+    const validated = sessionReviewSchema.parse({ sessionId });
+
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    const rateLimitResult = await checkRateLimit(
+      `exam:review:${validated.sessionId}`,
+      { max: 30, windowSeconds: 60 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    const session = await prisma.examSession.findUnique({
+      where: { id: validated.sessionId },
+      include: {
+        answers: { select: { questionId: true } },
+      },
+    });
+
+    if (!session || session.userId !== userSession.userId) {
+      return {
+        success: false,
+        message: "Session not found",
+        code: "SESSION_NOT_FOUND",
+      };
+    }
+
+    if (session.status === "active" && !(await isSessionDevice(session))) {
+      return {
+        success: false,
+        message: RESUME_REQUIRED_MESSAGE,
+        code: "RESUME_REQUIRED",
+      };
+    }
+
+    return {
+      success: true,
+      message: "Review summary retrieved",
+      data: buildSessionReview(
+        JSON.parse(session.questionOrder),
+        session.answers.map((a) => a.questionId),
+        parseFlaggedQuestions(session.flaggedQuestions)
+      ),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Get session review error:", error);
+    return {
+      success: false,
+      message: "Failed to get review summary",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+export async function completeExam(
+  sessionId: string
+): Promise<ExamCompletionResult> {
+  try {
+    const validated = completeExamSchema.parse({ sessionId });
+
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    const rateLimitResult = await checkRateLimit(
+      "exam:complete",
+      { max: 10, windowSeconds: 3600 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    const session = await prisma.examSession.findUnique({
+      where: { id: validated.sessionId },
+      include: {
+        answers: true,
+      },
+    });
+
+    if (!session || session.userId !== userSession.userId) {
+      return {
+        success: false,
+        message: "Session not found",
+        code: "SESSION_NOT_FOUND",
+      };
+    }
+
+    if (session.status !== "active") {
+      return {
+        success: false,
+        message: "Session already completed",
+        code: "SESSION_COMPLETED",
+      };
+    }
+
+    if (!(await isSessionDevice(session))) {
+      return {
+        success: false,
+        message: RESUME_REQUIRED_MESSAGE,
+        code: "RESUME_REQUIRED",
+      };
+    }
+
+    // A submit after the deadline closes the session as timed out instead
+    const now = new Date();
+    if (isSessionExpired(session, now)) {
+      await finalizeExpiredSession(session, now);
+
+      return {
+        success: false,
+        message: "Session has expired",
+        code: "SESSION_EXPIRED",
+      };
+    }
+
+    const { score, pointsEarned, totalPoints, correctAnswers, pendingAnswers } =
+      await computeSessionScore(session.questionOrder, session.answers);
+
+    const gradingStatus = pendingAnswers > 0 ? "pending" : "graded";
+
+    // Guard on status so a concurrent auto-submit is never overwritten
+    const { count } = await prisma.examSession.updateMany({
+      where: { id: validated.sessionId, status: "active" },
+      data: {
+        status: "completed",
+        completionReason: "submitted",
+        completedAt: now,
+        gradingStatus,
+        score,
+        pointsEarned,
+        totalPoints,
+        updatedAt: now,
+      },
+    });
+
+    if (count === 0) {
+      return {
+        success: false,
+        message: "Session already completed",
+        code: "SESSION_COMPLETED",
+      };
+    }
+
+    const exam = await prisma.exam.findUnique({
+      where: { id: session.examId },
+      select: {
+        passingScore: true,
+        category: true,
+        resultReleaseMode: true,
+        resultsReleaseAt: true,
+        resultsReleasedAt: true,
+      },
+    });
+
+    // Pass/fail waits until every essay answer has been marked
+    const passed =
+      exam?.passingScore && gradingStatus === "graded"
+        ? score >= exam.passingScore
+        : undefined;
+
+    // Scores stay hidden until the exam creator releases results
+    const resultsReleased = exam ? areResultsReleased(exam, now) : true;
+
+    return {
+      success: true,
+      message: "Exam completed successfully",
+      data: {
+        sessionId: validated.sessionId,
+        resultsReleased,
+        ...(resultsReleased
+          ? { score, pointsEarned, totalPoints, correctAnswers, passed }
+          : {}),
+        totalQuestions: session.totalQuestions,
+        completedAt: now,
+        gradingStatus,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
       };
     }
 
@@ -962,12 +1921,7 @@ export async function completeExam(
 
 export async function trackViolation(data: {
   sessionId: string;
-  type:
-    | "tab_switch"
-    | "window_blur"
-    | "copy_attempt"
-    | "paste_attempt"
-    | "fullscreen_exit";
+  type: ViolationType;
   metadata?: Record<string, unknown>;
 }): Promise<ViolationTrackingResult> {
   try {
@@ -1016,12 +1970,43 @@ export async function trackViolation(data: {
       };
     }
 
-    if (session.status !== "active") {
+    if (session.status === "active" && !(await isSessionDevice(session))) {
+      return {
+        success: false,
+        message: RESUME_REQUIRED_MESSAGE,
+        code: "RESUME_REQUIRED",
+      };
+    }
+
+    const exam = await prisma.exam.findUnique({
+      where: { id: session.examId },
+      select: { category: true, antiCheatPolicy: true },
+    });
+    const policy = resolveAntiCheatPolicy(exam ?? { category: "practice" });
+
+    const previousViolations = await prisma.examViolation.findMany({
+      where: { sessionId: session.id },
+      select: { type: true },
+    });
+    const previousScore = calculateViolationScore(
+      policy,
+      previousViolations.map((v) => v.type)
+    );
+
+    if (
+      session.status !== "active" ||
+      !policy.monitoredViolations.includes(validated.type)
+    ) {
       return {
         success: true,
-        message: "Session not active, violation not recorded",
+        message:
+          session.status !== "active"
+            ? "Session not active, violation not recorded"
+            : "Violation type not monitored for this exam",
         data: {
           violationCount: session.violationCount,
+          violationScore: previousScore,
+          warning: false,
           autoSubmitted: false,
           sessionStatus: session.status,
         },
@@ -1030,6 +2015,8 @@ export async function trackViolation(data: {
 
     const now = new Date();
     const newViolationCount = session.violationCount + 1;
+    const violationScore =
+      previousScore + policy.violationWeights[validated.type];
 
     await prisma.$transaction(async (tx) => {
       await tx.examViolation.create({
@@ -1053,26 +2040,36 @@ export async function trackViolation(data: {
     });
 
     let autoSubmitted = false;
+    let sessionStatus = "active";
 
-    if (newViolationCount >= VIOLATION_LIMIT) {
+    if (
+      policy.autoSubmitThreshold !== null &&
+      violationScore >= policy.autoSubmitThreshold
+    ) {
       const answers = await prisma.examAnswer.findMany({
         where: { sessionId: validated.sessionId },
       });
 
-      const correctAnswers = answers.filter((a) => a.isCorrect === true).length;
-      const score = (correctAnswers / session.totalQuestions) * 100;
+      const { score, pointsEarned, totalPoints, pendingAnswers } =
+        await computeSessionScore(session.questionOrder, answers);
 
-      await prisma.examSession.update({
-        where: { id: validated.sessionId },
+      // Guard on status so a concurrent submit or expiry is never overwritten
+      const { count } = await prisma.examSession.updateMany({
+        where: { id: validated.sessionId, status: "active" },
         data: {
           status: "completed",
+          completionReason: "violation_limit",
           completedAt: now,
+          gradingStatus: pendingAnswers > 0 ? "pending" : "graded",
           score,
+          pointsEarned,
+          totalPoints,
           updatedAt: now,
         },
       });
 
-      autoSubmitted = true;
+      autoSubmitted = count > 0;
+      sessionStatus = "completed";
     }
 
     return {
@@ -1082,8 +2079,12 @@ export async function trackViolation(data: {
         : "Violation recorded",
       data: {
         violationCount: newViolationCount,
+        violationScore,
+        warning:
+          policy.warningThreshold !== null &&
+          violationScore >= policy.warningThreshold,
         autoSubmitted,
-        sessionStatus: autoSubmitted ? "completed" : "active",
+        sessionStatus,
       },
     };
   } catch (error) {
@@ -1104,79 +2105,245 @@ export async function trackViolation(data: {
   }
 }
 
-export async function syncServerTime(
-  sessionId: string
-): Promise<ServerTimeSync> {
+export async function syncServerTime(
+  sessionId: string
+): Promise<ServerTimeSync> {
+  try {
+    const validated = syncTimeSchema.parse({ sessionId });
+
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+        serverTime: new Date(),
+        isExpired: false,
+      };
+    }
+
+    const rateLimitResult = await checkRateLimit(
+      `exam:sync:${sessionId}`,
+      { max: 10, windowSeconds: 60 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+        serverTime: new Date(),
+        isExpired: false,
+      };
+    }
+
+    const session = await prisma.examSession.findUnique({
+      where: { id: validated.sessionId },
+    });
+
+    if (!session || session.userId !== userSession.userId) {
+      return {
+        success: false,
+        message: "Session not found",
+        code: "SESSION_NOT_FOUND",
+        serverTime: new Date(),
+        isExpired: false,
+      };
+    }
+
+    const now = new Date();
+    const remainingTime = calculateRemainingTime(session, now);
+    const expired = isSessionExpired(session, now);
+
+    return {
+      success: true,
+      serverTime: now,
+      remainingTime: remainingTime || undefined,
+      isExpired: expired,
+    };
+  } catch {
+    return {
+      success: false,
+      message: "Failed to sync server time",
+      code: "INTERNAL_ERROR",
+      serverTime: new Date(),
+      isExpired: false,
+    };
+  }
+}
+
+export async function abandonExamSession(
+  sessionId: string
+): Promise<AbandonSessionResult> {
+  try {
+    const validated = abandonSessionSchema.parse({ sessionId });
+
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    const rateLimitResult = await checkRateLimit(
+      "exam:abandon",
+      { max: 10, windowSeconds: 3600 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    const session = await prisma.examSession.findUnique({
+      where: { id: validated.sessionId },
+    });
+
+    if (!session || session.userId !== userSession.userId) {
+      return {
+        success: false,
+        message: "Session not found",
+        code: "SESSION_NOT_FOUND",
+      };
+    }
+
+    if (session.status !== "active") {
+      return {
+        success: false,
+        message: "Session is not active",
+        code: "SESSION_NOT_ACTIVE",
+      };
+    }
+
+    const now = new Date();
+
+    await prisma.examSession.update({
+      where: { id: validated.sessionId },
+      data: {
+        status: "abandoned",
+        updatedAt: now,
+      },
+    });
+
+    return {
+      success: true,
+      message: "Exam session abandoned",
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Abandon exam session error:", error);
+    return {
+      success: false,
+      message: "Failed to abandon exam session",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+/**
+ * The candidate's unfinished session, if any, so another device can offer
+ * to resume it. Sessions that ran out of time are finalized instead.
+ */
+export async function getActiveExamSession(): Promise<ActiveExamSessionResult> {
   try {
-    const validated = syncTimeSchema.parse({ sessionId });
-
     const userSession = await verifyUserSession();
     if (!userSession) {
       return {
         success: false,
         message: "Authentication required",
         code: "UNAUTHORIZED",
-        serverTime: new Date(),
-        isExpired: false,
       };
     }
 
-    const rateLimitResult = await checkRateLimit(
-      `exam:sync:${sessionId}`,
-      { max: 10, windowSeconds: 60 },
-      userSession.userId
-    );
+    const activeSessions = await prisma.examSession.findMany({
+      where: {
+        userId: userSession.userId,
+        status: "active",
+      },
+      orderBy: { startedAt: "desc" },
+    });
 
-    if (!rateLimitResult.allowed) {
-      return {
-        success: false,
-        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
-        code: "RATE_LIMITED",
-        serverTime: new Date(),
-        isExpired: false,
-      };
+    const now = new Date();
+    let session = null;
+    for (const sess of activeSessions) {
+      if (isSessionExpired(sess, now)) {
+        await finalizeExpiredSession(sess, now);
+      } else if (!session) {
+        session = sess;
+      }
     }
 
-    const session = await prisma.examSession.findUnique({
-      where: { id: validated.sessionId },
-    });
-
-    if (!session || session.userId !== userSession.userId) {
+    if (!session) {
       return {
-        success: false,
-        message: "Session not found",
-        code: "SESSION_NOT_FOUND",
-        serverTime: new Date(),
-        isExpired: false,
+        success: true,
+        message: "No active exam session",
+        data: null,
       };
     }
 
-    const now = new Date();
-    const remainingTime = calculateRemainingTime(session, now);
-    const expired = isSessionExpired(session, now);
+    const exam = await prisma.exam.findUnique({
+      where: { id: session.examId },
+      select: { title: true },
+    });
 
     return {
       success: true,
-      serverTime: now,
-      remainingTime: remainingTime || undefined,
-      isExpired: expired,
+      message: "Active exam session retrieved",
+      data: {
+        sessionId: session.id,
+        examId: session.examId,
+        examTitle: exam?.title ?? "Exam",
+        startedAt: session.startedAt,
+        remainingTime: calculateRemainingTime(session, now) ?? undefined,
+        totalQuestions: session.totalQuestions,
+        answeredQuestions: session.answeredQuestions,
+        requiresPassword: await hasPasswordCredential(userSession.userId),
+      },
     };
-  } catch {
+  } catch (error) {
+    console.error("Get active exam session error:", error);
     return {
       success: false,
-      message: "Failed to sync server time",
+      message: "Failed to get active exam session",
       code: "INTERNAL_ERROR",
-      serverTime: new Date(),
-      isExpired: false,
     };
   }
 }
 
-export async function abandonExamSession(
-  sessionId: string
-): Promise<AbandonSessionResult> {
+/**
+ * Re-enter an active session, e.g. on another device after the first one
+ * died. The candidate re-authenticates first, the session is bound to this
+ * device so the exam actions refuse any other, and every resume is logged
+ * as a session event for proctoring review.
+ */
+export async function resumeExamSession(data: {
+  sessionId: string;
+  password?: string;
+}): Promise<ResumeSessionResult> {
   try {
-    const validated = abandonSessionSchema.parse({ sessionId });
+    const validated = resumeSessionSchema.parse(data);
 
     const userSession = await verifyUserSession();
     if (!userSession) {
@@ -1188,8 +2355,8 @@ export async function abandonExamSession(
     }
 
     const rateLimitResult = await checkRateLimit(
-      "exam:abandon",
-      { max: 10, windowSeconds: 3600 },
+      "exam:resume",
+      { max: 5, windowSeconds: 900 },
       userSession.userId
     );
 
@@ -1201,14 +2368,6 @@ export async function abandonExamSession(
       };
     }
 
-    if (!userSession) {
-      return {
-        success: false,
-        message: "Authentication required",
-        code: "UNAUTHORIZED",
-      };
-    }
-
     const session = await prisma.examSession.findUnique({
       where: { id: validated.sessionId },
     });
@@ -1230,18 +2389,94 @@ export async function abandonExamSession(
     }
 
     const now = new Date();
+    if (isSessionExpired(session, now)) {
+      await finalizeExpiredSession(session, now);
+      return {
+        success: false,
+        message: "Session has expired",
+        code: "SESSION_EXPIRED",
+      };
+    }
 
-    await prisma.examSession.update({
-      where: { id: validated.sessionId },
-      data: {
-        status: "abandoned",
-        updatedAt: now,
+    const verified = await verifyReauthentication(
+      userSession.userId,
+      validated.password
+    );
+
+    if (!verified) {
+      if (await hasPasswordCredential(userSession.userId)) {
+        return {
+          success: false,
+          message: validated.password
+            ? "Incorrect password"
+            : "Enter your password to resume this exam",
+          code: validated.password ? "INVALID_PASSWORD" : "PASSWORD_REQUIRED",
+        };
+      }
+
+      return {
+        success: false,
+        message: "Sign in again to resume this exam",
+        code: "REAUTH_REQUIRED",
+      };
+    }
+
+    const answers = await prisma.examAnswer.findMany({
+      where: { sessionId: session.id },
+      select: {
+        questionId: true,
+        selectedOptionId: true,
+        textAnswer: true,
+        answeredAt: true,
       },
+      orderBy: { answeredAt: "asc" },
     });
 
+    // Move the session to this device; the previous one loses access
+    const deviceTokenHash = await bindSessionDevice(session.id);
+    const headersList = await headers();
+    await prisma.$transaction([
+      prisma.examSession.update({
+        where: { id: session.id },
+        data: { deviceTokenHash },
+      }),
+      prisma.examSessionEvent.create({
+        data: {
+          sessionId: session.id,
+          type: "resumed",
+          ipAddress:
+            headersList.get("x-forwarded-for") ||
+            headersList.get("x-real-ip") ||
+            null,
+          userAgent: headersList.get("user-agent") || null,
+          deviceTokenHash,
+        },
+      }),
+    ]);
+
+    const questionOrder: string[] = JSON.parse(session.questionOrder);
+    const remainingTime = calculateRemainingTime(session, now);
+    const sectionProgress = await syncSectionProgress(session, now);
+
     return {
       success: true,
-      message: "Exam session abandoned",
+      message: "Exam session resumed",
+      data: {
+        sessionId: session.id,
+        examId: session.examId,
+        questionOrder,
+        answers: answers.map((a) => ({
+          questionId: a.questionId,
+          selectedOptionId: a.selectedOptionId ?? undefined,
+          textAnswer: a.textAnswer ?? undefined,
+          answeredAt: a.answeredAt,
+        })),
+        flaggedQuestions: parseFlaggedQuestions(session.flaggedQuestions),
+        serverTime: now,
+        serverEndTime: getSessionDeadline(session) ?? undefined,
+        remainingTime: remainingTime ?? undefined,
+        sectionProgress: sectionProgress ?? undefined,
+      },
     };
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1252,10 +2487,10 @@ export async function abandonExamSession(
       };
     }
 
-    console.error("Abandon exam session error:", error);
+    console.error("Resume exam session error:", error);
     return {
       success: false,
-      message: "Failed to abandon exam session",
+      message: "Failed to resume exam session",
       code: "INTERNAL_ERROR",
     };
   }
@@ -1313,7 +2548,8 @@ export async function getExamResults(
       };
     }
 
-    if (session.status !== "completed") {
+    // Expired sessions are auto-submitted, so they have results too
+    if (session.status !== "completed" && session.status !== "expired") {
       return {
         success: false,
         message: "Exam session not completed",
@@ -1328,6 +2564,9 @@ export async function getExamResults(
         examType: true,
         category: true,
         passingScore: true,
+        resultReleaseMode: true,
+        resultsReleaseAt: true,
+        resultsReleasedAt: true,
       },
     });
 
@@ -1343,11 +2582,60 @@ export async function getExamResults(
     const correctAnswers = session.answers.filter(
       (a) => a.isCorrect === true
     ).length;
-    const score = session.score || 0;
+
+    // Sessions completed before point-weighted scoring have no raw points,
+    // and sessions expired before auto-submission were never scored
+    const points =
+      session.score !== null &&
+      session.pointsEarned !== null &&
+      session.totalPoints !== null
+        ? {
+            score: session.score,
+            pointsEarned: session.pointsEarned,
+            totalPoints: session.totalPoints,
+          }
+        : await computeSessionScore(session.questionOrder, session.answers);
+    const score = points.score;
 
     const timeSpent = session.answers.reduce((sum, a) => sum + a.timeSpent, 0);
 
-    const passed = exam.passingScore ? score >= exam.passingScore : undefined;
+    const isPendingMarking = session.gradingStatus === "pending";
+    const passed =
+      exam.passingScore && !isPendingMarking
+        ? score >= exam.passingScore
+        : undefined;
+
+    // Recruitment, competition and challenge scores follow the exam
+    // creator's release schedule
+    const resultsReleased = areResultsReleased(exam);
+
+    // Disqualified sessions never show a score, rank or certificate
+    const disqualified = session.proctoringStatus === "disqualified";
+    const showScores = resultsReleased && !disqualified;
+
+    // Challenge participants see their rank once scores are released
+    const ranked =
+      showScores && LEADERBOARD_CATEGORIES.includes(category)
+        ? await loadRankedParticipants(session.examId)
+        : null;
+
+    const sectionResults =
+      showScores && session.sections
+        ? await computeSectionResults(
+            session.questionOrder,
+            session.sections,
+            session.answers
+          )
+        : undefined;
+
+    const topicsToRevise = showScores
+      ? selectTopicsToRevise(
+          buildTopicPerformance(
+            session.answers,
+            await loadQuestionTopics(session.answers)
+          )
+        )
+      : undefined;
 
     let questionDetails:
       | Array<{
@@ -1356,6 +2644,8 @@ export async function getExamResults(
           correctAnswer?: string;
           isCorrect: boolean;
           explanation?: string;
+          pointsAwarded?: number;
+          feedback?: string;
         }>
       | undefined = undefined;
 
@@ -1390,7 +2680,10 @@ export async function getExamResults(
                 )?.optionText
               : undefined,
             isCorrect: answer.isCorrect || false,
-            explanation: question.answerExplanation || undefined,
+            explanation:
+              decryptQuestion(question).answerExplanation || undefined,
+            pointsAwarded: answer.pointsAwarded ?? undefined,
+            feedback: answer.feedback || undefined,
           };
         })
         .filter((q): q is NonNullable<typeof q> => q !== null);
@@ -1401,16 +2694,42 @@ export async function getExamResults(
       message: "Results retrieved",
       data: {
         sessionId: validated.sessionId,
+        examId: session.examId,
         examTitle: exam.title,
         examType: exam.examType,
         category,
-        score,
-        correctAnswers,
+        resultsReleased,
+        resultsReleaseAt: resultsReleased ? undefined : exam.resultsReleaseAt,
+        ...(showScores
+          ? {
+              score,
+              pointsEarned: points.pointsEarned,
+              totalPoints: points.totalPoints,
+              correctAnswers,
+              passed,
+            }
+          : {}),
         totalQuestions: session.totalQuestions,
         timeSpent,
-        passed,
-        completedAt: session.completedAt!,
+        gradingStatus: isPendingMarking ? "pending" : "graded",
+        completionReason:
+          (session.completionReason as CompletionReason | null) ??
+          (session.status === "expired" ? "time_expired" : undefined),
+        completedAt:
+          session.completedAt ??
+          getSessionDeadline(session) ??
+          session.updatedAt,
+        disqualified,
+        leaderboardPosition: ranked?.find((p) => p.userId === session.userId)
+          ?.rank,
+        totalParticipants: ranked?.length,
+        certificateAvailable: isCertificateEligible(
+          { ...session, score },
+          exam.passingScore
+        ),
         questions: questionDetails,
+        topicsToRevise,
+        sectionResults,
       },
     };
   } catch (error) {
@@ -1430,3 +2749,221 @@ export async function getExamResults(
     };
   }
 }
+
+export async function getExamLeaderboard(
+  examId: string
+): Promise<LeaderboardResult> {
+  try {
+    const validated = leaderboardSchema.parse({ examId });
+
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    const rateLimitResult = await checkRateLimit(
+      `exam:leaderboard:${validated.examId}`,
+      { max: 30, windowSeconds: 60 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    const exam = await prisma.exam.findUnique({
+      where: { id: validated.examId, deletedAt: null },
+      select: {
+        id: true,
+        title: true,
+        category: true,
+        resultReleaseMode: true,
+        resultsReleaseAt: true,
+        resultsReleasedAt: true,
+      },
+    });
+
+    if (!exam || !LEADERBOARD_CATEGORIES.includes(exam.category || "")) {
+      return {
+        success: false,
+        message: "This exam has no leaderboard",
+        code: "LEADERBOARD_NOT_AVAILABLE",
+      };
+    }
+
+    // Only participants can see who else took part
+    const attempts = await prisma.examSession.count({
+      where: { examId: exam.id, userId: userSession.userId },
+    });
+
+    if (attempts === 0) {
+      return {
+        success: false,
+        message: "Only participants can view this leaderboard",
+        code: "NOT_PARTICIPANT",
+      };
+    }
+
+    const ranked = await loadRankedParticipants(exam.id);
+    const released = areResultsReleased(exam);
+
+    // Scores and ranks stay hidden until the release time
+    const visible = released ? ranked.slice(0, LEADERBOARD_SIZE) : [];
+    const users = await prisma.user.findMany({
+      where: { id: { in: visible.map((p) => p.userId) } },
+      select: { id: true, displayUsername: true },
+    });
+    const names = new Map(users.map((u) => [u.id, u.displayUsername]));
+
+    return {
+      success: true,
+      message: released
+        ? "Leaderboard retrieved"
+        : "Scores have not been released yet",
+      data: {
+        examId: exam.id,
+        examTitle: exam.title,
+        released,
+        releaseAt: exam.resultsReleaseAt,
+        totalParticipants: ranked.length,
+        currentUserRank: released
+          ? ranked.find((p) => p.userId === userSession.userId)?.rank
+          : undefined,
+        entries: visible.map((p) => ({
+          rank: p.rank,
+          participantName: names.get(p.userId) ?? "Unknown",
+          score: p.score,
+          timeTaken: p.timeTaken,
+          completedAt: p.completedAt,
+          isCurrentUser: p.userId === userSession.userId,
+        })),
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Get exam leaderboard error:", error);
+    return {
+      success: false,
+      message: "Failed to get leaderboard",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+export async function getLiveProgress(
+  sessionId: string
+): Promise<LiveProgressResult> {
+  try {
+    const validated = liveProgressSchema.parse({ sessionId });
+
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    const rateLimitResult = await checkRateLimit(
+      `exam:live-progress:${validated.sessionId}`,
+      { max: 30, windowSeconds: 60 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    const session = await prisma.examSession.findUnique({
+      where: { id: validated.sessionId },
+      select: { userId: true, examId: true, examType: true },
+    });
+
+    if (!session || session.userId !== userSession.userId) {
+      return {
+        success: false,
+        message: "Session not found",
+        code: "SESSION_NOT_FOUND",
+      };
+    }
+
+    if (!LEADERBOARD_CATEGORIES.includes(session.examType)) {
+      return {
+        success: false,
+        message: "Live progress is only available for challenges",
+        code: "LIVE_PROGRESS_NOT_AVAILABLE",
+      };
+    }
+
+    // Progress only, never scores, so this is safe before release
+    const [activeSessions, completedParticipants] = await Promise.all([
+      prisma.examSession.findMany({
+        where: { examId: session.examId, status: "active" },
+        select: {
+          userId: true,
+          answeredQuestions: true,
+          totalQuestions: true,
+          user: { select: { displayUsername: true } },
+        },
+        orderBy: [{ answeredQuestions: "desc" }, { startedAt: "asc" }],
+        take: LEADERBOARD_SIZE,
+      }),
+      prisma.examSession.findMany({
+        where: { examId: session.examId, status: "completed" },
+        distinct: ["userId"],
+        select: { userId: true },
+      }),
+    ]);
+
+    return {
+      success: true,
+      message: "Live progress retrieved",
+      data: {
+        examId: session.examId,
+        activeParticipants: activeSessions.map((s) => ({
+          participantName: s.user.displayUsername,
+          answeredQuestions: s.answeredQuestions,
+          totalQuestions: s.totalQuestions,
+          isCurrentUser: s.userId === userSession.userId,
+        })),
+        completedParticipants: completedParticipants.length,
+        serverTime: new Date(),
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Get live progress error:", error);
+    return {
+      success: false,
+      message: "Failed to get live progress",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
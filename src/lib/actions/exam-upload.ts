@@ -26,6 +26,8 @@ import {
   formatValidationErrors,
 } from "@/lib/validations/exam";
 import { decryptQuestion } from "@/lib/utils/question-decrypt";
+import { parseQuestionPools, resolveAntiCheatPolicy } from "@/lib/utils/exam";
+import { drawPoolQuestions } from "@/lib/utils/exam-blueprint";
 import type {
   ExamUploadResponse,
   ExamDeleteResponse,
@@ -39,112 +41,46 @@ import type {
   AdminExam,
   ExamStats,
 } from "@/types/admin";
+import type {
+  AntiCheatPolicy,
+  ExamSectionConfig,
+  QuestionPool,
+} from "@/types/exam-session";
 import { ZodError } from "zod";
 import { checkRateLimit } from "@/lib/middleware/rate-limit";
-
-// ============================================
-// TYPES
-// ============================================
-
-interface AdminContext {
-  userId: string;
-  userEmail: string;
-  userName: string;
-  userRole: string;
-}
+import { logAuditEntry, verifyAdminAccess } from "@/lib/utils/admin-access";
 
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
 /**
- * Verify admin access
- *
- * @returns Admin context or null if unauthorized
- */
-async function verifyAdminAccess(): Promise<AdminContext | null> {
-  try {
-    const session = await auth.api.getSession({
-      headers: await headers(),
-    });
-
-    if (!session || !session.user) {
-      return null;
-    }
-
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        banned: true,
-      },
-    });
-
-    if (!user || user.banned) {
-      return null;
-    }
-
-    // CRITICAL: Only admin role allowed
-    if (user.role !== "admin") {
-      return null;
-    }
-
-    return {
-      userId: user.id,
-      userEmail: user.email,
-      userName: user.name,
-      userRole: user.role,
-    };
-  } catch (error) {
-    console.error("Admin verification error:", error);
-    return null;
-  }
-}
-
-/**
- * Log audit entry
+ * Check that the exam's questions can fill every question pool
  *
- * @param context - Admin context
- * @param action - Action performed
- * @param details - Additional details
+ * @param pools - Question pools, or null when the exam has none
+ * @param questionIds - Questions attached to the exam
+ * @returns Validation error, or null when every pool can be filled
  */
-async function logAuditEntry(
-  context: AdminContext,
-  action: string,
-  details: Record<string, unknown>
-): Promise<void> {
-  try {
-    const headersList = await headers();
-    const ipAddress =
-      headersList.get("x-forwarded-for") ||
-      headersList.get("x-real-ip") ||
-      null;
-    const userAgent = headersList.get("user-agent") || null;
-
-    console.log(
-      `[AUDIT] ${action}:`,
-      JSON.stringify(
-        {
-          timestamp: new Date(),
-          userId: context.userId,
-          userEmail: context.userEmail,
-          userName: context.userName,
-          userRole: context.userRole,
-          action,
-          ...details,
-          ipAddress,
-          userAgent,
-        },
-        null,
-        2
-      )
-    );
-  } catch (error) {
-    console.error("Audit logging failed:", error);
-  }
+async function checkQuestionPools(
+  pools: QuestionPool[] | null,
+  questionIds: string[]
+): Promise<string | null> {
+  if (!pools) return null;
+
+  const questions = await prisma.question.findMany({
+    where: { id: { in: questionIds }, deletedAt: null },
+    select: {
+      id: true,
+      subject: true,
+      tags: true,
+      difficultyLevel: true,
+      questionPoint: true,
+    },
+  });
+
+  return drawPoolQuestions(pools, questions)
+    ? null
+    : "The selected questions cannot fill every pool. Add matching questions or lower the pool counts.";
 }
 
 // ============================================
@@ -192,8 +128,17 @@ export async function createExam(
     const passingScoreValue = formData.get("passing_score") as string;
     const maxAttemptsValue = formData.get("max_attempts") as string;
     const categoryValue = formData.get("category") as string;
+    const allowAnswerChangesValue = formData.get("allow_answer_changes") as
+      | string
+      | null;
     const startDateValue = formData.get("start_date") as string;
     const endDateValue = formData.get("end_date") as string;
+    const releaseAtValue = formData.get("results_release_at") as string;
+    const antiCheatPolicyValue = formData.get("anti_cheat_policy") as
+      | string
+      | null;
+    const questionPoolsValue = formData.get("question_pools") as string | null;
+    const sectionsValue = formData.get("sections") as string | null;
     const descriptionValue = formData.get("description") as string;
 
     const data = {
@@ -216,6 +161,9 @@ export async function createExam(
           : null,
       shuffle_questions: formData.get("shuffle_questions") === "true",
       randomize_options: formData.get("randomize_options") === "true",
+      allow_answer_changes: allowAnswerChangesValue
+        ? allowAnswerChangesValue === "true"
+        : null,
       is_public: formData.get("is_public") === "true",
       is_free: formData.get("is_free") === "true",
       status: formData.get("status") as string,
@@ -224,6 +172,17 @@ export async function createExam(
       start_date:
         startDateValue && startDateValue.trim() ? startDateValue : undefined,
       end_date: endDateValue && endDateValue.trim() ? endDateValue : undefined,
+      result_release_mode:
+        (formData.get("result_release_mode") as string) || undefined,
+      results_release_at:
+        releaseAtValue && releaseAtValue.trim() ? releaseAtValue : undefined,
+      anti_cheat_policy: antiCheatPolicyValue
+        ? JSON.parse(antiCheatPolicyValue)
+        : null,
+      question_pools: questionPoolsValue
+        ? JSON.parse(questionPoolsValue)
+        : null,
+      sections: sectionsValue ? JSON.parse(sectionsValue) : null,
       question_ids: JSON.parse(
         formData.get("question_ids") as string
       ) as string[],
@@ -265,6 +224,19 @@ export async function createExam(
       };
     }
 
+    const poolError = await checkQuestionPools(
+      validatedData.question_pools,
+      validatedData.question_ids
+    );
+    if (poolError) {
+      return {
+        success: false,
+        message: poolError,
+        code: "VALIDATION_ERROR",
+        errors: { question_pools: poolError },
+      };
+    }
+
     // STEP 6: Create exam in transaction
     const createdExam = await prisma.$transaction(async (tx) => {
       const newExam = await tx.exam.create({
@@ -279,6 +251,7 @@ export async function createExam(
           maxAttempts: validatedData.max_attempts || null,
           shuffleQuestions: validatedData.shuffle_questions,
           randomizeOptions: validatedData.randomize_options,
+          allowAnswerChanges: validatedData.allow_answer_changes,
           isPublic: validatedData.is_public,
           isFree: validatedData.is_free,
           status: validatedData.status,
@@ -289,17 +262,55 @@ export async function createExam(
           endDate: validatedData.end_date
             ? new Date(validatedData.end_date)
             : null,
+          resultReleaseMode: validatedData.result_release_mode,
+          resultsReleaseAt:
+            validatedData.result_release_mode === "scheduled" &&
+            validatedData.results_release_at
+              ? new Date(validatedData.results_release_at)
+              : null,
+          antiCheatPolicy: validatedData.anti_cheat_policy
+            ? JSON.stringify(validatedData.anti_cheat_policy)
+            : null,
+          questionPools: validatedData.question_pools
+            ? JSON.stringify(validatedData.question_pools)
+            : null,
           createdBy: adminContext.userId,
         },
       });
 
-      await tx.examQuestion.createMany({
-        data: validatedData.question_ids.map((qid, index) => ({
-          examId: newExam.id,
-          questionId: qid,
-          orderIndex: index,
-        })),
-      });
+      if (validatedData.sections) {
+        // Questions are stored section by section, in the order served
+        let orderIndex = 0;
+        for (const [index, section] of validatedData.sections.entries()) {
+          const newSection = await tx.examSection.create({
+            data: {
+              examId: newExam.id,
+              title: section.title,
+              instructions: section.instructions ?? null,
+              orderIndex: index,
+              timeLimit: section.timeLimit ?? null,
+              allowReturn: section.allowReturn,
+            },
+          });
+
+          await tx.examQuestion.createMany({
+            data: section.questionIds.map((qid) => ({
+              examId: newExam.id,
+              questionId: qid,
+              sectionId: newSection.id,
+              orderIndex: orderIndex++,
+            })),
+          });
+        }
+      } else {
+        await tx.examQuestion.createMany({
+          data: validatedData.question_ids.map((qid, index) => ({
+            examId: newExam.id,
+            questionId: qid,
+            orderIndex: index,
+          })),
+        });
+      }
 
       return await tx.exam.findUnique({
         where: { id: newExam.id },
@@ -392,8 +403,17 @@ export async function updateExam(
     const passingScoreValue = formData.get("passing_score") as string;
     const maxAttemptsValue = formData.get("max_attempts") as string;
     const categoryValue = formData.get("category") as string;
+    const allowAnswerChangesValue = formData.get("allow_answer_changes") as
+      | string
+      | null;
     const startDateValue = formData.get("start_date") as string;
     const endDateValue = formData.get("end_date") as string;
+    const releaseAtValue = formData.get("results_release_at") as string;
+    const antiCheatPolicyValue = formData.get("anti_cheat_policy") as
+      | string
+      | null;
+    const questionPoolsValue = formData.get("question_pools") as string | null;
+    const sectionsValue = formData.get("sections") as string | null;
     const descriptionValue = formData.get("description") as string;
 
     const data = {
@@ -416,6 +436,9 @@ export async function updateExam(
           : null,
       shuffle_questions: formData.get("shuffle_questions") === "true",
       randomize_options: formData.get("randomize_options") === "true",
+      allow_answer_changes: allowAnswerChangesValue
+        ? allowAnswerChangesValue === "true"
+        : null,
       is_public: formData.get("is_public") === "true",
       is_free: formData.get("is_free") === "true",
       status: formData.get("status") as string,
@@ -424,6 +447,17 @@ export async function updateExam(
       start_date:
         startDateValue && startDateValue.trim() ? startDateValue : undefined,
       end_date: endDateValue && endDateValue.trim() ? endDateValue : undefined,
+      result_release_mode:
+        (formData.get("result_release_mode") as string) || undefined,
+      results_release_at:
+        releaseAtValue && releaseAtValue.trim() ? releaseAtValue : undefined,
+      anti_cheat_policy: antiCheatPolicyValue
+        ? JSON.parse(antiCheatPolicyValue)
+        : null,
+      question_pools: questionPoolsValue
+        ? JSON.parse(questionPoolsValue)
+        : null,
+      sections: sectionsValue ? JSON.parse(sectionsValue) : null,
       question_ids: JSON.parse(
         formData.get("question_ids") as string
       ) as string[],
@@ -444,6 +478,19 @@ export async function updateExam(
       throw error;
     }
 
+    const poolError = await checkQuestionPools(
+      validatedData.question_pools,
+      validatedData.question_ids
+    );
+    if (poolError) {
+      return {
+        success: false,
+        message: poolError,
+        code: "VALIDATION_ERROR",
+        errors: { question_pools: poolError },
+      };
+    }
+
     // STEP 4: Update in transaction
     const updatedExam = await prisma.$transaction(async (tx) => {
       const _exam = await tx.exam.update({
@@ -459,6 +506,7 @@ export async function updateExam(
           maxAttempts: validatedData.max_attempts || null,
           shuffleQuestions: validatedData.shuffle_questions,
           randomizeOptions: validatedData.randomize_options,
+          allowAnswerChanges: validatedData.allow_answer_changes,
           isPublic: validatedData.is_public,
           isFree: validatedData.is_free,
           status: validatedData.status,
@@ -469,6 +517,18 @@ export async function updateExam(
           endDate: validatedData.end_date
             ? new Date(validatedData.end_date)
             : null,
+          resultReleaseMode: validatedData.result_release_mode,
+          resultsReleaseAt:
+            validatedData.result_release_mode === "scheduled" &&
+            validatedData.results_release_at
+              ? new Date(validatedData.results_release_at)
+              : null,
+          antiCheatPolicy: validatedData.anti_cheat_policy
+            ? JSON.stringify(validatedData.anti_cheat_policy)
+            : null,
+          questionPools: validatedData.question_pools
+            ? JSON.stringify(validatedData.question_pools)
+            : null,
         },
       });
 
@@ -476,14 +536,44 @@ export async function updateExam(
         where: { examId },
       });
 
-      await tx.examQuestion.createMany({
-        data: validatedData.question_ids.map((qid, index) => ({
-          examId,
-          questionId: qid,
-          orderIndex: index,
-        })),
+      await tx.examSection.deleteMany({
+        where: { examId },
       });
 
+      if (validatedData.sections) {
+        // Questions are stored section by section, in the order served
+        let orderIndex = 0;
+        for (const [index, section] of validatedData.sections.entries()) {
+          const newSection = await tx.examSection.create({
+            data: {
+              examId,
+              title: section.title,
+              instructions: section.instructions ?? null,
+              orderIndex: index,
+              timeLimit: section.timeLimit ?? null,
+              allowReturn: section.allowReturn,
+            },
+          });
+
+          await tx.examQuestion.createMany({
+            data: section.questionIds.map((qid) => ({
+              examId,
+              questionId: qid,
+              sectionId: newSection.id,
+              orderIndex: orderIndex++,
+            })),
+          });
+        }
+      } else {
+        await tx.examQuestion.createMany({
+          data: validatedData.question_ids.map((qid, index) => ({
+            examId,
+            questionId: qid,
+            orderIndex: index,
+          })),
+        });
+      }
+
       return await tx.exam.findUnique({
         where: { id: examId },
         include: {
@@ -749,6 +839,7 @@ export async function listExams(
     // STEP 3: Build WHERE clause
     interface WhereClause {
       deletedAt: null;
+      isAdaptive: false;
       status?: string;
       examType?: string;
       subject?: string;
@@ -761,8 +852,10 @@ export async function listExams(
       }>;
     }
 
+    // Smart practice system exams are not managed by admins
     const where: WhereClause = {
       deletedAt: null,
+      isAdaptive: false,
     };
 
     if (query?.status) {
@@ -916,23 +1009,39 @@ export async function getExamStats(): Promise<AdminActionResult<ExamStats>> {
       examsCreatedThisWeek,
       examsCreatedThisMonth,
     ] = await Promise.all([
-      prisma.exam.count({ where: { deletedAt: null } }),
+      prisma.exam.count({ where: { deletedAt: null, isAdaptive: false } }),
+      prisma.exam.count({
+        where: { deletedAt: null, isAdaptive: false, status: "published" },
+      }),
+      prisma.exam.count({
+        where: { deletedAt: null, isAdaptive: false, status: "draft" },
+      }),
       prisma.exam.count({
-        where: { deletedAt: null, status: "published" },
+        where: { deletedAt: null, isAdaptive: false, status: "archived" },
       }),
-      prisma.exam.count({ where: { deletedAt: null, status: "draft" } }),
-      prisma.exam.count({ where: { deletedAt: null, status: "archived" } }),
       prisma.examQuestion.count({
-        where: { exam: { deletedAt: null } },
+        where: { exam: { deletedAt: null, isAdaptive: false } },
       }),
       prisma.exam.count({
-        where: { deletedAt: null, createdAt: { gte: today } },
+        where: {
+          deletedAt: null,
+          isAdaptive: false,
+          createdAt: { gte: today },
+        },
       }),
       prisma.exam.count({
-        where: { deletedAt: null, createdAt: { gte: weekAgo } },
+        where: {
+          deletedAt: null,
+          isAdaptive: false,
+          createdAt: { gte: weekAgo },
+        },
       }),
       prisma.exam.count({
-        where: { deletedAt: null, createdAt: { gte: monthAgo } },
+        where: {
+          deletedAt: null,
+          isAdaptive: false,
+          createdAt: { gte: monthAgo },
+        },
       }),
     ]);
 
@@ -994,12 +1103,19 @@ export async function getExamById(examId: string): Promise<
       maxAttempts: number | null;
       shuffleQuestions: boolean;
       randomizeOptions: boolean;
+      allowAnswerChanges: boolean | null;
       isPublic: boolean;
       isFree: boolean;
       status: string;
       category: string | null;
       startDate: Date | null;
       endDate: Date | null;
+      resultReleaseMode: string;
+      resultsReleaseAt: Date | null;
+      resultsReleasedAt: Date | null;
+      antiCheatPolicy: AntiCheatPolicy | null; // null = category default
+      questionPools: QuestionPool[] | null; // null = every exam question
+      sections: ExamSectionConfig[] | null; // null = no sections
       createdBy: string;
       createdAt: Date;
       updatedAt: Date;
@@ -1037,6 +1153,9 @@ export async function getExamById(examId: string): Promise<
           },
           orderBy: { orderIndex: "asc" },
         },
+        sections: {
+          orderBy: { orderIndex: "asc" },
+        },
       },
     });
 
@@ -1102,12 +1221,34 @@ export async function getExamById(examId: string): Promise<
       maxAttempts: exam.maxAttempts,
       shuffleQuestions: exam.shuffleQuestions,
       randomizeOptions: exam.randomizeOptions,
+      allowAnswerChanges: exam.allowAnswerChanges,
       isPublic: exam.isPublic,
       isFree: exam.isFree,
       status: exam.status,
       category: exam.category,
       startDate: exam.startDate,
       endDate: exam.endDate,
+      resultReleaseMode: exam.resultReleaseMode,
+      resultsReleaseAt: exam.resultsReleaseAt,
+      resultsReleasedAt: exam.resultsReleasedAt,
+      antiCheatPolicy: exam.antiCheatPolicy
+        ? resolveAntiCheatPolicy(exam)
+        : null,
+      questionPools: exam.questionPools
+        ? parseQuestionPools(exam.questionPools)
+        : null,
+      sections:
+        exam.sections.length > 0
+          ? exam.sections.map((section) => ({
+              title: section.title,
+              instructions: section.instructions ?? undefined,
+              timeLimit: section.timeLimit ?? undefined,
+              allowReturn: section.allowReturn,
+              questionIds: exam.questions
+                .filter((eq) => eq.sectionId === section.id)
+                .map((eq) => eq.questionId),
+            }))
+          : null,
       createdBy: exam.createdBy,
       createdAt: exam.createdAt,
       updatedAt: exam.updatedAt,
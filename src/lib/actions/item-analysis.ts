@@ -0,0 +1,250 @@
+/**
+ * Item Analysis Server Actions
+ *
+ * Admin report of question statistics computed from graded exam answers:
+ * difficulty index, discrimination, average time and distractor analysis.
+ * Questions whose stated difficulty disagrees with the data, that have a
+ * distractor nobody picks, or that look miskeyed are flagged for review.
+ *
+ * Only answers from completed, fully graded sessions count, since the
+ * session score is the total that discrimination is measured against.
+ *
+ * Security Features:
+ * - Session validation via Better Auth
+ * - Admin-only access control
+ * - Rate limiting (30 reports / minute)
+ *
+ * @module lib/actions/item-analysis
+ */
+
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/middleware/rate-limit";
+import { verifyAdminAccess } from "@/lib/utils/admin-access";
+import { decryptQuestion } from "@/lib/utils/question-decrypt";
+import {
+  analyzeItem,
+  MIN_FLAG_RESPONSES,
+  type ItemResponse,
+  type ItemStatistics,
+} from "@/lib/utils/item-analysis";
+import {
+  itemAnalysisSchema,
+  type ItemAnalysisInput,
+} from "@/lib/validations/item-analysis";
+import type {
+  AdminActionResult,
+  ItemAnalysis,
+  ItemAnalysisResponse,
+} from "@/types/admin";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const CHOICE_QUESTION_TYPES = ["multiple_choice", "true_false"];
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Flagged questions first, most flags first, then hardest first
+ */
+function compareItems(a: ItemStatistics, b: ItemStatistics): number {
+  if (a.flags.length !== b.flags.length) {
+    return b.flags.length - a.flags.length;
+  }
+  return (a.pValue ?? Infinity) - (b.pValue ?? Infinity);
+}
+
+// ============================================
+// ITEM ANALYSIS REPORT
+// ============================================
+
+/**
+ * Item analysis for the questions in a bank slice or exam (admin only)
+ *
+ * @param input - Exam type, subject or exam to analyse, with pagination
+ * @returns Per-question statistics, flagged questions first
+ */
+export async function getItemAnalysis(
+  input: ItemAnalysisInput
+): Promise<AdminActionResult<ItemAnalysisResponse>> {
+  try {
+    // STEP 1: Verify admin access
+    const adminContext = await verifyAdminAccess();
+    if (!adminContext) {
+      return {
+        success: false,
+        message: "Admin access required",
+        code: "FORBIDDEN",
+      };
+    }
+
+    // STEP 2: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "admin:item-analysis",
+      { max: 30, windowSeconds: 60 },
+      adminContext.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMIT_EXCEEDED",
+      };
+    }
+
+    // STEP 3: Validate input
+    const validated = itemAnalysisSchema.parse(input);
+
+    // STEP 4: Load questions in scope
+    const questions = await prisma.question.findMany({
+      where: {
+        deletedAt: null,
+        ...(validated.examType ? { examType: validated.examType } : {}),
+        ...(validated.subject ? { subject: validated.subject } : {}),
+        ...(validated.examId
+          ? { exams: { some: { examId: validated.examId } } }
+          : {}),
+      },
+      select: {
+        id: true,
+        questionType: true,
+        difficultyLevel: true,
+        options: { select: { id: true, isCorrect: true, orderIndex: true } },
+      },
+    });
+
+    // STEP 5: Load graded answers with their session scores
+    const answers = await prisma.examAnswer.findMany({
+      where: {
+        questionId: { in: questions.map((q) => q.id) },
+        isCorrect: { not: null },
+        session: {
+          status: "completed",
+          gradingStatus: "graded",
+          score: { not: null },
+          ...(validated.examId ? { examId: validated.examId } : {}),
+        },
+      },
+      select: {
+        questionId: true,
+        isCorrect: true,
+        selectedOptionId: true,
+        timeSpent: true,
+        session: { select: { score: true } },
+      },
+    });
+
+    const responsesByQuestion = new Map<string, ItemResponse[]>();
+    for (const answer of answers) {
+      const responses = responsesByQuestion.get(answer.questionId) ?? [];
+      responses.push({
+        questionId: answer.questionId,
+        isCorrect: answer.isCorrect === true,
+        selectedOptionId: answer.selectedOptionId,
+        timeSpent: answer.timeSpent,
+        totalScore: answer.session.score ?? 0,
+      });
+      responsesByQuestion.set(answer.questionId, responses);
+    }
+
+    // STEP 6: Analyse every question, then filter, sort and paginate
+    const statistics = questions.map((question) =>
+      analyzeItem(
+        {
+          id: question.id,
+          difficultyLevel: question.difficultyLevel,
+          hasChoices: CHOICE_QUESTION_TYPES.includes(question.questionType),
+          options: [...question.options].sort(
+            (a, b) => a.orderIndex - b.orderIndex
+          ),
+        },
+        responsesByQuestion.get(question.id) ?? []
+      )
+    );
+
+    const flaggedCount = statistics.filter((s) => s.flags.length > 0).length;
+    const filtered = (
+      validated.flaggedOnly
+        ? statistics.filter((s) => s.flags.length > 0)
+        : statistics
+    ).sort(compareItems);
+    const page = filtered.slice(
+      validated.offset,
+      validated.offset + validated.limit
+    );
+
+    // STEP 7: Decrypt the page's questions for display
+    const pageQuestions = await prisma.question.findMany({
+      where: { id: { in: page.map((s) => s.questionId) } },
+      include: { options: { orderBy: { orderIndex: "asc" } } },
+    });
+    const questionMap = new Map(
+      pageQuestions.map((q) => [q.id, decryptQuestion(q)])
+    );
+
+    const items: ItemAnalysis[] = page.flatMap((stats) => {
+      const question = questionMap.get(stats.questionId);
+      if (!question) return [];
+
+      return [
+        {
+          questionId: question.id,
+          questionText: question.questionText,
+          questionType: question.questionType,
+          examType: question.examType,
+          subject: question.subject,
+          year: question.year,
+          statedDifficulty: question.difficultyLevel,
+          empiricalDifficulty: stats.empiricalDifficulty,
+          responses: stats.responses,
+          pValue: stats.pValue,
+          discrimination: stats.discrimination,
+          averageTime: stats.averageTime,
+          options: stats.options.map((option, index) => ({
+            ...option,
+            label: String.fromCharCode(65 + index),
+            optionText:
+              question.options.find((o) => o.id === option.optionId)
+                ?.optionText ?? "",
+          })),
+          flags: stats.flags,
+        },
+      ];
+    });
+
+    return {
+      success: true,
+      message: "Item analysis retrieved successfully",
+      data: {
+        items,
+        total: filtered.length,
+        flaggedCount,
+        minResponses: MIN_FLAG_RESPONSES,
+        limit: validated.limit,
+        offset: validated.offset,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: error.issues[0]?.message || "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Get item analysis error:", error);
+    return {
+      success: false,
+      message: "Failed to retrieve item analysis",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
@@ -14,6 +14,7 @@ import {
   validateImageFile,
 } from "@/lib/utils/file-upload";
 import type {
+  QuestionContentImageResponse,
   QuestionDecrypted,
   QuestionListQuery,
   QuestionListResponse,
@@ -23,6 +24,10 @@ import { ZodError } from "zod";
 import { hasPermission } from "@/lib/rbac/utils";
 import { Prisma } from "@/generated/prisma";
 import { decryptQuestion } from "../utils/question-decrypt";
+import {
+  parseFillInBlankRules,
+  type FillInBlankRules,
+} from "@/lib/utils/exam-scoring";
 
 // ============================================
 // CONSTANTS
@@ -477,6 +482,11 @@ async function saveQuestionToDatabase(
       ? encrypt(validatedData.answer_explanation)
       : null;
 
+    const encryptedRubric =
+      validatedData.question_type === "essay" && validatedData.marking_rubric
+        ? encrypt(validatedData.marking_rubric)
+        : null;
+
     const encryptedOptions = validatedData.options.map((opt) => {
       const encryptedText = encrypt(opt.option_text);
       return {
@@ -504,6 +514,10 @@ async function saveQuestionToDatabase(
         tags: validatedData.tags,
         timeLimit: validatedData.time_limit || null,
         language: validatedData.language,
+        answerRules:
+          validatedData.question_type === "fill_in_blank"
+            ? validatedData.answer_rules
+            : undefined,
         createdBy: userId,
         questionText: JSON.stringify({
           ciphertext: encryptedQuestionText.ciphertext,
@@ -519,6 +533,14 @@ async function saveQuestionToDatabase(
               salt: encryptedExplanation.salt,
             })
           : null,
+        markingRubric: encryptedRubric
+          ? JSON.stringify({
+              ciphertext: encryptedRubric.ciphertext,
+              iv: encryptedRubric.iv,
+              tag: encryptedRubric.tag,
+              salt: encryptedRubric.salt,
+            })
+          : null,
         options: {
           create: encryptedOptions,
         },
@@ -750,6 +772,93 @@ export async function uploadQuestion(
   }
 }
 
+/**
+ * Upload an image for use inside question text or an explanation
+ *
+ * Saved alongside the question images for the exam type, year and
+ * subject; the returned URL goes into the rich text as `![alt](url)`.
+ */
+export async function uploadQuestionContentImage(
+  formData: FormData
+): Promise<QuestionContentImageResponse> {
+  try {
+    let userContext: UserContext;
+    try {
+      userContext = await checkAuthorizationAndSession();
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("{")) {
+        const { code, message } = JSON.parse(error.message);
+        return {
+          success: false,
+          message,
+          code,
+        };
+      }
+      return {
+        success: false,
+        message: "Authentication failed",
+        code: "AUTH_ERROR",
+      };
+    }
+
+    const rateLimitResult = await checkRateLimit(userContext.userId);
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMIT_EXCEEDED",
+      };
+    }
+
+    const image = formData.get("image");
+    const examType = formData.get("exam_type");
+    const year = Number(formData.get("year"));
+    const subject = formData.get("subject");
+
+    if (
+      !(image instanceof File) ||
+      image.size === 0 ||
+      typeof examType !== "string" ||
+      !examType ||
+      !Number.isInteger(year) ||
+      year < 1990 ||
+      year > new Date().getFullYear() + 1 ||
+      typeof subject !== "string" ||
+      !subject.trim()
+    ) {
+      return {
+        success: false,
+        message: "An image, exam type, year and subject are required",
+        code: "INVALID_REQUEST",
+      };
+    }
+
+    const saveResult = await saveUploadedFile(image, examType, year, subject);
+
+    if (!saveResult.success || !saveResult.publicUrl) {
+      return {
+        success: false,
+        message: saveResult.error || "Image upload failed",
+        code: "UPLOAD_FAILED",
+      };
+    }
+
+    return {
+      success: true,
+      message: "Image uploaded successfully",
+      data: { url: saveResult.publicUrl },
+    };
+  } catch (error) {
+    console.error("Unexpected error in uploadQuestionContentImage:", error);
+    return {
+      success: false,
+      message: "An unexpected error occurred. Please try again.",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
 export async function listQuestions(
   query?: QuestionListQuery & { search?: string }
 ): Promise<QuestionListResponse> {
@@ -943,10 +1052,12 @@ export async function getQuestionById(questionId: string): Promise<{
       questionImage: string | null;
       questionPoint: number;
       answerExplanation: string | null;
+      markingRubric: string | null;
       difficultyLevel: string;
       tags: string[];
       timeLimit: number | null;
       language: string;
+      answerRules: FillInBlankRules | null;
       createdBy: string;
       createdAt: Date;
       updatedAt: Date;
@@ -1028,12 +1139,17 @@ export async function getQuestionById(questionId: string): Promise<{
       questionImage: decrypted.questionImage,
       questionPoint: decrypted.questionPoint,
       answerExplanation: decrypted.answerExplanation,
+      markingRubric: decrypted.markingRubric,
       difficultyLevel: decrypted.difficultyLevel,
       tags: Array.isArray(decrypted.tags)
         ? decrypted.tags
         : JSON.parse(decrypted.tags as string),
       timeLimit: decrypted.timeLimit,
       language: decrypted.language,
+      answerRules:
+        decrypted.questionType === "fill_in_blank"
+          ? parseFillInBlankRules(decrypted.answerRules)
+          : null,
       createdBy: decrypted.createdBy,
       createdAt: decrypted.createdAt,
       updatedAt: decrypted.updatedAt,
@@ -1277,6 +1393,11 @@ export async function updateQuestion(
         const encryptedExplanation = validatedData.answer_explanation
           ? encrypt(validatedData.answer_explanation)
           : null;
+        const encryptedRubric =
+          validatedData.question_type === "essay" &&
+          validatedData.marking_rubric
+            ? encrypt(validatedData.marking_rubric)
+            : null;
 
         const encryptedOptions = validatedData.options.map((opt) => {
           const encryptedText = encrypt(opt.option_text);
@@ -1309,6 +1430,11 @@ export async function updateQuestion(
             tags: validatedData.tags,
             timeLimit: validatedData.time_limit || null,
             language: validatedData.language,
+            answerRules:
+              validatedData.question_type === "fill_in_blank" &&
+              validatedData.answer_rules
+                ? validatedData.answer_rules
+                : Prisma.DbNull,
             questionText: JSON.stringify({
               ciphertext: encryptedQuestionText.ciphertext,
               iv: encryptedQuestionText.iv,
@@ -1323,6 +1449,14 @@ export async function updateQuestion(
                   salt: encryptedExplanation.salt,
                 })
               : null,
+            markingRubric: encryptedRubric
+              ? JSON.stringify({
+                  ciphertext: encryptedRubric.ciphertext,
+                  iv: encryptedRubric.iv,
+                  tag: encryptedRubric.tag,
+                  salt: encryptedRubric.salt,
+                })
+              : null,
           },
           include: {
             options: {
@@ -0,0 +1,279 @@
+/**
+ * Review Queue Server Actions
+ *
+ * Questions a candidate answered incorrectly in practice sessions are
+ * queued for spaced-repetition review (SM-2). Candidates grade their own
+ * recall and the item is rescheduled accordingly.
+ *
+ * Only practice sessions feed the queue, since those already reveal the
+ * correct answers. Questions removed from the bank drop out of the queue.
+ *
+ * @module lib/actions/review-queue
+ */
+
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/middleware/rate-limit";
+import {
+  verifyUserSession,
+  formatQuestionForClient,
+} from "@/lib/utils/exam-session-helpers";
+import { decryptQuestion } from "@/lib/utils/question-decrypt";
+import { scheduleReview } from "@/lib/utils/spaced-repetition";
+import {
+  recordReviewSchema,
+  type RecordReviewInput,
+} from "@/lib/validations/review-queue";
+import type {
+  RecordReviewResult,
+  ReviewCard,
+  ReviewQueueResult,
+} from "@/types/review-queue";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const REVIEW_BATCH_SIZE = 20;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Queue every question the candidate has missed in a finished practice
+ * session and that is not in their queue yet
+ */
+async function syncReviewQueue(userId: string, now: Date): Promise<void> {
+  const missed = await prisma.examAnswer.findMany({
+    where: {
+      isCorrect: false,
+      session: {
+        userId,
+        examType: "practice",
+        status: { in: ["completed", "expired"] },
+      },
+    },
+    select: { questionId: true },
+    distinct: ["questionId"],
+  });
+
+  if (missed.length === 0) return;
+
+  const questions = await prisma.question.findMany({
+    where: {
+      id: { in: missed.map((a) => a.questionId) },
+      deletedAt: null,
+    },
+    select: { id: true },
+  });
+
+  await prisma.reviewItem.createMany({
+    data: questions.map((q) => ({ userId, questionId: q.id, dueAt: now })),
+    skipDuplicates: true,
+  });
+}
+
+// ============================================
+// GET REVIEW QUEUE
+// ============================================
+
+/**
+ * Get the candidate's due review items, oldest due first
+ */
+export async function getReviewQueue(): Promise<ReviewQueueResult> {
+  try {
+    // STEP 1: Authenticate user
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    // STEP 2: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "review:queue",
+      { max: 60, windowSeconds: 60 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    // STEP 3: Pick up newly missed questions
+    const now = new Date();
+    await syncReviewQueue(userSession.userId, now);
+
+    // STEP 4: Load due items and counts
+    const activeItems = {
+      userId: userSession.userId,
+      question: { deletedAt: null },
+    };
+
+    const [items, dueCount, totalCount, nextItem] = await Promise.all([
+      prisma.reviewItem.findMany({
+        where: { ...activeItems, dueAt: { lte: now } },
+        include: { question: { include: { options: true } } },
+        orderBy: { dueAt: "asc" },
+        take: REVIEW_BATCH_SIZE,
+      }),
+      prisma.reviewItem.count({
+        where: { ...activeItems, dueAt: { lte: now } },
+      }),
+      prisma.reviewItem.count({ where: activeItems }),
+      prisma.reviewItem.findFirst({
+        where: { ...activeItems, dueAt: { gt: now } },
+        orderBy: { dueAt: "asc" },
+        select: { dueAt: true },
+      }),
+    ]);
+
+    // STEP 5: Build cards; answers are revealed client-side after recall
+    const cards: ReviewCard[] = items.map((item) => {
+      const decrypted = decryptQuestion(item.question);
+      const isFillInBlank = decrypted.questionType === "fill_in_blank";
+
+      return {
+        itemId: item.id,
+        subject: item.question.subject,
+        question: formatQuestionForClient(item.question, true),
+        correctOptionIds: isFillInBlank
+          ? []
+          : decrypted.options.filter((o) => o.isCorrect).map((o) => o.id),
+        acceptedAnswers: isFillInBlank
+          ? decrypted.options.map((o) => o.optionText)
+          : [],
+        explanation: decrypted.answerExplanation || undefined,
+        repetitions: item.repetitions,
+        interval: item.interval,
+        lapses: item.lapses,
+        dueAt: item.dueAt,
+      };
+    });
+
+    return {
+      success: true,
+      message: "Review queue retrieved",
+      data: {
+        dueCount,
+        totalCount,
+        nextDueAt: nextItem?.dueAt ?? null,
+        cards,
+      },
+    };
+  } catch (error) {
+    console.error("Get review queue error:", error);
+    return {
+      success: false,
+      message: "Failed to load review queue",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+// ============================================
+// RECORD REVIEW
+// ============================================
+
+/**
+ * Record how well the candidate recalled an item and reschedule it
+ */
+export async function recordReview(
+  data: RecordReviewInput
+): Promise<RecordReviewResult> {
+  try {
+    // STEP 1: Validate input
+    const validated = recordReviewSchema.parse(data);
+
+    // STEP 2: Authenticate user
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    // STEP 3: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "review:record",
+      { max: 120, windowSeconds: 60 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    // STEP 4: Load item and check ownership
+    const item = await prisma.reviewItem.findUnique({
+      where: { id: validated.itemId },
+      include: { question: { select: { deletedAt: true } } },
+    });
+
+    if (
+      !item ||
+      item.userId !== userSession.userId ||
+      item.question.deletedAt
+    ) {
+      return {
+        success: false,
+        message: "Review item not found",
+        code: "ITEM_NOT_FOUND",
+      };
+    }
+
+    // STEP 5: Reschedule
+    const now = new Date();
+    const schedule = scheduleReview(item, validated.quality, now);
+
+    const updated = await prisma.reviewItem.update({
+      where: { id: item.id },
+      data: {
+        ...schedule,
+        lastQuality: validated.quality,
+        lastReviewedAt: now,
+      },
+    });
+
+    return {
+      success: true,
+      message: "Review recorded",
+      data: {
+        itemId: updated.id,
+        interval: updated.interval,
+        dueAt: updated.dueAt,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Record review error:", error);
+    return {
+      success: false,
+      message: "Failed to record review",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * Smart Practice Server Actions
+ *
+ * Adaptive practice sessions assembled from the whole question bank for a
+ * subject instead of a curated exam. Selection is weighted toward the
+ * candidate's weakest topics and the difficulty level they are working on.
+ *
+ * Sessions still need an exam row, so each subject gets one hidden system
+ * exam (isAdaptive) that every smart practice session for it points at.
+ *
+ * @module lib/actions/smart-practice
+ */
+
+"use server";
+
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/middleware/rate-limit";
+import {
+  verifyUserSession,
+  isSessionExpired,
+  finalizeExpiredSession,
+  bindSessionDevice,
+} from "@/lib/utils/exam-session-helpers";
+import { allowsAnswerChanges } from "@/lib/utils/exam";
+import {
+  buildAdaptiveProfile,
+  selectAdaptiveQuestions,
+} from "@/lib/utils/adaptive-practice";
+import {
+  startSmartPracticeSchema,
+  type StartSmartPracticeInput,
+} from "@/lib/validations/exam-session";
+import type {
+  ExamSessionResult,
+  SmartPracticeSubjectsResult,
+} from "@/types/exam-session";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const SMART_PRACTICE_EXAM_TYPE = "SMART_PRACTICE";
+const HISTORY_SIZE = 300; // Recent graded answers used to build the profile
+const MIN_QUESTIONS = 5;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Recent graded answers of a candidate with the tags, difficulty and
+ * subject of each question
+ */
+async function loadAnswerHistory(userId: string) {
+  const answers = await prisma.examAnswer.findMany({
+    where: { session: { userId }, isCorrect: { not: null } },
+    orderBy: { answeredAt: "desc" },
+    take: HISTORY_SIZE,
+    select: { questionId: true, isCorrect: true },
+  });
+
+  const questions = await prisma.question.findMany({
+    where: { id: { in: [...new Set(answers.map((a) => a.questionId))] } },
+    select: { id: true, subject: true, tags: true, difficultyLevel: true },
+  });
+
+  return { answers, questions };
+}
+
+/**
+ * Find the subject's system exam, creating it on first use. The exam is
+ * recorded as created by the candidate whose session first needed it.
+ */
+async function getSmartPracticeExam(subject: string, userId: string) {
+  const existing = await prisma.exam.findFirst({
+    where: { isAdaptive: true, subject, deletedAt: null },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (existing) return existing;
+
+  return prisma.exam.create({
+    data: {
+      examType: SMART_PRACTICE_EXAM_TYPE,
+      subject,
+      year: new Date().getFullYear(),
+      title: `Smart Practice: ${subject}`,
+      description:
+        "Adaptive practice drawn from the question bank, focused on your weakest topics.",
+      duration: 60,
+      status: "published",
+      category: "practice",
+      isPublic: false,
+      isAdaptive: true,
+      createdBy: userId,
+    },
+  });
+}
+
+// ============================================
+// GET SUBJECTS
+// ============================================
+
+/**
+ * Subjects with enough questions for smart practice, with the difficulty
+ * level the candidate's next session will focus on
+ */
+export async function getSmartPracticeSubjects(): Promise<SmartPracticeSubjectsResult> {
+  try {
+    // STEP 1: Authenticate user
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    // STEP 2: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "smart-practice:subjects",
+      { max: 30, windowSeconds: 60 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    // STEP 3: Count auto-graded questions per subject
+    const [subjects, history] = await Promise.all([
+      prisma.question.groupBy({
+        by: ["subject"],
+        where: { deletedAt: null, questionType: { not: "essay" } },
+        _count: { _all: true },
+        orderBy: { subject: "asc" },
+      }),
+      loadAnswerHistory(userSession.userId),
+    ]);
+
+    // STEP 4: Build a profile per subject
+    return {
+      success: true,
+      message: "Subjects retrieved",
+      data: subjects
+        .filter((s) => s._count._all >= MIN_QUESTIONS)
+        .map((s) => {
+          const profile = buildAdaptiveProfile(
+            history.answers,
+            new Map(
+              history.questions
+                .filter((q) => q.subject === s.subject)
+                .map((q) => [q.id, q])
+            )
+          );
+
+          return {
+            subject: s.subject,
+            availableQuestions: s._count._all,
+            targetDifficulty: profile.targetDifficulty,
+          };
+        }),
+    };
+  } catch (error) {
+    console.error("Get smart practice subjects error:", error);
+    return {
+      success: false,
+      message: "Failed to load subjects",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
+
+// ============================================
+// START SESSION
+// ============================================
+
+/**
+ * Start an adaptive practice session for a subject
+ */
+export async function startSmartPractice(
+  data: StartSmartPracticeInput
+): Promise<ExamSessionResult> {
+  try {
+    // STEP 1: Validate input
+    const validated = startSmartPracticeSchema.parse(data);
+
+    // STEP 2: Authenticate user
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    // STEP 3: Check rate limit (shared with regular exam starts)
+    const rateLimitResult = await checkRateLimit(
+      "exam:start",
+      { max: 5, windowSeconds: 3600 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    // STEP 4: One active session at a time
+    const now = new Date();
+    const activeSessions = await prisma.examSession.findMany({
+      where: { userId: userSession.userId, status: "active" },
+    });
+
+    for (const sess of activeSessions) {
+      if (isSessionExpired(sess, now)) {
+        await finalizeExpiredSession(sess, now);
+      } else {
+        return {
+          success: false,
+          message:
+            "You have an active exam session. Please complete or abandon it first.",
+          code: "CONCURRENT_SESSION",
+        };
+      }
+    }
+
+    // STEP 5: Load the question pool; essays need manual marking, so
+    // smart practice sticks to auto-graded questions
+    const pool = await prisma.question.findMany({
+      where: {
+        subject: validated.subject,
+        deletedAt: null,
+        questionType: { not: "essay" },
+      },
+      select: { id: true, tags: true, difficultyLevel: true },
+    });
+
+    if (pool.length < MIN_QUESTIONS) {
+      return {
+        success: false,
+        message: "Not enough questions in this subject for smart practice",
+        code: "INSUFFICIENT_QUESTIONS",
+      };
+    }
+
+    // STEP 6: Select questions for the candidate's profile
+    const history = await loadAnswerHistory(userSession.userId);
+    const profile = buildAdaptiveProfile(
+      history.answers,
+      new Map(
+        history.questions
+          .filter((q) => q.subject === validated.subject)
+          .map((q) => [q.id, q])
+      )
+    );
+
+    const selected = selectAdaptiveQuestions(
+      pool,
+      validated.numQuestions,
+      profile
+    );
+    const questionOrder = selected.map((q) => q.id);
+
+    // STEP 7: Create the session
+    const exam = await getSmartPracticeExam(
+      validated.subject,
+      userSession.userId
+    );
+    const serverEndTime = validated.timeLimit
+      ? new Date(now.getTime() + validated.timeLimit * 60 * 1000)
+      : undefined;
+
+    const session = await prisma.$transaction(async (tx) => {
+      const newSession = await tx.examSession.create({
+        data: {
+          userId: userSession.userId,
+          examId: exam.id,
+          examType: "practice",
+          startedAt: now,
+          timeLimit: validated.timeLimit,
+          configuredQuestions: selected.length,
+          shuffleQuestions: false, // Selection order is already random
+          shuffleOptions: true,
+          allowAnswerChanges: allowsAnswerChanges({ category: "practice" }),
+          status: "active",
+          totalQuestions: selected.length,
+          answeredQuestions: 0,
+          violationCount: 0,
+          questionOrder: JSON.stringify(questionOrder),
+        },
+      });
+
+      // Only this device can take the session until it is resumed elsewhere
+      return tx.examSession.update({
+        where: { id: newSession.id },
+        data: { deviceTokenHash: await bindSessionDevice(newSession.id) },
+      });
+    });
+
+    return {
+      success: true,
+      message: "Smart practice session started",
+      data: {
+        sessionId: session.id,
+        examId: session.examId,
+        startedAt: session.startedAt,
+        serverEndTime,
+        totalQuestions: session.totalQuestions,
+        questionOrder,
+        timeLimit: session.timeLimit || undefined,
+      },
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: "Invalid input",
+        code: "VALIDATION_ERROR",
+      };
+    }
+
+    console.error("Start smart practice error:", error);
+    return {
+      success: false,
+      message: "Failed to start smart practice session",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Student Dashboard Server Actions
+ *
+ * Builds the signed-in candidate's exam history and progress: averages per
+ * subject and exam type, a score trend, time spent, weak topics and the
+ * sessions they can resume.
+ *
+ * Only graded sessions whose results have been released count towards the
+ * averages, so a dashboard never reveals a score the results page would hide.
+ *
+ * @module lib/actions/student-dashboard
+ */
+
+"use server";
+
+import prisma from "@/lib/prisma";
+import { checkRateLimit } from "@/lib/middleware/rate-limit";
+import {
+  verifyUserSession,
+  calculateRemainingTime,
+  isSessionExpired,
+} from "@/lib/utils/exam-session-helpers";
+import { areResultsReleased } from "@/lib/utils/exam";
+import {
+  getTopicPerformance,
+  selectTopicsToRevise,
+} from "@/lib/utils/topic-analytics";
+import type { GradingStatus } from "@/types/exam-session";
+import type {
+  ExamHistoryEntry,
+  InProgressSession,
+  ScoreAverage,
+  ScoreTrendPoint,
+  StudentDashboardResult,
+} from "@/types/student-dashboard";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const HISTORY_SIZE = 50;
+const TREND_SIZE = 30;
+const TOPIC_MIN_ATTEMPTS = 3;
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Seconds between start and completion of a finished session
+ */
+function getTimeSpent(startedAt: Date, completedAt: Date | null): number {
+  if (!completedAt) return 0;
+
+  return Math.max(
+    0,
+    Math.round((completedAt.getTime() - startedAt.getTime()) / 1000)
+  );
+}
+
+/**
+ * Average scores grouped by the given key, highest average first
+ */
+function averageScoresBy(
+  scored: Array<{ key: string; score: number }>
+): ScoreAverage[] {
+  const groups = new Map<string, number[]>();
+
+  for (const entry of scored) {
+    const scores = groups.get(entry.key) ?? [];
+    scores.push(entry.score);
+    groups.set(entry.key, scores);
+  }
+
+  return [...groups.entries()]
+    .map(([key, scores]) => ({
+      key,
+      averageScore: scores.reduce((sum, s) => sum + s, 0) / scores.length,
+      attempts: scores.length,
+      bestScore: Math.max(...scores),
+    }))
+    .sort((a, b) => b.averageScore - a.averageScore);
+}
+
+// ============================================
+// GET STUDENT DASHBOARD
+// ============================================
+
+/**
+ * Get exam history and progress for the signed-in candidate
+ */
+export async function getStudentDashboard(): Promise<StudentDashboardResult> {
+  try {
+    // STEP 1: Authenticate user
+    const userSession = await verifyUserSession();
+    if (!userSession) {
+      return {
+        success: false,
+        message: "Authentication required",
+        code: "UNAUTHORIZED",
+      };
+    }
+
+    // STEP 2: Check rate limit
+    const rateLimitResult = await checkRateLimit(
+      "dashboard:overview",
+      { max: 60, windowSeconds: 60 },
+      userSession.userId
+    );
+
+    if (!rateLimitResult.allowed) {
+      return {
+        success: false,
+        message: `Rate limit exceeded. Please try again in ${rateLimitResult.retryAfter} seconds.`,
+        code: "RATE_LIMITED",
+      };
+    }
+
+    // STEP 3: Load sessions and their exams
+    const sessions = await prisma.examSession.findMany({
+      where: { userId: userSession.userId },
+      orderBy: { startedAt: "desc" },
+      select: {
+        id: true,
+        examId: true,
+        examType: true,
+        status: true,
+        gradingStatus: true,
+        proctoringStatus: true,
+        score: true,
+        startedAt: true,
+        completedAt: true,
+        timeLimit: true,
+        answeredQuestions: true,
+        totalQuestions: true,
+      },
+    });
+
+    const exams = await prisma.exam.findMany({
+      where: { id: { in: [...new Set(sessions.map((s) => s.examId))] } },
+      select: {
+        id: true,
+        title: true,
+        subject: true,
+        examType: true,
+        category: true,
+        status: true,
+        resultReleaseMode: true,
+        resultsReleaseAt: true,
+        resultsReleasedAt: true,
+      },
+    });
+    const examsById = new Map(exams.map((exam) => [exam.id, exam]));
+
+    // STEP 4: Build history, in-progress list and scored sessions
+    const now = new Date();
+    const history: ExamHistoryEntry[] = [];
+    const inProgress: InProgressSession[] = [];
+    const scored: Array<{
+      sessionId: string;
+      examTitle: string;
+      subject: string;
+      examType: string;
+      score: number;
+      completedAt: Date;
+    }> = [];
+    const releasedSessionIds: string[] = [];
+    let totalTimeSpent = 0;
+
+    for (const session of sessions) {
+      const exam = examsById.get(session.examId);
+      if (!exam) continue;
+
+      if (session.status === "active") {
+        if (exam.status === "archived" || isSessionExpired(session, now)) {
+          continue;
+        }
+
+        inProgress.push({
+          sessionId: session.id,
+          examId: exam.id,
+          examTitle: exam.title,
+          subject: exam.subject,
+          examType: exam.examType,
+          category: session.examType,
+          startedAt: session.startedAt,
+          answeredQuestions: session.answeredQuestions,
+          totalQuestions: session.totalQuestions,
+          remainingTime: calculateRemainingTime(session, now),
+        });
+        continue;
+      }
+
+      const timeSpent = getTimeSpent(session.startedAt, session.completedAt);
+      const resultsReleased = areResultsReleased(exam, now);
+      const disqualified = session.proctoringStatus === "disqualified";
+      const isScored =
+        session.status === "completed" &&
+        session.gradingStatus === "graded" &&
+        session.score !== null &&
+        resultsReleased &&
+        !disqualified;
+
+      totalTimeSpent += timeSpent;
+      if (resultsReleased) releasedSessionIds.push(session.id);
+
+      if (isScored && session.completedAt) {
+        scored.push({
+          sessionId: session.id,
+          examTitle: exam.title,
+          subject: exam.subject,
+          examType: exam.examType,
+          score: session.score!,
+          completedAt: session.completedAt,
+        });
+      }
+
+      if (history.length < HISTORY_SIZE) {
+        history.push({
+          sessionId: session.id,
+          examId: exam.id,
+          examTitle: exam.title,
+          subject: exam.subject,
+          examType: exam.examType,
+          category: session.examType,
+          status: session.status,
+          gradingStatus: session.gradingStatus as GradingStatus,
+          score: isScored ? session.score : null,
+          resultsReleased,
+          disqualified,
+          timeSpent,
+          completedAt: session.completedAt,
+        });
+      }
+    }
+
+    // STEP 5: Aggregate scores
+    const subjects = averageScoresBy(
+      scored.map((s) => ({ key: s.subject, score: s.score }))
+    );
+    const examTypes = averageScoresBy(
+      scored.map((s) => ({ key: s.examType, score: s.score }))
+    );
+
+    const scoreTrend: ScoreTrendPoint[] = scored
+      .slice(0, TREND_SIZE)
+      .reverse()
+      .map((s) => ({
+        sessionId: s.sessionId,
+        completedAt: s.completedAt,
+        score: s.score,
+        examTitle: s.examTitle,
+        subject: s.subject,
+      }));
+
+    const scores = scored.map((s) => s.score);
+
+    // STEP 6: Topics to revise across every released session
+    const topicsToRevise = selectTopicsToRevise(
+      await getTopicPerformance(releasedSessionIds),
+      TOPIC_MIN_ATTEMPTS
+    );
+
+    return {
+      success: true,
+      message: "Dashboard loaded",
+      data: {
+        summary: {
+          completedExams: sessions.filter((s) => s.status === "completed")
+            .length,
+          averageScore: scores.length
+            ? scores.reduce((sum, s) => sum + s, 0) / scores.length
+            : null,
+          bestScore: scores.length ? Math.max(...scores) : null,
+          totalTimeSpent,
+          strongestSubject: subjects[0] ?? null,
+          // A single subject is both strongest and weakest; only show it once
+          weakestSubject:
+            subjects.length > 1 ? subjects[subjects.length - 1] : null,
+        },
+        subjects,
+        examTypes,
+        topicsToRevise,
+        scoreTrend,
+        inProgress,
+        history,
+      },
+    };
+  } catch (error) {
+    console.error("Get student dashboard error:", error);
+    return {
+      success: false,
+      message: "Failed to load dashboard",
+      code: "INTERNAL_ERROR",
+    };
+  }
+}
@@ -58,8 +58,13 @@ export const auth = betterAuth({
         "/exam-session/start",
         "/exam-session/status",
         "/exam-session/submit-answer",
+        "/exam-session/clear-answer",
+        "/exam-session/flag",
+        "/exam-session/review",
         "/exam-session/complete",
         "/exam-session/track-violation",
+        "/exam-session/leaderboard",
+        "/exam-session/live-progress",
       ],
     }),
     twoFactor({
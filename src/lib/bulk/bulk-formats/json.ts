@@ -149,7 +149,8 @@ class JsonFormatHandler implements FormatHandler {
           question_type: "multiple_choice",
           difficulty_level: "medium",
           language: "en",
-          question_text: "What is the value of x in the equation 2x + 5 = 15?",
+          question_text:
+            "What is the value of $x$ in the equation $2x + 5 = 15$?",
           question_point: 2,
           answer_explanation:
             "Subtract 5 from both sides: 2x = 10, then divide by 2: x = 5.",
@@ -6,6 +6,10 @@
  */
 
 import { encrypt, decrypt } from "@/lib/utils/encryption";
+import {
+  parseFillInBlankRules,
+  type FillInBlankRules,
+} from "@/lib/utils/exam-scoring";
 import { validateQuestionUpload } from "@/lib/validations/question";
 import {
   BulkImportRowError,
@@ -47,11 +51,13 @@ export async function mapRowToQuestion(
       }
     }
 
-    // Build options array (minimum 2, maximum 5)
+    // Build options array (minimum 2, maximum 5; essays are manually
+    // marked and need none)
     const options = [];
+    const isEssay = row.question_type === "essay";
 
-    // Option 1 (required)
-    if (!row.option_1_text) {
+    // Option 1 (required, except for essays)
+    if (!row.option_1_text && !isEssay) {
       errors.push({
         row: rowNumber,
         field: "option_1_text",
@@ -59,14 +65,21 @@ export async function mapRowToQuestion(
       });
       return { valid: false, errors };
     }
-    options.push({
-      option_text: row.option_1_text,
-      is_correct: row.option_1_is_correct || false,
-      order_index: 0,
-    });
+    if (row.option_1_text) {
+      options.push({
+        option_text: row.option_1_text,
+        is_correct: row.option_1_is_correct || false,
+        order_index: 0,
+      });
+    }
 
-    // Option 2 (required)
-    if (!row.option_2_text) {
+    // Option 2 (required, except for fill-in-blank accepted answers and
+    // essays)
+    if (
+      !row.option_2_text &&
+      row.question_type !== "fill_in_blank" &&
+      !isEssay
+    ) {
       errors.push({
         row: rowNumber,
         field: "option_2_text",
@@ -74,11 +87,13 @@ export async function mapRowToQuestion(
       });
       return { valid: false, errors };
     }
-    options.push({
-      option_text: row.option_2_text,
-      is_correct: row.option_2_is_correct || false,
-      order_index: 1,
-    });
+    if (row.option_2_text) {
+      options.push({
+        option_text: row.option_2_text,
+        is_correct: row.option_2_is_correct || false,
+        order_index: 1,
+      });
+    }
 
     // Options 3-5 (optional)
     if (row.option_3_text) {
@@ -105,7 +120,7 @@ export async function mapRowToQuestion(
 
     // Validate at least one correct answer
     const hasCorrectAnswer = options.some((opt) => opt.is_correct);
-    if (!hasCorrectAnswer) {
+    if (!hasCorrectAnswer && !isEssay) {
       errors.push({
         row: rowNumber,
         field: "options",
@@ -114,6 +129,32 @@ export async function mapRowToQuestion(
       return { valid: false, errors };
     }
 
+    // Parse fill-in-blank answer rules (JSON object, defaults for
+    // missing keys)
+    let answerRules: FillInBlankRules | undefined;
+    if (row.question_type === "fill_in_blank" && row.answer_rules) {
+      let rules: unknown = row.answer_rules;
+      if (typeof rules === "string") {
+        try {
+          rules = JSON.parse(rules);
+        } catch {
+          rules = null;
+        }
+      }
+
+      if (!rules || typeof rules !== "object" || Array.isArray(rules)) {
+        errors.push({
+          row: rowNumber,
+          field: "answer_rules",
+          message: "Answer rules must be a JSON object",
+          value: String(row.answer_rules),
+        });
+        return { valid: false, errors };
+      }
+
+      answerRules = parseFillInBlankRules(rules);
+    }
+
     // Build question input object
     const questionInput = {
       exam_type: row.exam_type,
@@ -123,11 +164,13 @@ export async function mapRowToQuestion(
       question_text: row.question_text,
       question_point: Number(row.question_point),
       answer_explanation: row.answer_explanation || undefined,
+      marking_rubric: isEssay ? row.marking_rubric || undefined : undefined,
       difficulty_level: row.difficulty_level,
       tags,
       time_limit: row.time_limit ? Number(row.time_limit) : undefined,
       language: row.language || "en",
       options,
+      answer_rules: answerRules,
     };
 
     // Validate with Zod schema
@@ -183,6 +226,12 @@ export async function transformToEncrypted(
       ? encrypt(validated.answer_explanation)
       : null;
 
+    // Encrypt essay marking rubric (if provided)
+    const encryptedRubric =
+      validated.question_type === "essay" && validated.marking_rubric
+        ? encrypt(validated.marking_rubric)
+        : null;
+
     // Encrypt each option text
     const encryptedOptions = validated.options.map((opt) => {
       const encryptedText = encrypt(opt.option_text);
@@ -210,6 +259,10 @@ export async function transformToEncrypted(
       tags: validated.tags,
       timeLimit: validated.time_limit || null,
       language: validated.language,
+      answerRules:
+        validated.question_type === "fill_in_blank"
+          ? validated.answer_rules
+          : undefined,
       createdBy: userId,
 
       // Encrypted fields as JSON strings
@@ -229,6 +282,15 @@ export async function transformToEncrypted(
           })
         : null,
 
+      markingRubric: encryptedRubric
+        ? JSON.stringify({
+            ciphertext: encryptedRubric.ciphertext,
+            iv: encryptedRubric.iv,
+            tag: encryptedRubric.tag,
+            salt: encryptedRubric.salt,
+          })
+        : null,
+
       options: encryptedOptions,
     };
   } catch (error) {
@@ -273,6 +335,18 @@ export function mapQuestionToRow(
     }
   }
 
+  // Decrypt marking rubric
+  let markingRubric: string | null = null;
+  if (question.markingRubric) {
+    try {
+      const parsed = JSON.parse(question.markingRubric);
+      markingRubric = decrypt(parsed);
+    } catch (error) {
+      console.error(`Failed to decrypt marking rubric ${question.id}:`, error);
+      markingRubric = null;
+    }
+  }
+
   // Decrypt options
   const decryptedOptions = question.options.map((opt) => {
     let optionText = "";
@@ -315,6 +389,7 @@ export function mapQuestionToRow(
     question_image: question.questionImage,
     question_point: question.questionPoint,
     answer_explanation: answerExplanation,
+    marking_rubric: markingRubric,
     tags,
     time_limit: question.timeLimit,
 
@@ -339,6 +414,11 @@ export function mapQuestionToRow(
     option_5_text: decryptedOptions[4]?.optionText || null,
     option_5_is_correct: decryptedOptions[4]?.isCorrect,
     option_5_image: decryptedOptions[4]?.optionImage,
+
+    answer_rules:
+      question.questionType === "fill_in_blank"
+        ? JSON.stringify(parseFillInBlankRules(question.answerRules))
+        : null,
   };
 
   return row;
@@ -362,6 +442,7 @@ export function getQuestionHeaders(): string[] {
     "question_text",
     "question_point",
     "answer_explanation",
+    "marking_rubric",
     "tags",
     "time_limit",
     "option_1_text",
@@ -374,6 +455,7 @@ export function getQuestionHeaders(): string[] {
     "option_4_is_correct",
     "option_5_text",
     "option_5_is_correct",
+    "answer_rules",
   ];
 }
 
@@ -385,17 +467,19 @@ export function getQuestionDescriptions(): Record<string, string> {
     exam_type: "Exam type (e.g., UTME, WAEC, NECO)",
     year: "Year (e.g., 2024)",
     subject: "Subject name",
-    question_type: "Type: multiple_choice or true_false",
+    question_type: "Type: multiple_choice, true_false, fill_in_blank or essay",
     difficulty_level: "Difficulty: easy, medium, or hard",
     language: "Language code (e.g., en, fr)",
     question_text: "Question text (required)",
     question_point: "Points for correct answer",
     answer_explanation: "Explanation (optional)",
+    marking_rubric: "Essay marking guide for markers (optional)",
     tags: "Comma-separated tags",
     time_limit: "Time limit in seconds (optional)",
-    option_1_text: "Option 1 text (required)",
+    option_1_text: "Option 1 text (required, except for essays)",
     option_1_is_correct: "Is option 1 correct? (true/false)",
-    option_2_text: "Option 2 text (required)",
+    option_2_text:
+      "Option 2 text (required, except for fill-in-blank and essays)",
     option_2_is_correct: "Is option 2 correct? (true/false)",
     option_3_text: "Option 3 text (optional)",
     option_3_is_correct: "Is option 3 correct? (true/false)",
@@ -403,5 +487,7 @@ export function getQuestionDescriptions(): Record<string, string> {
     option_4_is_correct: "Is option 4 correct? (true/false)",
     option_5_text: "Option 5 text (optional)",
     option_5_is_correct: "Is option 5 correct? (true/false)",
+    answer_rules:
+      'Fill-in-blank answer rules as JSON (optional), e.g. {"caseSensitive":false,"ignoreWhitespace":false,"numericTolerance":0}',
   };
 }
@@ -0,0 +1,76 @@
+import { render } from "@react-email/render";
+import { sendEmail } from "./profile-settings";
+import ExamInvitationEmail from "./templates/exam-invitation";
+import ExamResultsReleasedEmail from "./templates/exam-results-released";
+
+/**
+ * Send an exam invitation containing the direct exam link
+ *
+ * @param email - Invitee email address
+ * @param params - Exam details and invitation link
+ */
+export async function sendExamInvitationEmail(
+  email: string,
+  params: {
+    examTitle: string;
+    examType: string;
+    subject: string;
+    inviteUrl: string;
+    recipientName?: string;
+    expiresAt?: Date | null;
+  }
+): Promise<void> {
+  const html = await render(ExamInvitationEmail(params));
+
+  await sendEmail({
+    to: email,
+    subject: `Exam Invitation: ${params.examTitle} - EduSmart`,
+    html,
+  });
+}
+
+/**
+ * Notify candidates that results for an exam are live
+ *
+ * Each recipient gets a link to their own results page. Failures are
+ * logged and skipped so one bad address does not block the rest.
+ *
+ * @param exam - Exam details shown in the email
+ * @param recipients - Candidates and the session their link points to
+ * @returns Number of emails sent
+ */
+export async function sendExamResultsReleasedEmails(
+  exam: { title: string; examType: string; subject: string },
+  recipients: Array<{ email: string; name?: string; sessionId: string }>
+): Promise<number> {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  let sent = 0;
+
+  for (const recipient of recipients) {
+    try {
+      const html = await render(
+        ExamResultsReleasedEmail({
+          examTitle: exam.title,
+          examType: exam.examType,
+          subject: exam.subject,
+          resultsUrl: `${baseUrl}/exams/results?sessionId=${recipient.sessionId}`,
+          recipientName: recipient.name,
+        })
+      );
+
+      await sendEmail({
+        to: recipient.email,
+        subject: `Results Released: ${exam.title} - EduSmart`,
+        html,
+      });
+      sent++;
+    } catch (error) {
+      console.error(
+        `Failed to send results email to ${recipient.email}:`,
+        error
+      );
+    }
+  }
+
+  return sent;
+}
@@ -29,7 +29,11 @@ function createTransporter(): Transporter {
   });
 }
 
-async function sendEmail({ to, subject, html }: EmailParams): Promise<void> {
+export async function sendEmail({
+  to,
+  subject,
+  html,
+}: EmailParams): Promise<void> {
   // Enhanced logging for both dev and prod
   console.log("=".repeat(80));
   console.log(
@@ -0,0 +1,185 @@
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Img,
+  Link,
+  Preview,
+  Section,
+  Text,
+} from "@react-email/components";
+import * as React from "react";
+
+interface ExamResultsReleasedEmailProps {
+  examTitle: string;
+  examType: string;
+  subject: string;
+  resultsUrl: string;
+  recipientName?: string;
+}
+
+export function ExamResultsReleasedEmail({
+  examTitle,
+  examType,
+  subject,
+  resultsUrl,
+  recipientName,
+}: ExamResultsReleasedEmailProps) {
+  const previewText = `Your results for ${examTitle} are now available`;
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={logoContainer}>
+            <Img
+              src={`${process.env.NEXT_PUBLIC_APP_URL}/logo.png`}
+              width="120"
+              height="40"
+              alt="EduSmart"
+              style={logo}
+            />
+          </Section>
+
+          <Heading style={heading}>Your Results Are Ready</Heading>
+
+          <Text style={paragraph}>Hi {recipientName || "there"},</Text>
+
+          <Text style={paragraph}>
+            Results have been released for an exam you took on EduSmart:
+          </Text>
+
+          <Section style={detailsContainer}>
+            <Text style={detailsTitle}>{examTitle}</Text>
+            <Text style={detailsText}>
+              {examType} • {subject}
+            </Text>
+          </Section>
+
+          <Section style={buttonContainer}>
+            <Button href={resultsUrl} style={button}>
+              View Results
+            </Button>
+          </Section>
+
+          <Text style={paragraph}>
+            You will need to sign in to your EduSmart account to see your score.
+          </Text>
+
+          <Text style={paragraph}>
+            If the button does not work, copy this link into your browser:{" "}
+            <Link href={resultsUrl} style={link}>
+              {resultsUrl}
+            </Link>
+          </Text>
+
+          <Text style={footerText}>
+            This email was sent by EduSmart. If you have questions, contact us
+            at{" "}
+            <Link href="mailto:support@edusmart.com" style={link}>
+              support@edusmart.com
+            </Link>
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
+
+export default ExamResultsReleasedEmail;
+
+const main = {
+  backgroundColor: "#f6f9fc",
+  fontFamily:
+    '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+  backgroundColor: "#ffffff",
+  margin: "0 auto",
+  padding: "20px 0 48px",
+  marginBottom: "64px",
+  maxWidth: "560px",
+};
+
+const logoContainer = {
+  padding: "32px 20px",
+  textAlign: "center" as const,
+};
+
+const logo = {
+  margin: "0 auto",
+};
+
+const heading = {
+  fontSize: "24px",
+  letterSpacing: "-0.5px",
+  lineHeight: "1.3",
+  fontWeight: "600",
+  color: "#484848",
+  padding: "17px 0 0",
+  textAlign: "center" as const,
+};
+
+const paragraph = {
+  margin: "0 0 15px",
+  fontSize: "15px",
+  lineHeight: "1.4",
+  color: "#3c4149",
+  padding: "0 20px",
+};
+
+const detailsContainer = {
+  background: "#f4f4f4",
+  borderRadius: "8px",
+  margin: "24px 20px",
+  padding: "20px",
+  textAlign: "center" as const,
+};
+
+const detailsTitle = {
+  fontSize: "18px",
+  fontWeight: "600",
+  color: "#3c4149",
+  margin: "0 0 4px",
+};
+
+const detailsText = {
+  fontSize: "14px",
+  color: "#6b7280",
+  margin: "0",
+};
+
+const buttonContainer = {
+  textAlign: "center" as const,
+  margin: "24px 0",
+};
+
+const button = {
+  backgroundColor: "#22c55e",
+  borderRadius: "6px",
+  color: "#ffffff",
+  fontSize: "15px",
+  fontWeight: "600",
+  textDecoration: "none",
+  padding: "12px 24px",
+};
+
+const footerText = {
+  fontSize: "12px",
+  lineHeight: "1.4",
+  color: "#8898aa",
+  padding: "0 20px",
+  marginTop: "24px",
+  textAlign: "center" as const,
+};
+
+const link = {
+  color: "#22c55e",
+  textDecoration: "underline",
+};
@@ -46,6 +46,7 @@ import {
 } from "@/lib/bulk/bulk-questions";
 import type { QuestionBulkRow } from "@/types/question-api";
 import { Prisma } from "@/generated/prisma";
+import type { FillInBlankRulesInput } from "@/lib/validations/question";
 import { ZodError } from "zod";
 
 // ============================================
@@ -69,9 +70,11 @@ interface EncryptedQuestionData {
   tags: string[];
   timeLimit: number | null;
   language: string;
+  answerRules?: FillInBlankRulesInput;
   createdBy: string;
   questionText: string; // Encrypted JSON string
   answerExplanation: string | null; // Encrypted JSON string or null
+  markingRubric: string | null; // Encrypted JSON string or null
   options: EncryptedOptionData[];
 }
 
@@ -53,6 +53,17 @@ export interface SubmitAnswerRequest {
   };
 }
 
+export interface ClearAnswerRequest {
+  sessionId: string;
+  questionId: string;
+}
+
+export interface FlagQuestionRequest {
+  sessionId: string;
+  questionId: string;
+  flagged: boolean;
+}
+
 export interface TrackViolationRequest {
   sessionId: string;
   violation: {
@@ -108,12 +119,91 @@ export interface SubmitAnswerResponse {
   } | null;
 }
 
+export interface FlagQuestionResponse {
+  success: boolean;
+  questionId: string;
+  flagged: boolean;
+  flaggedCount: number;
+}
+
+export interface ReviewSummaryResponse {
+  success: boolean;
+  totalQuestions: number;
+  answeredCount: number;
+  unansweredCount: number;
+  flaggedCount: number;
+  questions: Array<{
+    questionIndex: number;
+    questionId: string;
+    isAnswered: boolean;
+    isFlagged: boolean;
+  }>;
+}
+
 export interface CompleteExamResponse {
   sessionId: string;
-  score: number;
-  correctAnswers: number;
+  resultsReleased: boolean;
+  score?: number; // Score fields are omitted until results are released
+  pointsEarned?: number;
+  totalPoints?: number;
+  correctAnswers?: number;
   totalQuestions: number;
   completedAt: string;
+  gradingStatus: "graded" | "pending";
+}
+
+export interface LeaderboardRequest {
+  examId: string;
+}
+
+export interface LeaderboardResponse {
+  success: boolean;
+  examId: string;
+  released: boolean;
+  releaseAt: string | null;
+  totalParticipants: number;
+  currentUserRank?: number;
+  entries: Array<{
+    rank: number;
+    participantName: string;
+    score: number;
+    timeTaken: number; // In seconds
+    completedAt: string;
+    isCurrentUser: boolean;
+  }>; // Empty until scores are released
+}
+
+export interface LiveProgressRequest {
+  sessionId: string;
+}
+
+export interface LiveProgressResponse {
+  success: boolean;
+  examId: string;
+  activeParticipants: Array<{
+    participantName: string;
+    answeredQuestions: number;
+    totalQuestions: number;
+    isCurrentUser: boolean;
+  }>;
+  completedParticipants: number;
+  serverTime: string;
+}
+
+export interface SweepExpiredSessionsResponse {
+  success: boolean;
+  scanned: number;
+  completed: number;
+  expired: number;
+  sweptAt: string;
+}
+
+export interface ReleaseScheduledResultsResponse {
+  success: boolean;
+  scanned: number;
+  released: number;
+  emailsSent: number;
+  releasedAt: string;
 }
 
 export interface TrackViolationResponse {
@@ -1,4 +1,4 @@
-import type { BetterAuthPlugin } from "better-auth";
+import type { Adapter, BetterAuthPlugin } from "better-auth";
 import { createAuthEndpoint } from "better-auth/api";
 import { sessionMiddleware } from "better-auth/api";
 import { APIError } from "better-auth/api";
@@ -10,9 +10,47 @@ import type {
   Question,
   QuestionOption,
   ExamQuestion,
+  ExamSection,
   ExamInvitation,
+  GradingStatus,
   User,
 } from "@/types/exam-session";
+import {
+  calculateSessionScore,
+  gradeAnswer,
+  isManuallyMarked,
+  type SessionScore,
+} from "@/lib/utils/exam-scoring";
+import { decrypt, type EncryptedData } from "@/lib/utils/encryption";
+import {
+  createDeviceToken,
+  DEVICE_COOKIE_OPTIONS,
+  getDeviceCookieName,
+  isDeviceTokenValid,
+} from "@/lib/utils/exam-device";
+import { sendExamResultsReleasedEmails } from "@/lib/emails/exam-notifications";
+import {
+  allowsAnswerChanges,
+  buildSessionReview,
+  parseFlaggedQuestions,
+  REVIEW_CATEGORIES,
+  LEADERBOARD_CATEGORIES,
+  areResultsReleased,
+  rankParticipants,
+  resolveAntiCheatPolicy,
+  calculateViolationScore,
+  parseQuestionPools,
+  buildSessionSections,
+  isQuestionInOpenSection,
+} from "@/lib/utils/exam";
+import { drawPoolQuestions } from "@/lib/utils/exam-blueprint";
+import {
+  calculateRemainingTime,
+  finalizeExpiredSession,
+  isSessionExpired,
+  shuffleArray,
+  syncSectionProgress,
+} from "@/lib/utils/exam-session-helpers";
 
 // ============================================
 // CONFIGURATION
@@ -20,6 +58,8 @@ import type {
 
 const PLUGIN_ID = "exam-session";
 const API_KEY_HEADER = "x-exam-api-key";
+const LEADERBOARD_SIZE = 100;
+const SWEEP_PAGE_SIZE = 200;
 
 // ============================================
 // VALIDATION SCHEMAS
@@ -78,13 +118,15 @@ export interface ExamPluginOptions {
   maxConcurrentSessions?: number;
 
   /**
-   * Violation limit before auto-submit
+   * Violation limit before auto-submit, for exams without an anti-cheat
+   * policy of their own
    * @default 10
    */
   violationLimit?: number;
 
   /**
-   * Auto-submit exam when violation limit is reached
+   * Auto-submit exams without an anti-cheat policy of their own when the
+   * violation limit is reached
    * @default true
    */
   autoSubmitOnViolationLimit?: boolean;
@@ -95,31 +137,170 @@ export interface ExamPluginOptions {
 // ============================================
 
 /**
- * Calculate remaining time for exam session
+ * Score exam session by question points over its served questions
+ *
+ * Sessions with unmarked essay answers are left pending marking.
  */
-function calculateRemainingTime(
-  session: ExamSession,
-  serverTime: Date
-): number | null {
-  if (!session.timeLimit) return null;
+async function scoreExamSession(
+  adapter: Adapter,
+  examSession: ExamSession,
+  answers: ExamAnswer[]
+): Promise<SessionScore & { gradingStatus: GradingStatus }> {
+  const questionIds: string[] = JSON.parse(examSession.questionOrder);
+  const questions =
+    questionIds.length > 0
+      ? await adapter.findMany<Question>({
+          model: "question",
+          where: [{ field: "id", operator: "in", value: questionIds }],
+        })
+      : [];
+
+  const result = calculateSessionScore(
+    questionIds,
+    new Map(questions.map((q) => [q.id, q.questionPoint])),
+    answers.map((a) => ({
+      questionId: a.questionId,
+      isCorrect: a.isCorrect ?? null,
+      pointsAwarded: a.pointsAwarded ?? null,
+    })),
+    new Set(
+      questions.filter((q) => isManuallyMarked(q.questionType)).map((q) => q.id)
+    )
+  );
+
+  return {
+    ...result,
+    gradingStatus: result.pendingAnswers > 0 ? "pending" : "graded",
+  };
+}
+
+/**
+ * Count saved answers so answeredQuestions stays accurate when answers
+ * are changed or cleared.
+ */
+async function countAnswers(adapter: Adapter, sessionId: string) {
+  return adapter.count({
+    model: "examAnswer",
+    where: [{ field: "sessionId", value: sessionId }],
+  });
+}
 
-  const startedAt = new Date(session.startedAt);
-  const elapsedSeconds = Math.floor(
-    (serverTime.getTime() - startedAt.getTime()) / 1000
+/**
+ * Rank every participant of an exam on their best graded attempt,
+ * leaving out attempts disqualified on proctoring review
+ */
+async function loadRankedParticipants(adapter: Adapter, examId: string) {
+  const sessions = await adapter.findMany<ExamSession>({
+    model: "examSession",
+    where: [
+      { field: "examId", value: examId },
+      { field: "status", value: "completed" },
+      { field: "gradingStatus", value: "graded" },
+    ],
+  });
+
+  return rankParticipants(
+    sessions
+      .filter(
+        (s) =>
+          s.score != null &&
+          s.completedAt &&
+          s.proctoringStatus !== "disqualified"
+      )
+      .map((s) => ({
+        userId: s.userId,
+        score: s.score!,
+        startedAt: s.startedAt,
+        completedAt: s.completedAt!,
+      }))
   );
-  const remainingSeconds = session.timeLimit * 60 - elapsedSeconds;
+}
+
+/**
+ * Public display names for leaderboard and live progress entries
+ */
+async function loadParticipantNames(adapter: Adapter, userIds: string[]) {
+  const users =
+    userIds.length > 0
+      ? await adapter.findMany<User>({
+          model: "user",
+          where: [{ field: "id", operator: "in", value: userIds }],
+        })
+      : [];
+
+  return new Map(users.map((u) => [u.id, String(u.displayUsername ?? "")]));
+}
 
-  return Math.max(0, remainingSeconds);
+// Endpoint context pieces the device check needs
+interface DeviceCheckContext {
+  context: { adapter: Adapter };
+  getCookie: (key: string) => string | null;
+  setCookie: (
+    key: string,
+    value: string,
+    options?: typeof DEVICE_COOKIE_OPTIONS
+  ) => string;
 }
 
 /**
- * Check if exam session has expired
+ * Reject requests for an active session from a device it is not bound to
+ *
+ * Sessions started before device binding have no bound device; the first
+ * device to open one claims it.
  */
-function isSessionExpired(session: ExamSession, serverTime: Date): boolean {
-  if (!session.timeLimit) return false;
+async function assertSessionDevice(
+  ctx: DeviceCheckContext,
+  examSession: ExamSession
+) {
+  if (examSession.status !== "active") return;
+
+  const cookieName = getDeviceCookieName(examSession.id);
+
+  if (!examSession.deviceTokenHash) {
+    const { token, tokenHash } = createDeviceToken();
+    const claimed = await ctx.context.adapter.updateMany({
+      model: "examSession",
+      where: [
+        { field: "id", value: examSession.id },
+        { field: "deviceTokenHash", value: null },
+      ],
+      update: { deviceTokenHash: tokenHash },
+    });
+
+    if (claimed > 0) {
+      ctx.setCookie(cookieName, token, DEVICE_COOKIE_OPTIONS);
+      return;
+    }
+  } else if (
+    isDeviceTokenValid(ctx.getCookie(cookieName), examSession.deviceTokenHash)
+  ) {
+    return;
+  }
+
+  throw new APIError("FORBIDDEN", {
+    message: "This exam is open on another device. Resume it here to continue.",
+    code: "RESUME_REQUIRED",
+  });
+}
 
-  const remainingTime = calculateRemainingTime(session, serverTime);
-  return remainingTime !== null && remainingTime <= 0;
+/**
+ * Reject changes to a question outside the open sections
+ */
+async function assertQuestionInOpenSection(
+  examSession: ExamSession,
+  questionId: string,
+  serverTime: Date
+) {
+  const progress = await syncSectionProgress(examSession, serverTime);
+  if (!progress) return;
+
+  const questionOrder: string[] = JSON.parse(examSession.questionOrder);
+  if (!isQuestionInOpenSection(progress, questionOrder.indexOf(questionId))) {
+    throw new APIError("FORBIDDEN", {
+      message: "This question is in a section that is not open",
+      code: "SECTION_CLOSED",
+    });
+  }
 }
 
 // ============================================
@@ -130,6 +311,7 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
   const maxSessions = options.maxConcurrentSessions ?? 1;
   const violationLimit = options.violationLimit ?? 10;
   const autoSubmit = options.autoSubmitOnViolationLimit ?? true;
+  const defaultViolationLimit = autoSubmit ? violationLimit : null;
   const rateLimitConfig = options.rateLimit || {
     window: 300, // 5 minutes
     max: 50,
@@ -169,8 +351,21 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
             required: false,
             defaultValue: false,
           },
+          allowAnswerChanges: {
+            type: "boolean",
+            required: false,
+            defaultValue: false,
+          },
           status: { type: "string", required: false, defaultValue: "active" },
+          gradingStatus: {
+            type: "string",
+            required: false,
+            defaultValue: "graded",
+          },
+          completionReason: { type: "string", required: false },
           score: { type: "number", required: false },
+          pointsEarned: { type: "number", required: false },
+          totalPoints: { type: "number", required: false },
           totalQuestions: { type: "number", required: true },
           answeredQuestions: {
             type: "number",
@@ -179,8 +374,19 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
           },
           violationCount: { type: "number", required: false, defaultValue: 0 },
           questionOrder: { type: "string", required: true },
+          flaggedQuestions: { type: "string", required: false },
+          sections: { type: "string", required: false },
+          deviceTokenHash: { type: "string", required: false },
           serverStartTime: { type: "date", required: true },
           serverEndTime: { type: "date", required: false },
+          proctoringStatus: {
+            type: "string",
+            required: false,
+            defaultValue: "unreviewed",
+          },
+          proctoringNote: { type: "string", required: false },
+          reviewedBy: { type: "string", required: false },
+          reviewedAt: { type: "date", required: false },
         },
       },
       examAnswer: {
@@ -200,6 +406,10 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
           isCorrect: { type: "boolean", required: false },
           timeSpent: { type: "number", required: true },
           answeredAt: { type: "date", required: true },
+          pointsAwarded: { type: "number", required: false },
+          feedback: { type: "string", required: false },
+          markedBy: { type: "string", required: false },
+          markedAt: { type: "date", required: false },
         },
       },
       examViolation: {
@@ -226,6 +436,7 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
           token: { type: "string", required: true, unique: true },
           expiresAt: { type: "date", required: false },
           usedAt: { type: "date", required: false },
+          revokedAt: { type: "date", required: false },
           createdBy: {
             type: "string",
             required: true,
@@ -307,7 +518,7 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
               });
             }
 
-            if (exam.status !== "published") {
+            if (exam.status !== "published" || exam.isAdaptive) {
               throw new APIError("FORBIDDEN", {
                 message: "Exam not published",
               });
@@ -367,6 +578,13 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
                   });
                 }
 
+                if (invitation.revokedAt) {
+                  throw new APIError("FORBIDDEN", {
+                    message: "Invitation has been revoked",
+                    code: "INVITATION_REVOKED",
+                  });
+                }
+
                 if (
                   invitation.expiresAt &&
                   new Date(invitation.expiresAt) < now
@@ -419,6 +637,13 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
                 });
               }
 
+              if (invitation.revokedAt) {
+                throw new APIError("FORBIDDEN", {
+                  message: "Challenge link has been revoked",
+                  code: "INVITATION_REVOKED",
+                });
+              }
+
               if (
                 invitation.expiresAt &&
                 new Date(invitation.expiresAt) < now
@@ -442,6 +667,10 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
                 shuffleQuestions: exam.shuffleQuestions,
                 randomizeOptions: exam.randomizeOptions,
                 category: exam.category,
+                antiCheatPolicy: resolveAntiCheatPolicy(
+                  exam,
+                  defaultViolationLimit
+                ),
               },
             });
           } catch (error) {
@@ -451,6 +680,7 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
                   success: false,
                   hasAccess: false,
                   message: error.message,
+                  code: error.body?.code,
                 },
                 { status: error.status as number }
               );
@@ -547,21 +777,43 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
             }
 
             // STEP 7: Determine question selection
+            const questionPools = parseQuestionPools(exam.questionPools);
             const totalAvailable = examQuestions.length;
             const configuredQuestions =
               body.configuredQuestions || totalAvailable;
-            const actualQuestions = Math.min(
-              configuredQuestions,
-              totalAvailable
-            );
+            let actualQuestions = Math.min(configuredQuestions, totalAvailable);
 
             // STEP 8: Generate question order
             let questionOrder: string[];
-            if (body.shuffleQuestions) {
+            if (questionPools.length > 0) {
+              // Every candidate draws their own paper with the same make-up
+              const poolQuestions =
+                await ctx.context.adapter.findMany<Question>({
+                  model: "question",
+                  where: [
+                    {
+                      field: "id",
+                      operator: "in",
+                      value: examQuestions.map((eq) => eq.questionId),
+                    },
+                  ],
+                });
+              const drawn = drawPoolQuestions(questionPools, poolQuestions);
+
+              if (!drawn) {
+                throw new APIError("BAD_REQUEST", {
+                  message: "This exam's question pools cannot be filled",
+                });
+              }
+
+              questionOrder = drawn.map((q) => q.id);
+              if (body.shuffleQuestions) {
+                questionOrder = shuffleArray(questionOrder);
+              }
+              actualQuestions = questionOrder.length;
+            } else if (body.shuffleQuestions) {
               // Shuffle and take the configured number
-              const shuffled = [...examQuestions].sort(
-                () => Math.random() - 0.5
-              );
+              const shuffled = shuffleArray(examQuestions);
               questionOrder = shuffled
                 .slice(0, actualQuestions)
                 .map((eq) => eq.questionId);
@@ -573,6 +825,31 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
                 .map((eq) => eq.questionId);
             }
 
+            // Sectioned exams serve their questions section by section
+            const examSections =
+              await ctx.context.adapter.findMany<ExamSection>({
+                model: "examSection",
+                where: [{ field: "examId", value: body.examId }],
+                sortBy: { field: "orderIndex", direction: "asc" },
+              });
+            const serverTime = new Date();
+            let sessionSections = null;
+
+            if (examSections.length > 0) {
+              const laidOut = buildSessionSections(
+                questionOrder,
+                examSections.map((section) => ({
+                  ...section,
+                  questionIds: examQuestions
+                    .filter((eq) => eq.sectionId === section.id)
+                    .map((eq) => eq.questionId),
+                })),
+                serverTime
+              );
+              questionOrder = laidOut.questionOrder;
+              sessionSections = laidOut.sections;
+            }
+
             // STEP 9: Mark invitation as used (if applicable)
             if (body.invitationToken) {
               const invitation =
@@ -584,6 +861,13 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
                   ],
                 });
 
+              if (invitation?.revokedAt) {
+                throw new APIError("FORBIDDEN", {
+                  message: "Invitation has been revoked",
+                  code: "INVITATION_REVOKED",
+                });
+              }
+
               if (invitation && !invitation.usedAt) {
                 await ctx.context.adapter.update({
                   model: "examInvitation",
@@ -596,11 +880,16 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
               }
             }
 
-            // STEP 10: Create exam session with SERVER-SIDE TIMING
-            const serverTime = new Date();
+            // STEP 10: Create exam session with SERVER-SIDE TIMING, bound
+            // to this device
             const sessionId = ctx.context.generateId({ model: "examSession" });
+            const { token: deviceToken, tokenHash: deviceTokenHash } =
+              createDeviceToken();
 
-            await ctx.context.adapter.create({
+            const created = await ctx.context.adapter.create<
+              Record<string, unknown>,
+              ExamSession
+            >({
               model: "examSession",
               data: {
                 id: sessionId,
@@ -613,19 +902,30 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
                 configuredQuestions: actualQuestions,
                 shuffleQuestions: body.shuffleQuestions,
                 shuffleOptions: body.shuffleOptions,
+                allowAnswerChanges: allowsAnswerChanges(exam),
                 status: "active",
                 totalQuestions: actualQuestions,
                 answeredQuestions: 0,
                 violationCount: 0,
                 questionOrder: JSON.stringify(questionOrder),
+                sections: sessionSections
+                  ? JSON.stringify(sessionSections)
+                  : null,
+                deviceTokenHash,
                 createdAt: serverTime,
                 updatedAt: serverTime,
               },
             });
 
+            ctx.setCookie(
+              getDeviceCookieName(created.id),
+              deviceToken,
+              DEVICE_COOKIE_OPTIONS
+            );
+
             // STEP 11: Return session with server time
             return ctx.json({
-              sessionId,
+              sessionId: created.id,
               examId: body.examId,
               totalQuestions: actualQuestions,
               timeLimit: body.timeLimit,
@@ -635,7 +935,11 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
           } catch (error) {
             if (error instanceof APIError) {
               return ctx.json(
-                { success: false, message: error.message },
+                {
+                  success: false,
+                  message: error.message,
+                  code: error.body?.code,
+                },
                 { status: error.status as number }
               );
             }
@@ -691,27 +995,7 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
 
             // Auto-complete if time expired
             if (isExpired && examSession.status === "active") {
-              const answers = await ctx.context.adapter.findMany<ExamAnswer>({
-                model: "examAnswer",
-                where: [{ field: "sessionId", value: body.sessionId }],
-              });
-
-              const correctAnswers = answers.filter(
-                (a) => a.isCorrect === true
-              ).length;
-              const score = (correctAnswers / examSession.totalQuestions) * 100;
-
-              await ctx.context.adapter.update({
-                model: "examSession",
-                where: [{ field: "id", value: body.sessionId }],
-                update: {
-                  status: "completed",
-                  completedAt: serverTime,
-                  serverEndTime: serverTime,
-                  score,
-                  updatedAt: serverTime,
-                },
-              });
+              await finalizeExpiredSession(examSession, serverTime);
 
               return ctx.json({
                 status: "expired",
@@ -779,6 +1063,8 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
               throw new APIError("FORBIDDEN", { message: "Invalid session" });
             }
 
+            await assertSessionDevice(ctx, examSession);
+
             if (examSession.status !== "active") {
               throw new APIError("FORBIDDEN", {
                 message: "Session not active",
@@ -793,6 +1079,12 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
               });
             }
 
+            await assertQuestionInOpenSection(
+              examSession,
+              body.answer.questionId,
+              serverTime
+            );
+
             // Check if already answered
             const existingAnswer =
               await ctx.context.adapter.findOne<ExamAnswer>({
@@ -803,7 +1095,7 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
                 ],
               });
 
-            if (existingAnswer) {
+            if (existingAnswer && !examSession.allowAnswerChanges) {
               throw new APIError("BAD_REQUEST", {
                 message: "Question already answered",
               });
@@ -817,45 +1109,76 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
 
             let isCorrect: boolean | null = null;
 
-            if (question && body.answer.selectedOptionId) {
-              const option = await ctx.context.adapter.findOne<QuestionOption>({
-                model: "questionOption",
-                where: [
-                  { field: "id", value: body.answer.selectedOptionId },
-                  { field: "questionId", value: body.answer.questionId },
-                ],
-              });
+            if (question) {
+              const options =
+                await ctx.context.adapter.findMany<QuestionOption>({
+                  model: "questionOption",
+                  where: [{ field: "questionId", value: question.id }],
+                });
 
-              if (option) {
-                isCorrect = option.isCorrect;
-              }
+              // Only fill-in-blank answers are compared against option text
+              const isTextAnswer = question.questionType === "fill_in_blank";
+
+              isCorrect = gradeAnswer(
+                {
+                  questionType: question.questionType,
+                  answerRules: question.answerRules,
+                  options: options.map((opt) => ({
+                    id: opt.id,
+                    isCorrect: opt.isCorrect,
+                    optionText: isTextAnswer
+                      ? decrypt(JSON.parse(opt.optionText) as EncryptedData)
+                      : "",
+                  })),
+                },
+                body.answer
+              );
             }
 
-            // Create answer record
-            const answerId = ctx.context.generateId({ model: "examAnswer" });
             const now = new Date();
 
-            await ctx.context.adapter.create({
-              model: "examAnswer",
-              data: {
-                id: answerId,
-                sessionId: body.sessionId,
-                questionId: body.answer.questionId,
-                selectedOptionId: body.answer.selectedOptionId,
-                textAnswer: body.answer.textAnswer,
-                isCorrect,
-                timeSpent: body.answer.timeSpent,
-                answeredAt: now,
-                createdAt: now,
-              },
-            });
+            if (existingAnswer) {
+              // Replace the answer, accumulating time spent on the question
+              await ctx.context.adapter.update({
+                model: "examAnswer",
+                where: [{ field: "id", value: existingAnswer.id }],
+                update: {
+                  selectedOptionId: body.answer.selectedOptionId,
+                  textAnswer: body.answer.textAnswer ?? null,
+                  isCorrect,
+                  timeSpent: existingAnswer.timeSpent + body.answer.timeSpent,
+                  answeredAt: now,
+                },
+              });
+            } else {
+              // Create answer record
+              const answerId = ctx.context.generateId({ model: "examAnswer" });
+
+              await ctx.context.adapter.create({
+                model: "examAnswer",
+                data: {
+                  id: answerId,
+                  sessionId: body.sessionId,
+                  questionId: body.answer.questionId,
+                  selectedOptionId: body.answer.selectedOptionId,
+                  textAnswer: body.answer.textAnswer,
+                  isCorrect,
+                  timeSpent: body.answer.timeSpent,
+                  answeredAt: now,
+                  createdAt: now,
+                },
+              });
+            }
 
             // Update session
             await ctx.context.adapter.update({
               model: "examSession",
               where: [{ field: "id", value: body.sessionId }],
               update: {
-                answeredQuestions: examSession.answeredQuestions + 1,
+                answeredQuestions: await countAnswers(
+                  ctx.context.adapter,
+                  body.sessionId
+                ),
                 updatedAt: now,
               },
             });
@@ -877,7 +1200,11 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
           } catch (error) {
             if (error instanceof APIError) {
               return ctx.json(
-                { success: false, message: error.message },
+                {
+                  success: false,
+                  message: error.message,
+                  code: error.body?.code,
+                },
                 { status: error.status as number }
               );
             }
@@ -892,10 +1219,10 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
       ),
 
       // ============================================
-      // COMPLETE EXAM
+      // CLEAR ANSWER
       // ============================================
-      completeExam: createAuthEndpoint(
-        "/exam-session/complete",
+      clearAnswer: createAuthEndpoint(
+        "/exam-session/clear-answer",
         {
           method: "POST",
           use: [sessionMiddleware],
@@ -911,6 +1238,7 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
 
             const bodySchema = z.object({
               sessionId: z.string().cuid(),
+              questionId: z.string().cuid(),
             });
             const body = bodySchema.parse(await ctx.body);
 
@@ -923,52 +1251,72 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
               throw new APIError("FORBIDDEN", { message: "Invalid session" });
             }
 
+            await assertSessionDevice(ctx, examSession);
+
             if (examSession.status !== "active") {
+              throw new APIError("FORBIDDEN", {
+                message: "Session not active",
+              });
+            }
+
+            const serverTime = new Date();
+            if (isSessionExpired(examSession, serverTime)) {
+              throw new APIError("FORBIDDEN", {
+                message: "Exam time expired",
+              });
+            }
+
+            if (!examSession.allowAnswerChanges) {
               throw new APIError("BAD_REQUEST", {
-                message: "Session already completed",
+                message: "Answers cannot be changed in this exam",
               });
             }
 
-            const answers = await ctx.context.adapter.findMany<ExamAnswer>({
+            await assertQuestionInOpenSection(
+              examSession,
+              body.questionId,
+              serverTime
+            );
+
+            await ctx.context.adapter.deleteMany({
               model: "examAnswer",
-              where: [{ field: "sessionId", value: body.sessionId }],
+              where: [
+                { field: "sessionId", value: body.sessionId },
+                { field: "questionId", value: body.questionId },
+              ],
             });
 
-            const correctAnswers = answers.filter(
-              (a) => a.isCorrect === true
-            ).length;
-            const score = (correctAnswers / examSession.totalQuestions) * 100;
-
-            const now = new Date();
+            const answeredQuestions = await countAnswers(
+              ctx.context.adapter,
+              body.sessionId
+            );
 
             await ctx.context.adapter.update({
               model: "examSession",
               where: [{ field: "id", value: body.sessionId }],
               update: {
-                status: "completed",
-                completedAt: now,
-                serverEndTime: now, // Server-controlled end time
-                score,
-                updatedAt: now,
+                answeredQuestions,
+                updatedAt: serverTime,
               },
             });
 
             return ctx.json({
-              sessionId: body.sessionId,
-              score,
-              correctAnswers,
-              totalQuestions: examSession.totalQuestions,
-              completedAt: now.toISOString(),
+              success: true,
+              answeredQuestions,
             });
           } catch (error) {
             if (error instanceof APIError) {
               return ctx.json(
-                { success: false, message: error.message },
+                {
+                  success: false,
+                  message: error.message,
+                  code: error.body?.code,
+                },
                 { status: error.status as number }
               );
             }
 
-            console.error("Complete exam error:", error);
+            console.error("Clear answer error:", error);
             return ctx.json(
               { success: false, message: "Internal server error" },
               { status: 500 }
@@ -978,10 +1326,10 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
       ),
 
       // ============================================
-      // TRACK VIOLATION
+      // FLAG QUESTION
       // ============================================
-      trackViolation: createAuthEndpoint(
-        "/exam-session/track-violation",
+      flagQuestion: createAuthEndpoint(
+        "/exam-session/flag",
         {
           method: "POST",
           use: [sessionMiddleware],
@@ -997,7 +1345,8 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
 
             const bodySchema = z.object({
               sessionId: z.string().cuid(),
-              violation: violationSchema,
+              questionId: z.string().cuid(),
+              flagged: z.boolean(),
             });
             const body = bodySchema.parse(await ctx.body);
 
@@ -1010,82 +1359,840 @@ export const examPlugin = (options: ExamPluginOptions): BetterAuthPlugin => {
               throw new APIError("FORBIDDEN", { message: "Invalid session" });
             }
 
+            await assertSessionDevice(ctx, examSession);
+
             if (examSession.status !== "active") {
-              return ctx.json({ recorded: false });
+              throw new APIError("FORBIDDEN", {
+                message: "Session not active",
+              });
             }
 
-            // Create violation record
-            const violationId = ctx.context.generateId({
-              model: "examViolation",
-            });
-            const now = new Date();
+            const serverTime = new Date();
+            if (isSessionExpired(examSession, serverTime)) {
+              throw new APIError("FORBIDDEN", {
+                message: "Exam time expired",
+              });
+            }
 
-            await ctx.context.adapter.create({
-              model: "examViolation",
-              data: {
-                id: violationId,
-                sessionId: body.sessionId,
-                type: body.violation.type,
-                timestamp: new Date(body.violation.timestamp),
-                metadata: body.violation.metadata
-                  ? JSON.stringify(body.violation.metadata)
-                  : null,
-                createdAt: now,
-              },
-            });
+            if (!REVIEW_CATEGORIES.includes(examSession.examType)) {
+              throw new APIError("BAD_REQUEST", {
+                message: "Questions cannot be flagged in this exam",
+              });
+            }
 
-            const newViolationCount = examSession.violationCount + 1;
+            const questionOrder: string[] = JSON.parse(
+              examSession.questionOrder
+            );
+            if (!questionOrder.includes(body.questionId)) {
+              throw new APIError("NOT_FOUND", {
+                message: "Question not found",
+              });
+            }
+
+            await assertQuestionInOpenSection(
+              examSession,
+              body.questionId,
+              serverTime
+            );
+
+            const flagged = new Set(
+              parseFlaggedQuestions(examSession.flaggedQuestions)
+            );
+            if (body.flagged) {
+              flagged.add(body.questionId);
+            } else {
+              flagged.delete(body.questionId);
+            }
 
             await ctx.context.adapter.update({
               model: "examSession",
               where: [{ field: "id", value: body.sessionId }],
               update: {
-                violationCount: newViolationCount,
-                updatedAt: now,
+                flaggedQuestions: JSON.stringify(Array.from(flagged)),
+                updatedAt: serverTime,
               },
             });
 
-            // Auto-submit if violation limit reached
-            let autoSubmitted = false;
-            if (autoSubmit && newViolationCount >= violationLimit) {
-              const answers = await ctx.context.adapter.findMany<ExamAnswer>({
-                model: "examAnswer",
-                where: [{ field: "sessionId", value: body.sessionId }],
-              });
-
-              const correctAnswers = answers.filter(
-                (a) => a.isCorrect === true
-              ).length;
-              const score = (correctAnswers / examSession.totalQuestions) * 100;
-
-              await ctx.context.adapter.update({
-                model: "examSession",
-                where: [{ field: "id", value: body.sessionId }],
-                update: {
-                  status: "completed",
-                  completedAt: now,
-                  serverEndTime: now,
-                  score,
-                  updatedAt: now,
-                },
-              });
-              autoSubmitted = true;
-            }
-
             return ctx.json({
-              recorded: true,
-              violationCount: newViolationCount,
-              autoSubmitted,
+              success: true,
+              questionId: body.questionId,
+              flagged: body.flagged,
+              flaggedCount: flagged.size,
             });
           } catch (error) {
             if (error instanceof APIError) {
               return ctx.json(
-                { success: false, message: error.message },
+                {
+                  success: false,
+                  message: error.message,
+                  code: error.body?.code,
+                },
                 { status: error.status as number }
               );
             }
 
-            console.error("Track violation error:", error);
+            console.error("Flag question error:", error);
+            return ctx.json(
+              { success: false, message: "Internal server error" },
+              { status: 500 }
+            );
+          }
+        }
+      ),
+
+      // ============================================
+      // REVIEW SUMMARY
+      // ============================================
+      getReviewSummary: createAuthEndpoint(
+        "/exam-session/review",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          try {
+            const session = ctx.context.session;
+            if (!session) {
+              throw new APIError("UNAUTHORIZED", {
+                message: "Authentication required",
+              });
+            }
+
+            const bodySchema = z.object({
+              sessionId: z.string().cuid(),
+            });
+            const body = bodySchema.parse(await ctx.body);
+
+            const examSession = await ctx.context.adapter.findOne<ExamSession>({
+              model: "examSession",
+              where: [{ field: "id", value: body.sessionId }],
+            });
+
+            if (!examSession || examSession.userId !== session.user.id) {
+              throw new APIError("FORBIDDEN", { message: "Invalid session" });
+            }
+
+            await assertSessionDevice(ctx, examSession);
+
+            const answers = await ctx.context.adapter.findMany<ExamAnswer>({
+              model: "examAnswer",
+              where: [{ field: "sessionId", value: body.sessionId }],
+            });
+
+            return ctx.json({
+              success: true,
+              ...buildSessionReview(
+                JSON.parse(examSession.questionOrder),
+                answers.map((a) => a.questionId),
+                parseFlaggedQuestions(examSession.flaggedQuestions)
+              ),
+            });
+          } catch (error) {
+            if (error instanceof APIError) {
+              return ctx.json(
+                {
+                  success: false,
+                  message: error.message,
+                  code: error.body?.code,
+                },
+                { status: error.status as number }
+              );
+            }
+
+            console.error("Review summary error:", error);
+            return ctx.json(
+              { success: false, message: "Internal server error" },
+              { status: 500 }
+            );
+          }
+        }
+      ),
+
+      // ============================================
+      // COMPLETE EXAM
+      // ============================================
+      completeExam: createAuthEndpoint(
+        "/exam-session/complete",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          try {
+            const session = ctx.context.session;
+            if (!session) {
+              throw new APIError("UNAUTHORIZED", {
+                message: "Authentication required",
+              });
+            }
+
+            const bodySchema = z.object({
+              sessionId: z.string().cuid(),
+            });
+            const body = bodySchema.parse(await ctx.body);
+
+            const examSession = await ctx.context.adapter.findOne<ExamSession>({
+              model: "examSession",
+              where: [{ field: "id", value: body.sessionId }],
+            });
+
+            if (!examSession || examSession.userId !== session.user.id) {
+              throw new APIError("FORBIDDEN", { message: "Invalid session" });
+            }
+
+            await assertSessionDevice(ctx, examSession);
+
+            if (examSession.status !== "active") {
+              throw new APIError("BAD_REQUEST", {
+                message: "Session already completed",
+              });
+            }
+
+            const answers = await ctx.context.adapter.findMany<ExamAnswer>({
+              model: "examAnswer",
+              where: [{ field: "sessionId", value: body.sessionId }],
+            });
+
+            const {
+              score,
+              pointsEarned,
+              totalPoints,
+              correctAnswers,
+              gradingStatus,
+            } = await scoreExamSession(
+              ctx.context.adapter,
+              examSession,
+              answers
+            );
+
+            const now = new Date();
+
+            await ctx.context.adapter.update({
+              model: "examSession",
+              where: [{ field: "id", value: body.sessionId }],
+              update: {
+                status: "completed",
+                completionReason: "submitted",
+                completedAt: now,
+                serverEndTime: now, // Server-controlled end time
+                gradingStatus,
+                score,
+                pointsEarned,
+                totalPoints,
+                updatedAt: now,
+              },
+            });
+
+            // Scores stay hidden until the exam creator releases results
+            const exam = await ctx.context.adapter.findOne<Exam>({
+              model: "exam",
+              where: [{ field: "id", value: examSession.examId }],
+            });
+            const resultsReleased = exam ? areResultsReleased(exam, now) : true;
+
+            return ctx.json({
+              sessionId: body.sessionId,
+              resultsReleased,
+              ...(resultsReleased
+                ? { score, pointsEarned, totalPoints, correctAnswers }
+                : {}),
+              totalQuestions: examSession.totalQuestions,
+              completedAt: now.toISOString(),
+              gradingStatus,
+            });
+          } catch (error) {
+            if (error instanceof APIError) {
+              return ctx.json(
+                {
+                  success: false,
+                  message: error.message,
+                  code: error.body?.code,
+                },
+                { status: error.status as number }
+              );
+            }
+
+            console.error("Complete exam error:", error);
+            return ctx.json(
+              { success: false, message: "Internal server error" },
+              { status: 500 }
+            );
+          }
+        }
+      ),
+
+      // ============================================
+      // TRACK VIOLATION
+      // ============================================
+      trackViolation: createAuthEndpoint(
+        "/exam-session/track-violation",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          try {
+            const session = ctx.context.session;
+            if (!session) {
+              throw new APIError("UNAUTHORIZED", {
+                message: "Authentication required",
+              });
+            }
+
+            const bodySchema = z.object({
+              sessionId: z.string().cuid(),
+              violation: violationSchema,
+            });
+            const body = bodySchema.parse(await ctx.body);
+
+            const examSession = await ctx.context.adapter.findOne<ExamSession>({
+              model: "examSession",
+              where: [{ field: "id", value: body.sessionId }],
+            });
+
+            if (!examSession || examSession.userId !== session.user.id) {
+              throw new APIError("FORBIDDEN", { message: "Invalid session" });
+            }
+
+            await assertSessionDevice(ctx, examSession);
+
+            if (examSession.status !== "active") {
+              return ctx.json({ recorded: false });
+            }
+
+            // Only the violation types the exam monitors are recorded
+            const exam = await ctx.context.adapter.findOne<Exam>({
+              model: "exam",
+              where: [{ field: "id", value: examSession.examId }],
+            });
+            const policy = resolveAntiCheatPolicy(
+              exam ?? { category: "practice" },
+              defaultViolationLimit
+            );
+
+            if (!policy.monitoredViolations.includes(body.violation.type)) {
+              return ctx.json({ recorded: false });
+            }
+
+            const previousViolations = await ctx.context.adapter.findMany<{
+              type: string;
+            }>({
+              model: "examViolation",
+              where: [{ field: "sessionId", value: body.sessionId }],
+            });
+
+            // Create violation record
+            const violationId = ctx.context.generateId({
+              model: "examViolation",
+            });
+            const now = new Date();
+
+            await ctx.context.adapter.create({
+              model: "examViolation",
+              data: {
+                id: violationId,
+                sessionId: body.sessionId,
+                type: body.violation.type,
+                timestamp: new Date(body.violation.timestamp),
+                metadata: body.violation.metadata
+                  ? JSON.stringify(body.violation.metadata)
+                  : null,
+                createdAt: now,
+              },
+            });
+
+            const newViolationCount = examSession.violationCount + 1;
+            const violationScore = calculateViolationScore(policy, [
+              ...previousViolations.map((v) => v.type),
+              body.violation.type,
+            ]);
+
+            await ctx.context.adapter.update({
+              model: "examSession",
+              where: [{ field: "id", value: body.sessionId }],
+              update: {
+                violationCount: newViolationCount,
+                updatedAt: now,
+              },
+            });
+
+            // Auto-submit once the weighted score reaches the threshold
+            let autoSubmitted = false;
+            if (
+              policy.autoSubmitThreshold !== null &&
+              violationScore >= policy.autoSubmitThreshold
+            ) {
+              const answers = await ctx.context.adapter.findMany<ExamAnswer>({
+                model: "examAnswer",
+                where: [{ field: "sessionId", value: body.sessionId }],
+              });
+
+              const { score, pointsEarned, totalPoints, gradingStatus } =
+                await scoreExamSession(
+                  ctx.context.adapter,
+                  examSession,
+                  answers
+                );
+
+              await ctx.context.adapter.update({
+                model: "examSession",
+                where: [{ field: "id", value: body.sessionId }],
+                update: {
+                  status: "completed",
+                  completionReason: "violation_limit",
+                  completedAt: now,
+                  serverEndTime: now,
+                  gradingStatus,
+                  score,
+                  pointsEarned,
+                  totalPoints,
+                  updatedAt: now,
+                },
+              });
+              autoSubmitted = true;
+            }
+
+            return ctx.json({
+              recorded: true,
+              violationCount: newViolationCount,
+              violationScore,
+              warning:
+                policy.warningThreshold !== null &&
+                violationScore >= policy.warningThreshold,
+              autoSubmitted,
+            });
+          } catch (error) {
+            if (error instanceof APIError) {
+              return ctx.json(
+                {
+                  success: false,
+                  message: error.message,
+                  code: error.body?.code,
+                },
+                { status: error.status as number }
+              );
+            }
+
+            console.error("Track violation error:", error);
+            return ctx.json(
+              { success: false, message: "Internal server error" },
+              { status: 500 }
+            );
+          }
+        }
+      ),
+
+      // ============================================
+      // LEADERBOARD (challenge exams)
+      // ============================================
+      getLeaderboard: createAuthEndpoint(
+        "/exam-session/leaderboard",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          try {
+            // STEP 1: Validate session
+            const session = ctx.context.session;
+            if (!session) {
+              throw new APIError("UNAUTHORIZED", {
+                message: "Authentication required",
+              });
+            }
+
+            // STEP 2: Parse request body
+            const bodySchema = z.object({
+              examId: examIdSchema,
+            });
+            const body = bodySchema.parse(await ctx.body);
+
+            // STEP 3: Fetch exam
+            const exam = await ctx.context.adapter.findOne<Exam>({
+              model: "exam",
+              where: [{ field: "id", value: body.examId }],
+            });
+
+            if (
+              !exam ||
+              exam.deletedAt ||
+              !LEADERBOARD_CATEGORIES.includes(exam.category || "")
+            ) {
+              throw new APIError("NOT_FOUND", {
+                message: "This exam has no leaderboard",
+              });
+            }
+
+            // STEP 4: Only participants can see who else took part
+            const attempts = await ctx.context.adapter.count({
+              model: "examSession",
+              where: [
+                { field: "examId", value: exam.id },
+                { field: "userId", value: session.user.id },
+              ],
+            });
+
+            if (attempts === 0) {
+              throw new APIError("FORBIDDEN", {
+                message: "Only participants can view this leaderboard",
+              });
+            }
+
+            // STEP 5: Rank, hiding scores until the release time
+            const ranked = await loadRankedParticipants(
+              ctx.context.adapter,
+              exam.id
+            );
+            const released = areResultsReleased(exam);
+            const visible = released ? ranked.slice(0, LEADERBOARD_SIZE) : [];
+            const names = await loadParticipantNames(
+              ctx.context.adapter,
+              visible.map((p) => p.userId)
+            );
+
+            return ctx.json({
+              success: true,
+              examId: exam.id,
+              released,
+              releaseAt: exam.resultsReleaseAt,
+              totalParticipants: ranked.length,
+              currentUserRank: released
+                ? ranked.find((p) => p.userId === session.user.id)?.rank
+                : undefined,
+              entries: visible.map((p) => ({
+                rank: p.rank,
+                participantName: names.get(p.userId) || "Unknown",
+                score: p.score,
+                timeTaken: p.timeTaken,
+                completedAt: p.completedAt,
+                isCurrentUser: p.userId === session.user.id,
+              })),
+            });
+          } catch (error) {
+            if (error instanceof APIError) {
+              return ctx.json(
+                { success: false, message: error.message },
+                { status: error.status as number }
+              );
+            }
+
+            console.error("Leaderboard error:", error);
+            return ctx.json(
+              { success: false, message: "Internal server error" },
+              { status: 500 }
+            );
+          }
+        }
+      ),
+
+      // ============================================
+      // LIVE PROGRESS (challenge exams, polled)
+      // ============================================
+      getLiveProgress: createAuthEndpoint(
+        "/exam-session/live-progress",
+        {
+          method: "POST",
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          try {
+            // STEP 1: Validate session
+            const session = ctx.context.session;
+            if (!session) {
+              throw new APIError("UNAUTHORIZED", {
+                message: "Authentication required",
+              });
+            }
+
+            // STEP 2: Parse request body
+            const bodySchema = z.object({
+              sessionId: z.string().cuid(),
+            });
+            const body = bodySchema.parse(await ctx.body);
+
+            // STEP 3: Verify the caller takes part in the challenge
+            const examSession = await ctx.context.adapter.findOne<ExamSession>({
+              model: "examSession",
+              where: [{ field: "id", value: body.sessionId }],
+            });
+
+            if (!examSession || examSession.userId !== session.user.id) {
+              throw new APIError("FORBIDDEN", { message: "Invalid session" });
+            }
+
+            if (!LEADERBOARD_CATEGORIES.includes(examSession.examType)) {
+              throw new APIError("BAD_REQUEST", {
+                message: "Live progress is only available for challenges",
+              });
+            }
+
+            // STEP 4: Progress of everyone still in the exam (no scores)
+            const [activeSessions, completedSessions] = await Promise.all([
+              ctx.context.adapter.findMany<ExamSession>({
+                model: "examSession",
+                where: [
+                  { field: "examId", value: examSession.examId },
+                  { field: "status", value: "active" },
+                ],
+                sortBy: { field: "answeredQuestions", direction: "desc" },
+                limit: LEADERBOARD_SIZE,
+              }),
+              ctx.context.adapter.findMany<ExamSession>({
+                model: "examSession",
+                where: [
+                  { field: "examId", value: examSession.examId },
+                  { field: "status", value: "completed" },
+                ],
+              }),
+            ]);
+
+            const names = await loadParticipantNames(
+              ctx.context.adapter,
+              activeSessions.map((s) => s.userId)
+            );
+
+            return ctx.json({
+              success: true,
+              examId: examSession.examId,
+              activeParticipants: activeSessions.map((s) => ({
+                participantName: names.get(s.userId) || "Unknown",
+                answeredQuestions: s.answeredQuestions,
+                totalQuestions: s.totalQuestions,
+                isCurrentUser: s.userId === session.user.id,
+              })),
+              completedParticipants: new Set(
+                completedSessions.map((s) => s.userId)
+              ).size,
+              serverTime: new Date().toISOString(),
+            });
+          } catch (error) {
+            if (error instanceof APIError) {
+              return ctx.json(
+                { success: false, message: error.message },
+                { status: error.status as number }
+              );
+            }
+
+            console.error("Live progress error:", error);
+            return ctx.json(
+              { success: false, message: "Internal server error" },
+              { status: 500 }
+            );
+          }
+        }
+      ),
+
+      // ============================================
+      // RELEASE SCHEDULED RESULTS (scheduled job)
+      // ============================================
+      // Run from a scheduler alongside sweep-expired:
+      // POST /api/v1/auth/exam-session/release-results with the
+      // x-exam-api-key header. Scores are visible from the release time
+      // either way; this marks the exams released and emails candidates.
+      releaseScheduledResults: createAuthEndpoint(
+        "/exam-session/release-results",
+        {
+          method: "POST",
+        },
+        async (ctx) => {
+          try {
+            // STEP 1: Validate API key (no user session for scheduled jobs)
+            const apiKey = ctx.headers?.get(API_KEY_HEADER);
+            if (!apiKey || apiKey !== options.apiKey) {
+              throw new APIError("UNAUTHORIZED", {
+                message: "Invalid API key",
+              });
+            }
+
+            // STEP 2: Find scheduled exams past their release time
+            const serverTime = new Date();
+            const dueExams = await ctx.context.adapter.findMany<Exam>({
+              model: "exam",
+              where: [
+                { field: "resultReleaseMode", value: "scheduled" },
+                { field: "resultsReleasedAt", value: null },
+                {
+                  field: "resultsReleaseAt",
+                  operator: "lte",
+                  value: serverTime,
+                },
+              ],
+            });
+
+            // STEP 3: Mark each released, then email its candidates
+            let released = 0;
+            let emailsSent = 0;
+
+            for (const exam of dueExams) {
+              // Guard on resultsReleasedAt so candidates are emailed once
+              const updated = await ctx.context.adapter.updateMany({
+                model: "exam",
+                where: [
+                  { field: "id", value: exam.id },
+                  { field: "resultsReleasedAt", value: null },
+                ],
+                update: { resultsReleasedAt: serverTime },
+              });
+              if (updated === 0) continue;
+              released++;
+
+              const sessions = await ctx.context.adapter.findMany<ExamSession>({
+                model: "examSession",
+                where: [
+                  { field: "examId", value: exam.id },
+                  {
+                    field: "status",
+                    operator: "in",
+                    value: ["completed", "expired"],
+                  },
+                ],
+                sortBy: { field: "startedAt", direction: "desc" },
+              });
+
+              // Link each candidate to their most recent session
+              const latestByUser = new Map<string, string>();
+              for (const examSession of sessions) {
+                if (!latestByUser.has(examSession.userId)) {
+                  latestByUser.set(examSession.userId, examSession.id);
+                }
+              }
+
+              const users =
+                latestByUser.size > 0
+                  ? await ctx.context.adapter.findMany<User>({
+                      model: "user",
+                      where: [
+                        {
+                          field: "id",
+                          operator: "in",
+                          value: [...latestByUser.keys()],
+                        },
+                      ],
+                    })
+                  : [];
+
+              emailsSent += await sendExamResultsReleasedEmails(
+                exam,
+                users.map((user) => ({
+                  email: user.email,
+                  name: user.name,
+                  sessionId: latestByUser.get(user.id)!,
+                }))
+              );
+            }
+
+            return ctx.json({
+              success: true,
+              scanned: dueExams.length,
+              released,
+              emailsSent,
+              releasedAt: serverTime.toISOString(),
+            });
+          } catch (error) {
+            if (error instanceof APIError) {
+              return ctx.json(
+                { success: false, message: error.message },
+                { status: error.status as number }
+              );
+            }
+
+            console.error("Release scheduled results error:", error);
+            return ctx.json(
+              { success: false, message: "Internal server error" },
+              { status: 500 }
+            );
+          }
+        }
+      ),
+
+      // ============================================
+      // SWEEP EXPIRED SESSIONS (scheduled job)
+      // ============================================
+      // Run from a scheduler every minute or so:
+      // POST /api/v1/auth/exam-session/sweep-expired with the x-exam-api-key
+      // header. Candidates who close the browser still get a score.
+      sweepExpiredSessions: createAuthEndpoint(
+        "/exam-session/sweep-expired",
+        {
+          method: "POST",
+        },
+        async (ctx) => {
+          try {
+            // STEP 1: Validate API key (no user session for scheduled jobs)
+            const apiKey = ctx.headers?.get(API_KEY_HEADER);
+            if (!apiKey || apiKey !== options.apiKey) {
+              throw new APIError("UNAUTHORIZED", {
+                message: "Invalid API key",
+              });
+            }
+
+            // STEP 2: Parse request body
+            const bodySchema = z.object({
+              // Most sessions finalized per run
+              limit: z.number().int().min(1).max(500).default(100),
+            });
+            const body = bodySchema.parse((await ctx.body) ?? {});
+
+            // STEP 3: Page through active timed sessions, oldest first,
+            // grading each expired one with the answers it has. The deadline
+            // depends on each session's time limit, so it is checked per row;
+            // finalized sessions leave the active set, so the offset only
+            // advances past the ones still running.
+            const serverTime = new Date();
+            let scanned = 0;
+            let completed = 0;
+            let expired = 0;
+            let offset = 0;
+
+            while (completed + expired < body.limit) {
+              const page = await ctx.context.adapter.findMany<ExamSession>({
+                model: "examSession",
+                where: [
+                  { field: "status", value: "active" },
+                  { field: "timeLimit", operator: "gt", value: 0 },
+                ],
+                sortBy: { field: "startedAt", direction: "asc" },
+                limit: SWEEP_PAGE_SIZE,
+                offset,
+              });
+              scanned += page.length;
+
+              for (const examSession of page) {
+                if (completed + expired >= body.limit) break;
+
+                if (!isSessionExpired(examSession, serverTime)) {
+                  offset++;
+                  continue;
+                }
+
+                const status = await finalizeExpiredSession(
+                  examSession,
+                  serverTime
+                );
+
+                if (status === "completed") completed++;
+                if (status === "expired") expired++;
+              }
+
+              if (page.length < SWEEP_PAGE_SIZE) break;
+            }
+
+            return ctx.json({
+              success: true,
+              scanned,
+              completed,
+              expired,
+              sweptAt: serverTime.toISOString(),
+            });
+          } catch (error) {
+            if (error instanceof APIError) {
+              return ctx.json(
+                { success: false, message: error.message },
+                { status: error.status as number }
+              );
+            }
+
+            console.error("Sweep expired sessions error:", error);
             return ctx.json(
               { success: false, message: "Internal server error" },
               { status: 500 }
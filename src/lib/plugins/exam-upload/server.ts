@@ -20,6 +20,7 @@ import type { BetterAuthPlugin } from "better-auth";
 import { createAuthEndpoint } from "better-auth/api";
 import { APIError } from "better-auth/api";
 import prisma from "@/lib/prisma";
+import { drawPoolQuestions } from "@/lib/utils/exam-blueprint";
 import {
   validateExamUpload,
   formatValidationErrors,
@@ -184,6 +185,9 @@ export const examUploadPlugin = (
               },
               select: {
                 id: true,
+                subject: true,
+                tags: true,
+                difficultyLevel: true,
                 questionPoint: true,
               },
             });
@@ -195,6 +199,16 @@ export const examUploadPlugin = (
               });
             }
 
+            if (
+              validatedData.question_pools &&
+              !drawPoolQuestions(validatedData.question_pools, questions)
+            ) {
+              throw new APIError("BAD_REQUEST", {
+                message: "The selected questions cannot fill every pool",
+                code: "VALIDATION_ERROR",
+              });
+            }
+
             // ============================================
             // STEP 7: CREATE EXAM IN TRANSACTION
             // ============================================
@@ -212,6 +226,7 @@ export const examUploadPlugin = (
                   maxAttempts: validatedData.max_attempts || null,
                   shuffleQuestions: validatedData.shuffle_questions,
                   randomizeOptions: validatedData.randomize_options,
+                  allowAnswerChanges: validatedData.allow_answer_changes,
                   isPublic: validatedData.is_public,
                   isFree: validatedData.is_free,
                   status: validatedData.status,
@@ -222,18 +237,59 @@ export const examUploadPlugin = (
                   endDate: validatedData.end_date
                     ? new Date(validatedData.end_date)
                     : null,
+                  resultReleaseMode: validatedData.result_release_mode,
+                  resultsReleaseAt:
+                    validatedData.result_release_mode === "scheduled" &&
+                    validatedData.results_release_at
+                      ? new Date(validatedData.results_release_at)
+                      : null,
+                  antiCheatPolicy: validatedData.anti_cheat_policy
+                    ? JSON.stringify(validatedData.anti_cheat_policy)
+                    : null,
+                  questionPools: validatedData.question_pools
+                    ? JSON.stringify(validatedData.question_pools)
+                    : null,
                   createdBy: session.user.id,
                 },
               });
 
-              // Create exam questions with order
-              await tx.examQuestion.createMany({
-                data: validatedData.question_ids.map((qid, index) => ({
-                  examId: newExam.id,
-                  questionId: qid,
-                  orderIndex: index,
-                })),
-              });
+              // Create exam questions with order, section by section when
+              // the exam has sections
+              if (validatedData.sections) {
+                let orderIndex = 0;
+                for (const [
+                  index,
+                  section,
+                ] of validatedData.sections.entries()) {
+                  const newSection = await tx.examSection.create({
+                    data: {
+                      examId: newExam.id,
+                      title: section.title,
+                      instructions: section.instructions ?? null,
+                      orderIndex: index,
+                      timeLimit: section.timeLimit ?? null,
+                      allowReturn: section.allowReturn,
+                    },
+                  });
+
+                  await tx.examQuestion.createMany({
+                    data: section.questionIds.map((qid) => ({
+                      examId: newExam.id,
+                      questionId: qid,
+                      sectionId: newSection.id,
+                      orderIndex: orderIndex++,
+                    })),
+                  });
+                }
+              } else {
+                await tx.examQuestion.createMany({
+                  data: validatedData.question_ids.map((qid, index) => ({
+                    examId: newExam.id,
+                    questionId: qid,
+                    orderIndex: index,
+                  })),
+                });
+              }
 
               // Fetch complete exam with questions
               return await tx.exam.findUnique({
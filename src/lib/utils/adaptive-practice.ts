@@ -0,0 +1,178 @@
+/**
+ * Adaptive Practice Utilities
+ *
+ * Question selection for smart practice sessions. Questions are drawn from
+ * the whole bank for a subject, weighted toward the topics the candidate
+ * answers least accurately and toward the difficulty level they are working
+ * on. The level moves up once the one below it is mastered.
+ *
+ * @module lib/utils/adaptive-practice
+ */
+
+import { normalizeTags } from "@/lib/utils/topic-analytics";
+import {
+  DIFFICULTY_LEVELS,
+  type DifficultyLevel,
+} from "@/lib/validations/question";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MASTERY_ACCURACY = 75; // Percent needed to move up a level
+const MASTERY_MIN_ATTEMPTS = 10; // Answers needed at a level before moving up
+const UNSEEN_TOPIC_WEAKNESS = 0.5; // Explore topics with no history
+const RECENTLY_CORRECT_FACTOR = 0.3; // Avoid repeating questions just got right
+
+// Relative weight by distance from the target level
+const DIFFICULTY_FIT = [3, 1, 0.25];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AdaptiveProfile {
+  targetDifficulty: DifficultyLevel;
+  topicAccuracy: Map<string, number>; // Tag -> percent correct
+  recentlyCorrect: Set<string>; // Question IDs
+}
+
+interface CandidateQuestion {
+  id: string;
+  tags: unknown;
+  difficultyLevel: string;
+}
+
+// ============================================
+// PROFILE
+// ============================================
+
+/**
+ * Build the candidate's profile for one subject from their graded answers
+ *
+ * @param answers - Graded answers, most recent first
+ * @param questions - Tags and difficulty of the answered questions in the
+ *   subject; answers to other questions are ignored
+ */
+export function buildAdaptiveProfile(
+  answers: Array<{ questionId: string; isCorrect: boolean | null }>,
+  questions: Map<string, { tags: unknown; difficultyLevel: string }>
+): AdaptiveProfile {
+  const topics = new Map<string, { attempts: number; correct: number }>();
+  const levels = new Map<string, { attempts: number; correct: number }>();
+  const recentlyCorrect = new Set<string>();
+
+  for (const answer of answers) {
+    if (answer.isCorrect === null) continue;
+
+    const question = questions.get(answer.questionId);
+    if (!question) continue;
+
+    const level = levels.get(question.difficultyLevel) ?? {
+      attempts: 0,
+      correct: 0,
+    };
+    level.attempts++;
+    if (answer.isCorrect) level.correct++;
+    levels.set(question.difficultyLevel, level);
+
+    for (const tag of normalizeTags(question.tags)) {
+      const topic = topics.get(tag) ?? { attempts: 0, correct: 0 };
+      topic.attempts++;
+      if (answer.isCorrect) topic.correct++;
+      topics.set(tag, topic);
+    }
+
+    if (answer.isCorrect) recentlyCorrect.add(answer.questionId);
+  }
+
+  // Work up from easy; stop at the first level not yet mastered
+  let targetDifficulty: DifficultyLevel = "hard";
+  for (const difficulty of DIFFICULTY_LEVELS.slice(0, -1)) {
+    const level = levels.get(difficulty);
+    const mastered =
+      !!level &&
+      level.attempts >= MASTERY_MIN_ATTEMPTS &&
+      (level.correct / level.attempts) * 100 >= MASTERY_ACCURACY;
+
+    if (!mastered) {
+      targetDifficulty = difficulty;
+      break;
+    }
+  }
+
+  return {
+    targetDifficulty,
+    topicAccuracy: new Map(
+      [...topics.entries()].map(([tag, t]) => [
+        tag,
+        (t.correct / t.attempts) * 100,
+      ])
+    ),
+    recentlyCorrect,
+  };
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+/**
+ * Selection weight of a question for the given profile
+ *
+ * Weakness on the question's weakest tag (1-2) times its fit to the target
+ * difficulty, reduced for questions the candidate recently got right.
+ */
+export function getQuestionWeight(
+  question: CandidateQuestion,
+  profile: AdaptiveProfile
+): number {
+  const tags = normalizeTags(question.tags);
+  const weakness = tags.length
+    ? Math.max(
+        ...tags.map((tag) => {
+          const accuracy = profile.topicAccuracy.get(tag);
+          return accuracy === undefined
+            ? UNSEEN_TOPIC_WEAKNESS
+            : (100 - accuracy) / 100;
+        })
+      )
+    : UNSEEN_TOPIC_WEAKNESS;
+
+  const levelIndex = DIFFICULTY_LEVELS.indexOf(
+    question.difficultyLevel as DifficultyLevel
+  );
+  const distance =
+    levelIndex === -1
+      ? 1
+      : Math.abs(
+          levelIndex - DIFFICULTY_LEVELS.indexOf(profile.targetDifficulty)
+        );
+
+  const weight = (1 + weakness) * DIFFICULTY_FIT[distance];
+
+  return profile.recentlyCorrect.has(question.id)
+    ? weight * RECENTLY_CORRECT_FACTOR
+    : weight;
+}
+
+/**
+ * Weighted random selection without replacement
+ *
+ * Uses the Efraimidis-Spirakis method: each question gets the key
+ * random^(1/weight) and the highest keys win.
+ */
+export function selectAdaptiveQuestions<T extends CandidateQuestion>(
+  questions: T[],
+  count: number,
+  profile: AdaptiveProfile
+): T[] {
+  return questions
+    .map((question) => ({
+      question,
+      key: Math.random() ** (1 / getQuestionWeight(question, profile)),
+    }))
+    .sort((a, b) => b.key - a.key)
+    .slice(0, count)
+    .map(({ question }) => question);
+}
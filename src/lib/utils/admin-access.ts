@@ -0,0 +1,97 @@
+/**
+ * Admin Access Utilities
+ *
+ * Admin check and audit logging shared by the exam admin actions.
+ *
+ * @module lib/utils/admin-access
+ */
+
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { headers } from "next/headers";
+import type { AdminContext } from "@/types/admin";
+
+/**
+ * Verify admin access
+ *
+ * @returns Admin context or null if unauthorized
+ */
+export async function verifyAdminAccess(): Promise<AdminContext | null> {
+  try {
+    const session = await auth.api.getSession({
+      headers: await headers(),
+    });
+
+    if (!session || !session.user) {
+      return null;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        banned: true,
+      },
+    });
+
+    if (!user || user.banned || user.role !== "admin") {
+      return null;
+    }
+
+    return {
+      userId: user.id,
+      userEmail: user.email,
+      userName: user.name,
+      userRole: user.role,
+    };
+  } catch (error) {
+    console.error("Admin verification error:", error);
+    return null;
+  }
+}
+
+/**
+ * Log audit entry
+ *
+ * @param context - Admin context
+ * @param action - Action performed
+ * @param details - Additional details
+ */
+export async function logAuditEntry(
+  context: AdminContext,
+  action: string,
+  details: Record<string, unknown>
+): Promise<void> {
+  try {
+    const headersList = await headers();
+    const ipAddress =
+      headersList.get("x-forwarded-for") ||
+      headersList.get("x-real-ip") ||
+      null;
+    const userAgent = headersList.get("user-agent") || null;
+
+    console.log(
+      `[AUDIT] ${action}:`,
+      JSON.stringify(
+        {
+          timestamp: new Date(),
+          userId: context.userId,
+          userEmail: context.userEmail,
+          userName: context.userName,
+          userRole: context.userRole,
+          action,
+          ...details,
+          ipAddress,
+          userAgent,
+        },
+        null,
+        2
+      )
+    );
+  } catch (error) {
+    console.error("Audit logging error:", error);
+  }
+}
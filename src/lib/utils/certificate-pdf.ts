@@ -0,0 +1,167 @@
+/**
+ * Exam Certificate PDF Renderer
+ *
+ * Renders a single-page landscape certificate with the standard PDF fonts,
+ * so no font files need to ship with the server.
+ *
+ * @module lib/utils/certificate-pdf
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont } from "pdf-lib";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CertificatePdfData {
+  candidateName: string;
+  examTitle: string;
+  score: number;
+  issuedAt: Date;
+  verificationCode: string;
+  verificationUrl: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PAGE_WIDTH = 842; // A4 landscape, in points
+const PAGE_HEIGHT = 595;
+
+const PRIMARY = rgb(0.11, 0.25, 0.55);
+const TEXT = rgb(0.15, 0.15, 0.15);
+const MUTED = rgb(0.45, 0.45, 0.45);
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Standard fonts only cover WinAnsi, so strip diacritics (e.g. Yoruba tone
+ * marks) and replace anything else that cannot be encoded.
+ */
+function toWinAnsi(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+/**
+ * Shrink the font size until the text fits the given width
+ */
+function fitFontSize(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number
+): number {
+  let fitted = size;
+  while (fitted > 10 && font.widthOfTextAtSize(text, fitted) > maxWidth) {
+    fitted -= 1;
+  }
+  return fitted;
+}
+
+// ============================================
+// RENDERER
+// ============================================
+
+/**
+ * Render a certificate and return the PDF bytes
+ */
+export async function renderCertificatePdf(
+  data: CertificatePdfData
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Certificate - ${toWinAnsi(data.examTitle)}`);
+  pdf.setAuthor("EduSmart");
+  pdf.setCreationDate(data.issuedAt);
+
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const serif = await pdf.embedFont(StandardFonts.TimesRomanBoldItalic);
+
+  const drawCentered = (
+    rawText: string,
+    y: number,
+    font: PDFFont,
+    size: number,
+    color = TEXT
+  ) => {
+    const text = toWinAnsi(rawText);
+    const fitted = fitFontSize(text, font, size, PAGE_WIDTH - 160);
+    const width = font.widthOfTextAtSize(text, fitted);
+    page.drawText(text, {
+      x: (PAGE_WIDTH - width) / 2,
+      y,
+      size: fitted,
+      font,
+      color,
+    });
+  };
+
+  // Double border
+  page.drawRectangle({
+    x: 24,
+    y: 24,
+    width: PAGE_WIDTH - 48,
+    height: PAGE_HEIGHT - 48,
+    borderColor: PRIMARY,
+    borderWidth: 4,
+  });
+  page.drawRectangle({
+    x: 36,
+    y: 36,
+    width: PAGE_WIDTH - 72,
+    height: PAGE_HEIGHT - 72,
+    borderColor: PRIMARY,
+    borderWidth: 1,
+  });
+
+  drawCentered("EduSmart", 500, bold, 20, PRIMARY);
+  drawCentered("Certificate of Achievement", 440, serif, 40, PRIMARY);
+  drawCentered("This certifies that", 390, regular, 14, MUTED);
+  drawCentered(data.candidateName, 345, bold, 32);
+
+  page.drawLine({
+    start: { x: PAGE_WIDTH / 2 - 200, y: 332 },
+    end: { x: PAGE_WIDTH / 2 + 200, y: 332 },
+    thickness: 1,
+    color: MUTED,
+  });
+
+  drawCentered("has successfully passed", 300, regular, 14, MUTED);
+  drawCentered(data.examTitle, 265, bold, 22);
+  drawCentered(
+    `with a score of ${data.score.toFixed(1)}%`,
+    230,
+    regular,
+    14,
+    MUTED
+  );
+  drawCentered(
+    `Issued on ${data.issuedAt.toLocaleDateString("en-GB", {
+      day: "numeric",
+      month: "long",
+      year: "numeric",
+    })}`,
+    180,
+    regular,
+    12
+  );
+
+  // Verification footer
+  drawCentered(
+    `Verification code: ${data.verificationCode}`,
+    90,
+    bold,
+    12,
+    PRIMARY
+  );
+  drawCentered(`Verify at ${data.verificationUrl}`, 70, regular, 10, MUTED);
+
+  return pdf.save();
+}
@@ -0,0 +1,209 @@
+/**
+ * Exam Blueprint Utilities
+ *
+ * Question selection for exams assembled from a blueprint. Each rule asks
+ * for a number of questions in a subject, optionally narrowed to a tag and
+ * a difficulty level. Questions from the admin's recent exams are only
+ * drawn when a rule cannot be filled without them, and an optional point
+ * target swaps picks for other matches until the total is as close as it
+ * gets. Exam question pools reuse the same draw at session start.
+ *
+ * @module lib/utils/exam-blueprint
+ */
+
+import { normalizeTags } from "@/lib/utils/topic-analytics";
+import type { QuestionPool } from "@/types/exam-session";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const POINT_BALANCE_PASSES = 3;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface BlueprintRule {
+  subject?: string; // Omitted = any subject
+  tag?: string; // Lowercase
+  difficultyLevel?: string;
+  count: number;
+}
+
+interface CandidateQuestion {
+  id: string;
+  subject: string;
+  tags: unknown;
+  difficultyLevel: string;
+  questionPoint: number;
+}
+
+export interface BlueprintPick<T> {
+  question: T;
+  ruleIndex: number;
+  recentlyUsed: boolean;
+}
+
+export interface BlueprintSelection<T> {
+  picks: BlueprintPick<T>[]; // In rule order
+  rules: Array<{ requested: number; available: number; selected: number }>;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export function matchesBlueprintRule(
+  question: CandidateQuestion,
+  rule: BlueprintRule
+): boolean {
+  return (
+    (!rule.subject || question.subject === rule.subject) &&
+    (!rule.difficultyLevel ||
+      question.difficultyLevel === rule.difficultyLevel) &&
+    (!rule.tag || normalizeTags(question.tags).includes(rule.tag))
+  );
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+/**
+ * Draw questions for each blueprint rule
+ *
+ * Rules are filled in order and a question is only used once, so a broad
+ * rule listed before a narrow one can take questions the narrow one
+ * needed. Point balancing never swaps in a recently used question.
+ *
+ * @param rules - Blueprint rules
+ * @param candidates - Questions that may be drawn
+ * @param recentQuestionIds - Questions used in the admin's recent exams
+ * @param targetPoints - Total points to aim for
+ */
+export function selectBlueprintQuestions<T extends CandidateQuestion>(
+  rules: BlueprintRule[],
+  candidates: T[],
+  recentQuestionIds: Set<string>,
+  targetPoints?: number
+): BlueprintSelection<T> {
+  const used = new Set<string>();
+  const picks: BlueprintPick<T>[] = [];
+  const alternates: T[][] = [];
+  const summaries: BlueprintSelection<T>["rules"] = [];
+
+  rules.forEach((rule, ruleIndex) => {
+    const pool = candidates.filter(
+      (q) => !used.has(q.id) && matchesBlueprintRule(q, rule)
+    );
+    const ordered = [
+      ...shuffle(pool.filter((q) => !recentQuestionIds.has(q.id))),
+      ...shuffle(pool.filter((q) => recentQuestionIds.has(q.id))),
+    ];
+    const selected = ordered.slice(0, rule.count);
+
+    for (const question of selected) {
+      used.add(question.id);
+      picks.push({
+        question,
+        ruleIndex,
+        recentlyUsed: recentQuestionIds.has(question.id),
+      });
+    }
+
+    alternates.push(ordered.slice(rule.count));
+    summaries.push({
+      requested: rule.count,
+      available: pool.length,
+      selected: selected.length,
+    });
+  });
+
+  if (targetPoints !== undefined) {
+    let total = picks.reduce((sum, p) => sum + p.question.questionPoint, 0);
+
+    for (let pass = 0; pass < POINT_BALANCE_PASSES; pass++) {
+      let improved = false;
+
+      for (const pick of picks) {
+        if (total === targetPoints) break;
+
+        const options = alternates[pick.ruleIndex];
+        for (let i = 0; i < options.length; i++) {
+          const alternate = options[i];
+          if (used.has(alternate.id)) continue;
+
+          const isRecent = recentQuestionIds.has(alternate.id);
+          if (isRecent && !pick.recentlyUsed) continue;
+
+          const newTotal =
+            total - pick.question.questionPoint + alternate.questionPoint;
+          if (
+            Math.abs(newTotal - targetPoints) >= Math.abs(total - targetPoints)
+          ) {
+            continue;
+          }
+
+          used.delete(pick.question.id);
+          used.add(alternate.id);
+          options[i] = pick.question;
+          pick.question = alternate;
+          pick.recentlyUsed = isRecent;
+          total = newTotal;
+          improved = true;
+          break;
+        }
+      }
+
+      if (!improved || total === targetPoints) break;
+    }
+  }
+
+  return { picks, rules: summaries };
+}
+
+/**
+ * Draw one candidate's paper from an exam's question pools
+ *
+ * Pools with the fewest matching questions are filled first, so a broad
+ * pool does not use up questions a narrow one needs. Candidates get
+ * different papers with the same make-up.
+ *
+ * @returns Drawn questions in pool order, or null when a pool has too few
+ *   matching questions
+ */
+export function drawPoolQuestions<T extends CandidateQuestion>(
+  pools: QuestionPool[],
+  questions: T[]
+): T[] | null {
+  const matching = pools.map(
+    (pool) => questions.filter((q) => matchesBlueprintRule(q, pool)).length
+  );
+  const fillOrder = pools
+    .map((_, index) => index)
+    .sort((a, b) => matching[a] - matching[b]);
+
+  const selection = selectBlueprintQuestions(
+    fillOrder.map((index) => pools[index]),
+    questions,
+    new Set()
+  );
+  if (selection.rules.some((rule) => rule.selected < rule.requested)) {
+    return null;
+  }
+
+  return selection.picks
+    .map((pick) => ({ ...pick, poolIndex: fillOrder[pick.ruleIndex] }))
+    .sort((a, b) => a.poolIndex - b.poolIndex)
+    .map((pick) => pick.question);
+}
@@ -0,0 +1,64 @@
+/**
+ * Exam Device Binding
+ *
+ * An active exam session is bound to one device at a time. Starting a
+ * session sets an httpOnly cookie holding a random token and stores its
+ * SHA-256 hash on the session. Resuming after re-authentication rotates the
+ * token, so the device the candidate left can no longer answer questions.
+ *
+ * @module lib/utils/exam-device
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DEVICE_COOKIE_PREFIX = "exam_device_";
+
+export const DEVICE_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+  maxAge: 24 * 60 * 60, // Longer than any exam
+};
+
+// ============================================
+// TOKENS
+// ============================================
+
+/**
+ * Cookie holding the device token of one session
+ */
+export function getDeviceCookieName(sessionId: string): string {
+  return `${DEVICE_COOKIE_PREFIX}${sessionId}`;
+}
+
+export function hashDeviceToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * New device token and the hash stored on the session
+ */
+export function createDeviceToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashDeviceToken(token) };
+}
+
+/**
+ * Whether a cookie token belongs to the device the session is bound to.
+ * Sessions without a bound device accept no token.
+ */
+export function isDeviceTokenValid(
+  token: string | null | undefined,
+  tokenHash: string | null | undefined
+): boolean {
+  if (!token || !tokenHash) return false;
+
+  const expected = Buffer.from(tokenHash, "hex");
+  const actual = Buffer.from(hashDeviceToken(token), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
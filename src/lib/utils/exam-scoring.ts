@@ -0,0 +1,252 @@
+/**
+ * Exam Scoring Utilities
+ *
+ * Pure grading and scoring helpers shared by the exam-session server
+ * actions and the exam-session Better Auth plugin. Kept free of
+ * auth/prisma imports so the plugin can use them without a circular
+ * dependency on `@/lib/auth`.
+ *
+ * @module lib/utils/exam-scoring
+ */
+
+export interface SessionScore {
+  score: number; // Percentage of totalPoints earned
+  pointsEarned: number;
+  totalPoints: number;
+  correctAnswers: number;
+  pendingAnswers: number; // Answers still waiting on manual marking
+}
+
+/**
+ * Total earned points against the possible points of the questions
+ * served in the session (its questionOrder).
+ *
+ * Marked answers earn their awarded points; other answers earn the full
+ * question points when correct. Answers to manually marked questions
+ * that have no awarded points yet are counted as pending.
+ * Questions that no longer exist are left out of the possible points.
+ *
+ * @param questionOrder - Question IDs served in the session
+ * @param questionPoints - Points per question ID
+ * @param answers - Graded answers for the session
+ * @param manuallyMarked - IDs of questions that need manual marking
+ * @returns Percentage score with raw points
+ */
+export function calculateSessionScore(
+  questionOrder: string[],
+  questionPoints: Map<string, number>,
+  answers: Array<{
+    questionId: string;
+    isCorrect: boolean | null;
+    pointsAwarded?: number | null;
+  }>,
+  manuallyMarked: Set<string> = new Set()
+): SessionScore {
+  const servedQuestions = new Set(questionOrder);
+
+  let totalPoints = 0;
+  for (const questionId of servedQuestions) {
+    totalPoints += questionPoints.get(questionId) ?? 0;
+  }
+
+  let pointsEarned = 0;
+  let correctAnswers = 0;
+  let pendingAnswers = 0;
+  for (const answer of answers) {
+    if (!servedQuestions.has(answer.questionId)) continue;
+
+    const available = questionPoints.get(answer.questionId) ?? 0;
+
+    if (answer.pointsAwarded !== null && answer.pointsAwarded !== undefined) {
+      pointsEarned += Math.min(Math.max(answer.pointsAwarded, 0), available);
+    } else if (manuallyMarked.has(answer.questionId)) {
+      pendingAnswers++;
+      continue;
+    } else if (answer.isCorrect === true) {
+      pointsEarned += available;
+    }
+
+    if (answer.isCorrect === true) correctAnswers++;
+  }
+
+  const score = totalPoints > 0 ? (pointsEarned / totalPoints) * 100 : 0;
+
+  return { score, pointsEarned, totalPoints, correctAnswers, pendingAnswers };
+}
+
+/**
+ * Question types that are marked by hand rather than auto-graded
+ */
+export const MANUALLY_MARKED_QUESTION_TYPES = ["essay"] as const;
+
+export function isManuallyMarked(questionType: string): boolean {
+  return (MANUALLY_MARKED_QUESTION_TYPES as readonly string[]).includes(
+    questionType
+  );
+}
+
+// ============================================
+// ANSWER GRADING
+// ============================================
+
+/**
+ * Matching rules for fill-in-the-blank answers
+ *
+ * Answers are always trimmed and runs of whitespace collapsed before
+ * comparison. When both sides parse as numbers they are compared
+ * numerically within `numericTolerance`.
+ */
+export interface FillInBlankRules {
+  caseSensitive: boolean;
+  ignoreWhitespace: boolean; // Drop all whitespace instead of collapsing it
+  numericTolerance: number; // Absolute difference allowed between numbers
+}
+
+export const DEFAULT_FILL_IN_BLANK_RULES: FillInBlankRules = {
+  caseSensitive: false,
+  ignoreWhitespace: false,
+  numericTolerance: 0,
+};
+
+const NUMERIC_ANSWER_PATTERN = /^[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?$/i;
+
+/**
+ * Read stored answer rules, falling back to the defaults for
+ * missing or malformed values
+ */
+export function parseFillInBlankRules(value: unknown): FillInBlankRules {
+  const rules =
+    typeof value === "string" ? safeJsonParse(value) : (value ?? null);
+
+  if (!rules || typeof rules !== "object") {
+    return { ...DEFAULT_FILL_IN_BLANK_RULES };
+  }
+
+  const { caseSensitive, ignoreWhitespace, numericTolerance } =
+    rules as Partial<FillInBlankRules>;
+
+  return {
+    caseSensitive:
+      typeof caseSensitive === "boolean"
+        ? caseSensitive
+        : DEFAULT_FILL_IN_BLANK_RULES.caseSensitive,
+    ignoreWhitespace:
+      typeof ignoreWhitespace === "boolean"
+        ? ignoreWhitespace
+        : DEFAULT_FILL_IN_BLANK_RULES.ignoreWhitespace,
+    numericTolerance:
+      typeof numericTolerance === "number" &&
+      Number.isFinite(numericTolerance) &&
+      numericTolerance >= 0
+        ? numericTolerance
+        : DEFAULT_FILL_IN_BLANK_RULES.numericTolerance,
+  };
+}
+
+/**
+ * Check a fill-in-the-blank answer against the accepted answers
+ *
+ * @param textAnswer - Candidate's answer
+ * @param acceptedAnswers - Decrypted accepted answers
+ * @param rules - Matching rules for the question
+ * @returns True when any accepted answer matches
+ */
+export function gradeFillInBlank(
+  textAnswer: string,
+  acceptedAnswers: string[],
+  rules: FillInBlankRules = DEFAULT_FILL_IN_BLANK_RULES
+): boolean {
+  const answer = normalizeTextAnswer(textAnswer, rules);
+  if (!answer) return false;
+
+  const answerNumber = parseNumericAnswer(answer);
+
+  return acceptedAnswers.some((accepted) => {
+    const expected = normalizeTextAnswer(accepted, rules);
+    if (!expected) return false;
+
+    const expectedNumber = parseNumericAnswer(expected);
+    if (answerNumber !== null && expectedNumber !== null) {
+      // Small epsilon absorbs floating point error at the tolerance boundary
+      return (
+        Math.abs(answerNumber - expectedNumber) <=
+        rules.numericTolerance + Number.EPSILON * 100
+      );
+    }
+
+    return answer === expected;
+  });
+}
+
+/**
+ * Grade a submitted answer for auto-graded question types
+ *
+ * Multiple choice and true/false answers are graded by the selected
+ * option; fill-in-the-blank answers against the question's correct
+ * options, which hold its accepted answers. Essays return null and are
+ * left for manual marking.
+ *
+ * @param question - Question type, answer rules and decrypted options
+ * @param answer - Selected option and/or text answer
+ * @returns Correctness, or null when the answer can't be auto-graded
+ */
+export function gradeAnswer(
+  question: {
+    questionType: string;
+    answerRules?: unknown;
+    options: Array<{ id: string; optionText: string; isCorrect: boolean }>;
+  },
+  answer: { selectedOptionId?: string | null; textAnswer?: string | null }
+): boolean | null {
+  switch (question.questionType) {
+    case "multiple_choice":
+    case "true_false": {
+      if (!answer.selectedOptionId) return null;
+      const selectedOption = question.options.find(
+        (opt) => opt.id === answer.selectedOptionId
+      );
+      return selectedOption ? selectedOption.isCorrect : null;
+    }
+
+    case "fill_in_blank": {
+      if (!answer.textAnswer) return null;
+      return gradeFillInBlank(
+        answer.textAnswer,
+        question.options
+          .filter((opt) => opt.isCorrect)
+          .map((opt) => opt.optionText),
+        parseFillInBlankRules(question.answerRules)
+      );
+    }
+
+    default:
+      return null;
+  }
+}
+
+function normalizeTextAnswer(value: string, rules: FillInBlankRules): string {
+  let normalized = value
+    .trim()
+    .replace(/\s+/g, rules.ignoreWhitespace ? "" : " ");
+  if (!rules.caseSensitive) {
+    normalized = normalized.toLowerCase();
+  }
+  return normalized;
+}
+
+function parseNumericAnswer(value: string): number | null {
+  // Allow thousands separators such as "1,000"
+  const candidate = value.replace(/(\d),(?=\d{3}\b)/g, "$1");
+  if (!NUMERIC_ANSWER_PATTERN.test(candidate)) return null;
+
+  const parsed = Number(candidate);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
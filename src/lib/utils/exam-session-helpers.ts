@@ -1,14 +1,35 @@
 import { auth } from "@/lib/auth";
-import { headers } from "next/headers";
+import prisma from "@/lib/prisma";
+import { cookies, headers } from "next/headers";
 import { decryptQuestion } from "@/lib/utils/question-decrypt";
+import {
+  calculateSessionScore,
+  isManuallyMarked,
+  type SessionScore,
+} from "@/lib/utils/exam-scoring";
+import { parseSessionSections, resolveSectionProgress } from "@/lib/utils/exam";
+import {
+  createDeviceToken,
+  DEVICE_COOKIE_OPTIONS,
+  getDeviceCookieName,
+  isDeviceTokenValid,
+} from "@/lib/utils/exam-device";
 import type { Question, QuestionOption } from "@/generated/prisma";
-import { QuestionData } from "@/types/exam-session";
+import {
+  QuestionData,
+  SectionProgress,
+  SectionResult,
+} from "@/types/exam-session";
 
 interface SessionLike {
   startedAt: Date;
   timeLimit: number | null;
 }
 
+// How recently an account without a password must have signed in to count
+// as re-authenticated
+const REAUTH_MAX_AGE_SECONDS = 15 * 60;
+
 export async function verifyUserSession(): Promise<{
   userId: string;
   userEmail: string;
@@ -30,6 +51,96 @@ export async function verifyUserSession(): Promise<{
   }
 }
 
+/**
+ * Whether the user can re-authenticate with a password. Accounts that only
+ * sign in with a social provider have none.
+ */
+export async function hasPasswordCredential(userId: string): Promise<boolean> {
+  const account = await prisma.account.findFirst({
+    where: { userId, providerId: "credential" },
+    select: { password: true },
+  });
+
+  return !!account?.password;
+}
+
+/**
+ * Confirm the signed-in user's identity again before a sensitive action
+ *
+ * Password accounts must enter their password. Social-only accounts must
+ * have signed in within the last 15 minutes instead.
+ */
+export async function verifyReauthentication(
+  userId: string,
+  password?: string
+): Promise<boolean> {
+  const account = await prisma.account.findFirst({
+    where: { userId, providerId: "credential" },
+    select: { password: true },
+  });
+
+  if (account?.password) {
+    if (!password) return false;
+
+    const context = await auth.$context;
+    return context.password.verify({ password, hash: account.password });
+  }
+
+  const headersList = await headers();
+  const session = await auth.api.getSession({ headers: headersList });
+  if (!session || session.user.id !== userId) return false;
+
+  const signedInSeconds =
+    (Date.now() - new Date(session.session.createdAt).getTime()) / 1000;
+  return signedInSeconds <= REAUTH_MAX_AGE_SECONDS;
+}
+
+/**
+ * Bind a session to this device with a fresh device cookie
+ *
+ * @returns Token hash to store on the session
+ */
+export async function bindSessionDevice(sessionId: string): Promise<string> {
+  const { token, tokenHash } = createDeviceToken();
+
+  const cookieStore = await cookies();
+  cookieStore.set(getDeviceCookieName(sessionId), token, DEVICE_COOKIE_OPTIONS);
+
+  return tokenHash;
+}
+
+/**
+ * Whether the request comes from the device the session is bound to
+ *
+ * Sessions started before device binding have no bound device; the first
+ * device to open one claims it.
+ */
+export async function isSessionDevice(session: {
+  id: string;
+  deviceTokenHash: string | null;
+}): Promise<boolean> {
+  const cookieStore = await cookies();
+
+  if (!session.deviceTokenHash) {
+    const { token, tokenHash } = createDeviceToken();
+    const { count } = await prisma.examSession.updateMany({
+      where: { id: session.id, deviceTokenHash: null },
+      data: { deviceTokenHash: tokenHash },
+    });
+    if (count === 0) return false;
+
+    cookieStore.set(
+      getDeviceCookieName(session.id),
+      token,
+      DEVICE_COOKIE_OPTIONS
+    );
+    return true;
+  }
+
+  const token = cookieStore.get(getDeviceCookieName(session.id))?.value;
+  return isDeviceTokenValid(token, session.deviceTokenHash);
+}
+
 export function calculateRemainingTime(
   session: SessionLike,
   serverTime: Date
@@ -55,6 +166,186 @@ export function isSessionExpired(
   return remainingTime !== null && remainingTime <= 0;
 }
 
+/**
+ * The moment a timed session runs out of time, or null when untimed
+ */
+export function getSessionDeadline(session: SessionLike): Date | null {
+  if (!session.timeLimit) return null;
+
+  return new Date(
+    new Date(session.startedAt).getTime() + session.timeLimit * 60 * 1000
+  );
+}
+
+/**
+ * Auto-submit a session whose time has run out
+ *
+ * Grades the answers saved before the deadline. Sessions with at least one
+ * answer are completed; sessions with none are expired. Either way
+ * completedAt is the deadline rather than the moment the expiry was noticed.
+ * Returns null if the session was no longer active.
+ */
+export async function finalizeExpiredSession(
+  session: SessionLike & { id: string; questionOrder: string },
+  now: Date = new Date()
+): Promise<"completed" | "expired" | null> {
+  const answers = await prisma.examAnswer.findMany({
+    where: { sessionId: session.id },
+    select: { questionId: true, isCorrect: true, pointsAwarded: true },
+  });
+
+  const { score, pointsEarned, totalPoints, pendingAnswers } =
+    await computeSessionScore(session.questionOrder, answers);
+
+  const status = answers.length > 0 ? "completed" : "expired";
+
+  // Guard on status so a concurrent submit is never overwritten
+  const { count } = await prisma.examSession.updateMany({
+    where: { id: session.id, status: "active" },
+    data: {
+      status,
+      completionReason: "time_expired",
+      completedAt: getSessionDeadline(session) ?? now,
+      gradingStatus: pendingAnswers > 0 ? "pending" : "graded",
+      score,
+      pointsEarned,
+      totalPoints,
+      updatedAt: now,
+    },
+  });
+
+  return count > 0 ? status : null;
+}
+
+/**
+ * Score a session by question points over its served questions
+ */
+export async function computeSessionScore(
+  questionOrder: string,
+  answers: Array<{
+    questionId: string;
+    isCorrect: boolean | null;
+    pointsAwarded: number | null;
+  }>
+): Promise<SessionScore> {
+  const questionIds: string[] = JSON.parse(questionOrder);
+  const questions = await prisma.question.findMany({
+    where: { id: { in: questionIds } },
+    select: { id: true, questionPoint: true, questionType: true },
+  });
+
+  return calculateSessionScore(
+    questionIds,
+    new Map(questions.map((q) => [q.id, q.questionPoint])),
+    answers,
+    new Set(
+      questions.filter((q) => isManuallyMarked(q.questionType)).map((q) => q.id)
+    )
+  );
+}
+
+/**
+ * Score each section of a sectioned session on its own
+ */
+export async function computeSectionResults(
+  questionOrder: string,
+  sections: string | null,
+  answers: Array<{
+    questionId: string;
+    isCorrect: boolean | null;
+    pointsAwarded: number | null;
+  }>
+): Promise<SectionResult[]> {
+  const sessionSections = parseSessionSections(sections);
+  if (sessionSections.length === 0) return [];
+
+  const questionIds: string[] = JSON.parse(questionOrder);
+  const questions = await prisma.question.findMany({
+    where: { id: { in: questionIds } },
+    select: { id: true, questionPoint: true, questionType: true },
+  });
+  const questionPoints = new Map(questions.map((q) => [q.id, q.questionPoint]));
+  const manuallyMarked = new Set(
+    questions.filter((q) => isManuallyMarked(q.questionType)).map((q) => q.id)
+  );
+
+  return sessionSections.map((section) => {
+    const { score, pointsEarned, totalPoints, correctAnswers } =
+      calculateSessionScore(
+        questionIds.slice(
+          section.startIndex,
+          section.startIndex + section.questionCount
+        ),
+        questionPoints,
+        answers,
+        manuallyMarked
+      );
+
+    return {
+      sectionId: section.sectionId,
+      title: section.title,
+      totalQuestions: section.questionCount,
+      correctAnswers,
+      pointsEarned,
+      totalPoints,
+      score,
+    };
+  });
+}
+
+/**
+ * Resolve a sectioned session's progress, saving any section that started
+ * because the one before it ran out of time
+ *
+ * @returns Section progress, or null for sessions without sections
+ */
+export async function syncSectionProgress(
+  session: { id: string; sections?: string | null },
+  now: Date = new Date()
+): Promise<SectionProgress | null> {
+  const sections = parseSessionSections(session.sections);
+  if (sections.length === 0) return null;
+
+  const progress = resolveSectionProgress(sections, now);
+  const advanced = progress.sections.some(
+    (section, index) => section.startedAt !== sections[index].startedAt
+  );
+
+  if (advanced) {
+    await prisma.examSession.update({
+      where: { id: session.id },
+      data: { sections: JSON.stringify(progress.sections) },
+    });
+  }
+
+  return progress;
+}
+
+/**
+ * Certificates are issued for fully graded test-mode sessions that reach
+ * the exam's passing score and were not disqualified on proctoring review
+ */
+export function isCertificateEligible(
+  session: {
+    examType: string;
+    status: string;
+    gradingStatus: string;
+    proctoringStatus: string;
+    score: number | null;
+  },
+  passingScore: number | null
+): boolean {
+  return (
+    session.examType === "test" &&
+    session.status === "completed" &&
+    session.gradingStatus === "graded" &&
+    session.proctoringStatus !== "disqualified" &&
+    passingScore !== null &&
+    session.score !== null &&
+    session.score >= passingScore
+  );
+}
+
 export function shuffleArray<T>(array: T[]): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
@@ -79,7 +370,14 @@ export function formatQuestionForClient(
 ): QuestionData {
   const decrypted = decryptQuestion(question);
 
-  const options = decrypted.options
+  // Fill-in-blank options are the accepted answers, so they are never sent
+  // alongside an unanswered question
+  const visibleOptions =
+    hideAnswer && decrypted.questionType === "fill_in_blank"
+      ? []
+      : decrypted.options;
+
+  const options = visibleOptions
     .map((opt) => ({
       id: opt.id,
       optionText: opt.optionText,
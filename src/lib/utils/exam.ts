@@ -1,3 +1,18 @@
+import {
+  antiCheatPolicySchema,
+  questionPoolsSchema,
+  VIOLATION_TYPES,
+} from "@/lib/validations/exam";
+import type {
+  AntiCheatPolicy,
+  QuestionPool,
+  RankedParticipant,
+  SectionProgress,
+  SessionReviewSummary,
+  SessionSection,
+  ViolationType,
+} from "@/types/exam-session";
+
 export const SUBJECTS = [
   "Mathematics",
   "English Language",
@@ -45,9 +60,413 @@ export const YEARS = Array.from(
 export const QUESTION_TYPES = [
   { value: "true_false", label: "True/False" },
   { value: "multiple_choice", label: "Multiple Choice" },
+  { value: "fill_in_blank", label: "Fill in the Blank" },
+  { value: "essay", label: "Essay" },
 ];
 
 export const optionLabels = ["A", "B", "C", "D", "E", "F", "G", "H", "I", "J"];
 
 export const EXAM_STATUS = ["draft", "published", "archived"];
 export const EXAM_CATEGORIES = ["practice", "challenge", "recruitment", "test"];
+
+// Categories where candidates may change or clear answers by default
+export const ANSWER_CHANGE_CATEGORIES = ["practice", "test"];
+
+/**
+ * Resolve whether answers can be changed or cleared before submission.
+ * An explicit per-exam setting wins over the category default;
+ * uncategorized exams run as practice.
+ */
+export function allowsAnswerChanges(exam: {
+  allowAnswerChanges?: boolean | null;
+  category?: string | null;
+}): boolean {
+  return (
+    exam.allowAnswerChanges ??
+    ANSWER_CHANGE_CATEGORIES.includes(exam.category || "practice")
+  );
+}
+
+export const VIOLATION_TYPE_LABELS: Record<ViolationType, string> = {
+  tab_switch: "Switching tabs",
+  window_blur: "Leaving the exam window",
+  copy_attempt: "Copying or cutting",
+  paste_attempt: "Pasting",
+  fullscreen_exit: "Exiting fullscreen",
+};
+
+// Auto-submit threshold for monitored exams without a policy of their own
+export const DEFAULT_VIOLATION_LIMIT = 10;
+
+/**
+ * Resolve the anti-cheat policy for an exam. A stored per-exam policy
+ * wins; otherwise practice exams are unmonitored and every other category
+ * monitors all violation types at weight 1, blocks copy/paste, warns at
+ * half the violation limit and auto-submits at the limit.
+ */
+export function resolveAntiCheatPolicy(
+  exam: {
+    antiCheatPolicy?: string | null;
+    category?: string | null;
+  },
+  violationLimit: number | null = DEFAULT_VIOLATION_LIMIT
+): AntiCheatPolicy {
+  if (exam.antiCheatPolicy) {
+    try {
+      const parsed = antiCheatPolicySchema.safeParse(
+        JSON.parse(exam.antiCheatPolicy)
+      );
+      if (parsed.success) return parsed.data;
+    } catch {
+      // Fall through to the category default
+    }
+  }
+
+  const violationWeights = Object.fromEntries(
+    VIOLATION_TYPES.map((type) => [type, 1])
+  ) as Record<ViolationType, number>;
+
+  if ((exam.category || "practice") === "practice") {
+    return {
+      monitoredViolations: [],
+      violationWeights,
+      warningThreshold: null,
+      autoSubmitThreshold: null,
+      blockCopyPaste: false,
+    };
+  }
+
+  return {
+    monitoredViolations: [...VIOLATION_TYPES],
+    violationWeights,
+    warningThreshold: violationLimit ? Math.ceil(violationLimit / 2) : null,
+    autoSubmitThreshold: violationLimit,
+    blockCopyPaste: true,
+  };
+}
+
+/**
+ * Weighted violation score for a session. Types the policy does not
+ * monitor count for nothing.
+ */
+export function calculateViolationScore(
+  policy: AntiCheatPolicy,
+  violationTypes: Iterable<string>
+): number {
+  const monitored = new Set<string>(policy.monitoredViolations);
+  let score = 0;
+
+  for (const type of violationTypes) {
+    if (monitored.has(type)) {
+      score += policy.violationWeights[type as ViolationType] ?? 0;
+    }
+  }
+
+  return score;
+}
+
+/**
+ * Parse the JSON question pools stored on an exam. An empty list means
+ * every candidate gets every exam question.
+ */
+export function parseQuestionPools(value?: string | null): QuestionPool[] {
+  if (!value) return [];
+  try {
+    const parsed = questionPoolsSchema.safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lay a session's questions out section by section and snapshot the
+ * sections. Questions keep their relative order (shuffled or not) within
+ * a section; sections that got no questions are left out. The first
+ * section starts straight away.
+ */
+export function buildSessionSections(
+  questionOrder: string[],
+  sections: Array<{
+    id: string;
+    title: string;
+    instructions: string | null;
+    timeLimit: number | null;
+    allowReturn: boolean;
+    questionIds: string[];
+  }>,
+  startedAt: Date
+): { questionOrder: string[]; sections: SessionSection[] } {
+  const sectionByQuestion = new Map<string, number>();
+  sections.forEach((section, index) => {
+    for (const questionId of section.questionIds) {
+      sectionByQuestion.set(questionId, index);
+    }
+  });
+
+  // Questions added outside any section go with the last one
+  const grouped = sections.map(() => [] as string[]);
+  for (const questionId of questionOrder) {
+    const index = sectionByQuestion.get(questionId) ?? sections.length - 1;
+    grouped[index].push(questionId);
+  }
+
+  const sessionSections: SessionSection[] = [];
+  let startIndex = 0;
+  sections.forEach((section, index) => {
+    if (grouped[index].length === 0) return;
+
+    sessionSections.push({
+      sectionId: section.id,
+      title: section.title,
+      instructions: section.instructions,
+      timeLimit: section.timeLimit,
+      allowReturn: section.allowReturn,
+      startIndex,
+      questionCount: grouped[index].length,
+      startedAt: null,
+    });
+    startIndex += grouped[index].length;
+  });
+
+  if (sessionSections.length > 0) {
+    sessionSections[0].startedAt = startedAt.toISOString();
+  }
+
+  return { questionOrder: grouped.flat(), sections: sessionSections };
+}
+
+/**
+ * Parse the JSON section snapshot stored on a session. An empty list means
+ * the exam has no sections.
+ */
+export function parseSessionSections(value?: string | null): SessionSection[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? (parsed as SessionSection[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function getSectionEndTime(section: SessionSection): Date | null {
+  if (!section.startedAt || !section.timeLimit) return null;
+  return new Date(
+    new Date(section.startedAt).getTime() + section.timeLimit * 60 * 1000
+  );
+}
+
+/**
+ * Where a candidate is in a sectioned exam
+ *
+ * A timed section closes at its deadline and the next one starts at that
+ * moment, so a candidate who was away comes back to the section the clock
+ * says they are in. Earlier sections stay open only when they allow
+ * returning and their own time has not run out. Later sections are closed
+ * until reached.
+ */
+export function resolveSectionProgress(
+  sessionSections: SessionSection[],
+  now: Date = new Date()
+): SectionProgress {
+  const sections = sessionSections.map((section) => ({ ...section }));
+
+  let currentSection = 0;
+  sections.forEach((section, index) => {
+    if (section.startedAt) currentSection = index;
+  });
+
+  while (currentSection < sections.length - 1) {
+    const endTime = getSectionEndTime(sections[currentSection]);
+    if (!endTime || endTime > now) break;
+
+    currentSection++;
+    sections[currentSection].startedAt = endTime.toISOString();
+  }
+
+  const openSections = sections.map((section, index) => {
+    if (index > currentSection) return false;
+    if (index < currentSection && !section.allowReturn) return false;
+
+    const endTime = getSectionEndTime(section);
+    return !endTime || endTime > now;
+  });
+
+  return {
+    sections,
+    currentSection,
+    openSections,
+    sectionEndTime: sections[currentSection]
+      ? getSectionEndTime(sections[currentSection])
+      : null,
+  };
+}
+
+/**
+ * Index of the section holding the question at a position, or -1
+ */
+export function findSectionIndex(
+  sections: SessionSection[],
+  questionIndex: number
+): number {
+  return sections.findIndex(
+    (section) =>
+      questionIndex >= section.startIndex &&
+      questionIndex < section.startIndex + section.questionCount
+  );
+}
+
+/**
+ * Whether the question at a position sits in a section that is open
+ */
+export function isQuestionInOpenSection(
+  progress: SectionProgress,
+  questionIndex: number
+): boolean {
+  const index = findSectionIndex(progress.sections, questionIndex);
+  return index !== -1 && progress.openSections[index];
+}
+
+// Categories where candidates may move back and forth and flag questions
+export const REVIEW_CATEGORIES = ["practice", "test"];
+
+/**
+ * Parse the JSON list of flagged question IDs stored on a session.
+ */
+export function parseFlaggedQuestions(value?: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter((id): id is string => typeof id === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Answered, unanswered and flagged status for every question in a session,
+ * in the order the candidate sees them.
+ */
+export function buildSessionReview(
+  questionOrder: string[],
+  answeredQuestionIds: Iterable<string>,
+  flaggedQuestionIds: Iterable<string>
+): SessionReviewSummary {
+  const answered = new Set(answeredQuestionIds);
+  const flagged = new Set(flaggedQuestionIds);
+
+  const questions = questionOrder.map((questionId, questionIndex) => ({
+    questionIndex,
+    questionId,
+    isAnswered: answered.has(questionId),
+    isFlagged: flagged.has(questionId),
+  }));
+  const answeredCount = questions.filter((q) => q.isAnswered).length;
+
+  return {
+    totalQuestions: questions.length,
+    answeredCount,
+    unansweredCount: questions.length - answeredCount,
+    flaggedCount: questions.filter((q) => q.isFlagged).length,
+    questions,
+  };
+}
+
+// Categories with a leaderboard and live participant progress
+export const LEADERBOARD_CATEGORIES = ["challenge"];
+
+// Categories whose results follow the exam creator's release schedule
+export const RESULT_RELEASE_CATEGORIES = [
+  "recruitment",
+  "competition",
+  "challenge",
+];
+
+/**
+ * Whether scores for an exam are visible to candidates yet. Other
+ * categories always release immediately; scheduled results go live at the
+ * release time and manual results once an admin releases them.
+ */
+export function areResultsReleased(
+  exam: {
+    category?: string | null;
+    resultReleaseMode?: string | null;
+    resultsReleaseAt?: Date | null;
+    resultsReleasedAt?: Date | null;
+  },
+  now: Date = new Date()
+): boolean {
+  if (!RESULT_RELEASE_CATEGORIES.includes(exam.category || "practice")) {
+    return true;
+  }
+  if (exam.resultsReleasedAt) return true;
+
+  switch (exam.resultReleaseMode) {
+    case "scheduled":
+      return !!exam.resultsReleaseAt && new Date(exam.resultsReleaseAt) <= now;
+    case "manual":
+      return false;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Rank completed sessions by score, then by time taken. Each participant
+ * is ranked once on their best attempt; equal score and time share a rank.
+ */
+export function rankParticipants(
+  sessions: Array<{
+    userId: string;
+    score: number;
+    startedAt: Date;
+    completedAt: Date;
+  }>
+): RankedParticipant[] {
+  const best = new Map<string, Omit<RankedParticipant, "rank">>();
+
+  for (const session of sessions) {
+    const timeTaken = Math.max(
+      0,
+      Math.round(
+        (new Date(session.completedAt).getTime() -
+          new Date(session.startedAt).getTime()) /
+          1000
+      )
+    );
+    const current = best.get(session.userId);
+
+    if (
+      !current ||
+      session.score > current.score ||
+      (session.score === current.score && timeTaken < current.timeTaken)
+    ) {
+      best.set(session.userId, {
+        userId: session.userId,
+        score: session.score,
+        timeTaken,
+        completedAt: new Date(session.completedAt),
+      });
+    }
+  }
+
+  const sorted = [...best.values()].sort(
+    (a, b) => b.score - a.score || a.timeTaken - b.timeTaken
+  );
+
+  const ranked: RankedParticipant[] = [];
+  sorted.forEach((participant, index) => {
+    const previous = ranked[index - 1];
+    const tied =
+      previous &&
+      previous.score === participant.score &&
+      previous.timeTaken === participant.timeTaken;
+
+    ranked.push({ ...participant, rank: tied ? previous.rank : index + 1 });
+  });
+
+  return ranked;
+}
@@ -0,0 +1,195 @@
+/**
+ * Item Analysis
+ *
+ * Classical test theory statistics for questions, computed from graded
+ * exam answers: difficulty index (p-value), point-biserial discrimination
+ * against the session score, average time and option pick rates.
+ *
+ * Questions are flagged only once they have enough responses for the
+ * statistics to be meaningful.
+ *
+ * @module lib/utils/item-analysis
+ */
+
+import type { ItemAnalysisFlag } from "@/types/admin";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const MIN_FLAG_RESPONSES = 20;
+
+// p-value bands for each difficulty level
+const EASY_P_VALUE = 0.7;
+const HARD_P_VALUE = 0.3;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ItemResponse {
+  questionId: string;
+  isCorrect: boolean;
+  selectedOptionId: string | null;
+  timeSpent: number; // In seconds
+  totalScore: number; // Session score, 0-100
+}
+
+export interface ItemDefinition {
+  id: string;
+  difficultyLevel: string;
+  hasChoices: boolean; // Multiple choice or true/false
+  options: Array<{ id: string; isCorrect: boolean }>;
+}
+
+export interface OptionStatistics {
+  optionId: string;
+  isCorrect: boolean;
+  picks: number;
+  pickRate: number;
+  meanScore: number | null;
+}
+
+export interface ItemStatistics {
+  questionId: string;
+  responses: number;
+  pValue: number | null;
+  discrimination: number | null;
+  averageTime: number | null;
+  empiricalDifficulty: "easy" | "medium" | "hard" | null;
+  options: OptionStatistics[];
+  flags: ItemAnalysisFlag[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Difficulty level the p-value falls in
+ */
+export function classifyDifficulty(pValue: number): "easy" | "medium" | "hard" {
+  if (pValue >= EASY_P_VALUE) return "easy";
+  if (pValue >= HARD_P_VALUE) return "medium";
+  return "hard";
+}
+
+/**
+ * Point-biserial correlation between answering correctly and the total
+ * score. Null when everyone (or no one) got it right, or scores don't vary.
+ */
+function pointBiserial(responses: ItemResponse[]): number | null {
+  const scores = responses.map((r) => r.totalScore);
+  const correct = responses.filter((r) => r.isCorrect).map((r) => r.totalScore);
+  const incorrect = responses
+    .filter((r) => !r.isCorrect)
+    .map((r) => r.totalScore);
+
+  const overallMean = mean(scores);
+  const correctMean = mean(correct);
+  const incorrectMean = mean(incorrect);
+
+  if (overallMean === null || correctMean === null || incorrectMean === null) {
+    return null;
+  }
+
+  const variance =
+    scores.reduce((sum, s) => sum + (s - overallMean) ** 2, 0) / scores.length;
+  if (variance === 0) return null;
+
+  const p = correct.length / responses.length;
+  return (
+    ((correctMean - incorrectMean) / Math.sqrt(variance)) *
+    Math.sqrt(p * (1 - p))
+  );
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+/**
+ * Statistics and flags for a single question
+ *
+ * @param item - Question with its options
+ * @param responses - Graded answers to the question
+ */
+export function analyzeItem(
+  item: ItemDefinition,
+  responses: ItemResponse[]
+): ItemStatistics {
+  const total = responses.length;
+  const correctCount = responses.filter((r) => r.isCorrect).length;
+  const pValue = total > 0 ? correctCount / total : null;
+  const discrimination = pointBiserial(responses);
+  const empiricalDifficulty =
+    pValue !== null ? classifyDifficulty(pValue) : null;
+
+  // STEP 1: Option pick rates
+  const options: OptionStatistics[] = item.hasChoices
+    ? item.options.map((option) => {
+        const pickers = responses.filter(
+          (r) => r.selectedOptionId === option.id
+        );
+        return {
+          optionId: option.id,
+          isCorrect: option.isCorrect,
+          picks: pickers.length,
+          pickRate: total > 0 ? pickers.length / total : 0,
+          meanScore: mean(pickers.map((r) => r.totalScore)),
+        };
+      })
+    : [];
+
+  // STEP 2: Flags
+  const flags: ItemAnalysisFlag[] = [];
+
+  if (total >= MIN_FLAG_RESPONSES) {
+    if (empiricalDifficulty && empiricalDifficulty !== item.difficultyLevel) {
+      flags.push("difficulty_mismatch");
+    }
+
+    const keys = options.filter((o) => o.isCorrect);
+    const distractors = options.filter((o) => !o.isCorrect);
+
+    if (distractors.some((o) => o.picks === 0)) {
+      flags.push("unused_distractor");
+    }
+
+    // A miskeyed question penalises strong candidates: either the item
+    // discriminates negatively, or a distractor outdraws the key and is
+    // picked by stronger candidates than the key is.
+    const keyPicks = keys.reduce((sum, o) => sum + o.picks, 0);
+    const keyMeanScore = mean(
+      responses
+        .filter((r) => keys.some((o) => o.optionId === r.selectedOptionId))
+        .map((r) => r.totalScore)
+    );
+    const outdrawsKey = distractors.some(
+      (o) =>
+        o.picks > keyPicks &&
+        o.meanScore !== null &&
+        (keyMeanScore === null || o.meanScore > keyMeanScore)
+    );
+
+    if ((discrimination !== null && discrimination < 0) || outdrawsKey) {
+      flags.push("possible_key_error");
+    }
+  }
+
+  return {
+    questionId: item.id,
+    responses: total,
+    pValue,
+    discrimination,
+    averageTime: mean(responses.map((r) => r.timeSpent)),
+    empiricalDifficulty,
+    options,
+    flags,
+  };
+}
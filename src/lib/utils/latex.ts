@@ -0,0 +1,198 @@
+/**
+ * LaTeX Utilities
+ *
+ * Maths and chemistry notation in question text, options and
+ * explanations. `$...$` marks inline maths and `$$...$$` display maths;
+ * `\$` is a literal dollar sign. Inline maths stays on one line and
+ * follows the usual Markdown rules (no space after the opening `$`, none
+ * before the closing one, and no digit straight after it), so prices such
+ * as "$5 or $10" stay text.
+ * Chemistry uses the `\ce{}` commands from KaTeX's mhchem extension.
+ *
+ * Kept free of server imports so the renderer can use it in the browser.
+ *
+ * @module lib/utils/latex
+ */
+
+import katex, { type KatexOptions } from "katex";
+import "katex/contrib/mhchem";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const KATEX_OPTIONS: KatexOptions = {
+  trust: false, // No \href, \url or \includegraphics
+  strict: "ignore",
+  maxSize: 20, // em
+  maxExpand: 200, // Macro expansions, guards against expansion loops
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LatexSegment {
+  type: "text" | "inline" | "block";
+  value: string; // Source without the $ delimiters
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+function findBlockEnd(text: string, from: number): number {
+  for (let i = from; i < text.length - 1; i++) {
+    if (text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text[i] === "$" && text[i + 1] === "$") return i;
+  }
+  return -1;
+}
+
+function findInlineEnd(text: string, from: number): number {
+  if (from >= text.length || /\s/.test(text[from])) return -1;
+
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === "\n") return -1;
+    if (text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (
+      text[i] === "$" &&
+      i > from &&
+      !/\s/.test(text[i - 1]) &&
+      !/\d/.test(text[i + 1] ?? "")
+    ) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split text into plain text and maths segments
+ *
+ * Text segments keep their `\$` escapes so the segments join back into
+ * the original string.
+ */
+export function splitLatex(text: string): LatexSegment[] {
+  const segments: LatexSegment[] = [];
+  let buffer = "";
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) segments.push({ type: "text", value: buffer });
+    buffer = "";
+  };
+
+  while (i < text.length) {
+    if (text[i] === "\\" && text[i + 1] === "$") {
+      buffer += "\\$";
+      i += 2;
+      continue;
+    }
+
+    if (text[i] === "$") {
+      const isBlock = text[i + 1] === "$";
+      const end = isBlock
+        ? findBlockEnd(text, i + 2)
+        : findInlineEnd(text, i + 1);
+
+      if (end !== -1 && (!isBlock || text.slice(i + 2, end).trim())) {
+        flush();
+        segments.push({
+          type: isBlock ? "block" : "inline",
+          value: text.slice(isBlock ? i + 2 : i + 1, end),
+        });
+        i = end + (isBlock ? 2 : 1);
+        continue;
+      }
+    }
+
+    buffer += text[i];
+    i++;
+  }
+
+  flush();
+  return segments;
+}
+
+/**
+ * Join segments back into delimited source
+ */
+export function joinLatex(segments: LatexSegment[]): string {
+  return segments
+    .map((segment) =>
+      segment.type === "text"
+        ? segment.value
+        : segment.type === "block"
+          ? `$$${segment.value}$$`
+          : `$${segment.value}$`
+    )
+    .join("");
+}
+
+export function hasLatex(text: string): boolean {
+  return splitLatex(text).some((segment) => segment.type !== "text");
+}
+
+/**
+ * Text segment as displayed, with `\$` escapes resolved
+ */
+export function unescapeLatexText(text: string): string {
+  return text.replace(/\\\$/g, "$");
+}
+
+// ============================================
+// VALIDATION AND RENDERING
+// ============================================
+
+/**
+ * First LaTeX error in the text, if any
+ *
+ * @returns Error message, or null when every maths segment parses
+ */
+export function getLatexError(text: string): string | null {
+  const segments = splitLatex(text);
+
+  for (const segment of segments) {
+    if (segment.type === "text") {
+      if (/(^|[^\\])\$\$/.test(segment.value)) {
+        return "Display maths opened with $$ is never closed";
+      }
+      continue;
+    }
+
+    try {
+      katex.renderToString(segment.value, {
+        ...KATEX_OPTIONS,
+        displayMode: segment.type === "block",
+        throwOnError: true,
+      });
+    } catch (error) {
+      if (error instanceof katex.ParseError) {
+        return `Invalid LaTeX in "${segment.value.trim()}": ${error.rawMessage}`;
+      }
+      throw error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Render one maths segment to HTML
+ *
+ * Invalid LaTeX renders as its source in red instead of throwing.
+ */
+export function renderLatex(value: string, displayMode: boolean): string {
+  return katex.renderToString(value, {
+    ...KATEX_OPTIONS,
+    displayMode,
+    throwOnError: false,
+  });
+}
@@ -18,9 +18,13 @@ import type { Question, QuestionOption } from "@/generated/prisma";
  * Question with decrypted text fields
  */
 export interface DecryptedQuestion
-  extends Omit<Question, "questionText" | "answerExplanation" | "options"> {
+  extends Omit<
+    Question,
+    "questionText" | "answerExplanation" | "markingRubric" | "options"
+  > {
   questionText: string; // Decrypted plaintext
   answerExplanation: string | null; // Decrypted plaintext
+  markingRubric: string | null; // Decrypted plaintext
   options: DecryptedOption[];
 }
 
@@ -71,6 +75,15 @@ export function decryptQuestion(
       answerExplanationDecrypted = decrypt(answerExplanationEncrypted);
     }
 
+    // Parse and decrypt marking rubric (if exists)
+    let markingRubricDecrypted: string | null = null;
+    if (question.markingRubric) {
+      const markingRubricEncrypted: EncryptedData = JSON.parse(
+        question.markingRubric
+      );
+      markingRubricDecrypted = decrypt(markingRubricEncrypted);
+    }
+
     // Decrypt all options
     const decryptedOptions: DecryptedOption[] = question.options.map(
       (option) => {
@@ -90,6 +103,7 @@ export function decryptQuestion(
       ...question,
       questionText: questionTextDecrypted,
       answerExplanation: answerExplanationDecrypted,
+      markingRubric: markingRubricDecrypted,
       options: decryptedOptions,
     };
   } catch (error) {
@@ -0,0 +1,529 @@
+/**
+ * Rich Text Utilities
+ *
+ * Question text and answer explanations are stored as a small Markdown
+ * subset, so they stay readable in the database, in bulk import files and
+ * in the plain admin textarea:
+ *
+ * - Paragraphs, separated by a blank line (single line breaks are kept)
+ * - Bullet (`- item`) and numbered (`1. item`) lists
+ * - Pipe tables with a `| --- |` separator under the header row
+ * - Fenced code blocks (```` ``` ```` with an optional language)
+ * - Inline **bold**, *italic* or _italic_, `code`, LaTeX maths and images
+ *   (`![alt](/uploads/questions/...)`)
+ *
+ * Anything else is plain text. The renderer builds React elements from
+ * the parsed blocks and never renders stored text as HTML.
+ *
+ * Kept free of server imports so the renderer can use it in the browser.
+ *
+ * @module lib/utils/rich-text
+ */
+
+import { getLatexError, joinLatex, splitLatex } from "@/lib/utils/latex";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const RICH_TEXT_IMAGE_PREFIX = "/uploads/questions/";
+
+const MAX_TABLE_COLUMNS = 10;
+const MAX_TABLE_ROWS = 50;
+
+const FENCE_PATTERN = /^\s*```\s*([\w+#-]{0,20})\s*$/;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*(\d{1,3})[.)]\s+(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?(\s*:?-+:?\s*\|)+\s*(:?-+:?\s*)?$/;
+const INLINE_CODE_PATTERN = /`([^`\n]+)`/g;
+const IMAGE_PATTERN = /!\[([^\]\n]*)\]\(([^)\s]+)\)/g;
+const ESCAPABLE = "\\`*_[]|$!";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RichInline =
+  | { type: "text"; value: string }
+  | { type: "strong" | "emphasis"; children: RichInline[] }
+  | { type: "code"; value: string }
+  | { type: "math"; value: string; display: boolean }
+  | { type: "image"; alt: string; src: string };
+
+export type RichTableAlign = "left" | "center" | "right" | null;
+
+export type RichBlock =
+  | { type: "paragraph"; children: RichInline[] }
+  | { type: "list"; ordered: boolean; start: number; items: RichInline[][] }
+  | {
+      type: "table";
+      align: RichTableAlign[];
+      header: RichInline[][];
+      rows: RichInline[][][];
+    }
+  | { type: "code"; language: string | null; value: string };
+
+interface SourceSegment {
+  type: "code" | "prose";
+  value: string;
+}
+
+// ============================================
+// INLINE PARSING
+// ============================================
+
+function appendText(nodes: RichInline[], value: string) {
+  const last = nodes[nodes.length - 1];
+  if (last?.type === "text") {
+    last.value += value;
+  } else if (value) {
+    nodes.push({ type: "text", value });
+  }
+}
+
+/**
+ * Split inline source into code, maths, images and raw text
+ */
+function tokenizeInline(source: string): RichInline[] {
+  const tokens: RichInline[] = [];
+
+  source.split(INLINE_CODE_PATTERN).forEach((part, index) => {
+    // Odd parts are the contents of `code` spans
+    if (index % 2 === 1) {
+      tokens.push({ type: "code", value: part });
+      return;
+    }
+
+    for (const segment of splitLatex(part)) {
+      if (segment.type !== "text") {
+        tokens.push({
+          type: "math",
+          value: segment.value,
+          display: segment.type === "block",
+        });
+        continue;
+      }
+
+      let lastIndex = 0;
+      for (const match of segment.value.matchAll(IMAGE_PATTERN)) {
+        tokens.push({
+          type: "text",
+          value: segment.value.slice(lastIndex, match.index),
+        });
+        tokens.push({ type: "image", alt: match[1], src: match[2] });
+        lastIndex = match.index + match[0].length;
+      }
+      tokens.push({ type: "text", value: segment.value.slice(lastIndex) });
+    }
+  });
+
+  return tokens.filter((token) => token.type !== "text" || token.value);
+}
+
+/**
+ * Resolve backslash escapes and **bold** / *italic* markers in text
+ * tokens. Markers never pair across code or maths content, and unpaired
+ * markers stay as text.
+ */
+function parseEmphasis(tokens: RichInline[]): RichInline[] {
+  const stack: Array<{ marker: string; children: RichInline[] }> = [
+    { marker: "", children: [] },
+  ];
+  const top = () => stack[stack.length - 1];
+
+  for (const token of tokens) {
+    if (token.type !== "text") {
+      top().children.push(token);
+      continue;
+    }
+
+    const value = token.value;
+    let i = 0;
+
+    while (i < value.length) {
+      const char = value[i];
+
+      if (
+        char === "\\" &&
+        i + 1 < value.length &&
+        ESCAPABLE.includes(value[i + 1])
+      ) {
+        appendText(top().children, value[i + 1]);
+        i += 2;
+        continue;
+      }
+
+      const marker = value.startsWith("**", i)
+        ? "**"
+        : char === "*" || char === "_"
+          ? char
+          : null;
+
+      if (marker) {
+        const before = value[i - 1] ?? "";
+        const after = value[i + marker.length] ?? "";
+        const intraword =
+          marker === "_" && /\w/.test(before) && /\w/.test(after);
+
+        if (
+          !intraword &&
+          top().marker === marker &&
+          top().children.length > 0 &&
+          !/\s/.test(before)
+        ) {
+          const frame = stack.pop()!;
+          top().children.push({
+            type: marker === "**" ? "strong" : "emphasis",
+            children: frame.children,
+          });
+          i += marker.length;
+          continue;
+        }
+
+        if (!intraword && !/\s/.test(after)) {
+          stack.push({ marker, children: [] });
+          i += marker.length;
+          continue;
+        }
+      }
+
+      appendText(top().children, char);
+      i++;
+    }
+  }
+
+  // Unclosed markers fall back to text
+  while (stack.length > 1) {
+    const frame = stack.pop()!;
+    appendText(top().children, frame.marker);
+    for (const child of frame.children) {
+      if (child.type === "text") {
+        appendText(top().children, child.value);
+      } else {
+        top().children.push(child);
+      }
+    }
+  }
+
+  return stack[0].children;
+}
+
+function parseInline(source: string): RichInline[] {
+  return parseEmphasis(tokenizeInline(source));
+}
+
+// ============================================
+// BLOCK PARSING
+// ============================================
+
+/**
+ * Split a table row on `|`, leaving pipes inside maths (e.g. $|x|$) and
+ * escaped pipes in their cell
+ */
+function splitTableRow(line: string): string[] {
+  const cells = [""];
+
+  for (const segment of splitLatex(line.trim())) {
+    if (segment.type !== "text") {
+      cells[cells.length - 1] += joinLatex([segment]);
+      continue;
+    }
+
+    for (let i = 0; i < segment.value.length; i++) {
+      const char = segment.value[i];
+      if (char === "\\" && segment.value[i + 1] === "|") {
+        cells[cells.length - 1] += "\\|";
+        i++;
+      } else if (char === "|") {
+        cells.push("");
+      } else {
+        cells[cells.length - 1] += char;
+      }
+    }
+  }
+
+  // Outer pipes are optional
+  if (cells.length > 1 && !cells[0].trim()) cells.shift();
+  if (cells.length > 1 && !cells[cells.length - 1].trim()) cells.pop();
+
+  return cells.map((cell) => cell.trim());
+}
+
+function parseTableAlign(cell: string): RichTableAlign {
+  const left = cell.startsWith(":");
+  const right = cell.endsWith(":");
+  return left && right ? "center" : right ? "right" : left ? "left" : null;
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return (
+    lines[index].trim().startsWith("|") &&
+    index + 1 < lines.length &&
+    lines[index + 1].includes("|") &&
+    TABLE_SEPARATOR_PATTERN.test(lines[index + 1])
+  );
+}
+
+function isBlockStart(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return (
+    FENCE_PATTERN.test(line) ||
+    BULLET_PATTERN.test(line) ||
+    ORDERED_PATTERN.test(line) ||
+    isTableStart(lines, index)
+  );
+}
+
+/**
+ * Parse rich text into blocks
+ */
+export function parseRichText(text: string): RichBlock[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: RichBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block (runs to the end when never closed)
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({
+        type: "code",
+        language: fence[1] || null,
+        value: code.join("\n"),
+      });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseTableAlign);
+      const rows: RichInline[][][] = [];
+      i += 2;
+
+      while (i < lines.length && lines[i].trim().startsWith("|")) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? "")));
+        i++;
+      }
+
+      blocks.push({
+        type: "table",
+        align: header.map((_, column) => align[column] ?? null),
+        header: header.map((cell) => parseInline(cell)),
+        rows,
+      });
+      continue;
+    }
+
+    const bullet = BULLET_PATTERN.test(line);
+    const ordered = line.match(ORDERED_PATTERN);
+    if (bullet || ordered) {
+      const pattern = bullet ? BULLET_PATTERN : ORDERED_PATTERN;
+      const items: string[] = [];
+
+      while (i < lines.length && lines[i].trim()) {
+        const match = lines[i].match(pattern);
+        if (match) {
+          items.push(match[match.length - 1]);
+        } else if (/^\s{2,}/.test(lines[i]) && !isBlockStart(lines, i)) {
+          // Indented lines continue the previous item
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+
+      blocks.push({
+        type: "list",
+        ordered: !bullet,
+        start: ordered ? parseInt(ordered[1]) : 1,
+        items: items.map((item) => parseInline(item)),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      (paragraph.length === 0 || !isBlockStart(lines, i))
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+
+    blocks.push({
+      type: "paragraph",
+      children: parseInline(paragraph.join("\n")),
+    });
+  }
+
+  return blocks;
+}
+
+// ============================================
+// INSPECTION
+// ============================================
+
+function walkInline(
+  nodes: RichInline[],
+  visit: (node: RichInline) => void
+): void {
+  for (const node of nodes) {
+    visit(node);
+    if (node.type === "strong" || node.type === "emphasis") {
+      walkInline(node.children, visit);
+    }
+  }
+}
+
+function blockInlines(block: RichBlock): RichInline[][] {
+  switch (block.type) {
+    case "paragraph":
+      return [block.children];
+    case "list":
+      return block.items;
+    case "table":
+      return [...block.header, ...block.rows.flat()];
+    case "code":
+      return [];
+  }
+}
+
+/**
+ * Whether the text uses any formatting beyond a plain paragraph
+ */
+export function hasRichFormatting(text: string): boolean {
+  const blocks = parseRichText(text);
+  if (blocks.length === 1 && blocks[0].type === "paragraph") {
+    return blocks[0].children.some((node) => node.type !== "text");
+  }
+  return blocks.length > 0;
+}
+
+export function isAllowedRichTextImage(src: string): boolean {
+  return (
+    src.startsWith(RICH_TEXT_IMAGE_PREFIX) &&
+    !src.split("/").includes("..") &&
+    /^[\w./-]+$/.test(src)
+  );
+}
+
+/**
+ * Split source into code (fenced blocks and `code` spans, kept verbatim)
+ * and prose
+ */
+function splitSource(text: string): SourceSegment[] {
+  const segments: SourceSegment[] = [];
+  const lines = text.split("\n");
+  const withNewline = (i: number) =>
+    i < lines.length - 1 ? `${lines[i]}\n` : lines[i];
+  let prose = "";
+
+  const flushProse = () => {
+    prose.split(/(`[^`\n]+`)/g).forEach((part, index) => {
+      if (part) {
+        segments.push({
+          type: index % 2 === 1 ? "code" : "prose",
+          value: part,
+        });
+      }
+    });
+    prose = "";
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!FENCE_PATTERN.test(lines[i])) {
+      prose += withNewline(i);
+      continue;
+    }
+
+    flushProse();
+    let code = withNewline(i);
+    while (i + 1 < lines.length) {
+      i++;
+      code += withNewline(i);
+      if (/^\s*```\s*$/.test(lines[i])) break;
+    }
+    segments.push({ type: "code", value: code });
+  }
+
+  flushProse();
+  return segments;
+}
+
+/**
+ * Apply a function to the prose of rich text, leaving code and maths as
+ * they are
+ */
+export function mapRichTextProse(
+  text: string,
+  transform: (prose: string) => string
+): string {
+  return splitSource(text)
+    .map((segment) =>
+      segment.type === "code"
+        ? segment.value
+        : joinLatex(
+            splitLatex(segment.value).map((part) =>
+              part.type === "text"
+                ? { ...part, value: transform(part.value) }
+                : part
+            )
+          )
+    )
+    .join("");
+}
+
+/**
+ * First problem with rich text, if any: invalid LaTeX, images that were
+ * not uploaded through the question form, or oversized tables
+ *
+ * @returns Error message, or null when the text is valid
+ */
+export function getRichTextError(text: string): string | null {
+  for (const segment of splitSource(text)) {
+    if (segment.type === "prose") {
+      const latexError = getLatexError(segment.value);
+      if (latexError) return latexError;
+    }
+  }
+
+  for (const block of parseRichText(text)) {
+    if (block.type === "table") {
+      if (block.header.length > MAX_TABLE_COLUMNS) {
+        return `Tables can have at most ${MAX_TABLE_COLUMNS} columns`;
+      }
+      if (block.rows.length > MAX_TABLE_ROWS) {
+        return `Tables can have at most ${MAX_TABLE_ROWS} rows`;
+      }
+    }
+
+    let imageError: string | null = null;
+    for (const nodes of blockInlines(block)) {
+      walkInline(nodes, (node) => {
+        if (node.type === "image" && !isAllowedRichTextImage(node.src)) {
+          imageError = "Images must be added with the image button";
+        }
+      });
+    }
+    if (imageError) return imageError;
+  }
+
+  return null;
+}
@@ -0,0 +1,77 @@
+/**
+ * Spaced Repetition (SM-2)
+ *
+ * Schedules review queue items with the SuperMemo SM-2 algorithm. Recall
+ * quality is graded 0-5; anything below 3 counts as a lapse and restarts
+ * the item's interval.
+ *
+ * @module lib/utils/spaced-repetition
+ */
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MIN_EASE_FACTOR = 1.3;
+const PASSING_QUALITY = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  interval: number; // Days
+  repetitions: number;
+  lapses: number;
+}
+
+// ============================================
+// SCHEDULING
+// ============================================
+
+/**
+ * Next schedule for an item after a review of the given quality
+ *
+ * @param item - Current schedule
+ * @param quality - Recall quality, 0 (blackout) to 5 (perfect)
+ * @param now - Review time
+ * @returns Updated schedule and the next due date
+ */
+export function scheduleReview(
+  item: ReviewSchedule,
+  quality: number,
+  now: Date = new Date()
+): ReviewSchedule & { dueAt: Date } {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    item.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let interval: number;
+  let repetitions: number;
+  let lapses = item.lapses;
+
+  if (quality < PASSING_QUALITY) {
+    repetitions = 0;
+    interval = 1;
+    lapses++;
+  } else {
+    repetitions = item.repetitions + 1;
+    interval =
+      repetitions === 1
+        ? 1
+        : repetitions === 2
+          ? 6
+          : Math.round(item.interval * easeFactor);
+  }
+
+  return {
+    easeFactor,
+    interval,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + interval * DAY_MS),
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Topic Analytics
+ *
+ * Groups a candidate's graded answers by subject and question tag, so
+ * results and dashboards can point at the topics worth revising.
+ *
+ * @module lib/utils/topic-analytics
+ */
+
+import prisma from "@/lib/prisma";
+import type { TopicPerformance } from "@/types/exam-session";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const REVISION_ACCURACY_THRESHOLD = 60; // Percent
+const MAX_TOPICS_TO_REVISE = 5;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Question tags are stored as a JSON array, but older rows may hold a
+ * JSON-encoded string or a comma-separated list
+ */
+export function normalizeTags(tags: unknown): string[] {
+  let values: unknown = tags;
+
+  if (typeof tags === "string") {
+    try {
+      const parsed: unknown = JSON.parse(tags);
+      values = typeof parsed === "string" ? parsed.split(",") : parsed;
+    } catch {
+      values = tags.split(",");
+    }
+  }
+
+  if (!Array.isArray(values)) return [];
+
+  return [
+    ...new Set(
+      values
+        .filter((tag): tag is string => typeof tag === "string")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+/**
+ * Accuracy and average time per subject and topic
+ *
+ * Answers still waiting on manual marking (isCorrect null) are left out,
+ * as are questions without tags. Weakest topics come first.
+ */
+export function buildTopicPerformance(
+  answers: Array<{
+    questionId: string;
+    isCorrect: boolean | null;
+    timeSpent: number;
+  }>,
+  questions: Map<string, { subject: string; tags: unknown }>
+): TopicPerformance[] {
+  const topics = new Map<
+    string,
+    {
+      subject: string;
+      topic: string;
+      attempts: number;
+      correct: number;
+      time: number;
+    }
+  >();
+
+  for (const answer of answers) {
+    if (answer.isCorrect === null) continue;
+
+    const question = questions.get(answer.questionId);
+    if (!question) continue;
+
+    for (const topic of normalizeTags(question.tags)) {
+      const key = `${question.subject}::${topic}`;
+      const current = topics.get(key) ?? {
+        subject: question.subject,
+        topic,
+        attempts: 0,
+        correct: 0,
+        time: 0,
+      };
+
+      current.attempts++;
+      if (answer.isCorrect) current.correct++;
+      current.time += answer.timeSpent;
+      topics.set(key, current);
+    }
+  }
+
+  return [...topics.values()]
+    .map((t) => ({
+      subject: t.subject,
+      topic: t.topic,
+      attempts: t.attempts,
+      correctAnswers: t.correct,
+      accuracy: (t.correct / t.attempts) * 100,
+      averageTime: Math.round(t.time / t.attempts),
+    }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.attempts - a.attempts);
+}
+
+/**
+ * Topics below the revision threshold, weakest first
+ *
+ * @param minAttempts - Ignore topics answered fewer times than this, so a
+ *   single slip does not flag a topic across a long history
+ */
+export function selectTopicsToRevise(
+  topics: TopicPerformance[],
+  minAttempts = 1
+): TopicPerformance[] {
+  return topics
+    .filter(
+      (t) =>
+        t.attempts >= minAttempts && t.accuracy < REVISION_ACCURACY_THRESHOLD
+    )
+    .slice(0, MAX_TOPICS_TO_REVISE);
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Topic performance across the given exam sessions
+ */
+export async function getTopicPerformance(
+  sessionIds: string[]
+): Promise<TopicPerformance[]> {
+  if (sessionIds.length === 0) return [];
+
+  const answers = await prisma.examAnswer.findMany({
+    where: { sessionId: { in: sessionIds }, isCorrect: { not: null } },
+    select: { questionId: true, isCorrect: true, timeSpent: true },
+  });
+
+  return buildTopicPerformance(answers, await loadQuestionTopics(answers));
+}
+
+/**
+ * Subject and tags for each answered question
+ */
+export async function loadQuestionTopics(
+  answers: Array<{ questionId: string }>
+): Promise<Map<string, { subject: string; tags: unknown }>> {
+  const questions = await prisma.question.findMany({
+    where: { id: { in: [...new Set(answers.map((a) => a.questionId))] } },
+    select: { id: true, subject: true, tags: true },
+  });
+
+  return new Map(
+    questions.map((q) => [q.id, { subject: q.subject, tags: q.tags }])
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * Exam Blueprint Validation Schema
+ *
+ * Zod schemas for assembling an exam from question counts per subject,
+ * tag and difficulty instead of hand-picked question IDs.
+ *
+ * @module lib/validations/exam-blueprint
+ */
+
+import { z } from "zod";
+import DOMPurify from "isomorphic-dompurify";
+import { EXAM_TYPES } from "@/lib/validations/exam";
+import { DIFFICULTY_LEVELS } from "@/lib/validations/question";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const MAX_BLUEPRINT_RULES = 20;
+export const MAX_BLUEPRINT_QUESTIONS = 200;
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+export const blueprintRuleSchema = z.object({
+  subject: z
+    .string()
+    .trim()
+    .min(1, "Subject is required")
+    .max(100)
+    .transform((val) => DOMPurify.sanitize(val)),
+  tag: z
+    .string()
+    .max(50, "Tag must not exceed 50 characters")
+    .optional()
+    .transform((val) =>
+      val?.trim() ? DOMPurify.sanitize(val.trim().toLowerCase()) : undefined
+    ),
+  difficultyLevel: z.enum(DIFFICULTY_LEVELS).optional(),
+  count: z
+    .number()
+    .int("Count must be a whole number")
+    .min(1, "Count must be at least 1")
+    .max(MAX_BLUEPRINT_QUESTIONS),
+});
+
+export const examBlueprintSchema = z
+  .object({
+    examType: z.enum(EXAM_TYPES).optional(),
+    rules: z
+      .array(blueprintRuleSchema)
+      .min(1, "Add at least one blueprint row")
+      .max(MAX_BLUEPRINT_RULES),
+    targetPoints: z.number().positive().max(10000).optional(),
+    // Questions already in the preview, so a swap draws something new
+    excludeQuestionIds: z.array(z.string().cuid()).max(1000).default([]),
+  })
+  .refine(
+    (data) =>
+      data.rules.reduce((sum, rule) => sum + rule.count, 0) <=
+      MAX_BLUEPRINT_QUESTIONS,
+    {
+      message: `A blueprint may draw at most ${MAX_BLUEPRINT_QUESTIONS} questions`,
+      path: ["rules"],
+    }
+  );
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type BlueprintRuleInput = z.input<typeof blueprintRuleSchema>;
+export type ExamBlueprintInput = z.input<typeof examBlueprintSchema>;
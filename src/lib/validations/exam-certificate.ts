@@ -0,0 +1,43 @@
+/**
+ * Exam Certificate Validation Schema
+ *
+ * Zod schemas for certificate downloads and public verification.
+ *
+ * @module lib/validations/exam-certificate
+ */
+
+import { z } from "zod";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// EDU-XXXX-XXXX-XXXX, without look-alike characters (0/O, 1/I/L)
+export const CERTIFICATE_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+export const CERTIFICATE_CODE_PATTERN =
+  /^EDU-[ABCDEFGHJKMNPQRSTUVWXYZ23456789]{4}-[ABCDEFGHJKMNPQRSTUVWXYZ23456789]{4}-[ABCDEFGHJKMNPQRSTUVWXYZ23456789]{4}$/;
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+export const downloadCertificateSchema = z.object({
+  sessionId: z.string().cuid(),
+});
+
+export const verifyCertificateSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(CERTIFICATE_CODE_PATTERN, "Invalid verification code"),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type DownloadCertificateInput = z.infer<
+  typeof downloadCertificateSchema
+>;
+export type VerifyCertificateInput = z.infer<typeof verifyCertificateSchema>;
@@ -0,0 +1,100 @@
+/**
+ * Exam Invitation Validation Schema
+ *
+ * Zod schemas for admin invitation management on recruitment,
+ * competition and challenge exams.
+ *
+ * @module lib/validations/exam-invitation
+ */
+
+import { z } from "zod";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const INVITATION_CATEGORIES = [
+  "recruitment",
+  "competition",
+  "challenge",
+] as const;
+
+export const INVITATION_STATUSES = [
+  "pending",
+  "used",
+  "expired",
+  "revoked",
+] as const;
+
+export const MAX_INVITATIONS_PER_BATCH = 500;
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+const expiresAtSchema = z
+  .string()
+  .datetime({ offset: true })
+  .optional()
+  .refine((val) => !val || new Date(val) > new Date(), {
+    message: "Expiry date must be in the future",
+  });
+
+/**
+ * Single invitation schema
+ *
+ * An invitation targets either a registered user or an email address.
+ */
+export const createInvitationSchema = z
+  .object({
+    examId: z.string().cuid(),
+    userId: z.string().cuid().optional(),
+    email: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .email("Invalid email address")
+      .optional(),
+    expiresAt: expiresAtSchema,
+    sendEmail: z.boolean().default(true),
+  })
+  .refine((data) => !!data.userId !== !!data.email, {
+    message: "Provide either a user or an email address",
+    path: ["email"],
+  });
+
+/**
+ * Batch invitation schema (CSV of email addresses)
+ */
+export const createInvitationBatchSchema = z.object({
+  examId: z.string().cuid(),
+  csv: z
+    .string()
+    .min(1, "CSV content is required")
+    .max(200_000, "CSV file is too large"),
+  expiresAt: expiresAtSchema,
+  sendEmail: z.boolean().default(true),
+});
+
+export const listInvitationsSchema = z.object({
+  examId: z.string().cuid(),
+  status: z.enum(INVITATION_STATUSES).optional(),
+});
+
+export const revokeInvitationSchema = z.object({
+  invitationId: z.string().cuid(),
+});
+
+export const invitationEmailSchema = z.string().trim().toLowerCase().email();
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type CreateInvitationInput = z.input<typeof createInvitationSchema>;
+export type CreateInvitationBatchInput = z.input<
+  typeof createInvitationBatchSchema
+>;
+export type ListInvitationsInput = z.infer<typeof listInvitationsSchema>;
+export type RevokeInvitationInput = z.infer<typeof revokeInvitationSchema>;
+export type InvitationStatus = (typeof INVITATION_STATUSES)[number];
@@ -0,0 +1,44 @@
+/**
+ * Exam Marking Validation Schema
+ *
+ * Zod schemas for the admin essay marking queue.
+ *
+ * @module lib/validations/exam-marking
+ */
+
+import { z } from "zod";
+import DOMPurify from "isomorphic-dompurify";
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+export const markingQueueSchema = z.object({
+  examId: z.string().cuid().optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+export const sessionMarkingSchema = z.object({
+  sessionId: z.string().cuid(),
+});
+
+export const markAnswerSchema = z.object({
+  answerId: z.string().cuid(),
+  pointsAwarded: z
+    .number()
+    .min(0, "Points awarded must be non-negative")
+    .max(100, "Points awarded must not exceed 100"),
+  feedback: z
+    .string()
+    .max(2000, "Feedback must not exceed 2000 characters")
+    .optional()
+    .transform((val) => (val ? DOMPurify.sanitize(val.trim()) : val)),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type MarkingQueueInput = z.input<typeof markingQueueSchema>;
+export type MarkAnswerInput = z.input<typeof markAnswerSchema>;
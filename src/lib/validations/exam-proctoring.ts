@@ -0,0 +1,64 @@
+/**
+ * Exam Proctoring Validation Schema
+ *
+ * Zod schemas for the admin proctoring review console.
+ *
+ * @module lib/validations/exam-proctoring
+ */
+
+import { z } from "zod";
+import DOMPurify from "isomorphic-dompurify";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const PROCTORING_STATUSES = [
+  "unreviewed",
+  "cleared",
+  "flagged",
+  "disqualified",
+] as const;
+
+export const PROCTORING_REVIEW_STATUSES = [
+  "cleared",
+  "flagged",
+  "disqualified",
+] as const;
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+export const proctoringQueueSchema = z.object({
+  examId: z.string().cuid().optional(),
+  proctoringStatus: z.enum(PROCTORING_STATUSES).optional(),
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+export const sessionProctoringSchema = z.object({
+  sessionId: z.string().cuid(),
+});
+
+export const reviewSessionSchema = z
+  .object({
+    sessionId: z.string().cuid(),
+    proctoringStatus: z.enum(PROCTORING_REVIEW_STATUSES),
+    note: z
+      .string()
+      .max(2000, "Note must not exceed 2000 characters")
+      .optional()
+      .transform((val) => (val ? DOMPurify.sanitize(val.trim()) : val)),
+  })
+  .refine((data) => data.proctoringStatus !== "disqualified" || !!data.note, {
+    message: "Add a note explaining the disqualification",
+    path: ["note"],
+  });
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type ProctoringQueueInput = z.input<typeof proctoringQueueSchema>;
+export type ReviewSessionInput = z.input<typeof reviewSessionSchema>;
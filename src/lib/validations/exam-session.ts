@@ -1,13 +1,6 @@
 import { z } from "zod";
 import DOMPurify from "isomorphic-dompurify";
-
-const VIOLATION_TYPES = [
-  "tab_switch",
-  "window_blur",
-  "copy_attempt",
-  "paste_attempt",
-  "fullscreen_exit",
-] as const;
+import { VIOLATION_TYPES } from "@/lib/validations/exam";
 
 export const examAccessSchema = z.object({
   examId: z.string().cuid(),
@@ -62,6 +55,21 @@ export const submitAnswerSchema = z.object({
   timeSpent: z.number().int().min(0),
 });
 
+export const clearAnswerSchema = z.object({
+  sessionId: z.string().cuid(),
+  questionId: z.string().cuid(),
+});
+
+export const flagQuestionSchema = z.object({
+  sessionId: z.string().cuid(),
+  questionId: z.string().cuid(),
+  flagged: z.boolean(),
+});
+
+export const sessionReviewSchema = z.object({
+  sessionId: z.string().cuid(),
+});
+
 export const completeExamSchema = z.object({
   sessionId: z.string().cuid(),
 });
@@ -84,13 +92,50 @@ export const abandonSessionSchema = z.object({
   sessionId: z.string().cuid(),
 });
 
+export const sessionDetailsSchema = z.object({
+  sessionId: z.string().cuid(),
+});
+
+export const resumeSessionSchema = z.object({
+  sessionId: z.string().cuid(),
+  password: z.string().min(1).max(128).optional(),
+});
+
+export const finishSectionSchema = z.object({
+  sessionId: z.string().cuid(),
+  sectionIndex: z.number().int().min(0),
+});
+
+export const leaderboardSchema = z.object({
+  examId: z.string().cuid(),
+});
+
+export const liveProgressSchema = z.object({
+  sessionId: z.string().cuid(),
+});
+
+export const startSmartPracticeSchema = z.object({
+  subject: z.string().trim().min(1).max(100),
+  numQuestions: z.number().int().min(5).max(80),
+  timeLimit: z.number().int().min(1).max(600).optional(),
+});
+
 export type ExamAccessInput = z.infer<typeof examAccessSchema>;
 export type ExamConfigInput = z.infer<typeof examConfigSchema>;
 export type StartExamInput = z.infer<typeof startExamSchema>;
 export type GetQuestionInput = z.infer<typeof getQuestionSchema>;
 export type SubmitAnswerInput = z.infer<typeof submitAnswerSchema>;
+export type ClearAnswerInput = z.infer<typeof clearAnswerSchema>;
+export type FlagQuestionInput = z.infer<typeof flagQuestionSchema>;
+export type SessionReviewInput = z.infer<typeof sessionReviewSchema>;
 export type CompleteExamInput = z.infer<typeof completeExamSchema>;
 export type TrackViolationInput = z.infer<typeof trackViolationSchema>;
 export type SyncTimeInput = z.infer<typeof syncTimeSchema>;
 export type GetResultsInput = z.infer<typeof getResultsSchema>;
 export type AbandonSessionInput = z.infer<typeof abandonSessionSchema>;
+export type SessionDetailsInput = z.infer<typeof sessionDetailsSchema>;
+export type ResumeSessionInput = z.infer<typeof resumeSessionSchema>;
+export type FinishSectionInput = z.infer<typeof finishSectionSchema>;
+export type LeaderboardInput = z.infer<typeof leaderboardSchema>;
+export type LiveProgressInput = z.infer<typeof liveProgressSchema>;
+export type StartSmartPracticeInput = z.infer<typeof startSmartPracticeSchema>;
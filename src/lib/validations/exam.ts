@@ -32,10 +32,132 @@ export const EXAM_CATEGORIES = [
   "test",
 ] as const;
 
+export const RESULT_RELEASE_MODES = [
+  "immediate",
+  "scheduled",
+  "manual",
+] as const;
+
+export const VIOLATION_TYPES = [
+  "tab_switch",
+  "window_blur",
+  "copy_attempt",
+  "paste_attempt",
+  "fullscreen_exit",
+] as const;
+
 // ============================================
 // VALIDATION SCHEMAS
 // ============================================
 
+/**
+ * Anti-cheat policy schema
+ *
+ * Stored as JSON on the exam; thresholds are compared with the sum of
+ * violation weights, and a null threshold turns that step off.
+ */
+export const antiCheatPolicySchema = z
+  .object({
+    monitoredViolations: z
+      .array(z.enum(VIOLATION_TYPES))
+      .transform((val) => [...new Set(val)]),
+    violationWeights: z.record(
+      z.enum(VIOLATION_TYPES),
+      z
+        .number()
+        .min(0, "Weight must be at least 0")
+        .max(10, "Weight must not exceed 10")
+    ),
+    warningThreshold: z
+      .number()
+      .positive("Warning threshold must be positive")
+      .max(100, "Warning threshold must not exceed 100")
+      .nullable(),
+    autoSubmitThreshold: z
+      .number()
+      .positive("Auto-submit threshold must be positive")
+      .max(100, "Auto-submit threshold must not exceed 100")
+      .nullable(),
+    blockCopyPaste: z.boolean(),
+  })
+  .refine(
+    (data) =>
+      data.warningThreshold === null ||
+      data.autoSubmitThreshold === null ||
+      data.warningThreshold < data.autoSubmitThreshold,
+    {
+      message: "Warning threshold must be below the auto-submit threshold",
+      path: ["warningThreshold"],
+    }
+  );
+
+/**
+ * Question pool schema
+ *
+ * Each pool draws `count` of the exam's questions matching its tag and
+ * difficulty when a session starts.
+ */
+export const questionPoolSchema = z.object({
+  label: z
+    .string()
+    .trim()
+    .min(1, "Pool name is required")
+    .max(100, "Pool name must not exceed 100 characters")
+    .transform((val) => DOMPurify.sanitize(val)),
+  tag: z
+    .string()
+    .max(50, "Tag must not exceed 50 characters")
+    .optional()
+    .transform((val) =>
+      val?.trim() ? DOMPurify.sanitize(val.trim().toLowerCase()) : undefined
+    ),
+  difficultyLevel: z.enum(["easy", "medium", "hard"]).optional(),
+  count: z
+    .number()
+    .int("Pool count must be a whole number")
+    .min(1, "Each pool must draw at least 1 question")
+    .max(200, "A pool may draw at most 200 questions"),
+});
+
+export const questionPoolsSchema = z
+  .array(questionPoolSchema)
+  .max(20, "Maximum 20 question pools allowed");
+
+/**
+ * Exam section schema
+ *
+ * Sections are taken in order. Each lists the exam questions it holds.
+ */
+export const examSectionSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Section title is required")
+    .max(100, "Section title must not exceed 100 characters")
+    .transform((val) => DOMPurify.sanitize(val)),
+  instructions: z
+    .string()
+    .max(2000, "Section instructions must not exceed 2000 characters")
+    .optional()
+    .transform((val) =>
+      val && val.trim() ? DOMPurify.sanitize(val.trim()) : undefined
+    ),
+  timeLimit: z
+    .number()
+    .int("Section time limit must be a whole number of minutes")
+    .positive("Section time limit must be positive")
+    .max(600, "Section time limit must not exceed 600 minutes")
+    .optional(),
+  allowReturn: z.boolean().default(true),
+  questionIds: z
+    .array(z.string().cuid({ message: "Invalid question ID format" }))
+    .min(1, "Every section needs at least 1 question"),
+});
+
+export const examSectionsSchema = z
+  .array(examSectionSchema)
+  .max(10, "Maximum 10 sections allowed");
+
 /**
  * Exam upload schema
  *
@@ -109,6 +231,13 @@ export const examUploadSchema = z
 
     randomize_options: z.boolean().default(false),
 
+    // null follows the category default (practice and test allow changes)
+    allow_answer_changes: z
+      .boolean()
+      .nullable()
+      .optional()
+      .transform((val) => val ?? null),
+
     is_public: z.boolean().default(false),
 
     is_free: z.boolean().default(true),
@@ -135,6 +264,34 @@ export const examUploadSchema = z
       .nullable()
       .transform((val) => val || null),
 
+    // Only recruitment, competition and challenge results are held back
+    result_release_mode: z.enum(RESULT_RELEASE_MODES).default("immediate"),
+
+    results_release_at: z
+      .string()
+      .datetime({ message: "Invalid release date format" })
+      .optional()
+      .nullable()
+      .transform((val) => val || null),
+
+    // null follows the category default (see resolveAntiCheatPolicy)
+    anti_cheat_policy: antiCheatPolicySchema
+      .nullable()
+      .optional()
+      .transform((val) => val ?? null),
+
+    // null gives every candidate every exam question
+    question_pools: questionPoolsSchema
+      .nullable()
+      .optional()
+      .transform((val) => (val && val.length > 0 ? val : null)),
+
+    // null keeps the exam as one flat list of questions
+    sections: examSectionsSchema
+      .nullable()
+      .optional()
+      .transform((val) => (val && val.length > 0 ? val : null)),
+
     // Question IDs
     question_ids: z
       .array(z.string().cuid({ message: "Invalid question ID format" }))
@@ -154,6 +311,14 @@ export const examUploadSchema = z
       path: ["end_date"],
     }
   )
+  .refine(
+    (data) =>
+      data.result_release_mode !== "scheduled" || !!data.results_release_at,
+    {
+      message: "Release date is required for scheduled release",
+      path: ["results_release_at"],
+    }
+  )
   .refine(
     (data) => {
       // Ensure no duplicate question IDs
@@ -164,6 +329,33 @@ export const examUploadSchema = z
       message: "Duplicate questions are not allowed",
       path: ["question_ids"],
     }
+  )
+  .refine(
+    (data) => {
+      // Every exam question sits in exactly one section
+      if (!data.sections) return true;
+      const sectionIds = data.sections.flatMap((s) => s.questionIds);
+      const examIds = new Set(data.question_ids);
+      return (
+        sectionIds.length === examIds.size &&
+        new Set(sectionIds).size === sectionIds.length &&
+        sectionIds.every((id) => examIds.has(id))
+      );
+    },
+    {
+      message: "Assign every question to exactly one section",
+      path: ["sections"],
+    }
+  )
+  .refine(
+    (data) =>
+      !data.sections ||
+      data.sections.reduce((sum, s) => sum + (s.timeLimit ?? 0), 0) <=
+        data.duration,
+    {
+      message: "Section time limits add up to more than the exam duration",
+      path: ["sections"],
+    }
   );
 
 /**
@@ -211,6 +403,25 @@ export const examUpdateSchema = examUploadSchema.partial().refine(
   }
 );
 
+/**
+ * Manual result release schema
+ */
+export const releaseResultsSchema = z.object({
+  examId: z.string().cuid(),
+});
+
+/**
+ * Exam analytics schemas
+ */
+export const examAnalyticsSchema = z.object({
+  examId: z.string().cuid(),
+});
+
+export const exportExamAnalyticsSchema = z.object({
+  examId: z.string().cuid(),
+  format: z.enum(["csv", "excel"]),
+});
+
 // ============================================
 // TYPE EXPORTS
 // ============================================
@@ -218,6 +429,10 @@ export const examUpdateSchema = examUploadSchema.partial().refine(
 export type ExamUploadInput = z.infer<typeof examUploadSchema>;
 export type QuestionSearchInput = z.infer<typeof questionSearchSchema>;
 export type ExamUpdateInput = z.infer<typeof examUpdateSchema>;
+export type ReleaseResultsInput = z.infer<typeof releaseResultsSchema>;
+export type ExportExamAnalyticsInput = z.infer<
+  typeof exportExamAnalyticsSchema
+>;
 
 // ============================================
 // VALIDATION FUNCTIONS
@@ -0,0 +1,32 @@
+/**
+ * Item Analysis Validation Schema
+ *
+ * Zod schemas for the admin item analysis report.
+ *
+ * @module lib/validations/item-analysis
+ */
+
+import { z } from "zod";
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+export const itemAnalysisSchema = z
+  .object({
+    examType: z.string().trim().min(1).max(50).optional(),
+    subject: z.string().trim().min(1).max(100).optional(),
+    examId: z.string().cuid().optional(),
+    flaggedOnly: z.boolean().default(false),
+    limit: z.number().int().min(1).max(100).default(20),
+    offset: z.number().int().min(0).default(0),
+  })
+  .refine((data) => data.examType || data.subject || data.examId, {
+    message: "Choose an exam type, subject or exam",
+  });
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type ItemAnalysisInput = z.input<typeof itemAnalysisSchema>;
@@ -9,6 +9,8 @@
 
 import { z } from "zod";
 import DOMPurify from "isomorphic-dompurify";
+import { getLatexError, joinLatex, splitLatex } from "@/lib/utils/latex";
+import { getRichTextError, mapRichTextProse } from "@/lib/utils/rich-text";
 
 // ============================================
 // CONSTANTS
@@ -32,6 +34,60 @@ export const QUESTION_TYPES = [
 
 export const DIFFICULTY_LEVELS = ["easy", "medium", "hard"] as const;
 
+const HTML_TAG_PATTERN = /<!--[\s\S]*?-->|<\/?[a-zA-Z][^<>]*>/g;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Sanitize text that may contain LaTeX
+ *
+ * Only the text around the maths goes through DOMPurify, which would
+ * otherwise escape `<` and `&` inside expressions. Maths is only ever
+ * displayed through KaTeX, which escapes it.
+ */
+function sanitizeLatexText(val: string): string {
+  return joinLatex(
+    splitLatex(val).map((segment) =>
+      segment.type === "text"
+        ? { ...segment, value: DOMPurify.sanitize(segment.value) }
+        : segment
+    )
+  );
+}
+
+/**
+ * Sanitize rich text (see `lib/utils/rich-text`)
+ *
+ * Raw HTML tags are removed from the prose; code and maths are kept as
+ * written, so `<` in a code block survives. The renderer only builds
+ * the allowed blocks and never renders stored text as HTML.
+ */
+function sanitizeRichText(val: string): string {
+  return mapRichTextProse(val, (prose) => prose.replace(HTML_TAG_PATTERN, ""));
+}
+
+function validateRichText(
+  val: string | undefined,
+  ctx: z.RefinementCtx<string | undefined>
+) {
+  const error = val ? getRichTextError(val) : null;
+  if (error) {
+    ctx.addIssue({ code: "custom", message: error });
+  }
+}
+
+function validateLatex(
+  val: string | undefined,
+  ctx: z.RefinementCtx<string | undefined>
+) {
+  const error = val ? getLatexError(val) : null;
+  if (error) {
+    ctx.addIssue({ code: "custom", message: error });
+  }
+}
+
 // ============================================
 // VALIDATION SCHEMAS
 // ============================================
@@ -44,7 +100,8 @@ export const questionOptionSchema = z.object({
     .string()
     .min(1, "Option text is required")
     .max(1000, "Option text must not exceed 1000 characters")
-    .transform((val) => DOMPurify.sanitize(val.trim())),
+    .superRefine(validateLatex)
+    .transform((val) => sanitizeLatexText(val.trim())),
 
   is_correct: z.boolean(),
 
@@ -53,6 +110,19 @@ export const questionOptionSchema = z.object({
   has_image: z.boolean().optional().default(false),
 });
 
+/**
+ * Fill-in-blank answer rules schema
+ */
+export const fillInBlankRulesSchema = z.object({
+  caseSensitive: z.boolean().default(false),
+  ignoreWhitespace: z.boolean().default(false),
+  numericTolerance: z
+    .number()
+    .min(0, "Numeric tolerance must be non-negative")
+    .max(1_000_000, "Numeric tolerance is too large")
+    .default(0),
+});
+
 /**
  * Main question upload schema
  *
@@ -92,8 +162,9 @@ export const questionUploadSchema = z
     question_text: z
       .string()
       .min(1, "Question text is required")
-      .max(5000, "Question text must not exceed 5000 characters")
-      .transform((val) => DOMPurify.sanitize(val.trim())),
+      .max(20000, "Question text must not exceed 20000 characters")
+      .superRefine(validateRichText)
+      .transform((val) => sanitizeRichText(val.trim())),
 
     question_point: z
       .number()
@@ -102,7 +173,14 @@ export const questionUploadSchema = z
 
     answer_explanation: z
       .string()
-      .max(2000, "Answer explanation must not exceed 2000 characters")
+      .max(10000, "Answer explanation must not exceed 10000 characters")
+      .optional()
+      .superRefine(validateRichText)
+      .transform((val) => (val ? sanitizeRichText(val.trim()) : val)),
+
+    marking_rubric: z
+      .string()
+      .max(5000, "Marking rubric must not exceed 5000 characters")
       .optional()
       .transform((val) => (val ? DOMPurify.sanitize(val.trim()) : val)),
 
@@ -134,25 +212,60 @@ export const questionUploadSchema = z
       .length(2, "Language code must be 2 characters")
       .default("en"),
 
-    // Answer options
+    // Answer options (accepted answers for fill-in-blank questions,
+    // not required for manually marked essays)
     options: z
       .array(questionOptionSchema)
-      .min(2, "At least 2 options are required")
       .max(10, "Maximum 10 options allowed"),
 
+    answer_rules: fillInBlankRulesSchema.optional(),
+
     // File metadata (not the actual files)
     has_question_image: z.boolean().optional().default(false),
   })
   .refine(
     (data) => {
       // At least one option must be correct
-      return data.options.some((opt) => opt.is_correct);
+      return (
+        data.question_type === "essay" ||
+        data.options.some((opt) => opt.is_correct)
+      );
     },
     {
       message: "At least one option must be marked as correct",
       path: ["options"],
     }
   )
+  .refine(
+    (data) => {
+      // Only fill-in-blank questions may have a single accepted answer
+      return (
+        data.question_type === "essay" ||
+        data.question_type === "fill_in_blank" ||
+        data.options.length >= 2
+      );
+    },
+    {
+      message: "At least 2 options are required",
+      path: ["options"],
+    }
+  )
+  .refine(
+    (data) => {
+      // Every fill-in-blank option is an accepted answer
+      if (
+        data.question_type === "fill_in_blank" &&
+        data.options.some((opt) => !opt.is_correct)
+      ) {
+        return false;
+      }
+      return true;
+    },
+    {
+      message: "All fill-in-blank answers must be marked as correct",
+      path: ["options"],
+    }
+  )
   .refine(
     (data) => {
       // True/false questions must have exactly 2 options
@@ -198,6 +311,8 @@ export const questionUploadSchema = z
 
 export type QuestionUploadInput = z.infer<typeof questionUploadSchema>;
 export type QuestionOptionInput = z.infer<typeof questionOptionSchema>;
+export type FillInBlankRulesInput = z.infer<typeof fillInBlankRulesSchema>;
+export type DifficultyLevel = (typeof DIFFICULTY_LEVELS)[number];
 
 // ============================================
 // VALIDATION FUNCTIONS
@@ -0,0 +1,32 @@
+/**
+ * Review Queue Validation Schema
+ *
+ * Zod schemas for the spaced-repetition review queue.
+ *
+ * @module lib/validations/review-queue
+ */
+
+import { z } from "zod";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// SM-2 recall quality: 0 (blackout) to 5 (perfect recall)
+export const MIN_RECALL_QUALITY = 0;
+export const MAX_RECALL_QUALITY = 5;
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+export const recordReviewSchema = z.object({
+  itemId: z.string().cuid(),
+  quality: z.number().int().min(MIN_RECALL_QUALITY).max(MAX_RECALL_QUALITY),
+});
+
+// ============================================
+// TYPE EXPORTS
+// ============================================
+
+export type RecordReviewInput = z.infer<typeof recordReviewSchema>;
@@ -1,5 +1,5 @@
 import { Gender } from "@/generated/prisma";
-import type { ExamWithStats } from "./exam-api";
+import type { ExamWithStats, QuestionDecrypted } from "./exam-api";
 
 /**
  * Admin user with full profile including admin fields
@@ -193,6 +193,16 @@ export interface UserSession {
   impersonatedBy: string | null;
 }
 
+/**
+ * Signed-in admin performing an action, as recorded in audit entries
+ */
+export interface AdminContext {
+  userId: string;
+  userEmail: string;
+  userName: string;
+  userRole: string;
+}
+
 /**
  * Generic admin action result
  */
@@ -382,6 +392,357 @@ export interface ExamAuditDetails extends AuditLogDetails {
   newStatus?: string;
 }
 
+/**
+ * Exam invitation as shown in the admin invitation manager
+ */
+export interface AdminExamInvitation {
+  id: string;
+  examId: string;
+  userId: string | null;
+  email: string | null;
+  recipientName: string | null;
+  recipientEmail: string | null;
+  token: string;
+  inviteUrl: string;
+  status: "pending" | "used" | "expired" | "revoked";
+  expiresAt: Date | null;
+  usedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Invitation list response with per-status counts
+ */
+export interface ExamInvitationListResponse {
+  exam: {
+    id: string;
+    title: string;
+    examType: string;
+    subject: string;
+    category: string | null;
+  };
+  invitations: AdminExamInvitation[];
+  counts: {
+    total: number;
+    pending: number;
+    used: number;
+    expired: number;
+    revoked: number;
+  };
+}
+
+/**
+ * Result of a CSV invitation batch
+ */
+export interface ExamInvitationBatchResult {
+  created: number;
+  emailed: number;
+  skipped: Array<{ email: string; reason: string }>;
+}
+
+/**
+ * Completed session waiting on essay marking
+ */
+export interface MarkingQueueItem {
+  sessionId: string;
+  examId: string;
+  examTitle: string;
+  examType: string;
+  category: string | null;
+  candidateName: string;
+  candidateEmail: string;
+  completedAt: Date | null;
+  pendingAnswers: number;
+  markedAnswers: number;
+}
+
+/**
+ * Marking queue response
+ */
+export interface MarkingQueueResponse {
+  sessions: MarkingQueueItem[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Essay answer shown to a marker alongside its rubric
+ */
+export interface MarkableAnswer {
+  answerId: string;
+  questionId: string;
+  questionText: string;
+  questionImage: string | null;
+  questionPoint: number;
+  markingRubric: string | null;
+  answerExplanation: string | null;
+  textAnswer: string | null;
+  pointsAwarded: number | null;
+  feedback: string | null;
+  markedAt: Date | null;
+}
+
+/**
+ * Session with its essay answers for marking
+ */
+export interface SessionMarkingDetails {
+  sessionId: string;
+  examTitle: string;
+  examType: string;
+  category: string | null;
+  candidateName: string;
+  candidateEmail: string;
+  completedAt: Date | null;
+  gradingStatus: "graded" | "pending";
+  score: number | null;
+  passingScore: number | null;
+  answers: MarkableAnswer[];
+}
+
+/**
+ * Result of marking a single essay answer
+ */
+export interface MarkAnswerResult {
+  answerId: string;
+  pointsAwarded: number;
+  pendingAnswers: number;
+  gradingStatus: "graded" | "pending";
+  score: number;
+  passed?: boolean; // Set once the session is fully marked
+}
+
+/**
+ * Result of releasing exam results to candidates
+ */
+export interface ResultsReleaseSummary {
+  examId: string;
+  releasedAt: Date;
+  participants: number;
+  emailsSent: number;
+}
+
+/**
+ * Problem detected by item analysis
+ */
+export type ItemAnalysisFlag =
+  | "difficulty_mismatch" // Stated difficulty disagrees with the p-value
+  | "unused_distractor" // A wrong option nobody picked
+  | "possible_key_error"; // Answer key is likely wrong
+
+/**
+ * How often one option of a question was picked
+ */
+export interface ItemOptionAnalysis {
+  optionId: string;
+  label: string; // A, B, C, ...
+  optionText: string;
+  isCorrect: boolean;
+  picks: number;
+  pickRate: number; // 0-1
+  meanScore: number | null; // Mean session score of candidates who picked it
+}
+
+/**
+ * Psychometric statistics for a single question
+ */
+export interface ItemAnalysis {
+  questionId: string;
+  questionText: string;
+  questionType: string;
+  examType: string;
+  subject: string;
+  year: number;
+  statedDifficulty: string;
+  empiricalDifficulty: "easy" | "medium" | "hard" | null;
+  responses: number;
+  pValue: number | null; // Proportion correct, 0-1
+  discrimination: number | null; // Point-biserial, -1 to 1
+  averageTime: number | null; // In seconds
+  options: ItemOptionAnalysis[];
+  flags: ItemAnalysisFlag[];
+}
+
+/**
+ * Item analysis report response
+ */
+export interface ItemAnalysisResponse {
+  items: ItemAnalysis[];
+  total: number;
+  flaggedCount: number;
+  minResponses: number; // Responses needed before a question is flagged
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Number of scored sessions in a score range
+ */
+export interface ScoreDistributionBucket {
+  label: string; // e.g. "70-79"
+  min: number;
+  max: number;
+  count: number;
+}
+
+/**
+ * Question with the lowest proportion of correct answers in an exam
+ */
+export interface HardQuestion {
+  questionId: string;
+  questionText: string;
+  responses: number;
+  pValue: number;
+  discrimination: number | null;
+  averageTime: number | null; // In seconds
+}
+
+/**
+ * Attempt, score and integrity statistics for a single exam
+ */
+export interface ExamAnalytics {
+  examId: string;
+  title: string;
+  examType: string;
+  subject: string;
+  year: number;
+  passingScore: number | null;
+  attempts: number;
+  candidates: number; // Distinct users
+  inProgress: number;
+  completed: number;
+  abandoned: number;
+  expired: number; // Timed out without an answer
+  completionRate: number | null; // Of finished attempts, 0-100
+  abandonmentRate: number | null; // Abandoned or expired, 0-100
+  scored: number; // Completed, fully graded and not disqualified
+  averageScore: number | null;
+  passRate: number | null; // Null when the exam has no passing score
+  averageDuration: number | null; // In seconds
+  scoreDistribution: ScoreDistributionBucket[];
+  violationsByType: Array<{ type: string; count: number }>;
+  totalViolations: number;
+  hardestQuestions: HardQuestion[];
+}
+
+/**
+ * Exported exam analytics file
+ */
+export interface ExamAnalyticsExport {
+  buffer: number[];
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Session listed in the proctoring console
+ */
+export interface ProctoringQueueItem {
+  sessionId: string;
+  examId: string;
+  examTitle: string;
+  examType: string;
+  category: string | null;
+  candidateName: string;
+  candidateEmail: string;
+  status: string;
+  startedAt: Date;
+  completedAt: Date | null;
+  violationCount: number;
+  proctoringStatus: string;
+  reviewedAt: Date | null;
+}
+
+/**
+ * Proctoring console response
+ */
+export interface ProctoringQueueResponse {
+  sessions: ProctoringQueueItem[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Entry in a session's proctoring timeline
+ */
+export interface ProctoringTimelineEvent {
+  id: string;
+  kind: "started" | "answer" | "violation" | "resumed" | "completed";
+  timestamp: Date;
+  violationType?: string;
+  metadata?: string | null; // Violation metadata (JSON), or resume IP/device
+  questionNumber?: number; // Position in the candidate's question order
+  timeSpent?: number; // Seconds spent on the answered question
+}
+
+/**
+ * Session with its violations and answers on one timeline
+ */
+export interface SessionProctoringDetails {
+  sessionId: string;
+  examId: string;
+  examTitle: string;
+  examType: string;
+  category: string | null;
+  candidateName: string;
+  candidateEmail: string;
+  status: string;
+  completionReason: string | null;
+  startedAt: Date;
+  completedAt: Date | null;
+  score: number | null;
+  violationCount: number;
+  violationsByType: Array<{ type: string; count: number }>;
+  proctoringStatus: string;
+  proctoringNote: string | null;
+  reviewerName: string | null;
+  reviewedAt: Date | null;
+  timeline: ProctoringTimelineEvent[];
+}
+
+/**
+ * Result of a proctoring review
+ */
+export interface ProctoringReviewResult {
+  sessionId: string;
+  proctoringStatus: string;
+  reviewedAt: Date;
+}
+
+/**
+ * Question drawn for a blueprint row
+ */
+export interface BlueprintPreviewQuestion extends QuestionDecrypted {
+  ruleIndex: number; // Blueprint row the question was drawn for
+  recentlyUsed: boolean; // Also in one of the admin's recent exams
+}
+
+/**
+ * How well a blueprint row was filled
+ */
+export interface BlueprintRuleSummary {
+  subject: string;
+  tag: string | null;
+  difficultyLevel: string | null;
+  requested: number;
+  available: number; // Matching questions left when the row was filled
+  selected: number;
+}
+
+/**
+ * Questions assembled from a blueprint, before the exam is saved
+ */
+export interface ExamBlueprintPreview {
+  questions: BlueprintPreviewQuestion[];
+  rules: BlueprintRuleSummary[];
+  totalPoints: number;
+  targetPoints: number | null;
+  recentExamCount: number; // Recent exams whose questions were avoided
+}
+
 // ============================================
 // SUMMARY OF CHANGES
 // ============================================
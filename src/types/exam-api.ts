@@ -12,6 +12,11 @@ import type {
   ExamUploadInput,
   QuestionSearchInput,
 } from "@/lib/validations/exam";
+import type {
+  AntiCheatPolicy,
+  ExamSectionConfig,
+  QuestionPool,
+} from "@/types/exam-session";
 
 // ============================================
 // REQUEST TYPES
@@ -200,12 +205,17 @@ export interface ExamCreateData {
   maxAttempts: number | null;
   shuffleQuestions: boolean;
   randomizeOptions: boolean;
+  allowAnswerChanges: boolean | null;
   isPublic: boolean;
   isFree: boolean;
   status: string;
   category: string | null;
   startDate: Date | null;
   endDate: Date | null;
+  resultReleaseMode: string;
+  resultsReleaseAt: Date | null;
+  antiCheatPolicy: string | null; // JSON AntiCheatPolicy
+  questionPools: string | null; // JSON QuestionPool[]
   createdBy: string;
   questions: {
     create: ExamQuestionCreateData[];
@@ -224,12 +234,18 @@ export interface CreateExamFormProps {
     max_attempts: string;
     shuffle_questions: boolean;
     randomize_options: boolean;
+    allow_answer_changes: boolean;
     is_public: boolean;
     is_free: boolean;
     status: string;
     category: string;
     start_date: string;
     end_date: string;
+    result_release_mode: string;
+    results_release_at: string;
+    anti_cheat_policy: AntiCheatPolicy;
+    question_pools: QuestionPool[];
+    sections: ExamSectionConfig[];
     questions: QuestionDecrypted[];
   }>;
   onSubmit?: (data: { examId: string; exam: unknown }) => Promise<void>;
@@ -10,12 +10,19 @@ export interface Exam {
   maxAttempts: number | null;
   shuffleQuestions: boolean;
   randomizeOptions: boolean;
+  allowAnswerChanges: boolean | null;
   isPublic: boolean;
   isFree: boolean;
   status: string;
   category: string | null;
   startDate: Date | null;
   endDate: Date | null;
+  resultReleaseMode: string;
+  resultsReleaseAt: Date | null;
+  resultsReleasedAt: Date | null;
+  isAdaptive: boolean;
+  antiCheatPolicy: string | null; // JSON AntiCheatPolicy; null = category default
+  questionPools: string | null; // JSON QuestionPool[]; null = every exam question
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
@@ -23,6 +30,78 @@ export interface Exam {
   totalQuestions?: number;
 }
 
+export type GradingStatus = "graded" | "pending";
+
+export type CompletionReason = "submitted" | "time_expired" | "violation_limit";
+
+export type ViolationType =
+  | "tab_switch"
+  | "window_blur"
+  | "copy_attempt"
+  | "paste_attempt"
+  | "fullscreen_exit";
+
+// Weighted violations add up to a session's violation score, which is
+// checked against the warning and auto-submit thresholds
+export interface AntiCheatPolicy {
+  monitoredViolations: ViolationType[];
+  violationWeights: Record<ViolationType, number>;
+  warningThreshold: number | null; // null = no warning
+  autoSubmitThreshold: number | null; // null = never auto-submit
+  blockCopyPaste: boolean;
+}
+
+export interface QuestionPool {
+  label: string; // e.g. "Easy Algebra"
+  tag?: string; // Lowercase; omitted = any tag
+  difficultyLevel?: string; // Omitted = any level
+  count: number; // Questions drawn per candidate
+}
+
+export interface ExamSectionConfig {
+  title: string; // e.g. "Objective"
+  instructions?: string;
+  timeLimit?: number; // Minutes; omitted = only the exam duration applies
+  allowReturn: boolean; // false = closed once the candidate moves on
+  questionIds: string[]; // In exam order
+}
+
+// Snapshot of a section taken when a session starts, so editing the exam
+// never changes a paper already in progress
+export interface SessionSection {
+  sectionId: string;
+  title: string;
+  instructions: string | null;
+  timeLimit: number | null; // Minutes
+  allowReturn: boolean;
+  startIndex: number; // Position of the section's first question
+  questionCount: number;
+  startedAt: string | null; // ISO time; null until the candidate reaches it
+}
+
+export interface SectionProgress {
+  sections: SessionSection[];
+  currentSection: number;
+  openSections: boolean[]; // Whether each section can be viewed and answered
+  sectionEndTime: Date | null; // When the current section runs out of time
+}
+
+export interface SectionResult {
+  sectionId: string;
+  title: string;
+  totalQuestions: number;
+  correctAnswers: number;
+  pointsEarned: number;
+  totalPoints: number;
+  score: number; // Percentage of the section's points
+}
+
+export type ProctoringStatus =
+  | "unreviewed"
+  | "cleared"
+  | "flagged"
+  | "disqualified";
+
 export interface ExamSession {
   id: string;
   userId: string;
@@ -34,12 +113,21 @@ export interface ExamSession {
   configuredQuestions: number;
   shuffleQuestions: boolean;
   shuffleOptions: boolean;
+  allowAnswerChanges?: boolean;
   status: string;
+  gradingStatus?: GradingStatus;
+  completionReason?: CompletionReason | null;
   score: number | null;
+  pointsEarned?: number | null;
+  totalPoints?: number | null;
   totalQuestions: number;
   answeredQuestions: number;
   violationCount: number;
   questionOrder: string;
+  flaggedQuestions?: string | null;
+  sections?: string | null; // JSON SessionSection[]
+  deviceTokenHash?: string | null; // Device the session is bound to
+  proctoringStatus?: ProctoringStatus;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -54,6 +142,10 @@ export interface ExamAnswer {
   timeSpent: number;
   answeredAt: Date;
   createdAt: Date;
+  pointsAwarded?: number;
+  feedback?: string;
+  markedBy?: string;
+  markedAt?: Date;
 }
 
 export interface Question {
@@ -70,6 +162,7 @@ export interface Question {
   tags: unknown;
   timeLimit?: number;
   language: string;
+  answerRules?: unknown; // Fill-in-blank matching rules (JSON)
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
@@ -89,9 +182,22 @@ export interface ExamQuestion {
   id: string;
   examId: string;
   questionId: string;
+  sectionId: string | null;
   orderIndex: number;
 }
 
+export interface ExamSection {
+  id: string;
+  examId: string;
+  title: string;
+  instructions: string | null;
+  orderIndex: number;
+  timeLimit: number | null;
+  allowReturn: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface ExamInvitation {
   id: string;
   examId: string;
@@ -100,6 +206,7 @@ export interface ExamInvitation {
   token: string;
   expiresAt?: Date;
   usedAt?: Date;
+  revokedAt?: Date;
   createdBy: string;
   createdAt: Date;
 }
@@ -138,6 +245,7 @@ export interface ExamConfigResult {
     timeLimit?: number;
     shuffleQuestions: boolean;
     shuffleOptions: boolean;
+    antiCheatPolicy: AntiCheatPolicy;
   };
 }
 
@@ -156,6 +264,93 @@ export interface ExamSessionResult {
   };
 }
 
+export interface ActiveExamSession {
+  sessionId: string;
+  examId: string;
+  examTitle: string;
+  startedAt: Date;
+  remainingTime?: number;
+  totalQuestions: number;
+  answeredQuestions: number;
+  requiresPassword: boolean; // false = recent sign-in is enough to resume
+}
+
+export interface ActiveExamSessionResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: ActiveExamSession | null;
+}
+
+export interface ResumedAnswer {
+  questionId: string;
+  selectedOptionId?: string;
+  textAnswer?: string;
+  answeredAt: Date;
+}
+
+// State the exam interface reopens with after a resume
+export interface ResumedExamSession {
+  sessionId: string;
+  examId: string;
+  questionOrder: string[];
+  answers: ResumedAnswer[];
+  flaggedQuestions: string[];
+  serverTime: Date;
+  serverEndTime?: Date;
+  remainingTime?: number;
+  sectionProgress?: SectionProgress; // Sectioned exams only
+}
+
+export interface ResumeSessionResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: ResumedExamSession;
+}
+
+export interface SmartPracticeSubject {
+  subject: string;
+  availableQuestions: number;
+  targetDifficulty: string; // Level the next session will focus on
+}
+
+export interface SmartPracticeSubjectsResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: SmartPracticeSubject[];
+}
+
+export interface ExamSessionDetails {
+  sessionId: string;
+  examId: string;
+  examTitle: string;
+  examType: string;
+  subject: string;
+  year: number;
+  category: string;
+  status: string;
+  startedAt: Date;
+  serverTime: Date;
+  serverEndTime?: Date;
+  remainingTime?: number;
+  totalQuestions: number;
+  answeredQuestions: number;
+  violationCount: number;
+  violationScore: number;
+  allowAnswerChanges: boolean;
+  antiCheatPolicy: AntiCheatPolicy;
+  sectionProgress?: SectionProgress; // Sectioned exams only
+}
+
+export interface SessionDetailsResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: ExamSessionDetails;
+}
+
 export interface QuestionData {
   id: string;
   questionText: string;
@@ -187,6 +382,7 @@ export interface GetQuestionResult {
 export interface AnswerFeedback {
   isCorrect: boolean;
   correctOptionId?: string;
+  correctAnswer?: string; // Accepted answer for text-answer questions
   explanation?: string;
 }
 
@@ -197,17 +393,122 @@ export interface SubmitAnswerResult {
   feedback?: AnswerFeedback;
 }
 
+export interface ClearAnswerResult {
+  success: boolean;
+  message: string;
+  code?: string;
+}
+
+export interface FinishSectionResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: SectionProgress;
+}
+
+export interface FlagQuestionResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: {
+    questionId: string;
+    flagged: boolean;
+    flaggedCount: number;
+  };
+}
+
+export interface ReviewQuestionStatus {
+  questionIndex: number;
+  questionId: string;
+  isAnswered: boolean;
+  isFlagged: boolean;
+}
+
+export interface SessionReviewSummary {
+  totalQuestions: number;
+  answeredCount: number;
+  unansweredCount: number;
+  flaggedCount: number;
+  questions: ReviewQuestionStatus[];
+}
+
+export interface SessionReviewResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: SessionReviewSummary;
+}
+
+export interface RankedParticipant {
+  userId: string;
+  rank: number;
+  score: number;
+  timeTaken: number; // Seconds from start to submission
+  completedAt: Date;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  participantName: string;
+  score: number;
+  timeTaken: number; // In seconds
+  completedAt: Date;
+  isCurrentUser: boolean;
+}
+
+export interface ExamLeaderboard {
+  examId: string;
+  examTitle: string;
+  released: boolean;
+  releaseAt: Date | null;
+  totalParticipants: number;
+  currentUserRank?: number;
+  entries: LeaderboardEntry[]; // Empty until scores are released
+}
+
+export interface LeaderboardResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: ExamLeaderboard;
+}
+
+export interface LiveProgressEntry {
+  participantName: string;
+  answeredQuestions: number;
+  totalQuestions: number;
+  isCurrentUser: boolean;
+}
+
+export interface LiveProgress {
+  examId: string;
+  activeParticipants: LiveProgressEntry[];
+  completedParticipants: number;
+  serverTime: Date;
+}
+
+export interface LiveProgressResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: LiveProgress;
+}
+
 export interface ExamCompletionResult {
   success: boolean;
   message: string;
   code?: string;
   data?: {
     sessionId: string;
-    score: number;
-    correctAnswers: number;
+    resultsReleased: boolean;
+    score?: number; // Score fields are omitted until results are released
+    pointsEarned?: number;
+    totalPoints?: number;
+    correctAnswers?: number;
     totalQuestions: number;
     completedAt: Date;
     passed?: boolean;
+    gradingStatus: GradingStatus;
   };
 }
 
@@ -217,6 +518,8 @@ export interface ViolationTrackingResult {
   code?: string;
   data?: {
     violationCount: number;
+    violationScore: number;
+    warning: boolean; // Score has reached the warning threshold
     autoSubmitted: boolean;
     sessionStatus: string;
   };
@@ -231,26 +534,75 @@ export interface ServerTimeSync {
   isExpired: boolean;
 }
 
+export interface TopicPerformance {
+  subject: string;
+  topic: string; // Question tag
+  attempts: number;
+  correctAnswers: number;
+  accuracy: number; // Percentage of graded answers that were correct
+  averageTime: number; // Seconds per answer
+}
+
 export interface ExamResultsData {
   sessionId: string;
+  examId: string;
   examTitle: string;
   examType: string;
   category: string;
-  score: number;
-  correctAnswers: number;
+  resultsReleased: boolean;
+  resultsReleaseAt?: Date | null; // Scheduled release time, if any
+  score?: number; // Score fields are omitted until results are released
+  pointsEarned?: number;
+  totalPoints?: number;
+  correctAnswers?: number;
   totalQuestions: number;
   timeSpent: number;
-  passed?: boolean;
+  passed?: boolean; // Undefined while essay answers await marking
+  gradingStatus: GradingStatus;
+  completionReason?: CompletionReason;
   completedAt: Date;
+  disqualified?: boolean; // Disqualified on proctoring review; no score shown
+  certificateAvailable?: boolean; // Passed test-mode sessions
   questions?: Array<{
     questionText: string;
     userAnswer?: string;
     correctAnswer?: string;
     isCorrect: boolean;
     explanation?: string;
+    pointsAwarded?: number; // Manually marked answers only
+    feedback?: string; // Marker feedback
   }>;
   leaderboardPosition?: number;
   totalParticipants?: number;
+  topicsToRevise?: TopicPerformance[]; // Omitted until results are released
+  sectionResults?: SectionResult[]; // Sectioned exams, once released
+}
+
+export interface CertificateDownloadResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: {
+    buffer: string; // Base64 PDF
+    filename: string;
+    mimeType: string;
+    verificationCode: string;
+  };
+}
+
+export interface CertificateVerification {
+  verificationCode: string;
+  candidateName: string;
+  examTitle: string;
+  score: number;
+  issuedAt: Date;
+}
+
+export interface CertificateVerificationResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: CertificateVerification;
 }
 
 export interface ExamResultsResult {
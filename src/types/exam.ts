@@ -1,5 +1,11 @@
 // Central types file for exam-related types
 
+import type {
+  AntiCheatPolicy,
+  ExamSectionConfig,
+  QuestionPool,
+} from "@/types/exam-session";
+
 export interface QuestionOption {
   option_text: string;
   option_image: string;
@@ -34,12 +40,18 @@ export interface ExamFormData {
   max_attempts: number | null;
   shuffle_questions: boolean;
   randomize_options: boolean;
+  allow_answer_changes: boolean | null;
   is_public: boolean;
   is_free: boolean;
   status: string;
   category: string;
   start_date: string | null;
   end_date: string | null;
+  result_release_mode: string;
+  results_release_at: string | null;
+  anti_cheat_policy: AntiCheatPolicy | null;
+  question_pools: QuestionPool[] | null;
+  sections: ExamSectionConfig[] | null;
   questions: Question[];
 }
 
@@ -54,12 +66,18 @@ export interface InitialExamFormData {
   max_attempts?: string;
   shuffle_questions?: boolean;
   randomize_options?: boolean;
+  allow_answer_changes?: boolean;
   is_public?: boolean;
   is_free?: boolean;
   status?: string;
   category?: string;
   start_date?: string;
   end_date?: string;
+  result_release_mode?: string;
+  results_release_at?: string;
+  anti_cheat_policy?: AntiCheatPolicy;
+  question_pools?: QuestionPool[];
+  sections?: ExamSectionConfig[];
   questions?: Question[];
 }
 
@@ -83,12 +101,18 @@ export function examToFormData(exam: ExamData): InitialExamFormData {
     max_attempts: exam.max_attempts?.toString() || "",
     shuffle_questions: exam.shuffle_questions,
     randomize_options: exam.randomize_options,
+    allow_answer_changes: exam.allow_answer_changes ?? undefined,
     is_public: exam.is_public,
     is_free: exam.is_free,
     status: exam.status,
     category: exam.category,
     start_date: exam.start_date || "",
     end_date: exam.end_date || "",
+    result_release_mode: exam.result_release_mode,
+    results_release_at: exam.results_release_at || "",
+    anti_cheat_policy: exam.anti_cheat_policy ?? undefined,
+    question_pools: exam.question_pools ?? undefined,
+    sections: exam.sections ?? undefined,
     questions: exam.questions,
   };
 }
@@ -8,6 +8,7 @@
  */
 
 import type { Question, QuestionOption } from "@/generated/prisma";
+import type { FillInBlankRules } from "@/lib/utils/exam-scoring";
 import type { QuestionUploadInput } from "@/lib/validations/question";
 import { BulkFormat } from "./bulk-import";
 
@@ -65,6 +66,18 @@ export type QuestionUploadResponse =
   | QuestionUploadSuccess
   | QuestionUploadError;
 
+/**
+ * Image upload response for images inside question text or explanations
+ */
+export interface QuestionContentImageResponse {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: {
+    url: string; // Public URL for ![alt](url)
+  };
+}
+
 // ============================================
 // DATABASE TYPES
 // ============================================
@@ -276,10 +289,12 @@ export interface QuestionDecrypted {
   questionImage: string | null;
   questionPoint: number;
   answerExplanation: string | null; // DECRYPTED
+  markingRubric?: string | null; // DECRYPTED (essay only)
   difficultyLevel: string;
   tags: string[]; // Parsed JSON array
   timeLimit: number | null;
   language: string;
+  answerRules?: FillInBlankRules | null; // Fill-in-blank only
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
@@ -462,6 +477,12 @@ export interface QuestionBulkRow extends Record<string, unknown> {
   option_5_text?: string | null;
   option_5_is_correct?: boolean;
   option_5_image?: string | null;
+
+  // Essay marking guide (will be encrypted)
+  marking_rubric?: string | null;
+
+  // Fill-in-blank answer rules (JSON FillInBlankRules)
+  answer_rules?: string | null;
 }
 
 /**
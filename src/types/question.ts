@@ -80,6 +80,7 @@ export interface AddQuestionFormProps {
     question_image: string;
     question_point: string;
     answer_explanation: string;
+    marking_rubric: string;
     difficulty_level: string;
     tags: string;
     time_limit: string;
@@ -89,6 +90,11 @@ export interface AddQuestionFormProps {
       is_correct: boolean;
       order_index: number;
     }[];
+    answer_rules: {
+      caseSensitive: boolean;
+      ignoreWhitespace: boolean;
+      numericTolerance: number;
+    } | null;
   }>;
   onSubmit?: (data: unknown, addAnother: boolean) => Promise<void>;
   isEditing?: boolean;
@@ -0,0 +1,42 @@
+import type { QuestionData } from "@/types/exam-session";
+
+/**
+ * A due review item with everything needed to reveal the answer
+ */
+export interface ReviewCard {
+  itemId: string;
+  subject: string;
+  question: QuestionData; // Answer fields hidden
+  correctOptionIds: string[];
+  acceptedAnswers: string[]; // Fill-in-blank questions
+  explanation?: string;
+  repetitions: number;
+  interval: number; // Days
+  lapses: number;
+  dueAt: Date;
+}
+
+export interface ReviewQueue {
+  dueCount: number;
+  totalCount: number;
+  nextDueAt: Date | null; // Earliest item not yet due
+  cards: ReviewCard[];
+}
+
+export interface ReviewQueueResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: ReviewQueue;
+}
+
+export interface RecordReviewResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: {
+    itemId: string;
+    interval: number;
+    dueAt: Date;
+  };
+}
@@ -0,0 +1,74 @@
+import type { GradingStatus, TopicPerformance } from "@/types/exam-session";
+
+export interface ScoreAverage {
+  key: string; // Subject or exam type
+  averageScore: number;
+  attempts: number;
+  bestScore: number;
+}
+
+export interface ScoreTrendPoint {
+  sessionId: string;
+  completedAt: Date;
+  score: number;
+  examTitle: string;
+  subject: string;
+}
+
+export interface InProgressSession {
+  sessionId: string;
+  examId: string;
+  examTitle: string;
+  subject: string;
+  examType: string;
+  category: string;
+  startedAt: Date;
+  answeredQuestions: number;
+  totalQuestions: number;
+  remainingTime: number | null; // Seconds, null when untimed
+}
+
+export interface ExamHistoryEntry {
+  sessionId: string;
+  examId: string;
+  examTitle: string;
+  subject: string;
+  examType: string;
+  category: string;
+  status: string;
+  gradingStatus: GradingStatus;
+  score: number | null; // Null while results are unreleased or ungraded
+  resultsReleased: boolean;
+  disqualified: boolean; // Disqualified on proctoring review
+  timeSpent: number; // Seconds
+  completedAt: Date | null;
+}
+
+export interface StudentDashboardSummary {
+  completedExams: number;
+  averageScore: number | null;
+  bestScore: number | null;
+  totalTimeSpent: number; // Seconds
+  strongestSubject: ScoreAverage | null;
+  weakestSubject: ScoreAverage | null;
+}
+
+/**
+ * Exam history and progress for the signed-in candidate
+ */
+export interface StudentDashboardData {
+  summary: StudentDashboardSummary;
+  subjects: ScoreAverage[];
+  examTypes: ScoreAverage[];
+  topicsToRevise: TopicPerformance[];
+  scoreTrend: ScoreTrendPoint[];
+  inProgress: InProgressSession[];
+  history: ExamHistoryEntry[];
+}
+
+export interface StudentDashboardResult {
+  success: boolean;
+  message: string;
+  code?: string;
+  data?: StudentDashboardData;
+}